@@ -21,9 +21,13 @@ import type { Modules } from '@strapi/types';
  * EditView
  * -----------------------------------------------------------------------------------------------*/
 
-const cleanData = (
-  data: WebhookFormValues
-): Omit<CreateWebhook.Request['body'], 'id' | 'isEnabled'> => ({
+const parseJSON = (value?: string | null) => (value && value.trim() ? JSON.parse(value) : null);
+
+const cleanData = ({
+  filters,
+  template,
+  ...data
+}: WebhookFormValues): Omit<CreateWebhook.Request['body'], 'id' | 'isEnabled'> => ({
   ...data,
   headers: data.headers.reduce<Modules.WebhookStore.Webhook['headers']>((acc, { key, value }) => {
     if (key !== '') {
@@ -32,6 +36,15 @@ const cleanData = (
 
     return acc;
   }, {}),
+  filters: {
+    uids: filters.uids,
+    locales: (filters.locales || '')
+      .split(',')
+      .map((locale) => locale.trim())
+      .filter(Boolean),
+    condition: parseJSON(filters.condition),
+  },
+  template: parseJSON(template),
 });
 
 const EditPage = () => {
@@ -0,0 +1,334 @@
+import * as React from 'react';
+
+import {
+  Badge,
+  Box,
+  Flex,
+  IconButton,
+  Modal,
+  Table,
+  Tbody,
+  Td,
+  Th,
+  Thead,
+  Tr,
+  Typography,
+  VisuallyHidden,
+} from '@strapi/design-system';
+import { ArrowClockwise, Eye } from '@strapi/icons';
+import { useIntl } from 'react-intl';
+
+import { Pagination } from '../../../../../components/Pagination';
+import { useNotification } from '../../../../../features/Notifications';
+import { useAPIErrorHandler } from '../../../../../hooks/useAPIErrorHandler';
+import { useQueryParams } from '../../../../../hooks/useQueryParams';
+import {
+  useGetWebhookDeliveriesQuery,
+  useRedeliverWebhookDeliveryMutation,
+} from '../../../../../services/webhooks';
+
+import type { Modules } from '@strapi/types';
+
+type WebhookDelivery = Modules.WebhookDeliveryStore.WebhookDelivery;
+
+/* -------------------------------------------------------------------------------------------------
+ * DeliveryLog
+ * -----------------------------------------------------------------------------------------------*/
+
+interface DeliveryLogProps {
+  webhookId: Modules.WebhookStore.Webhook['id'];
+}
+
+const DeliveryLog = ({ webhookId }: DeliveryLogProps) => {
+  const { formatMessage, formatDate } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { _unstableFormatAPIError: formatAPIError } = useAPIErrorHandler();
+  const [{ query }] = useQueryParams<{ page?: string; pageSize?: string }>();
+  const [selectedDelivery, setSelectedDelivery] = React.useState<WebhookDelivery | null>(null);
+
+  const { data, isLoading } = useGetWebhookDeliveriesQuery({
+    id: webhookId,
+    page: Number(query.page ?? 1),
+    pageSize: Number(query.pageSize ?? 10),
+  });
+  const [redeliver] = useRedeliverWebhookDeliveryMutation();
+
+  const deliveries = data?.data ?? [];
+  const pagination = data?.meta.pagination;
+
+  const handleRedeliver = async (delivery: WebhookDelivery) => {
+    const res = await redeliver({ id: webhookId, deliveryId: delivery.id });
+
+    if ('error' in res) {
+      toggleNotification({
+        type: 'danger',
+        message: formatAPIError(res.error),
+      });
+
+      return;
+    }
+
+    toggleNotification({
+      type: 'success',
+      message: formatMessage({
+        id: 'Settings.webhooks.deliveries.redelivered',
+        defaultMessage: 'Delivery sent again',
+      }),
+    });
+  };
+
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <Box background="neutral0" padding={8} shadow="filterShadow" hasRadius>
+      <Flex direction="column" alignItems="stretch" gap={4}>
+        <Typography variant="delta" tag="h2">
+          {formatMessage({
+            id: 'Settings.webhooks.deliveries.title',
+            defaultMessage: 'Recent deliveries',
+          })}
+        </Typography>
+        {deliveries.length === 0 ? (
+          <Typography textColor="neutral600">
+            {formatMessage({
+              id: 'Settings.webhooks.deliveries.empty',
+              defaultMessage: 'No deliveries yet',
+            })}
+          </Typography>
+        ) : (
+          <>
+            <Table colCount={6} rowCount={deliveries.length + 1}>
+              <Thead>
+                <Tr>
+                  <Th>
+                    <Typography variant="sigma" textColor="neutral600">
+                      {formatMessage({
+                        id: 'Settings.webhooks.form.events',
+                        defaultMessage: 'Events',
+                      })}
+                    </Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma" textColor="neutral600">
+                      {formatMessage({
+                        id: 'Settings.webhooks.list.th.status',
+                        defaultMessage: 'Status',
+                      })}
+                    </Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma" textColor="neutral600">
+                      {formatMessage({
+                        id: 'Settings.webhooks.deliveries.th.response',
+                        defaultMessage: 'Response',
+                      })}
+                    </Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma" textColor="neutral600">
+                      {formatMessage({
+                        id: 'Settings.webhooks.deliveries.th.attempts',
+                        defaultMessage: 'Attempts',
+                      })}
+                    </Typography>
+                  </Th>
+                  <Th>
+                    <Typography variant="sigma" textColor="neutral600">
+                      {formatMessage({
+                        id: 'Settings.webhooks.deliveries.th.createdAt',
+                        defaultMessage: 'Date',
+                      })}
+                    </Typography>
+                  </Th>
+                  <Th>
+                    <VisuallyHidden>
+                      {formatMessage({
+                        id: 'Settings.webhooks.list.th.actions',
+                        defaultMessage: 'Actions',
+                      })}
+                    </VisuallyHidden>
+                  </Th>
+                </Tr>
+              </Thead>
+              <Tbody>
+                {deliveries.map((delivery) => (
+                  <Tr key={delivery.id}>
+                    <Td>
+                      <Typography textColor="neutral800">{delivery.event}</Typography>
+                    </Td>
+                    <Td>
+                      <DeliveryStatus status={delivery.status} />
+                    </Td>
+                    <Td>
+                      <Typography textColor="neutral800">
+                        {delivery.lastStatusCode ?? '-'}
+                      </Typography>
+                    </Td>
+                    <Td>
+                      <Typography textColor="neutral800">{delivery.attemptCount}</Typography>
+                    </Td>
+                    <Td>
+                      <Typography textColor="neutral800">
+                        {formatDate(new Date(delivery.createdAt), {
+                          dateStyle: 'medium',
+                          timeStyle: 'short',
+                        })}
+                      </Typography>
+                    </Td>
+                    <Td>
+                      <Flex gap={1} justifyContent="flex-end">
+                        <IconButton
+                          onClick={() => setSelectedDelivery(delivery)}
+                          label={formatMessage({
+                            id: 'Settings.webhooks.deliveries.view',
+                            defaultMessage: 'View attempts',
+                          })}
+                          variant="ghost"
+                        >
+                          <Eye />
+                        </IconButton>
+                        <IconButton
+                          onClick={() => handleRedeliver(delivery)}
+                          label={formatMessage({
+                            id: 'Settings.webhooks.deliveries.redeliver',
+                            defaultMessage: 'Redeliver',
+                          })}
+                          variant="ghost"
+                        >
+                          <ArrowClockwise />
+                        </IconButton>
+                      </Flex>
+                    </Td>
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+            {pagination && (
+              <Pagination.Root {...pagination}>
+                <Pagination.PageSize />
+                <Pagination.Links />
+              </Pagination.Root>
+            )}
+          </>
+        )}
+      </Flex>
+      <Modal.Root
+        open={selectedDelivery !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedDelivery(null);
+          }
+        }}
+      >
+        {selectedDelivery && <AttemptsModal delivery={selectedDelivery} />}
+      </Modal.Root>
+    </Box>
+  );
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * DeliveryStatus
+ * -----------------------------------------------------------------------------------------------*/
+
+const DeliveryStatus = ({ status }: Pick<WebhookDelivery, 'status'>) => {
+  const { formatMessage } = useIntl();
+
+  if (status === 'success') {
+    return (
+      <Badge textColor="success600" backgroundColor="success100">
+        {formatMessage({
+          id: 'Settings.webhooks.deliveries.status.success',
+          defaultMessage: 'success',
+        })}
+      </Badge>
+    );
+  }
+
+  if (status === 'failed') {
+    return (
+      <Badge textColor="danger600" backgroundColor="danger100">
+        {formatMessage({
+          id: 'Settings.webhooks.deliveries.status.failed',
+          defaultMessage: 'failed',
+        })}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge textColor="warning600" backgroundColor="warning100">
+      {formatMessage({
+        id: 'Settings.webhooks.deliveries.status.pending',
+        defaultMessage: 'pending',
+      })}
+    </Badge>
+  );
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * AttemptsModal
+ * -----------------------------------------------------------------------------------------------*/
+
+interface AttemptsModalProps {
+  delivery: WebhookDelivery;
+}
+
+const AttemptsModal = ({ delivery }: AttemptsModalProps) => {
+  const { formatMessage, formatDate } = useIntl();
+  const attempts = delivery.attempts ?? [];
+
+  return (
+    <Modal.Content>
+      <Modal.Header>
+        <Modal.Title>
+          {formatMessage(
+            {
+              id: 'Settings.webhooks.deliveries.attempts.title',
+              defaultMessage: 'Attempts for {event}',
+            },
+            { event: delivery.event }
+          )}
+        </Modal.Title>
+      </Modal.Header>
+      <Modal.Body>
+        <Flex direction="column" alignItems="stretch" gap={4}>
+          {attempts.map((attempt) => (
+            <Flex key={attempt.id} direction="column" alignItems="stretch" gap={1}>
+              <Flex gap={4}>
+                <Typography fontWeight="semiBold">#{attempt.attempt}</Typography>
+                <Typography>
+                  {formatMessage(
+                    {
+                      id: 'Settings.webhooks.deliveries.attempts.status',
+                      defaultMessage: 'Status {statusCode}',
+                    },
+                    { statusCode: attempt.statusCode }
+                  )}
+                </Typography>
+                <Typography textColor="neutral600">{attempt.duration}ms</Typography>
+                <Typography textColor="neutral600">
+                  {formatDate(new Date(attempt.createdAt), {
+                    dateStyle: 'medium',
+                    timeStyle: 'medium',
+                  })}
+                </Typography>
+              </Flex>
+              {attempt.response && (
+                <Box background="neutral100" padding={2} hasRadius>
+                  <Typography variant="pi" tag="pre" style={{ whiteSpace: 'pre-wrap' }}>
+                    {attempt.response}
+                  </Typography>
+                </Box>
+              )}
+            </Flex>
+          ))}
+        </Flex>
+      </Modal.Body>
+    </Modal.Content>
+  );
+};
+
+export { DeliveryLog };
+export type { DeliveryLogProps };
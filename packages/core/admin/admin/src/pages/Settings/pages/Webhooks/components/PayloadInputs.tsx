@@ -0,0 +1,145 @@
+import {
+  Field,
+  Flex,
+  Grid,
+  MultiSelect,
+  MultiSelectOption,
+  Typography,
+} from '@strapi/design-system';
+import { useIntl } from 'react-intl';
+
+import { useField } from '../../../../../components/Form';
+import { InputRenderer } from '../../../../../components/FormInputs/Renderer';
+import { useGetContentTypesQuery } from '../../../../../services/contentManager';
+
+/* -------------------------------------------------------------------------------------------------
+ * PayloadInputs
+ * -----------------------------------------------------------------------------------------------*/
+
+const PayloadInputs = () => {
+  const { formatMessage } = useIntl();
+
+  return (
+    <Flex direction="column" alignItems="stretch" gap={4}>
+      <Flex direction="column" alignItems="stretch" gap={1}>
+        <Typography variant="delta" tag="h2">
+          {formatMessage({
+            id: 'Settings.webhooks.payload.title',
+            defaultMessage: 'Filters and payload',
+          })}
+        </Typography>
+        <Typography textColor="neutral600">
+          {formatMessage({
+            id: 'Settings.webhooks.payload.description',
+            defaultMessage:
+              'Only send the events matching these filters and customize the body of the requests.',
+          })}
+        </Typography>
+      </Flex>
+      <Grid.Root gap={6}>
+        <Grid.Item col={6} direction="column" alignItems="stretch">
+          <ContentTypesInput />
+        </Grid.Item>
+        <Grid.Item col={6} direction="column" alignItems="stretch">
+          <InputRenderer
+            type="string"
+            name="filters.locales"
+            label={formatMessage({
+              id: 'Settings.webhooks.filters.locales',
+              defaultMessage: 'Locales',
+            })}
+            hint={formatMessage({
+              id: 'Settings.webhooks.filters.locales.hint',
+              defaultMessage: 'Comma separated list of locales, e.g. en, fr. Leave empty for all.',
+            })}
+          />
+        </Grid.Item>
+        <Grid.Item col={12} direction="column" alignItems="stretch">
+          <InputRenderer
+            type="json"
+            name="filters.condition"
+            label={formatMessage({
+              id: 'Settings.webhooks.filters.condition',
+              defaultMessage: 'Condition',
+            })}
+            hint={formatMessage({
+              id: 'Settings.webhooks.filters.condition.hint',
+              defaultMessage:
+                'JSON Logic rule evaluated against the event payload. Leave empty to send every event.',
+            })}
+          />
+        </Grid.Item>
+        <Grid.Item col={12} direction="column" alignItems="stretch">
+          <InputRenderer
+            type="json"
+            name="template"
+            label={formatMessage({
+              id: 'Settings.webhooks.template',
+              defaultMessage: 'Payload template',
+            })}
+            hint={formatMessage(
+              {
+                id: 'Settings.webhooks.template.hint',
+                defaultMessage:
+                  'JSON body sent instead of the default payload. Use placeholders such as {placeholder} to insert values of the event payload.',
+              },
+              { placeholder: '{{entry.title}}' }
+            )}
+          />
+        </Grid.Item>
+      </Grid.Root>
+    </Flex>
+  );
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * ContentTypesInput
+ * -----------------------------------------------------------------------------------------------*/
+
+const ContentTypesInput = () => {
+  const { formatMessage } = useIntl();
+  const { value = [], onChange, error } = useField<string[]>('filters.uids');
+  const { data: contentTypes, isLoading } = useGetContentTypesQuery();
+
+  const options = [...(contentTypes?.collectionType ?? []), ...(contentTypes?.singleType ?? [])];
+
+  return (
+    <Field.Root
+      error={error}
+      hint={formatMessage({
+        id: 'Settings.webhooks.filters.uids.hint',
+        defaultMessage: 'Leave empty for all content types.',
+      })}
+      name="filters.uids"
+    >
+      <Field.Label>
+        {formatMessage({
+          id: 'Settings.webhooks.filters.uids',
+          defaultMessage: 'Content types',
+        })}
+      </Field.Label>
+      <MultiSelect
+        disabled={isLoading}
+        onChange={(v) => {
+          onChange('filters.uids', v);
+        }}
+        placeholder={formatMessage({
+          id: 'app.components.Select.placeholder',
+          defaultMessage: 'Select',
+        })}
+        value={value}
+        withTags
+      >
+        {options.map((contentType) => (
+          <MultiSelectOption key={contentType.uid} value={contentType.uid}>
+            {contentType.info.displayName}
+          </MultiSelectOption>
+        ))}
+      </MultiSelect>
+      <Field.Error />
+      <Field.Hint />
+    </Field.Root>
+  );
+};
+
+export { PayloadInputs };
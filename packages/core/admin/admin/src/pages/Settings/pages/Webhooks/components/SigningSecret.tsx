@@ -0,0 +1,208 @@
+import * as React from 'react';
+
+import { Box, Button, Dialog, Flex, IconButton, Typography } from '@strapi/design-system';
+import { ArrowClockwise, Duplicate, Eye, EyeStriked } from '@strapi/icons';
+import { useIntl } from 'react-intl';
+import { styled } from 'styled-components';
+
+import { GetWebhookSecret } from '../../../../../../../shared/contracts/webhooks';
+import { ConfirmDialog } from '../../../../../components/ConfirmDialog';
+import { useNotification } from '../../../../../features/Notifications';
+import { useAPIErrorHandler } from '../../../../../hooks/useAPIErrorHandler';
+import { useClipboard } from '../../../../../hooks/useClipboard';
+import {
+  useLazyGetWebhookSecretQuery,
+  useRegenerateWebhookSecretMutation,
+} from '../../../../../services/webhooks';
+
+import type { Modules } from '@strapi/types';
+
+const MASKED_SECRET = '•'.repeat(32);
+
+const TypographyWordBreak = styled(Typography)`
+  word-break: break-all;
+`;
+
+/* -------------------------------------------------------------------------------------------------
+ * SigningSecret
+ * -----------------------------------------------------------------------------------------------*/
+
+interface SigningSecretProps {
+  webhookId: Modules.WebhookStore.Webhook['id'];
+}
+
+const SigningSecret = ({ webhookId }: SigningSecretProps) => {
+  const { formatMessage, formatDate } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { _unstableFormatAPIError: formatAPIError } = useAPIErrorHandler();
+  const { copy } = useClipboard();
+  const [showConfirmDialog, setShowConfirmDialog] = React.useState(false);
+  const [secret, setSecret] = React.useState<GetWebhookSecret.Response['data'] | null>(null);
+
+  const [getWebhookSecret, { isFetching }] = useLazyGetWebhookSecretQuery();
+  const [regenerateWebhookSecret] = useRegenerateWebhookSecretMutation();
+
+  const handleReveal = async () => {
+    if (secret) {
+      setSecret(null);
+
+      return;
+    }
+
+    const res = await getWebhookSecret(webhookId);
+
+    if (res.error) {
+      toggleNotification({
+        type: 'danger',
+        message: formatAPIError(res.error),
+      });
+
+      return;
+    }
+
+    setSecret(res.data ?? null);
+  };
+
+  const handleCopy = async () => {
+    if (secret?.secret && (await copy(secret.secret))) {
+      toggleNotification({
+        type: 'success',
+        message: formatMessage({
+          id: 'Settings.webhooks.secret.copied',
+          defaultMessage: 'Signing secret copied to clipboard',
+        }),
+      });
+    }
+  };
+
+  const handleRegenerate = async () => {
+    const res = await regenerateWebhookSecret({ id: webhookId });
+
+    if ('error' in res) {
+      toggleNotification({
+        type: 'danger',
+        message: formatAPIError(res.error),
+      });
+
+      return;
+    }
+
+    setSecret(res.data);
+    setShowConfirmDialog(false);
+
+    toggleNotification({
+      type: 'success',
+      message: formatMessage({
+        id: 'Settings.webhooks.secret.regenerated',
+        defaultMessage: 'Signing secret regenerated',
+      }),
+    });
+  };
+
+  return (
+    <Box background="neutral0" padding={8} shadow="filterShadow" hasRadius>
+      <Flex direction="column" alignItems="stretch" gap={4}>
+        <Flex direction="column" alignItems="stretch" gap={1}>
+          <Typography variant="delta" tag="h2">
+            {formatMessage({
+              id: 'Settings.webhooks.secret.title',
+              defaultMessage: 'Signing secret',
+            })}
+          </Typography>
+          <Typography textColor="neutral600">
+            {formatMessage({
+              id: 'Settings.webhooks.secret.description',
+              defaultMessage:
+                'Every request is signed with this secret in the X-Strapi-Signature header so the receiver can verify it was sent by this application.',
+            })}
+          </Typography>
+        </Flex>
+        <Flex gap={2} alignItems="center">
+          <Box
+            background="neutral100"
+            hasRadius
+            padding={2}
+            borderColor="neutral150"
+            style={{ flex: 1 }}
+          >
+            <TypographyWordBreak fontWeight="semiBold" variant="pi">
+              {secret
+                ? (secret.secret ??
+                  formatMessage({
+                    id: 'Settings.webhooks.secret.empty',
+                    defaultMessage:
+                      'No signing secret yet, regenerate it to start signing requests',
+                  }))
+                : MASKED_SECRET}
+            </TypographyWordBreak>
+          </Box>
+          <IconButton
+            label={formatMessage(
+              secret
+                ? { id: 'Settings.webhooks.secret.hide', defaultMessage: 'Hide secret' }
+                : { id: 'Settings.webhooks.secret.reveal', defaultMessage: 'Reveal secret' }
+            )}
+            onClick={handleReveal}
+            disabled={isFetching}
+            variant="ghost"
+            type="button"
+          >
+            {secret ? <EyeStriked /> : <Eye />}
+          </IconButton>
+          {secret?.secret && (
+            <IconButton
+              label={formatMessage({
+                id: 'app.component.CopyToClipboard.label',
+                defaultMessage: 'Copy to clipboard',
+              })}
+              onClick={handleCopy}
+              variant="ghost"
+              type="button"
+            >
+              <Duplicate />
+            </IconButton>
+          )}
+          <Button
+            startIcon={<ArrowClockwise />}
+            variant="secondary"
+            type="button"
+            onClick={() => setShowConfirmDialog(true)}
+          >
+            {formatMessage({
+              id: 'Settings.webhooks.secret.regenerate',
+              defaultMessage: 'Regenerate',
+            })}
+          </Button>
+        </Flex>
+        {secret?.previousSecretExpiresAt && (
+          <Typography variant="pi" textColor="neutral600">
+            {formatMessage(
+              {
+                id: 'Settings.webhooks.secret.previous',
+                defaultMessage: 'The previous secret keeps signing requests until {date}',
+              },
+              {
+                date: formatDate(new Date(secret.previousSecretExpiresAt), {
+                  dateStyle: 'medium',
+                  timeStyle: 'short',
+                }),
+              }
+            )}
+          </Typography>
+        )}
+      </Flex>
+      <Dialog.Root open={showConfirmDialog} onOpenChange={setShowConfirmDialog}>
+        <ConfirmDialog onConfirm={handleRegenerate} variant="default">
+          {formatMessage({
+            id: 'Settings.webhooks.secret.regenerate.confirm',
+            defaultMessage:
+              'A new secret will be generated. The current one keeps signing requests for a grace period so you can update the receiver.',
+          })}
+        </ConfirmDialog>
+      </Dialog.Root>
+    </Box>
+  );
+};
+
+export { SigningSecret };
+export type { SigningSecretProps };
@@ -12,8 +12,11 @@ import { Layouts } from '../../../../../components/Layouts/Layout';
 import { BackButton } from '../../../../../features/BackButton';
 import { useEnterprise } from '../../../../../hooks/useEnterprise';
 
+import { DeliveryLog } from './DeliveryLog';
 import { EventTableCE } from './EventsTable';
 import { HeadersInput } from './HeadersInput';
+import { PayloadInputs } from './PayloadInputs';
+import { SigningSecret } from './SigningSecret';
 import { TriggerContainer } from './TriggerContainer';
 
 import type { Modules } from '@strapi/types';
@@ -23,6 +26,18 @@ interface WebhookFormValues {
   url: Modules.WebhookStore.Webhook['url'];
   headers: Array<{ key: string; value: string }>;
   events: Modules.WebhookStore.Webhook['events'];
+  filters: {
+    uids: string[];
+    /**
+     * Comma separated list of locales
+     */
+    locales: string;
+    /**
+     * JSON Logic rule as edited in the JSON input
+     */
+    condition: string;
+  };
+  template: string;
 }
 
 interface WebhookFormProps {
@@ -68,6 +83,10 @@ const WebhookForm = ({
     return Object.entries(headers).map(([key, value]) => ({ key, value }));
   };
 
+  const stringifyJSON = (value?: Record<string, unknown> | null) => {
+    return value && Object.keys(value).length ? JSON.stringify(value, null, 2) : '';
+  };
+
   // block rendering until the EE component is fully loaded
   if (!EventTable) {
     return null;
@@ -80,6 +99,12 @@ const WebhookForm = ({
         url: data?.url || '',
         headers: mapHeaders(data?.headers || {}),
         events: data?.events || [],
+        filters: {
+          uids: data?.filters?.uids || [],
+          locales: (data?.filters?.locales || []).join(', '),
+          condition: stringifyJSON(data?.filters?.condition),
+        },
+        template: stringifyJSON(data?.template),
       }}
       method={isCreating ? 'POST' : 'PUT'}
       onSubmit={handleSubmit}
@@ -175,6 +200,11 @@ const WebhookForm = ({
                   <EventTable />
                 </Flex>
               </Box>
+              <Box background="neutral0" padding={8} shadow="filterShadow" hasRadius>
+                <PayloadInputs />
+              </Box>
+              {!isCreating && data && <SigningSecret webhookId={data.id} />}
+              {!isCreating && data && <DeliveryLog webhookId={data.id} />}
             </Flex>
           </Layouts.Content>
         </>
@@ -186,8 +216,34 @@ const WebhookForm = ({
 const NAME_REGEX = /(^$)|(^[A-Za-z][_0-9A-Za-z ]*$)/;
 const URL_REGEX = /(^$)|((https?:\/\/.*)(d*)\/?(.*))/;
 
-const makeWebhookValidationSchema = ({ formatMessage }: Pick<IntlShape, 'formatMessage'>) =>
-  yup.object().shape({
+const isValidJSON = (value?: string | null) => {
+  if (!value || !value.trim()) {
+    return true;
+  }
+
+  try {
+    const parsed = JSON.parse(value);
+
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed);
+  } catch {
+    return false;
+  }
+};
+
+const makeWebhookValidationSchema = ({ formatMessage }: Pick<IntlShape, 'formatMessage'>) => {
+  const jsonSchema = yup
+    .string()
+    .nullable()
+    .test(
+      'is-json',
+      formatMessage({
+        id: 'Settings.webhooks.validation.json',
+        defaultMessage: 'The value must be valid JSON',
+      }),
+      isValidJSON
+    );
+
+  return yup.object().shape({
     name: yup
       .string()
       .nullable()
@@ -256,7 +312,14 @@ const makeWebhookValidationSchema = ({ formatMessage }: Pick<IntlShape, 'formatM
       );
     }),
     events: yup.array(),
+    filters: yup.object().shape({
+      uids: yup.array().of(yup.string()),
+      locales: yup.string().nullable(),
+      condition: jsonSchema,
+    }),
+    template: jsonSchema,
   });
+};
 
 export { WebhookForm };
 export type { WebhookFormValues, WebhookFormProps };
@@ -5,7 +5,7 @@ import { WebhookForm } from '../WebhookForm';
 jest.mock('../../../../../../hooks/useContentTypes');
 
 describe('WebhookForm', () => {
-  it('renders without crashing', () => {
+  it('renders without crashing', async () => {
     const triggerWebhook = jest.fn();
 
     render(
@@ -31,6 +31,14 @@ describe('WebhookForm', () => {
 
     expect(screen.getByRole('grid', { name: 'Events' })).toBeInTheDocument();
 
+    await waitFor(() =>
+      expect(screen.getByRole('combobox', { name: 'Content types' })).not.toHaveAttribute(
+        'aria-disabled',
+        'true'
+      )
+    );
+    expect(screen.getByRole('textbox', { name: 'Locales' })).toBeInTheDocument();
+
     expect(screen.getByRole('button', { name: 'Save' })).toBeDisabled();
   });
 
@@ -61,6 +69,8 @@ describe('WebhookForm', () => {
       url: 'https://google.fr',
       events: ['entry.create'],
       headers: [{ key: '', value: '' }],
+      filters: { uids: [], locales: '', condition: '' },
+      template: '',
     });
 
     expect(screen.getByRole('button', { name: 'Save' })).toBeEnabled();
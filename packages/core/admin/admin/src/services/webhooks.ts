@@ -4,7 +4,7 @@ import { adminApi } from './api';
 
 const webhooksSerivce = adminApi
   .enhanceEndpoints({
-    addTagTypes: ['Webhook'],
+    addTagTypes: ['Webhook', 'WebhookDelivery', 'WebhookSecret'],
   })
   .injectEndpoints({
     endpoints: (builder) => ({
@@ -70,6 +70,59 @@ const webhooksSerivce = adminApi
         }),
         transformResponse: (response: Webhooks.TriggerWebhook.Response) => response.data,
       }),
+      getWebhookDeliveries: builder.query<
+        Pick<Webhooks.GetWebhookDeliveries.Response, 'data' | 'meta'>,
+        Webhooks.GetWebhookDeliveries.Params & Webhooks.GetWebhookDeliveries.Request['query']
+      >({
+        query: ({ id, ...params }) => ({
+          url: `/admin/webhooks/${id}/deliveries`,
+          method: 'GET',
+          config: {
+            params,
+          },
+        }),
+        transformResponse: (response: Webhooks.GetWebhookDeliveries.Response) => ({
+          data: response.data,
+          meta: response.meta,
+        }),
+        providesTags: (_res, _err, { id }) => [{ type: 'WebhookDelivery' as const, id }],
+      }),
+      redeliverWebhookDelivery: builder.mutation<
+        Webhooks.RedeliverWebhookDelivery.Response['data'],
+        Webhooks.RedeliverWebhookDelivery.Params
+      >({
+        query: ({ id, deliveryId }) => ({
+          url: `/admin/webhooks/${id}/deliveries/${deliveryId}/redeliver`,
+          method: 'POST',
+        }),
+        transformResponse: (response: Webhooks.RedeliverWebhookDelivery.Response) => response.data,
+        invalidatesTags: (_res, _err, { id }) => [{ type: 'WebhookDelivery', id }],
+      }),
+      getWebhookSecret: builder.query<
+        Webhooks.GetWebhookSecret.Response['data'],
+        Webhooks.GetWebhookSecret.Params['id']
+      >({
+        query: (webhookId) => ({
+          url: `/admin/webhooks/${webhookId}/secret`,
+          method: 'GET',
+        }),
+        transformResponse: (response: Webhooks.GetWebhookSecret.Response) => response.data,
+        providesTags: (_res, _err, webhookId) => [
+          { type: 'WebhookSecret' as const, id: webhookId },
+        ],
+      }),
+      regenerateWebhookSecret: builder.mutation<
+        Webhooks.RegenerateWebhookSecret.Response['data'],
+        Webhooks.RegenerateWebhookSecret.Params & Webhooks.RegenerateWebhookSecret.Request['body']
+      >({
+        query: ({ id, ...body }) => ({
+          url: `/admin/webhooks/${id}/secret/regenerate`,
+          method: 'POST',
+          data: body,
+        }),
+        transformResponse: (response: Webhooks.RegenerateWebhookSecret.Response) => response.data,
+        invalidatesTags: (_res, _err, { id }) => [{ type: 'WebhookSecret', id }],
+      }),
       deleteManyWebhooks: builder.mutation<
         Webhooks.DeleteWebhooks.Response['data'],
         Webhooks.DeleteWebhooks.Request['body']
@@ -92,6 +145,10 @@ const {
   useUpdateWebhookMutation,
   useTriggerWebhookMutation,
   useDeleteManyWebhooksMutation,
+  useGetWebhookDeliveriesQuery,
+  useRedeliverWebhookDeliveryMutation,
+  useLazyGetWebhookSecretQuery,
+  useRegenerateWebhookSecretMutation,
 } = webhooksSerivce;
 
 export {
@@ -100,4 +157,8 @@ export {
   useUpdateWebhookMutation,
   useTriggerWebhookMutation,
   useDeleteManyWebhooksMutation,
+  useGetWebhookDeliveriesQuery,
+  useRedeliverWebhookDeliveryMutation,
+  useLazyGetWebhookSecretQuery,
+  useRegenerateWebhookSecretMutation,
 };
@@ -370,6 +370,7 @@ export const server: SetupServer = setupServer(
           data: [
             {
               uid: 'admin::collectionType',
+              info: { displayName: 'Collection type' },
               isDisplayed: true,
               apiID: 'permission',
               kind: 'collectionType',
@@ -377,6 +378,7 @@ export const server: SetupServer = setupServer(
 
             {
               uid: 'admin::collectionTypeNotDispalyed',
+              info: { displayName: 'Collection type not displayed' },
               isDisplayed: false,
               apiID: 'permission',
               kind: 'collectionType',
@@ -384,12 +386,14 @@ export const server: SetupServer = setupServer(
 
             {
               uid: 'admin::singleType',
+              info: { displayName: 'Single type' },
               isDisplayed: true,
               kind: 'singleType',
             },
 
             {
               uid: 'admin::singleTypeNotDispalyed',
+              info: { displayName: 'Single type not displayed' },
               isDisplayed: false,
               kind: 'singleType',
             },
@@ -5,7 +5,7 @@ const eeTables = {
     'review-workflows': ['review-workflows.updateEntryStage'],
   },
   releases: {
-    releases: ['releases.publish'],
+    releases: ['releases.publish', 'releases.revert'],
   },
 };
 
@@ -14,7 +14,10 @@ const getHeaders = (table: keyof typeof eeTables) => {
     case 'review-workflows':
       return () => [{ id: 'review-workflows.updateEntryStage', defaultMessage: 'Stage Change' }];
     case 'releases':
-      return () => [{ id: 'releases.publish', defaultMessage: 'Publish' }];
+      return () => [
+        { id: 'releases.publish', defaultMessage: 'Publish' },
+        { id: 'releases.revert', defaultMessage: 'Revert' },
+      ];
   }
 };
 
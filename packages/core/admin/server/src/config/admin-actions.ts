@@ -35,6 +35,13 @@ export const actions = [
     section: 'settings',
     category: 'webhooks',
   },
+  {
+    uid: 'cron.read',
+    displayName: 'Read',
+    pluginName: 'admin',
+    section: 'settings',
+    category: 'cron',
+  },
   {
     uid: 'users.create',
     displayName: 'Create (invite)',
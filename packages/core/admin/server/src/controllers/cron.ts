@@ -0,0 +1,45 @@
+import type { Context } from 'koa';
+
+import { yup, validateYupSchema } from '@strapi/utils';
+
+import { GetCronRuns, GetCronTasks } from '../../../shared/contracts/cron';
+
+const runsQueryValidator = yup
+  .object({
+    name: yup.string(),
+    status: yup.string().oneOf(['running', 'success', 'failed']),
+    page: yup.number().integer().min(1),
+    pageSize: yup.number().integer().min(1).max(100),
+  })
+  .noUnknown();
+
+export default {
+  async listTasks(ctx: Context) {
+    const tasks = strapi.cron.jobs
+      .filter(({ name }) => name !== null)
+      .map(({ name, options, lock, history, job }) => ({
+        name: name!,
+        options,
+        lock,
+        history,
+        nextRunAt: job.nextInvocation() ?? null,
+      }));
+
+    ctx.send({ data: tasks } satisfies GetCronTasks.Response);
+  },
+
+  async listRuns(ctx: Context) {
+    const query = ctx.request.query as GetCronRuns.Request['query'];
+
+    await validateYupSchema(runsQueryValidator)(query);
+
+    const { results, pagination } = await strapi.get('cronRunStore').findRuns({
+      name: query.name,
+      status: query.status,
+      page: Number(query.page ?? 1),
+      pageSize: Number(query.pageSize ?? 10),
+    });
+
+    ctx.send({ data: results, meta: { pagination } } satisfies GetCronRuns.Response);
+  },
+};
@@ -4,6 +4,7 @@ import admin from './admin';
 import apiToken from './api-token';
 import authenticatedUser from './authenticated-user';
 import authentication from './authentication';
+import cron from './cron';
 import permission from './permission';
 import role from './role';
 import transfer from './transfer';
@@ -16,6 +17,7 @@ export default {
   'api-token': apiToken,
   'authenticated-user': authenticatedUser,
   authentication,
+  cron,
   permission,
   role,
   transfer,
@@ -3,6 +3,7 @@ import isLocalhostIp from 'is-localhost-ip';
 // See https://www.npmjs.com/package/punycode.js#installation
 import punycode from 'punycode/';
 import type { Context } from 'koa';
+import jsonLogic from 'json-logic-js';
 import _ from 'lodash';
 
 import { yup, validateYupSchema } from '@strapi/utils';
@@ -17,6 +18,10 @@ import {
   UpdateWebhook,
   TriggerWebhook,
   GetWebhooks,
+  GetWebhookDeliveries,
+  RedeliverWebhookDelivery,
+  GetWebhookSecret,
+  RegenerateWebhookSecret,
 } from '../../../shared/contracts/webhooks';
 
 const urlRegex =
@@ -61,6 +66,20 @@ const webhookValidator = yup
         .required();
     }),
     events: yup.array().of(yup.string()).required(),
+    filters: yup
+      .object({
+        uids: yup.array().of(yup.string().required()),
+        locales: yup.array().of(yup.string().required()),
+        condition: yup
+          .object()
+          .nullable()
+          .test('is-json-logic', 'condition must be a valid JSON Logic rule', (value) => {
+            return !value || _.isEmpty(value) || jsonLogic.is_logic(value);
+          }),
+      })
+      .nullable()
+      .noUnknown(),
+    template: yup.object().nullable(),
   })
   .noUnknown();
 
@@ -68,10 +87,37 @@ const updateWebhookValidator = webhookValidator.shape({
   isEnabled: yup.boolean(),
 });
 
+const regenerateSecretValidator = yup
+  .object({
+    revokePrevious: yup.boolean(),
+  })
+  .noUnknown();
+
+/**
+ * Signing secrets are only exposed through the dedicated secret endpoints
+ */
+const sanitizeWebhook = (webhook: Modules.WebhookStore.Webhook) => _.omit(webhook, 'secrets');
+
+const formatSecret = (webhook: Modules.WebhookStore.Webhook) => {
+  const [current, previous] = webhook.secrets ?? [];
+
+  return {
+    secret: current?.secret ?? null,
+    previousSecretExpiresAt: previous?.expiresAt ?? null,
+  };
+};
+
+const deliveriesQueryValidator = yup
+  .object({
+    page: yup.number().integer().min(1),
+    pageSize: yup.number().integer().min(1).max(100),
+  })
+  .noUnknown();
+
 export default {
   async listWebhooks(ctx: Context) {
     const webhooks = await strapi.get('webhookStore').findWebhooks();
-    ctx.send({ data: webhooks } satisfies GetWebhooks.Response);
+    ctx.send({ data: webhooks.map(sanitizeWebhook) } satisfies GetWebhooks.Response);
   },
 
   async getWebhook(ctx: Context) {
@@ -82,7 +128,7 @@ export default {
       return ctx.notFound('webhook.notFound');
     }
 
-    ctx.send({ data: webhook } satisfies GetWebhook.Response);
+    ctx.send({ data: sanitizeWebhook(webhook) } satisfies GetWebhook.Response);
   },
 
   async createWebhook(ctx: Context) {
@@ -94,7 +140,7 @@ export default {
 
     strapi.get('webhookRunner').add(webhook);
 
-    ctx.created({ data: webhook } satisfies CreateWebhook.Response);
+    ctx.created({ data: sanitizeWebhook(webhook) } satisfies CreateWebhook.Response);
   },
 
   async updateWebhook(ctx: Context) {
@@ -120,7 +166,7 @@ export default {
 
     strapi.get('webhookRunner').update(updatedWebhook);
 
-    ctx.send({ data: updatedWebhook } satisfies UpdateWebhook.Response);
+    ctx.send({ data: sanitizeWebhook(updatedWebhook) } satisfies UpdateWebhook.Response);
   },
 
   async deleteWebhook(ctx: Context) {
@@ -132,10 +178,11 @@ export default {
     }
 
     await strapi.get('webhookStore').deleteWebhook(id);
+    await strapi.get('webhookDeliveryStore').deleteWebhookDeliveries(id);
 
     strapi.get('webhookRunner').remove(webhook);
 
-    ctx.body = { data: webhook } satisfies DeleteWebhook.Response;
+    ctx.body = { data: sanitizeWebhook(webhook) } satisfies DeleteWebhook.Response;
   },
 
   async deleteWebhooks(ctx: Context) {
@@ -150,6 +197,7 @@ export default {
 
       if (webhook) {
         await strapi.get('webhookStore').deleteWebhook(id);
+        await strapi.get('webhookDeliveryStore').deleteWebhookDeliveries(id);
         strapi.get('webhookRunner').remove(webhook);
       }
     }
@@ -168,4 +216,70 @@ export default {
 
     ctx.body = { data: response } satisfies TriggerWebhook.Response;
   },
+
+  async listWebhookDeliveries(ctx: Context) {
+    const { id } = ctx.params as GetWebhookDeliveries.Params;
+    const query = ctx.request.query as GetWebhookDeliveries.Request['query'];
+
+    await validateYupSchema(deliveriesQueryValidator)(query);
+
+    const webhook = await strapi.get('webhookStore').findWebhook(id);
+
+    if (!webhook) {
+      return ctx.notFound('webhook.notFound');
+    }
+
+    const { results, pagination } = await strapi.get('webhookDeliveryStore').findDeliveries(id, {
+      page: Number(query.page ?? 1),
+      pageSize: Number(query.pageSize ?? 10),
+    });
+
+    ctx.send({ data: results, meta: { pagination } } satisfies GetWebhookDeliveries.Response);
+  },
+
+  async redeliverWebhookDelivery(ctx: Context) {
+    const { id, deliveryId } = ctx.params as RedeliverWebhookDelivery.Params;
+
+    const delivery = await strapi.get('webhookDeliveryStore').findDelivery(deliveryId);
+
+    if (!delivery || delivery.webhookId !== id) {
+      return ctx.notFound('webhook.delivery.notFound');
+    }
+
+    const newDelivery = await strapi.get('webhookRunner').redeliver(delivery);
+
+    ctx.send({ data: newDelivery } satisfies RedeliverWebhookDelivery.Response);
+  },
+
+  async getWebhookSecret(ctx: Context) {
+    const { id } = ctx.params as GetWebhookSecret.Params;
+    const webhook = await strapi.get('webhookStore').findWebhook(id);
+
+    if (!webhook) {
+      return ctx.notFound('webhook.notFound');
+    }
+
+    ctx.send({ data: formatSecret(webhook) } satisfies GetWebhookSecret.Response);
+  },
+
+  async regenerateWebhookSecret(ctx: Context) {
+    const { id } = ctx.params as RegenerateWebhookSecret.Params;
+    const { body = {} } = ctx.request as RegenerateWebhookSecret.Request;
+
+    await validateYupSchema(regenerateSecretValidator)(body);
+
+    const gracePeriod = body.revokePrevious
+      ? 0
+      : strapi.config.get<number | undefined>('server.webhooks.secretRotationGracePeriod');
+
+    const webhook = await strapi.get('webhookStore').regenerateSecret(id, { gracePeriod });
+
+    if (!webhook) {
+      return ctx.notFound('webhook.notFound');
+    }
+
+    strapi.get('webhookRunner').update(webhook);
+
+    ctx.send({ data: formatSecret(webhook) } satisfies RegenerateWebhookSecret.Response);
+  },
 };
@@ -0,0 +1,24 @@
+export default [
+  {
+    method: 'GET',
+    path: '/cron/tasks',
+    handler: 'cron.listTasks',
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: ['admin::cron.read'] } },
+      ],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/cron/runs',
+    handler: 'cron.listRuns',
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: ['admin::cron.read'] } },
+      ],
+    },
+  },
+];
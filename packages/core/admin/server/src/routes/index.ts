@@ -4,6 +4,7 @@ import permissions from './permissions';
 import users from './users';
 import roles from './roles';
 import webhooks from './webhooks';
+import cron from './cron';
 import apiTokens from './api-tokens';
 import contentApi from './content-api';
 import transfer from './transfer';
@@ -18,6 +19,7 @@ const routes = {
       ...users,
       ...roles,
       ...webhooks,
+      ...cron,
       ...apiTokens,
       ...contentApi,
       ...transfer,
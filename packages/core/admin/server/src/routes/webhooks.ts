@@ -76,4 +76,48 @@ export default [
       ],
     },
   },
+  {
+    method: 'GET',
+    path: '/webhooks/:id/deliveries',
+    handler: 'webhooks.listWebhookDeliveries',
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: ['admin::webhooks.read'] } },
+      ],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/webhooks/:id/deliveries/:deliveryId/redeliver',
+    handler: 'webhooks.redeliverWebhookDelivery',
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: ['admin::webhooks.update'] } },
+      ],
+    },
+  },
+  {
+    method: 'GET',
+    path: '/webhooks/:id/secret',
+    handler: 'webhooks.getWebhookSecret',
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: ['admin::webhooks.update'] } },
+      ],
+    },
+  },
+  {
+    method: 'POST',
+    path: '/webhooks/:id/secret/regenerate',
+    handler: 'webhooks.regenerateWebhookSecret',
+    config: {
+      policies: [
+        'admin::isAuthenticatedAdmin',
+        { name: 'admin::hasPermissions', config: { actions: ['admin::webhooks.update'] } },
+      ],
+    },
+  },
 ];
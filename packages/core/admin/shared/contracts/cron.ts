@@ -0,0 +1,48 @@
+import { errors } from '@strapi/utils';
+import type { Modules } from '@strapi/types';
+
+export interface CronTask {
+  name: string;
+  options: unknown;
+  lock: boolean;
+  history: boolean;
+  nextRunAt: Date | null;
+}
+
+/**
+ * GET /cron/tasks - List the named cron tasks
+ */
+export declare namespace GetCronTasks {
+  export interface Request {
+    body: {};
+    query: {};
+  }
+
+  export interface Response {
+    data: CronTask[];
+    error?: errors.ApplicationError;
+  }
+}
+
+/**
+ * GET /cron/runs - List the run history of the cron tasks
+ */
+export declare namespace GetCronRuns {
+  export interface Request {
+    body: {};
+    query: {
+      name?: string;
+      status?: Modules.Cron.CronRunStatus;
+      page?: number;
+      pageSize?: number;
+    };
+  }
+
+  export interface Response {
+    data: Modules.Cron.CronRun[];
+    meta: {
+      pagination: Modules.Cron.CronRunsPagination;
+    };
+    error?: errors.ApplicationError | errors.YupValidationError;
+  }
+}
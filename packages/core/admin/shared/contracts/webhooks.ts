@@ -126,3 +126,102 @@ export declare namespace TriggerWebhook {
     error?: errors.ApplicationError;
   }
 }
+
+/**
+ * GET /webhooks/:id/deliveries - Get the delivery log of a webhook
+ */
+export declare namespace GetWebhookDeliveries {
+  export interface Request {
+    body: {};
+    query: {
+      page?: number;
+      pageSize?: number;
+    };
+  }
+
+  export interface Params {
+    id: Modules.WebhookStore.Webhook['id'];
+  }
+
+  export interface Response {
+    data: Modules.WebhookDeliveryStore.WebhookDelivery[];
+    meta: {
+      pagination: Modules.WebhookDeliveryStore.WebhookDeliveryPagination;
+    };
+    error?: errors.ApplicationError;
+  }
+}
+
+/**
+ * POST /webhooks/:id/deliveries/:deliveryId/redeliver - Send a previous delivery again
+ */
+export declare namespace RedeliverWebhookDelivery {
+  export interface Request {
+    body: {};
+    query: {};
+  }
+
+  export interface Params {
+    id: Modules.WebhookStore.Webhook['id'];
+    deliveryId: Modules.WebhookDeliveryStore.WebhookDelivery['id'];
+  }
+
+  export interface Response {
+    data: Modules.WebhookDeliveryStore.WebhookDelivery;
+    error?: errors.ApplicationError;
+  }
+}
+
+interface WebhookSecret {
+  /**
+   * The secret currently used to sign requests
+   */
+  secret: string | null;
+  /**
+   * When the previous secret stops signing requests, if a rotation is in progress
+   */
+  previousSecretExpiresAt: string | null;
+}
+
+/**
+ * GET /webhooks/:id/secret - Reveal the signing secret of a webhook
+ */
+export declare namespace GetWebhookSecret {
+  export interface Request {
+    body: {};
+    query: {};
+  }
+
+  export interface Params {
+    id: Modules.WebhookStore.Webhook['id'];
+  }
+
+  export interface Response {
+    data: WebhookSecret;
+    error?: errors.ApplicationError;
+  }
+}
+
+/**
+ * POST /webhooks/:id/secret/regenerate - Rotate the signing secret of a webhook
+ */
+export declare namespace RegenerateWebhookSecret {
+  export interface Request {
+    body: {
+      /**
+       * Stop signing with the previous secret right away instead of after the grace period
+       */
+      revokePrevious?: boolean;
+    };
+    query: {};
+  }
+
+  export interface Params {
+    id: Modules.WebhookStore.Webhook['id'];
+  }
+
+  export interface Response {
+    data: WebhookSecret;
+    error?: errors.ApplicationError | errors.YupValidationError;
+  }
+}
@@ -93,6 +93,7 @@ interface DocumentActionComponent
     | 'edit-the-model'
     | 'history'
     | 'publish'
+    | 'schedule'
     | 'unpublish'
     | 'update';
   position?: DocumentActionDescription['position'];
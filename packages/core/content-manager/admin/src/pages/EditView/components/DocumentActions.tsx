@@ -45,6 +45,7 @@ import { getTranslation } from '../../../utils/translations';
 import { AnyData, handleInvisibleAttributes } from '../utils/data';
 
 import { useRelationModal } from './FormInputs/Relations/RelationModal';
+import { ScheduleAction } from './ScheduleAction';
 
 import type { RelationsFormValue } from './FormInputs/Relations/Relations';
 import type { DocumentActionComponent } from '../../../content-manager';
@@ -1449,7 +1450,13 @@ const DiscardAction: DocumentActionComponent = ({
 DiscardAction.type = 'discard';
 DiscardAction.position = 'panel';
 
-const DEFAULT_ACTIONS = [PublishAction, UpdateAction, UnpublishAction, DiscardAction];
+const DEFAULT_ACTIONS = [
+  PublishAction,
+  UpdateAction,
+  ScheduleAction,
+  UnpublishAction,
+  DiscardAction,
+];
 
 export { DocumentActions, DocumentActionsMenu, DocumentActionButton, DEFAULT_ACTIONS };
 export type {
@@ -0,0 +1,259 @@
+import * as React from 'react';
+
+import { useAPIErrorHandler, useNotification, useQueryParams } from '@strapi/admin/strapi-admin';
+import { Button, DateTimePicker, Field, Flex, Loader, Modal } from '@strapi/design-system';
+import { Clock } from '@strapi/icons';
+import { useIntl } from 'react-intl';
+
+import { SINGLE_TYPES } from '../../../constants/collections';
+import { useDocumentRBAC } from '../../../features/DocumentRBAC';
+import { useDoc } from '../../../hooks/useDocument';
+import {
+  useGetDocumentScheduleQuery,
+  useScheduleDocumentMutation,
+} from '../../../services/documents';
+import { buildValidParams } from '../../../utils/api';
+import { getTranslation } from '../../../utils/translations';
+
+import type { DocumentSchedule } from '../../../../../shared/contracts/collection-types';
+import type { DocumentActionComponent } from '../../../content-manager';
+
+/* -------------------------------------------------------------------------------------------------
+ * ScheduleForm
+ * -----------------------------------------------------------------------------------------------*/
+
+interface ScheduleFormProps {
+  collectionType: string;
+  model: string;
+  documentId?: string;
+  locale?: string;
+  onClose: () => void;
+}
+
+const toDate = (value: string | null | undefined) => (value ? new Date(value) : null);
+
+const ScheduleForm = ({
+  collectionType,
+  model,
+  documentId,
+  locale,
+  onClose,
+}: ScheduleFormProps) => {
+  const { formatMessage } = useIntl();
+
+  const { data, isLoading } = useGetDocumentScheduleQuery({
+    collectionType,
+    model,
+    documentId,
+    params: { locale },
+  });
+
+  if (isLoading) {
+    return (
+      <Modal.Body>
+        <Flex justifyContent="center">
+          <Loader small>
+            {formatMessage({ id: 'app.components.ListRow.loading', defaultMessage: 'Loading' })}
+          </Loader>
+        </Flex>
+      </Modal.Body>
+    );
+  }
+
+  return (
+    <ScheduleFormFields
+      collectionType={collectionType}
+      model={model}
+      documentId={documentId}
+      locale={locale}
+      schedule={data?.data}
+      onClose={onClose}
+    />
+  );
+};
+
+interface ScheduleFormFieldsProps extends ScheduleFormProps {
+  schedule?: DocumentSchedule;
+}
+
+const ScheduleFormFields = ({
+  collectionType,
+  model,
+  documentId,
+  locale,
+  schedule,
+  onClose,
+}: ScheduleFormFieldsProps) => {
+  const { formatMessage } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { _unstableFormatAPIError: formatAPIError } = useAPIErrorHandler();
+  const [scheduleDocument, { isLoading }] = useScheduleDocumentMutation();
+
+  const [publishAt, setPublishAt] = React.useState(toDate(schedule?.publishAt));
+  const [unpublishAt, setUnpublishAt] = React.useState(toDate(schedule?.unpublishAt));
+
+  const isInvalidRange = publishAt !== null && unpublishAt !== null && unpublishAt <= publishAt;
+
+  const handleSubmit = async () => {
+    const res = await scheduleDocument({
+      collectionType,
+      model,
+      documentId,
+      data: {
+        locale,
+        publishAt: publishAt?.toISOString() ?? null,
+        unpublishAt: unpublishAt?.toISOString() ?? null,
+      },
+    });
+
+    if ('error' in res) {
+      toggleNotification({ type: 'danger', message: formatAPIError(res.error) });
+      return;
+    }
+
+    toggleNotification({
+      type: 'success',
+      message: formatMessage({
+        id: getTranslation('actions.schedule.success'),
+        defaultMessage: 'Schedule saved',
+      }),
+    });
+
+    onClose();
+  };
+
+  const clearLabel = formatMessage({ id: 'clearLabel', defaultMessage: 'Clear' });
+
+  return (
+    <>
+      <Modal.Body>
+        <Flex direction="column" alignItems="stretch" gap={4}>
+          <Field.Root
+            name="publishAt"
+            hint={formatMessage({
+              id: getTranslation('actions.schedule.publishAt.hint'),
+              defaultMessage: 'The current draft will be published at this date',
+            })}
+          >
+            <Field.Label>
+              {formatMessage({
+                id: getTranslation('actions.schedule.publishAt.label'),
+                defaultMessage: 'Publish on',
+              })}
+            </Field.Label>
+            <DateTimePicker
+              clearLabel={clearLabel}
+              minDate={new Date()}
+              onChange={(date) => setPublishAt(date ?? null)}
+              onClear={() => setPublishAt(null)}
+              value={publishAt}
+            />
+            <Field.Hint />
+          </Field.Root>
+          <Field.Root
+            name="unpublishAt"
+            error={
+              isInvalidRange
+                ? formatMessage({
+                    id: getTranslation('actions.schedule.unpublishAt.error'),
+                    defaultMessage: 'The unpublication must happen after the publication',
+                  })
+                : undefined
+            }
+            hint={formatMessage({
+              id: getTranslation('actions.schedule.unpublishAt.hint'),
+              defaultMessage: 'The document will be unpublished at this date',
+            })}
+          >
+            <Field.Label>
+              {formatMessage({
+                id: getTranslation('actions.schedule.unpublishAt.label'),
+                defaultMessage: 'Unpublish on',
+              })}
+            </Field.Label>
+            <DateTimePicker
+              clearLabel={clearLabel}
+              minDate={publishAt ?? new Date()}
+              onChange={(date) => setUnpublishAt(date ?? null)}
+              onClear={() => setUnpublishAt(null)}
+              value={unpublishAt}
+            />
+            <Field.Hint />
+            <Field.Error />
+          </Field.Root>
+        </Flex>
+      </Modal.Body>
+      <Modal.Footer>
+        <Button onClick={onClose} variant="tertiary">
+          {formatMessage({ id: 'app.components.Button.cancel', defaultMessage: 'Cancel' })}
+        </Button>
+        <Button onClick={handleSubmit} disabled={isInvalidRange} loading={isLoading}>
+          {formatMessage({ id: 'global.save', defaultMessage: 'Save' })}
+        </Button>
+      </Modal.Footer>
+    </>
+  );
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * ScheduleAction
+ * -----------------------------------------------------------------------------------------------*/
+
+const ScheduleAction: DocumentActionComponent = ({
+  activeTab,
+  documentId,
+  model,
+  collectionType,
+  document,
+}) => {
+  const { formatMessage } = useIntl();
+  const { schema } = useDoc();
+  const canPublish = useDocumentRBAC('ScheduleAction', ({ canPublish }) => canPublish);
+  const [{ query }] = useQueryParams();
+  const params = React.useMemo(() => buildValidParams(query), [query]);
+
+  if (!schema?.options?.draftAndPublish) {
+    return null;
+  }
+
+  const title = formatMessage({
+    id: getTranslation('actions.schedule.label'),
+    defaultMessage: 'Schedule',
+  });
+
+  return {
+    /**
+     * Disabled when:
+     * - the user cannot publish
+     * - the document is not created yet
+     * - the active tab is the published tab
+     */
+    disabled:
+      !canPublish ||
+      !document ||
+      (collectionType !== SINGLE_TYPES && !documentId) ||
+      activeTab === 'published',
+    label: title,
+    icon: <Clock />,
+    position: 'panel',
+    dialog: {
+      type: 'modal',
+      title,
+      content: ({ onClose }) => (
+        <ScheduleForm
+          collectionType={collectionType}
+          model={model}
+          // Single types are scheduled from their model only
+          documentId={collectionType !== SINGLE_TYPES ? documentId : undefined}
+          locale={typeof params.locale === 'string' ? params.locale : undefined}
+          onClose={onClose}
+        />
+      ),
+    },
+  };
+};
+
+ScheduleAction.type = 'schedule';
+ScheduleAction.position = 'panel';
+
+export { ScheduleAction };
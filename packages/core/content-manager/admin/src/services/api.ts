@@ -6,6 +6,7 @@ const contentManagerApi = adminApi.enhanceEndpoints({
     'ContentTypesConfiguration',
     'ContentTypeSettings',
     'Document',
+    'DocumentSchedule',
     'InitialData',
     'HistoryVersion',
     'Relations',
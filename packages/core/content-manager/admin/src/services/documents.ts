@@ -13,6 +13,7 @@ import type {
   Delete,
   Find,
   FindOne,
+  GetSchedule,
   BulkDelete,
   BulkPublish,
   BulkUnpublish,
@@ -20,6 +21,7 @@ import type {
   CountDraftRelations,
   CountManyEntriesDraftRelations,
   Publish,
+  Schedule,
   Unpublish,
   Update,
 } from '../../../shared/contracts/collection-types';
@@ -236,6 +238,34 @@ const documentApi = contentManagerApi.injectEndpoints({
         },
       }),
     }),
+    /**
+     * Returns the scheduled publication and unpublication of a document locale
+     */
+    getDocumentSchedule: builder.query<
+      GetSchedule.Response,
+      {
+        collectionType: string;
+        model: string;
+        /**
+         * You don't pass the documentId if the document is a single-type
+         */
+        documentId?: string;
+        params?: GetSchedule.Request['query'];
+      }
+    >({
+      query: ({ collectionType, model, documentId, params }) => ({
+        url: documentId
+          ? `/content-manager/${collectionType}/${model}/${documentId}/schedule`
+          : `/content-manager/${collectionType}/${model}/schedule`,
+        method: 'GET',
+        config: {
+          params,
+        },
+      }),
+      providesTags: (_result, _error, { model, documentId }) => [
+        { type: 'DocumentSchedule', id: documentId ? `${model}_${documentId}` : model },
+      ],
+    }),
     getDocument: builder.query<
       FindOne.Response,
       Pick<FindOne.Params, 'model'> &
@@ -463,6 +493,26 @@ const documentApi = contentManagerApi.injectEndpoints({
         'RecentDocumentList',
       ],
     }),
+    scheduleDocument: builder.mutation<
+      Schedule.Response,
+      {
+        collectionType: string;
+        model: string;
+        documentId?: string;
+        data: Schedule.Request['body'];
+      }
+    >({
+      query: ({ collectionType, model, documentId, data }) => ({
+        url: documentId
+          ? `/content-manager/${collectionType}/${model}/${documentId}/schedule`
+          : `/content-manager/${collectionType}/${model}/schedule`,
+        method: 'PUT',
+        data,
+      }),
+      invalidatesTags: (_result, _error, { model, documentId }) => [
+        { type: 'DocumentSchedule', id: documentId ? `${model}_${documentId}` : model },
+      ],
+    }),
   }),
 });
 
@@ -476,10 +526,12 @@ const {
   useGetAllDocumentsQuery,
   useLazyGetDocumentQuery,
   useGetDocumentQuery,
+  useGetDocumentScheduleQuery,
   useLazyGetDraftRelationCountQuery,
   useGetManyDraftRelationCountQuery,
   usePublishDocumentMutation,
   usePublishManyDocumentsMutation,
+  useScheduleDocumentMutation,
   useUpdateDocumentMutation,
   useUnpublishDocumentMutation,
   useUnpublishManyDocumentsMutation,
@@ -495,10 +547,12 @@ export {
   useGetAllDocumentsQuery,
   useLazyGetDocumentQuery,
   useGetDocumentQuery,
+  useGetDocumentScheduleQuery,
   useLazyGetDraftRelationCountQuery as useGetDraftRelationCountQuery,
   useGetManyDraftRelationCountQuery,
   usePublishDocumentMutation,
   usePublishManyDocumentsMutation,
+  useScheduleDocumentMutation,
   useUpdateDocumentMutation,
   useUnpublishDocumentMutation,
   useUnpublishManyDocumentsMutation,
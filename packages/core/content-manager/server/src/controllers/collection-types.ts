@@ -4,7 +4,7 @@ import { setCreatorFields, async, errors } from '@strapi/utils';
 import type { Modules, UID } from '@strapi/types';
 
 import { getService } from '../utils';
-import { validateBulkActionInput } from './validation';
+import { validateBulkActionInput, validateScheduleInput } from './validation';
 import { getProhibitedCloningFields, excludeNotCreatableFields } from './utils/clone';
 import { getDocumentLocaleAndStatus } from './validation/dimensions';
 import { formatDocumentWithMetadata } from './utils/metadata';
@@ -692,6 +692,63 @@ export default {
     ctx.body = { count };
   },
 
+  async getSchedule(ctx: any) {
+    const { userAbility } = ctx.state;
+    const { model, id } = ctx.params;
+
+    const documentManager = getService('document-manager');
+    const permissionChecker = getService('permission-checker').create({ userAbility, model });
+
+    if (permissionChecker.cannot.read()) {
+      return ctx.forbidden();
+    }
+
+    const { locale } = await getDocumentLocaleAndStatus(ctx.query, model);
+    const document = await documentManager.findOne(id, model, { locale, status: 'draft' });
+
+    if (!document) {
+      return ctx.notFound();
+    }
+
+    if (permissionChecker.cannot.read(document)) {
+      return ctx.forbidden();
+    }
+
+    ctx.body = {
+      data: await documentManager.getSchedule(id, model, { locale }),
+    };
+  },
+
+  async schedule(ctx: any) {
+    const { userAbility } = ctx.state;
+    const { model, id } = ctx.params;
+    const { body } = ctx.request;
+
+    const documentManager = getService('document-manager');
+    const permissionChecker = getService('permission-checker').create({ userAbility, model });
+
+    if (permissionChecker.cannot.publish()) {
+      return ctx.forbidden();
+    }
+
+    const { locale, publishAt, unpublishAt } = await getDocumentLocaleAndStatus(body, model);
+    await validateScheduleInput({ publishAt, unpublishAt });
+
+    const document = await documentManager.findOne(id, model, { locale, status: 'draft' });
+
+    if (!document) {
+      return ctx.notFound();
+    }
+
+    if (permissionChecker.cannot.publish(document)) {
+      return ctx.forbidden();
+    }
+
+    ctx.body = {
+      data: await documentManager.schedule(id, model, { locale, publishAt, unpublishAt }),
+    };
+  },
+
   async countDraftRelations(ctx: any) {
     const { userAbility } = ctx.state;
     const { model, id } = ctx.params;
@@ -1,6 +1,7 @@
 import type { UID, Modules } from '@strapi/types';
 import { setCreatorFields, async, errors } from '@strapi/utils';
 
+import { validateScheduleInput } from './validation';
 import { getDocumentLocaleAndStatus } from './validation/dimensions';
 import { getService } from '../utils';
 import { formatDocumentWithMetadata } from './utils/metadata';
@@ -304,6 +305,67 @@ export default {
     )(document);
   },
 
+  async getSchedule(ctx: any) {
+    const { userAbility } = ctx.state;
+    const { model } = ctx.params;
+
+    const documentManager = getService('document-manager');
+    const permissionChecker = getService('permission-checker').create({ userAbility, model });
+
+    if (permissionChecker.cannot.read()) {
+      return ctx.forbidden();
+    }
+
+    const { locale } = await getDocumentLocaleAndStatus(ctx.query, model);
+    const document = await findDocument({}, model, { locale, status: 'draft' });
+
+    if (!document) {
+      return ctx.notFound();
+    }
+
+    if (permissionChecker.cannot.read(document)) {
+      return ctx.forbidden();
+    }
+
+    ctx.body = {
+      data: await documentManager.getSchedule(document.documentId, model, { locale }),
+    };
+  },
+
+  async schedule(ctx: any) {
+    const { userAbility } = ctx.state;
+    const { model } = ctx.params;
+    const { body } = ctx.request;
+
+    const documentManager = getService('document-manager');
+    const permissionChecker = getService('permission-checker').create({ userAbility, model });
+
+    if (permissionChecker.cannot.publish()) {
+      return ctx.forbidden();
+    }
+
+    const { locale, publishAt, unpublishAt } = await getDocumentLocaleAndStatus(body, model);
+    await validateScheduleInput({ publishAt, unpublishAt });
+
+    const document = await findDocument({}, model, { locale, status: 'draft' });
+
+    if (!document) {
+      return ctx.notFound();
+    }
+
+    if (permissionChecker.cannot.publish(document)) {
+      return ctx.forbidden();
+    }
+
+    ctx.body = {
+      data: await documentManager.schedule(document.documentId, model, {
+        locale,
+        publishAt,
+        unpublishAt,
+      }),
+    };
+  },
+
   async countDraftRelations(ctx: any) {
     const { userAbility } = ctx.state;
     const { model } = ctx.params;
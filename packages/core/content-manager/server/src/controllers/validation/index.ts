@@ -72,9 +72,18 @@ const validatePagination = ({ page, pageSize }: any) => {
   }
 };
 
+const scheduleInputSchema = yup
+  .object({
+    publishAt: yup.date().nullable(),
+    unpublishAt: yup.date().nullable(),
+  })
+  .required();
+
 const validateKind = validateYupSchema(kindSchema);
 const validateBulkActionInput = validateYupSchema(bulkActionInputSchema);
 const validateGenerateUIDInput = validateYupSchema(generateUIDInputSchema);
+// Dates are sent as ISO strings
+const validateScheduleInput = validateYupSchema(scheduleInputSchema, { strict: false });
 const validateCheckUIDAvailabilityInput = (body: {
   contentTypeUID: UID.ContentType;
   field: string;
@@ -108,4 +117,5 @@ export {
   validateBulkActionInput,
   validateGenerateUIDInput,
   validateCheckUIDAvailabilityInput,
+  validateScheduleInput,
 };
@@ -197,6 +197,36 @@ export default {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/single-types/:model/schedule',
+      handler: 'single-types.getSchedule',
+      config: {
+        middlewares: [routing],
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'plugin::content-manager.hasPermissions',
+            config: { actions: ['plugin::content-manager.explorer.read'] },
+          },
+        ],
+      },
+    },
+    {
+      method: 'PUT',
+      path: '/single-types/:model/schedule',
+      handler: 'single-types.schedule',
+      config: {
+        middlewares: [routing],
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'plugin::content-manager.hasPermissions',
+            config: { actions: ['plugin::content-manager.explorer.publish'] },
+          },
+        ],
+      },
+    },
     {
       method: 'GET',
       path: '/single-types/:model/actions/countDraftRelations',
@@ -422,6 +452,36 @@ export default {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/collection-types/:model/:id/schedule',
+      handler: 'collection-types.getSchedule',
+      config: {
+        middlewares: [routing],
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'plugin::content-manager.hasPermissions',
+            config: { actions: ['plugin::content-manager.explorer.read'] },
+          },
+        ],
+      },
+    },
+    {
+      method: 'PUT',
+      path: '/collection-types/:model/:id/schedule',
+      handler: 'collection-types.schedule',
+      config: {
+        middlewares: [routing],
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'plugin::content-manager.hasPermissions',
+            config: { actions: ['plugin::content-manager.explorer.publish'] },
+          },
+        ],
+      },
+    },
     {
       method: 'GET',
       path: '/collection-types/:model/:id/actions/countDraftRelations',
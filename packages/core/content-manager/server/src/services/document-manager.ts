@@ -242,6 +242,22 @@ const documentManager = ({ strapi }: { strapi: Core.Strapi }) => {
         .then((result) => result?.entries.at(0));
     },
 
+    async getSchedule(
+      id: Modules.Documents.ID,
+      uid: UID.ContentType,
+      opts: Omit<DocServiceParams<'getSchedule'>, 'documentId'> = {} as any
+    ) {
+      return strapi.documents(uid).getSchedule({ ...opts, documentId: id });
+    },
+
+    async schedule(
+      id: Modules.Documents.ID,
+      uid: UID.ContentType,
+      opts: Omit<DocServiceParams<'schedule'>, 'documentId'> = {} as any
+    ) {
+      return strapi.documents(uid).schedule({ ...opts, documentId: id });
+    },
+
     async countDraftRelations(id: string, uid: UID.ContentType, locale: string) {
       const { populate, hasRelations } = getDeepPopulateDraftCount(uid);
 
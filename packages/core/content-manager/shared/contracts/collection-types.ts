@@ -22,6 +22,14 @@ export type DocumentMetadata = {
   availableLocales: AvailableLocaleDocument[];
 };
 
+export type DocumentSchedule = {
+  documentId: Modules.Documents.ID;
+  locale: string | null;
+  // Dates are serialized as ISO strings
+  publishAt: string | null;
+  unpublishAt: string | null;
+};
+
 /**
  * GET /collection-types/:model
  */
@@ -356,6 +364,53 @@ export declare namespace BulkUnpublish {
   }
 }
 
+/**
+ * GET /collection-types/:model/:id/schedule
+ */
+export declare namespace GetSchedule {
+  export interface Request {
+    body: {};
+    query: {
+      locale?: string | null;
+    };
+  }
+
+  export interface Params {
+    model: string;
+    documentId: Modules.Documents.ID;
+  }
+
+  export interface Response {
+    data: DocumentSchedule;
+    error?: errors.ApplicationError;
+  }
+}
+
+/**
+ * PUT /collection-types/:model/:id/schedule
+ */
+export declare namespace Schedule {
+  export interface Request {
+    body: {
+      locale?: string | null;
+      // `null` removes the scheduled action, omitting a date keeps it unchanged
+      publishAt?: string | null;
+      unpublishAt?: string | null;
+    };
+    query: {};
+  }
+
+  export interface Params {
+    model: string;
+    documentId: Modules.Documents.ID;
+  }
+
+  export interface Response {
+    data: DocumentSchedule;
+    error?: errors.ApplicationError;
+  }
+}
+
 /**
  * GET /collection-types/:model/:id/actions/countDraftRelations
  */
@@ -2,6 +2,8 @@ import type { Modules } from '@strapi/types';
 
 import { errors } from '@strapi/utils';
 
+import type { DocumentSchedule } from './collection-types';
+
 type Document = Modules.Documents.Document<any>;
 type AT_FIELDS = 'updatedAt' | 'createdAt' | 'publishedAt';
 type BY_FIELDS = 'createdBy' | 'updatedBy' | 'publishedBy';
@@ -113,6 +115,42 @@ export declare namespace UnPublish {
   }
 }
 
+/**
+ * GET /single-types/:model/schedule
+ */
+export declare namespace GetSchedule {
+  export interface Request {
+    body: {};
+    query: {
+      locale?: string | null;
+    };
+  }
+
+  export interface Response {
+    data: DocumentSchedule;
+    error?: errors.ApplicationError;
+  }
+}
+
+/**
+ * PUT /single-types/:model/schedule
+ */
+export declare namespace Schedule {
+  export interface Request {
+    body: {
+      locale?: string | null;
+      publishAt?: string | null;
+      unpublishAt?: string | null;
+    };
+    query: {};
+  }
+
+  export interface Response {
+    data: DocumentSchedule;
+    error?: errors.ApplicationError;
+  }
+}
+
 /**
  * GET /single-types/:model/actions/countDraftRelations
  */
@@ -0,0 +1,297 @@
+import * as React from 'react';
+
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  Loader,
+  Modal,
+  Table,
+  Tbody,
+  Td,
+  Th,
+  Thead,
+  Tr,
+  Typography,
+} from '@strapi/design-system';
+import { MessageDescriptor, useIntl } from 'react-intl';
+
+import { useGetReleaseDiffQuery } from '../services/release';
+
+import type {
+  ReleaseActionConflict,
+  ReleaseActionDiff,
+  ReleaseActionFieldChange,
+} from '../../../shared/contracts/release-actions';
+import type { Release } from '../../../shared/contracts/releases';
+
+const CHANGE_TYPE_MESSAGES: Record<ReleaseActionFieldChange['type'], MessageDescriptor> = {
+  added: {
+    id: 'content-releases.pages.ReleaseDetails.diff.change.added',
+    defaultMessage: 'Added',
+  },
+  modified: {
+    id: 'content-releases.pages.ReleaseDetails.diff.change.modified',
+    defaultMessage: 'Modified',
+  },
+  removed: {
+    id: 'content-releases.pages.ReleaseDetails.diff.change.removed',
+    defaultMessage: 'Removed',
+  },
+};
+
+const MAX_VALUE_LENGTH = 120;
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) {
+    return '-';
+  }
+
+  const formattedValue = typeof value === 'string' ? value : JSON.stringify(value);
+
+  return formattedValue.length > MAX_VALUE_LENGTH
+    ? `${formattedValue.slice(0, MAX_VALUE_LENGTH)}…`
+    : formattedValue;
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * ConflictBadge
+ * -----------------------------------------------------------------------------------------------*/
+
+const ConflictBadge = ({ conflict }: { conflict: ReleaseActionConflict }) => {
+  const { formatMessage } = useIntl();
+
+  switch (conflict.type) {
+    case 'entry-not-found':
+      return (
+        <Badge backgroundColor="danger100" textColor="danger700">
+          {formatMessage({
+            id: 'content-releases.pages.ReleaseDetails.diff.conflict.entry-not-found',
+            defaultMessage: 'Entry not found',
+          })}
+        </Badge>
+      );
+    case 'invalid-entry':
+      return (
+        <Badge backgroundColor="danger100" textColor="danger700">
+          {formatMessage({
+            id: 'content-releases.pages.ReleaseDetails.diff.conflict.invalid-entry',
+            defaultMessage: 'Not ready to publish',
+          })}
+        </Badge>
+      );
+    case 'other-releases':
+      return (
+        <Badge backgroundColor="warning100" textColor="warning700">
+          {formatMessage(
+            {
+              id: 'content-releases.pages.ReleaseDetails.diff.conflict.other-releases',
+              defaultMessage: 'Also in {releases}',
+            },
+            { releases: conflict.releases.map(({ name }) => name).join(', ') }
+          )}
+        </Badge>
+      );
+    default:
+      return null;
+  }
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * ReleaseActionDiffItem
+ * -----------------------------------------------------------------------------------------------*/
+
+const ReleaseActionDiffItem = ({ action }: { action: ReleaseActionDiff }) => {
+  const { formatMessage } = useIntl();
+
+  return (
+    <Box borderColor="neutral200" hasRadius padding={4}>
+      <Flex direction="column" alignItems="stretch" gap={3}>
+        <Flex gap={2} wrap="wrap">
+          <Typography fontWeight="bold">
+            {action.contentType.mainFieldValue || action.entryDocumentId}
+          </Typography>
+          <Typography textColor="neutral600" variant="pi">
+            {action.contentType.displayName}
+            {action.locale ? ` (${action.locale})` : ''}
+          </Typography>
+          <Badge>
+            {formatMessage(
+              {
+                id: 'content-releases.pages.ReleaseDetails.diff.action',
+                defaultMessage: '{type, select, publish {Publish} other {Unpublish}}',
+              },
+              { type: action.type }
+            )}
+          </Badge>
+          {action.conflicts.map((conflict) => (
+            <ConflictBadge key={conflict.type} conflict={conflict} />
+          ))}
+        </Flex>
+        {action.changes.length > 0 ? (
+          <Table colCount={4} rowCount={action.changes.length + 1}>
+            <Thead>
+              <Tr>
+                <Th>
+                  <Typography variant="sigma">
+                    {formatMessage({
+                      id: 'content-releases.pages.ReleaseDetails.diff.table.field',
+                      defaultMessage: 'Field',
+                    })}
+                  </Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">
+                    {formatMessage({
+                      id: 'content-releases.pages.ReleaseDetails.diff.table.change',
+                      defaultMessage: 'Change',
+                    })}
+                  </Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">
+                    {formatMessage({
+                      id: 'content-releases.pages.ReleaseDetails.diff.table.before',
+                      defaultMessage: 'Published',
+                    })}
+                  </Typography>
+                </Th>
+                <Th>
+                  <Typography variant="sigma">
+                    {formatMessage({
+                      id: 'content-releases.pages.ReleaseDetails.diff.table.after',
+                      defaultMessage: 'Draft',
+                    })}
+                  </Typography>
+                </Th>
+              </Tr>
+            </Thead>
+            <Tbody>
+              {action.changes.map((change) => (
+                <Tr key={change.field}>
+                  <Td>
+                    <Typography>{change.field}</Typography>
+                  </Td>
+                  <Td>
+                    <Typography>{formatMessage(CHANGE_TYPE_MESSAGES[change.type])}</Typography>
+                  </Td>
+                  <Td>
+                    <Typography textColor="neutral600">{formatValue(change.before)}</Typography>
+                  </Td>
+                  <Td>
+                    <Typography>{formatValue(change.after)}</Typography>
+                  </Td>
+                </Tr>
+              ))}
+            </Tbody>
+          </Table>
+        ) : (
+          <Typography textColor="neutral600" variant="pi">
+            {action.type === 'publish'
+              ? formatMessage({
+                  id: 'content-releases.pages.ReleaseDetails.diff.no-changes',
+                  defaultMessage: 'No changes compared to the published version',
+                })
+              : formatMessage({
+                  id: 'content-releases.pages.ReleaseDetails.diff.unpublish',
+                  defaultMessage: 'The published version will be removed',
+                })}
+          </Typography>
+        )}
+      </Flex>
+    </Box>
+  );
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * ReleaseDiffModal
+ * -----------------------------------------------------------------------------------------------*/
+
+interface ReleaseDiffModalProps {
+  releaseId: Release['id'];
+  open?: boolean;
+  handleClose: () => void;
+}
+
+const ReleaseDiffContent = ({ releaseId }: Pick<ReleaseDiffModalProps, 'releaseId'>) => {
+  const { formatMessage } = useIntl();
+  const { data, isLoading, isError } = useGetReleaseDiffQuery(
+    { id: releaseId },
+    { refetchOnMountOrArgChange: true }
+  );
+
+  if (isLoading) {
+    return (
+      <Flex justifyContent="center">
+        <Loader small>
+          {formatMessage({ id: 'app.components.ListRow.loading', defaultMessage: 'Loading' })}
+        </Loader>
+      </Flex>
+    );
+  }
+
+  if (isError || !data) {
+    return (
+      <Typography textColor="danger600">
+        {formatMessage({ id: 'notification.error', defaultMessage: 'An error occurred' })}
+      </Typography>
+    );
+  }
+
+  if (data.data.length === 0) {
+    return (
+      <Typography textColor="neutral600">
+        {formatMessage({
+          id: 'content-releases.pages.ReleaseDetails.diff.empty',
+          defaultMessage: 'This release has no entries',
+        })}
+      </Typography>
+    );
+  }
+
+  return (
+    <Flex direction="column" alignItems="stretch" gap={4}>
+      <Typography textColor={data.meta.conflictsCount > 0 ? 'warning600' : 'success600'}>
+        {formatMessage(
+          {
+            id: 'content-releases.pages.ReleaseDetails.diff.conflicts-count',
+            defaultMessage:
+              '{count, plural, =0 {No conflicts} one {# entry has conflicts} other {# entries have conflicts}}',
+          },
+          { count: data.meta.conflictsCount }
+        )}
+      </Typography>
+      {data.data.map((action: ReleaseActionDiff) => (
+        <ReleaseActionDiffItem key={action.id} action={action} />
+      ))}
+    </Flex>
+  );
+};
+
+export const ReleaseDiffModal = ({ releaseId, open, handleClose }: ReleaseDiffModalProps) => {
+  const { formatMessage } = useIntl();
+
+  return (
+    <Modal.Root open={open} onOpenChange={handleClose}>
+      <Modal.Content>
+        <Modal.Header>
+          <Modal.Title>
+            {formatMessage({
+              id: 'content-releases.pages.ReleaseDetails.diff.title',
+              defaultMessage: 'Changes to publish',
+            })}
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>{open ? <ReleaseDiffContent releaseId={releaseId} /> : null}</Modal.Body>
+        <Modal.Footer>
+          <Modal.Close>
+            <Button variant="tertiary">
+              {formatMessage({ id: 'global.close', defaultMessage: 'Close' })}
+            </Button>
+          </Modal.Close>
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+};
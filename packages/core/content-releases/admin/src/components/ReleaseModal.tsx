@@ -31,6 +31,8 @@ export interface FormValues {
   timezone: string | null;
   isScheduled?: boolean;
   scheduledAt: Date | null;
+  isRecurring?: boolean;
+  recurrence?: string | null;
 }
 
 interface ReleaseModalProps {
@@ -97,6 +99,7 @@ export const ReleaseModal = ({
               ...values,
               timezone: values.timezone ? values.timezone.split('&')[1] : null,
               scheduledAt: values.isScheduled ? getScheduledTimestamp(values) : null,
+              recurrence: values.isRecurring && values.recurrence ? values.recurrence.trim() : null,
             });
           }}
           initialValues={{
@@ -134,6 +137,11 @@ export const ReleaseModal = ({
                         checked={values.isScheduled}
                         onCheckedChange={(checked) => {
                           setFieldValue('isScheduled', checked);
+                          if (checked) {
+                            // A release is either scheduled once or recurring
+                            setFieldValue('isRecurring', false);
+                            setFieldValue('recurrence', '');
+                          }
                           if (!checked) {
                             // Clear scheduling info from a release on unchecking schedule release, which reset scheduling info in DB
                             setFieldValue('date', null);
@@ -234,6 +242,71 @@ export const ReleaseModal = ({
                         <TimezoneComponent timezoneOptions={timezoneList} />
                       </>
                     )}
+                    <Box width="max-content">
+                      <Checkbox
+                        name="isRecurring"
+                        checked={values.isRecurring}
+                        onCheckedChange={(checked) => {
+                          setFieldValue('isRecurring', checked);
+                          if (checked) {
+                            setFieldValue('isScheduled', false);
+                            setFieldValue('date', null);
+                            setFieldValue('time', '');
+                            setFieldValue(
+                              'timezone',
+                              values.timezone ||
+                                (initialValues.timezone
+                                  ? getTimezoneWithOffset()
+                                  : systemTimezone.value)
+                            );
+                          } else {
+                            setFieldValue('recurrence', '');
+                            setFieldValue('timezone', null);
+                          }
+                        }}
+                      >
+                        <Typography
+                          textColor={values.isRecurring ? 'primary600' : 'neutral800'}
+                          fontWeight={values.isRecurring ? 'semiBold' : 'regular'}
+                        >
+                          {formatMessage({
+                            id: 'content-releases.modal.form.input.label.recurring-release',
+                            defaultMessage: 'Recurring release',
+                          })}
+                        </Typography>
+                      </Checkbox>
+                    </Box>
+                    {values.isRecurring && (
+                      <>
+                        <Field.Root
+                          name="recurrence"
+                          error={
+                            errors.recurrence &&
+                            formatMessage({
+                              id: errors.recurrence,
+                              defaultMessage: errors.recurrence,
+                            })
+                          }
+                          hint={formatMessage({
+                            id: 'content-releases.modal.form.input.hint.recurrence',
+                            defaultMessage:
+                              'A cron expression, e.g. "0 9 * * 1" to publish every Monday at 9:00',
+                          })}
+                          required
+                        >
+                          <Field.Label>
+                            {formatMessage({
+                              id: 'content-releases.modal.form.input.label.recurrence',
+                              defaultMessage: 'Recurrence',
+                            })}
+                          </Field.Label>
+                          <TextInput value={values.recurrence ?? ''} onChange={handleChange} />
+                          <Field.Hint />
+                          <Field.Error />
+                        </Field.Root>
+                        <TimezoneComponent timezoneOptions={timezoneList} />
+                      </>
+                    )}
                   </Flex>
                 </Modal.Body>
                 <Modal.Footer>
@@ -0,0 +1,187 @@
+import * as React from 'react';
+
+import { Page } from '@strapi/admin/strapi-admin';
+import { Box, Flex, IconButton, Link, Loader, Typography } from '@strapi/design-system';
+import { ChevronLeft, ChevronRight } from '@strapi/icons';
+import {
+  addDays,
+  addMonths,
+  endOfMonth,
+  endOfWeek,
+  isSameDay,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { MessageDescriptor, useIntl } from 'react-intl';
+import { NavLink } from 'react-router-dom';
+import { styled } from 'styled-components';
+
+import { useGetReleasesCalendarQuery } from '../services/release';
+
+import type { ReleaseCalendarEvent } from '../../../shared/contracts/releases';
+
+const EVENT_TYPE_MESSAGES: Record<ReleaseCalendarEvent['type'], MessageDescriptor> = {
+  scheduled: {
+    id: 'content-releases.pages.Releases.calendar.event.scheduled',
+    defaultMessage: 'Scheduled',
+  },
+  published: {
+    id: 'content-releases.pages.Releases.calendar.event.published',
+    defaultMessage: 'Published',
+  },
+  occurrence: {
+    id: 'content-releases.pages.Releases.calendar.event.occurrence',
+    defaultMessage: 'Recurring',
+  },
+};
+
+const EVENT_TYPE_COLORS: Record<ReleaseCalendarEvent['type'], string> = {
+  scheduled: 'primary',
+  published: 'success',
+  occurrence: 'secondary',
+};
+
+const CalendarGrid = styled.div`
+  display: grid;
+  grid-template-columns: repeat(7, minmax(0, 1fr));
+  gap: ${({ theme }) => theme.spaces[1]};
+`;
+
+const EventLink = styled(Link)`
+  display: block;
+  max-width: 100%;
+
+  span {
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+  }
+`;
+
+/**
+ * Weeks always start on Monday, the days of the month are padded with the days of the previous
+ * and next months to fill the weeks
+ */
+const getCalendarDays = (month: Date) => {
+  const start = startOfWeek(startOfMonth(month), { weekStartsOn: 1 });
+  const end = endOfWeek(endOfMonth(month), { weekStartsOn: 1 });
+
+  const days: Date[] = [];
+
+  for (let day = start; day <= end; day = addDays(day, 1)) {
+    days.push(day);
+  }
+
+  return { start, end, days };
+};
+
+/* -------------------------------------------------------------------------------------------------
+ * ReleasesCalendar
+ * -----------------------------------------------------------------------------------------------*/
+
+export const ReleasesCalendar = () => {
+  const { formatMessage, formatDate, formatTime } = useIntl();
+  const [month, setMonth] = React.useState(() => startOfMonth(new Date()));
+
+  const { start, end, days } = React.useMemo(() => getCalendarDays(month), [month]);
+  const { data, isLoading, isError } = useGetReleasesCalendarQuery({
+    start: start.toISOString(),
+    end: end.toISOString(),
+  });
+
+  if (isError) {
+    return <Page.Error />;
+  }
+
+  const events = data?.data ?? [];
+
+  return (
+    <Flex direction="column" alignItems="stretch" gap={4}>
+      <Flex gap={2}>
+        <IconButton
+          label={formatMessage({
+            id: 'content-releases.pages.Releases.calendar.previous-month',
+            defaultMessage: 'Previous month',
+          })}
+          onClick={() => setMonth((prev) => addMonths(prev, -1))}
+          variant="tertiary"
+        >
+          <ChevronLeft />
+        </IconButton>
+        <IconButton
+          label={formatMessage({
+            id: 'content-releases.pages.Releases.calendar.next-month',
+            defaultMessage: 'Next month',
+          })}
+          onClick={() => setMonth((prev) => addMonths(prev, 1))}
+          variant="tertiary"
+        >
+          <ChevronRight />
+        </IconButton>
+        <Typography variant="delta" tag="h2">
+          {formatDate(month, { month: 'long', year: 'numeric' })}
+        </Typography>
+        {isLoading ? (
+          <Loader small>
+            {formatMessage({ id: 'app.components.ListRow.loading', defaultMessage: 'Loading' })}
+          </Loader>
+        ) : null}
+      </Flex>
+      <CalendarGrid>
+        {days.slice(0, 7).map((day) => (
+          <Box key={day.toISOString()} paddingLeft={2}>
+            <Typography variant="sigma" textColor="neutral600">
+              {formatDate(day, { weekday: 'short' })}
+            </Typography>
+          </Box>
+        ))}
+        {days.map((day) => {
+          const dayEvents = events.filter((event: ReleaseCalendarEvent) =>
+            isSameDay(new Date(event.date), day)
+          );
+
+          return (
+            <Box
+              key={day.toISOString()}
+              background={isSameMonth(day, month) ? 'neutral0' : 'neutral100'}
+              borderColor={isSameDay(day, new Date()) ? 'primary600' : 'neutral150'}
+              hasRadius
+              minHeight="10rem"
+              padding={2}
+            >
+              <Flex direction="column" alignItems="stretch" gap={1}>
+                <Typography
+                  variant="pi"
+                  textColor={isSameMonth(day, month) ? 'neutral800' : 'neutral500'}
+                >
+                  {formatDate(day, { day: 'numeric' })}
+                </Typography>
+                {dayEvents.map((event: ReleaseCalendarEvent) => (
+                  <Box
+                    key={`${event.type}-${event.release.id}-${event.date}`}
+                    background={`${EVENT_TYPE_COLORS[event.type]}100`}
+                    hasRadius
+                    paddingLeft={1}
+                    paddingRight={1}
+                  >
+                    <EventLink
+                      tag={NavLink}
+                      to={`${event.release.id}`}
+                      isExternal={false}
+                      title={formatMessage(EVENT_TYPE_MESSAGES[event.type])}
+                    >
+                      <Typography variant="pi" textColor={`${EVENT_TYPE_COLORS[event.type]}700`}>
+                        {`${formatTime(new Date(event.date), { hourCycle: 'h23' })} ${event.release.name}`}
+                      </Typography>
+                    </EventLink>
+                  </Box>
+                ))}
+              </Flex>
+            </Box>
+          );
+        })}
+      </CalendarGrid>
+    </Flex>
+  );
+};
@@ -26,6 +26,7 @@ import {
   SingleSelect,
   SingleSelectOption,
   EmptyStateLayout,
+  Link,
   LinkButton,
   Dialog,
   SimpleMenu,
@@ -43,6 +44,7 @@ import { EntryValidationPopover } from '../components/EntryValidationPopover';
 import { RelativeTime } from '../components/RelativeTime';
 import { ReleaseActionMenu } from '../components/ReleaseActionMenu';
 import { ReleaseActionOptions } from '../components/ReleaseActionOptions';
+import { ReleaseDiffModal } from '../components/ReleaseDiffModal';
 import { ReleaseModal, FormValues } from '../components/ReleaseModal';
 import { PERMISSIONS } from '../constants';
 import {
@@ -53,6 +55,7 @@ import {
   useUpdateReleaseMutation,
   useUpdateReleaseActionMutation,
   usePublishReleaseMutation,
+  useRevertReleaseMutation,
   useDeleteReleaseMutation,
   releaseApi,
 } from '../services/release';
@@ -101,12 +104,16 @@ const ReleaseDetailsLayout = ({
     }
   );
   const [publishRelease, { isLoading: isPublishing }] = usePublishReleaseMutation();
+  const [revertRelease, { isLoading: isReverting }] = useRevertReleaseMutation();
   const { toggleNotification } = useNotification();
   const { formatAPIError } = useAPIErrorHandler();
   const { allowedActions } = useRBAC(PERMISSIONS);
   const { canUpdate, canDelete, canPublish } = allowedActions;
   const dispatch = useTypedDispatch();
   const { trackUsage } = useTracking();
+  const [diffModalShown, setDiffModalShown] = React.useState(false);
+  const [showRevertWarning, setShowRevertWarning] = React.useState(false);
+  const navigate = useNavigate();
 
   const release = data?.data;
 
@@ -145,6 +152,39 @@ const ReleaseDetailsLayout = ({
     }
   };
 
+  const toggleRevertWarning = () => setShowRevertWarning((prevState) => !prevState);
+
+  const handleRevertRelease = (id: string) => async () => {
+    const response = await revertRelease({ id });
+
+    if ('data' in response) {
+      toggleNotification({
+        type: 'success',
+        message: formatMessage({
+          id: 'content-releases.pages.ReleaseDetails.revert-notification-success',
+          defaultMessage: 'Release was reverted successfully.',
+        }),
+      });
+
+      trackUsage('didRevertRelease', {
+        totalEntries: response.data.meta.totalEntries,
+      });
+
+      // The revert is recorded as a new release
+      navigate(`../${response.data.data.id}`);
+    } else if (isFetchError(response.error)) {
+      toggleNotification({
+        type: 'danger',
+        message: formatAPIError(response.error),
+      });
+    } else {
+      toggleNotification({
+        type: 'danger',
+        message: formatMessage({ id: 'notification.error', defaultMessage: 'An error occurred' }),
+      });
+    }
+  };
+
   const handleRefresh = () => {
     dispatch(
       releaseApi.util.invalidateTags([
@@ -226,6 +266,15 @@ const ReleaseDetailsLayout = ({
         }
       )
     : '';
+  const recurrenceText = release.recurrence
+    ? formatMessage(
+        {
+          id: 'content-releases.pages.ReleaseDetails.header-subtitle.recurring',
+          defaultMessage: 'Repeats on "{recurrence}" ({timezone})',
+        },
+        { recurrence: release.recurrence, timezone: release.timezone }
+      )
+    : '';
 
   return (
     <Main aria-busy={isLoadingDetails}>
@@ -234,14 +283,49 @@ const ReleaseDetailsLayout = ({
         subtitle={
           <Flex gap={2} lineHeight={6}>
             <Typography textColor="neutral600" variant="epsilon">
-              {numberOfEntriesText + (isScheduled ? ` - ${scheduledText}` : '')}
+              {numberOfEntriesText +
+                (isScheduled ? ` - ${scheduledText}` : '') +
+                (recurrenceText ? ` - ${recurrenceText}` : '')}
             </Typography>
             <Badge {...getBadgeProps(release.status)}>{release.status}</Badge>
+            {release.recurrenceOf ? (
+              <Link tag={ReactRouterLink} to={`../${release.recurrenceOf.id}`}>
+                {formatMessage(
+                  {
+                    id: 'content-releases.pages.ReleaseDetails.header-subtitle.occurrence-of',
+                    defaultMessage: 'Occurrence of {name}',
+                  },
+                  { name: release.recurrenceOf.name }
+                )}
+              </Link>
+            ) : null}
+            {release.revertOf ? (
+              <Link tag={ReactRouterLink} to={`../${release.revertOf.id}`}>
+                {formatMessage(
+                  {
+                    id: 'content-releases.pages.ReleaseDetails.header-subtitle.revert-of',
+                    defaultMessage: 'Reverts {name}',
+                  },
+                  { name: release.revertOf.name }
+                )}
+              </Link>
+            ) : null}
+            {release.revertedBy ? (
+              <Link tag={ReactRouterLink} to={`../${release.revertedBy.id}`}>
+                {formatMessage(
+                  {
+                    id: 'content-releases.pages.ReleaseDetails.header-subtitle.reverted-by',
+                    defaultMessage: 'Reverted by {name}',
+                  },
+                  { name: release.revertedBy.name }
+                )}
+              </Link>
+            ) : null}
           </Flex>
         }
         navigationAction={<BackButton fallback=".." />}
         primaryAction={
-          !release.releasedAt && (
+          !release.releasedAt ? (
             <Flex gap={2}>
               <SimpleMenuButton
                 label={<More />}
@@ -302,6 +386,17 @@ const ReleaseDetailsLayout = ({
                   </Typography>
                 </ReleaseInfoWrapper>
               </SimpleMenuButton>
+              <Button
+                size="S"
+                variant="tertiary"
+                onClick={() => setDiffModalShown(true)}
+                disabled={release.actions.meta.count === 0}
+              >
+                {formatMessage({
+                  id: 'content-releases.header.actions.preview-changes',
+                  defaultMessage: 'Preview changes',
+                })}
+              </Button>
               <Button size="S" variant="tertiary" onClick={handleRefresh}>
                 {formatMessage({
                   id: 'content-releases.header.actions.refresh',
@@ -323,9 +418,35 @@ const ReleaseDetailsLayout = ({
                 </Button>
               ) : null}
             </Flex>
-          )
+          ) : canPublish && !release.revertedBy ? (
+            <Button
+              size="S"
+              variant="danger-light"
+              onClick={toggleRevertWarning}
+              loading={isReverting}
+            >
+              {formatMessage({
+                id: 'content-releases.header.actions.revert',
+                defaultMessage: 'Revert',
+              })}
+            </Button>
+          ) : null
         }
       />
+      <ReleaseDiffModal
+        releaseId={release.id}
+        open={diffModalShown}
+        handleClose={() => setDiffModalShown(false)}
+      />
+      <Dialog.Root open={showRevertWarning} onOpenChange={toggleRevertWarning}>
+        <ConfirmDialog onConfirm={handleRevertRelease(release.id.toString())}>
+          {formatMessage({
+            id: 'content-releases.dialog.revert-confirmation-message',
+            defaultMessage:
+              'Are you sure you want to revert this release? Its entries will be restored to the version they had before it was published.',
+          })}
+        </ConfirmDialog>
+      </Dialog.Root>
       {children}
     </Main>
   );
@@ -760,6 +881,7 @@ const ReleaseDetailsPage = () => {
       name: values.name,
       scheduledAt: values.scheduledAt,
       timezone: values.timezone,
+      recurrence: values.recurrence,
     });
 
     if ('data' in response) {
@@ -827,6 +949,8 @@ const ReleaseDetailsPage = () => {
           time,
           isScheduled: Boolean(scheduledAt),
           timezone,
+          isRecurring: Boolean(releaseData?.recurrence),
+          recurrence: releaseData?.recurrence ?? '',
         }}
       />
       <Dialog.Root open={showWarningSubmit} onOpenChange={toggleWarningSubmit}>
@@ -27,7 +27,7 @@ import {
   Typography,
   Link,
 } from '@strapi/design-system';
-import { Plus } from '@strapi/icons';
+import { Calendar, List, Plus } from '@strapi/icons';
 import { EmptyDocuments } from '@strapi/icons/symbols';
 import { format } from 'date-fns';
 import { useIntl } from 'react-intl';
@@ -37,6 +37,7 @@ import { styled } from 'styled-components';
 import { GetReleases, type Release } from '../../../shared/contracts/releases';
 import { RelativeTime as BaseRelativeTime } from '../components/RelativeTime';
 import { ReleaseModal, FormValues } from '../components/ReleaseModal';
+import { ReleasesCalendar } from '../components/ReleasesCalendar';
 import { PERMISSIONS } from '../constants';
 import {
   useGetReleasesQuery,
@@ -177,11 +178,14 @@ const INITIAL_FORM_VALUES = {
   isScheduled: true,
   scheduledAt: null,
   timezone: null,
+  isRecurring: false,
+  recurrence: '',
 } satisfies FormValues;
 
 const ReleasesPage = () => {
   const location = useLocation();
   const [releaseModalShown, setReleaseModalShown] = React.useState(false);
+  const [isCalendarView, setIsCalendarView] = React.useState(false);
   const { toggleNotification } = useNotification();
   const { formatMessage } = useIntl();
   const navigate = useNavigate();
@@ -244,11 +248,12 @@ const ReleasesPage = () => {
     });
   };
 
-  const handleAddRelease = async ({ name, scheduledAt, timezone }: FormValues) => {
+  const handleAddRelease = async ({ name, scheduledAt, timezone, recurrence }: FormValues) => {
     const response = await createRelease({
       name,
       scheduledAt,
       timezone,
+      recurrence,
     });
     if ('data' in response) {
       // When the response returns an object with 'data', handle success
@@ -341,58 +346,80 @@ const ReleasesPage = () => {
               })}
             </StyledAlert>
           )}
-          <Tabs.Root variant="simple" onValueChange={handleTabChange} value={activeTab}>
-            <Box paddingBottom={8}>
-              <Tabs.List
-                aria-label={formatMessage({
-                  id: 'content-releases.pages.Releases.tab-group.label',
-                  defaultMessage: 'Releases list',
-                })}
+          <Flex justifyContent="flex-end" paddingBottom={4}>
+            <Button
+              variant="tertiary"
+              startIcon={isCalendarView ? <List /> : <Calendar />}
+              onClick={() => setIsCalendarView((prev) => !prev)}
+            >
+              {formatMessage(
+                {
+                  id: 'content-releases.pages.Releases.view.toggle',
+                  defaultMessage:
+                    '{isCalendarView, select, true {List view} other {Calendar view}}',
+                },
+                { isCalendarView }
+              )}
+            </Button>
+          </Flex>
+          {isCalendarView ? (
+            <ReleasesCalendar />
+          ) : (
+            <>
+              <Tabs.Root variant="simple" onValueChange={handleTabChange} value={activeTab}>
+                <Box paddingBottom={8}>
+                  <Tabs.List
+                    aria-label={formatMessage({
+                      id: 'content-releases.pages.Releases.tab-group.label',
+                      defaultMessage: 'Releases list',
+                    })}
+                  >
+                    <Tabs.Trigger value="pending">
+                      {formatMessage(
+                        {
+                          id: 'content-releases.pages.Releases.tab.pending',
+                          defaultMessage: 'Pending ({count})',
+                        },
+                        {
+                          count: totalPendingReleases,
+                        }
+                      )}
+                    </Tabs.Trigger>
+                    <Tabs.Trigger value="done">
+                      {formatMessage({
+                        id: 'content-releases.pages.Releases.tab.done',
+                        defaultMessage: 'Done',
+                      })}
+                    </Tabs.Trigger>
+                  </Tabs.List>
+                  <Divider />
+                </Box>
+                {/* Pending releases */}
+                <Tabs.Content value="pending">
+                  <ReleasesGrid
+                    sectionTitle="pending"
+                    releases={response?.currentData?.data}
+                    isError={isError}
+                  />
+                </Tabs.Content>
+                {/* Done releases */}
+                <Tabs.Content value="done">
+                  <ReleasesGrid
+                    sectionTitle="done"
+                    releases={response?.currentData?.data}
+                    isError={isError}
+                  />
+                </Tabs.Content>
+              </Tabs.Root>
+              <Pagination.Root
+                {...response?.currentData?.meta?.pagination}
+                defaultPageSize={response?.currentData?.meta?.pagination?.pageSize}
               >
-                <Tabs.Trigger value="pending">
-                  {formatMessage(
-                    {
-                      id: 'content-releases.pages.Releases.tab.pending',
-                      defaultMessage: 'Pending ({count})',
-                    },
-                    {
-                      count: totalPendingReleases,
-                    }
-                  )}
-                </Tabs.Trigger>
-                <Tabs.Trigger value="done">
-                  {formatMessage({
-                    id: 'content-releases.pages.Releases.tab.done',
-                    defaultMessage: 'Done',
-                  })}
-                </Tabs.Trigger>
-              </Tabs.List>
-              <Divider />
-            </Box>
-            {/* Pending releases */}
-            <Tabs.Content value="pending">
-              <ReleasesGrid
-                sectionTitle="pending"
-                releases={response?.currentData?.data}
-                isError={isError}
-              />
-            </Tabs.Content>
-            {/* Done releases */}
-            <Tabs.Content value="done">
-              <ReleasesGrid
-                sectionTitle="done"
-                releases={response?.currentData?.data}
-                isError={isError}
-              />
-            </Tabs.Content>
-          </Tabs.Root>
-          <Pagination.Root
-            {...response?.currentData?.meta?.pagination}
-            defaultPageSize={response?.currentData?.meta?.pagination?.pageSize}
-          >
-            <Pagination.PageSize options={['8', '16', '32', '64']} />
-            <Pagination.Links />
-          </Pagination.Root>
+                <Pagination.PageSize options={['8', '16', '32', '64']} />
+                <Pagination.Links />
+              </Pagination.Root>
+            </>
+          )}
         </>
       </Layouts.Content>
       <ReleaseModal
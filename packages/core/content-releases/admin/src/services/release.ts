@@ -18,7 +18,10 @@ import type {
   GetReleasesByDocumentAttached,
   UpdateRelease,
   GetRelease,
+  GetReleaseDiff,
+  GetReleasesCalendar,
   PublishRelease,
+  RevertRelease,
   MapEntriesToReleases,
 } from '../../../shared/contracts/releases';
 import type { GetSettings, UpdateSettings } from '../../../shared/contracts/settings';
@@ -210,6 +213,30 @@ const releaseApi = adminApi
             { type: 'Release' as const, id: arg.id },
           ],
         }),
+        getReleasesCalendar: build.query<
+          GetReleasesCalendar.Response,
+          GetReleasesCalendar.Request['query']
+        >({
+          query(params) {
+            return {
+              url: '/content-releases/calendar',
+              method: 'GET',
+              config: {
+                params,
+              },
+            };
+          },
+          providesTags: [{ type: 'Release', id: 'LIST' }],
+        }),
+        getReleaseDiff: build.query<GetReleaseDiff.Response, GetReleaseDiff.Request['params']>({
+          query({ id }) {
+            return {
+              url: `/content-releases/${id}/diff`,
+              method: 'GET',
+            };
+          },
+          providesTags: [{ type: 'ReleaseAction', id: 'LIST' }],
+        }),
         getReleaseActions: build.query<
           GetReleaseActions.Response,
           GetReleaseActions.Request['params'] & GetReleaseActions.Request['query']
@@ -357,6 +384,19 @@ const releaseApi = adminApi
             { type: 'Document', id: `ALL_LIST` },
           ],
         }),
+        revertRelease: build.mutation<RevertRelease.Response, RevertRelease.Request['params']>({
+          query({ id }) {
+            return {
+              url: `/content-releases/${id}/revert`,
+              method: 'POST',
+            };
+          },
+          invalidatesTags: (result, error, arg) => [
+            { type: 'Release', id: 'LIST' },
+            { type: 'Release', id: arg.id },
+            { type: 'Document', id: `ALL_LIST` },
+          ],
+        }),
         deleteRelease: build.mutation<DeleteRelease.Response, DeleteRelease.Request['params']>({
           query({ id }) {
             return {
@@ -406,6 +446,8 @@ const {
   useGetReleasesQuery,
   useGetReleasesForEntryQuery,
   useGetReleaseQuery,
+  useGetReleasesCalendarQuery,
+  useGetReleaseDiffQuery,
   useGetReleaseActionsQuery,
   useCreateReleaseMutation,
   useCreateReleaseActionMutation,
@@ -413,6 +455,7 @@ const {
   useUpdateReleaseMutation,
   useUpdateReleaseActionMutation,
   usePublishReleaseMutation,
+  useRevertReleaseMutation,
   useDeleteReleaseActionMutation,
   useDeleteReleaseMutation,
   useGetMappedEntriesInReleasesQuery,
@@ -424,6 +467,8 @@ export {
   useGetReleasesQuery,
   useGetReleasesForEntryQuery,
   useGetReleaseQuery,
+  useGetReleasesCalendarQuery,
+  useGetReleaseDiffQuery,
   useGetReleaseActionsQuery,
   useCreateReleaseMutation,
   useCreateReleaseActionMutation,
@@ -431,6 +476,7 @@ export {
   useUpdateReleaseMutation,
   useUpdateReleaseActionMutation,
   usePublishReleaseMutation,
+  useRevertReleaseMutation,
   useDeleteReleaseActionMutation,
   useDeleteReleaseMutation,
   useGetMappedEntriesInReleasesQuery,
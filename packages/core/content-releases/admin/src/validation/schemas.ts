@@ -38,8 +38,14 @@ export const RELEASE_SCHEMA = yup
           return selectedTime > now;
         }
       ),
-    timezone: yup.string().when('isScheduled', {
+    isRecurring: yup.boolean().optional(),
+    recurrence: yup.string().when('isRecurring', {
       is: true,
+      then: yup.string().trim().required(translatedErrors.required.id),
+      otherwise: yup.string().nullable(),
+    }),
+    timezone: yup.string().when(['isScheduled', 'isRecurring'], {
+      is: (isScheduled?: boolean, isRecurring?: boolean) => isScheduled || isRecurring,
       then: yup.string().required(translatedErrors.required.id).nullable(),
       otherwise: yup.string().nullable(),
     }),
@@ -67,4 +67,5 @@ export const ACTIONS = [
 
 export const ALLOWED_WEBHOOK_EVENTS = {
   RELEASES_PUBLISH: 'releases.publish',
+  RELEASES_REVERT: 'releases.revert',
 };
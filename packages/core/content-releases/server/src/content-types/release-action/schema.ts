@@ -43,5 +43,9 @@ export default {
     isEntryValid: {
       type: 'boolean',
     },
+    // The published version of the entry before the release was published, used to revert it
+    snapshot: {
+      type: 'json',
+    },
   },
 };
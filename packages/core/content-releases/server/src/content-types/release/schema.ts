@@ -1,4 +1,4 @@
-import { RELEASE_ACTION_MODEL_UID } from '../../constants';
+import { RELEASE_ACTION_MODEL_UID, RELEASE_MODEL_UID } from '../../constants';
 
 export default {
   collectionName: 'strapi_releases',
@@ -32,6 +32,10 @@ export default {
     timezone: {
       type: 'string',
     },
+    // Cron expression of a recurring release, evaluated in the release timezone
+    recurrence: {
+      type: 'string',
+    },
     status: {
       type: 'enumeration',
       enum: ['ready', 'blocked', 'failed', 'done', 'empty'],
@@ -43,5 +47,31 @@ export default {
       target: RELEASE_ACTION_MODEL_UID,
       mappedBy: 'release',
     },
+    // A published release is reverted by a new release, recorded once the revert is done
+    revertOf: {
+      type: 'relation',
+      relation: 'oneToOne',
+      target: RELEASE_MODEL_UID,
+      inversedBy: 'revertedBy',
+    },
+    revertedBy: {
+      type: 'relation',
+      relation: 'oneToOne',
+      target: RELEASE_MODEL_UID,
+      mappedBy: 'revertOf',
+    },
+    // Every occurrence of a recurring release is published as a new release
+    recurrenceOf: {
+      type: 'relation',
+      relation: 'manyToOne',
+      target: RELEASE_MODEL_UID,
+      inversedBy: 'occurrences',
+    },
+    occurrences: {
+      type: 'relation',
+      relation: 'oneToMany',
+      target: RELEASE_MODEL_UID,
+      mappedBy: 'recurrenceOf',
+    },
   },
 };
@@ -74,6 +74,47 @@ describe('Release controller', () => {
       // @ts-expect-error partial context
       expect(() => releaseController.create(ctx)).rejects.toThrow('name is a required field');
     });
+
+    it('throws an error given an invalid recurrence', async () => {
+      const ctx = {
+        state: {
+          user: {},
+        },
+        request: {
+          body: {
+            name: 'Weekly release',
+            recurrence: 'every monday',
+            timezone: 'Europe/Paris',
+          },
+        },
+      };
+
+      // @ts-expect-error partial context
+      await expect(releaseController.create(ctx)).rejects.toThrow(
+        'recurrence must be a valid cron expression'
+      );
+    });
+
+    it('throws an error given a scheduled and recurring release', async () => {
+      const ctx = {
+        state: {
+          user: {},
+        },
+        request: {
+          body: {
+            name: 'Weekly release',
+            recurrence: '0 9 * * 1',
+            scheduledAt: new Date().toISOString(),
+            timezone: 'Europe/Paris',
+          },
+        },
+      };
+
+      // @ts-expect-error partial context
+      await expect(releaseController.create(ctx)).rejects.toThrow(
+        'A release cannot be both scheduled and recurring'
+      );
+    });
   });
 
   describe('update', () => {
@@ -1,16 +1,23 @@
 import type Koa from 'koa';
 import { errors } from '@strapi/utils';
-import type { Schema } from '@strapi/types';
+import type { Schema, UID } from '@strapi/types';
 import { RELEASE_MODEL_UID } from '../constants';
-import { validateRelease, validatefindByDocumentAttachedParams } from './validation/release';
+import {
+  validateRelease,
+  validatefindByDocumentAttachedParams,
+  validateCalendarQuery,
+} from './validation/release';
 import type {
   CreateRelease,
   UpdateRelease,
   PublishRelease,
+  RevertRelease,
   GetRelease,
+  GetReleaseDiff,
   Release,
   DeleteRelease,
   GetReleases,
+  GetReleasesCalendar,
   MapEntriesToReleases,
 } from '../../../shared/contracts/releases';
 import type { UserInfo } from '../../../shared/types';
@@ -140,12 +147,30 @@ const releaseController = {
     ctx.body = { data, meta: { pagination, pendingReleasesCount } };
   },
 
+  async calendar(ctx: Koa.Context) {
+    const query = ctx.query as GetReleasesCalendar.Request['query'];
+
+    await validateCalendarQuery(query);
+
+    const releaseService = getService('release', { strapi });
+    const data = await releaseService.getCalendar(query);
+
+    ctx.body = { data };
+  },
+
   async findOne(ctx: Koa.Context) {
     const id: GetRelease.Request['params']['id'] = ctx.params.id;
 
     const releaseService = getService('release', { strapi });
     const releaseActionService = getService('release-action', { strapi });
-    const release = await releaseService.findOne(id, { populate: ['createdBy'] });
+    const release = await releaseService.findOne(id, {
+      populate: {
+        createdBy: true,
+        revertOf: { fields: ['id', 'name'] },
+        revertedBy: { fields: ['id', 'name'] },
+        recurrenceOf: { fields: ['id', 'name'] },
+      },
+    });
     if (!release) {
       throw new errors.NotFoundError(`Release not found for id: ${id}`);
     }
@@ -175,6 +200,38 @@ const releaseController = {
     ctx.body = { data };
   },
 
+  async diff(ctx: Koa.Context) {
+    const id: GetReleaseDiff.Request['params']['id'] = ctx.params.id;
+
+    const contentTypeOutputSanitizers: Partial<
+      Record<UID.ContentType, (entry: any) => Promise<any>>
+    > = {};
+
+    // Every entry is sanitized with the permissions of its own content type before being compared
+    const sanitizeEntry = (contentType: UID.ContentType, entry: any) => {
+      if (!contentTypeOutputSanitizers[contentType]) {
+        contentTypeOutputSanitizers[contentType] = strapi
+          .service('admin::permission')
+          .createPermissionsManager({
+            ability: ctx.state.userAbility,
+            model: contentType,
+          }).sanitizeOutput;
+      }
+
+      return contentTypeOutputSanitizers[contentType]!(entry);
+    };
+
+    const releaseDiffService = getService('release-diff', { strapi });
+    const data = await releaseDiffService.computeDiff(id, { sanitizeEntry });
+
+    ctx.body = {
+      data,
+      meta: {
+        conflictsCount: data.filter((action) => action.conflicts.length > 0).length,
+      },
+    } satisfies GetReleaseDiff.Response;
+  },
+
   async mapEntriesToReleases(ctx: Koa.Context) {
     const { contentTypeUid, documentIds, locale } = ctx.query;
 
@@ -309,6 +366,28 @@ const releaseController = {
       },
     };
   },
+
+  async revert(ctx: Koa.Context) {
+    const user: UserInfo = ctx.state.user;
+    const id: RevertRelease.Request['params']['id'] = ctx.params.id;
+
+    const releaseService = getService('release', { strapi });
+    const releaseActionService = getService('release-action', { strapi });
+    const release = await releaseService.revert(id, { user });
+
+    const totalEntries = await releaseActionService.countActions({
+      filters: {
+        release: release.id,
+      },
+    });
+
+    ctx.body = {
+      data: release,
+      meta: {
+        totalEntries,
+      },
+    };
+  },
 };
 
 export default releaseController;
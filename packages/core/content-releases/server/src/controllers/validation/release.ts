@@ -1,12 +1,36 @@
 import { yup, validateYupSchema } from '@strapi/utils';
+import { parseExpression } from 'cron-parser';
+
+const isCronExpression = (value: string) => {
+  try {
+    parseExpression(value);
+
+    return true;
+  } catch {
+    return false;
+  }
+};
 
 export const RELEASE_SCHEMA = yup
   .object()
   .shape({
     name: yup.string().trim().required(),
     scheduledAt: yup.string().nullable(),
-    timezone: yup.string().when('scheduledAt', {
-      is: (value: any) => value !== null && value !== undefined,
+    recurrence: yup
+      .string()
+      .nullable()
+      .test('is-cron-expression', 'recurrence must be a valid cron expression', (value) =>
+        value ? isCronExpression(value) : true
+      )
+      .test(
+        'is-not-scheduled',
+        'A release cannot be both scheduled and recurring',
+        function isNotScheduled(value) {
+          return !value || !this.parent.scheduledAt;
+        }
+      ),
+    timezone: yup.string().when(['scheduledAt', 'recurrence'], {
+      is: (scheduledAt: any, recurrence: any) => Boolean(scheduledAt) || Boolean(recurrence),
       then: yup.string().required(),
       otherwise: yup.string().nullable(),
     }),
@@ -14,6 +38,15 @@ export const RELEASE_SCHEMA = yup
   .required()
   .noUnknown();
 
+const CALENDAR_QUERY_SCHEMA = yup
+  .object()
+  .shape({
+    start: yup.date().required(),
+    end: yup.date().min(yup.ref('start'), 'end must be after start').required(),
+  })
+  .required()
+  .noUnknown();
+
 const FIND_BY_DOCUMENT_ATTACHED_PARAMS_SCHEMA = yup
   .object()
   .shape({
@@ -30,3 +63,5 @@ export const validateRelease = validateYupSchema(RELEASE_SCHEMA);
 export const validatefindByDocumentAttachedParams = validateYupSchema(
   FIND_BY_DOCUMENT_ATTACHED_PARAMS_SCHEMA
 );
+
+export const validateCalendarQuery = validateYupSchema(CALENDAR_QUERY_SCHEMA);
@@ -33,6 +33,22 @@ export default {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/calendar',
+      handler: 'release.calendar',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::content-releases.read'],
+            },
+          },
+        ],
+      },
+    },
     {
       method: 'POST',
       path: '/',
@@ -81,6 +97,22 @@ export default {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/:id/diff',
+      handler: 'release.diff',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::content-releases.read'],
+            },
+          },
+        ],
+      },
+    },
     {
       method: 'PUT',
       path: '/:id',
@@ -129,5 +161,21 @@ export default {
         ],
       },
     },
+    {
+      method: 'POST',
+      path: '/:id/revert',
+      handler: 'release.revert',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::content-releases.publish'],
+            },
+          },
+        ],
+      },
+    },
   ],
 };
@@ -0,0 +1,188 @@
+import createReleaseDiffService from '../release-diff';
+
+const uid = 'api::article.article';
+
+const models: Record<string, any> = {
+  [uid]: {
+    uid,
+    info: { displayName: 'Article' },
+    attributes: {
+      id: { type: 'increments' },
+      title: { type: 'string' },
+      description: { type: 'text' },
+      tags: { type: 'json' },
+      category: { type: 'relation', relation: 'manyToOne', target: 'api::category.category' },
+      seo: { type: 'component', component: 'shared.seo', repeatable: false },
+      updatedAt: { type: 'datetime' },
+    },
+  },
+  'shared.seo': {
+    uid: 'shared.seo',
+    attributes: {
+      id: { type: 'increments' },
+      metaTitle: { type: 'string' },
+    },
+  },
+};
+
+const createStrapiMock = ({
+  release = { id: 1 },
+  actions = [] as any[],
+  otherReleasesActions = [] as any[],
+  versions = {} as Record<string, any>,
+} = {}) => {
+  const actionQuery = {
+    findMany: jest.fn(async ({ where }) => (where.$or ? otherReleasesActions : actions)),
+  };
+
+  return {
+    db: {
+      query: jest.fn((model: string) =>
+        model === 'plugin::content-releases.release'
+          ? { findOne: jest.fn(async () => release) }
+          : actionQuery
+      ),
+    },
+    getModel: jest.fn((model: string) => models[model]),
+    documents: jest.fn(() => ({
+      findOne: jest.fn(async ({ status }) => versions[status] ?? null),
+    })),
+    entityValidator: {
+      validateEntityCreation: jest.fn(),
+    },
+    plugin: jest.fn((name: string) => ({
+      service: jest.fn((service: string) => {
+        if (name === 'content-manager' && service === 'content-types') {
+          return {
+            findConfiguration: jest.fn(async () => ({ settings: { mainField: 'title' } })),
+          };
+        }
+
+        if (service === 'populate-builder') {
+          return () => ({
+            populateDeep: jest.fn().mockReturnThis(),
+            build: jest.fn().mockReturnValue({}),
+          });
+        }
+
+        return undefined;
+      }),
+    })),
+  };
+};
+
+describe('Release diff service', () => {
+  it('throws an error if the release does not exist', async () => {
+    const strapiMock = createStrapiMock({ release: null as any });
+
+    // @ts-expect-error Ignore missing properties
+    const releaseDiffService = createReleaseDiffService({ strapi: strapiMock });
+
+    await expect(releaseDiffService.computeDiff(1)).rejects.toThrow('No release found for id 1');
+  });
+
+  it('computes the field changes between the published version and the draft', async () => {
+    const strapiMock = createStrapiMock({
+      actions: [{ id: 1, type: 'publish', contentType: uid, entryDocumentId: 'doc', locale: 'en' }],
+      versions: {
+        published: {
+          id: 1,
+          title: 'Title',
+          description: 'Description',
+          category: { id: 1, documentId: 'category-a' },
+          seo: { id: 1, metaTitle: 'Meta' },
+          updatedAt: '2024-01-01',
+        },
+        draft: {
+          id: 2,
+          title: 'New title',
+          tags: ['news'],
+          category: { id: 2, documentId: 'category-a' },
+          seo: { id: 2, metaTitle: 'Meta' },
+          updatedAt: '2024-01-02',
+        },
+      },
+    });
+
+    // @ts-expect-error Ignore missing properties
+    const releaseDiffService = createReleaseDiffService({ strapi: strapiMock });
+    const [diff] = await releaseDiffService.computeDiff(1);
+
+    expect(diff).toMatchObject({
+      id: 1,
+      type: 'publish',
+      contentType: { uid, displayName: 'Article', mainFieldValue: 'New title' },
+      entryDocumentId: 'doc',
+      locale: 'en',
+      conflicts: [],
+    });
+    expect(diff.changes).toEqual([
+      { field: 'title', type: 'modified', before: 'Title', after: 'New title' },
+      { field: 'description', type: 'removed', before: 'Description', after: null },
+      { field: 'tags', type: 'added', before: null, after: ['news'] },
+    ]);
+  });
+
+  it('does not compare the fields of unpublish actions', async () => {
+    const strapiMock = createStrapiMock({
+      actions: [{ id: 1, type: 'unpublish', contentType: uid, entryDocumentId: 'doc' }],
+      versions: { published: { id: 1, title: 'Title' } },
+    });
+
+    // @ts-expect-error Ignore missing properties
+    const releaseDiffService = createReleaseDiffService({ strapi: strapiMock });
+    const [diff] = await releaseDiffService.computeDiff(1);
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.conflicts).toEqual([]);
+  });
+
+  it('flags the conflicts of the actions', async () => {
+    const strapiMock = createStrapiMock({
+      actions: [
+        { id: 1, type: 'publish', contentType: uid, entryDocumentId: 'doc', locale: 'en' },
+        { id: 2, type: 'unpublish', contentType: uid, entryDocumentId: 'missing', locale: 'en' },
+      ],
+      otherReleasesActions: [
+        {
+          contentType: uid,
+          entryDocumentId: 'doc',
+          locale: 'en',
+          release: { id: 2, name: 'Other release' },
+        },
+      ],
+      versions: { draft: { id: 1, title: 'Title' } },
+    });
+
+    strapiMock.entityValidator.validateEntityCreation.mockRejectedValue(new Error('Invalid'));
+
+    // @ts-expect-error Ignore missing properties
+    const releaseDiffService = createReleaseDiffService({ strapi: strapiMock });
+    const [publishDiff, unpublishDiff] = await releaseDiffService.computeDiff(1);
+
+    expect(publishDiff.conflicts).toEqual([
+      { type: 'invalid-entry' },
+      { type: 'other-releases', releases: [{ id: 2, name: 'Other release' }] },
+    ]);
+    expect(unpublishDiff.conflicts).toEqual([{ type: 'entry-not-found' }]);
+  });
+
+  it('compares the sanitized versions of the entries', async () => {
+    const strapiMock = createStrapiMock({
+      actions: [{ id: 1, type: 'publish', contentType: uid, entryDocumentId: 'doc' }],
+      versions: {
+        published: { id: 1, title: 'Title', description: 'Secret' },
+        draft: { id: 2, title: 'Title', description: 'New secret' },
+      },
+    });
+
+    const sanitizeEntry = jest.fn(async (_contentType, { description, ...entry }) => entry);
+
+    // @ts-expect-error Ignore missing properties
+    const releaseDiffService = createReleaseDiffService({ strapi: strapiMock });
+    const [diff] = await releaseDiffService.computeDiff(1, { sanitizeEntry });
+
+    expect(sanitizeEntry).toHaveBeenCalledWith(uid, expect.objectContaining({ id: 2 }));
+    expect(diff.changes).toEqual([]);
+  });
+});
@@ -8,6 +8,8 @@ const mockSchedulingCancel = jest.fn();
 const mockExecute = jest.fn();
 const mockPublish = jest.fn();
 const mockUnpublish = jest.fn();
+const mockFindOneDocument = jest.fn();
+const mockUpdateDocument = jest.fn();
 
 const baseStrapiMock = {
   utils: {
@@ -16,15 +18,24 @@ const baseStrapiMock = {
     },
   },
   plugin: jest.fn().mockReturnValue({
-    service: jest.fn().mockReturnValue({
-      validateEntryContentType: jest.fn(),
-      validateUniqueEntry: jest.fn(),
-      validatePendingReleasesLimit: jest.fn(),
-      validateUniqueNameForPendingRelease: jest.fn(),
-      validateScheduledAtIsLaterThanNow: jest.fn(),
-      set: mockSchedulingSet,
-      cancel: mockSchedulingCancel,
-      countActions: jest.fn(),
+    service: jest.fn().mockImplementation((name: string) => {
+      if (name === 'populate-builder') {
+        return () => ({
+          populateDeep: jest.fn().mockReturnThis(),
+          build: jest.fn().mockReturnValue({}),
+        });
+      }
+
+      return {
+        validateEntryContentType: jest.fn(),
+        validateUniqueEntry: jest.fn(),
+        validatePendingReleasesLimit: jest.fn(),
+        validateUniqueNameForPendingRelease: jest.fn(),
+        validateScheduledAtIsLaterThanNow: jest.fn(),
+        set: mockSchedulingSet,
+        cancel: mockSchedulingCancel,
+        countActions: jest.fn(),
+      };
     }),
   }),
   features: {
@@ -90,7 +101,9 @@ const baseStrapiMock = {
     return map[contentType];
   }),
   documents: jest.fn().mockReturnValue({
+    findOne: mockFindOneDocument,
     findFirst: jest.fn().mockReturnValue({ id: 1 }),
+    update: mockUpdateDocument,
     publish: mockPublish,
     unpublish: mockUnpublish,
   }),
@@ -360,6 +373,353 @@ describe('Release service', () => {
       expect(mockPublish).toHaveBeenCalledTimes(2);
       expect(mockUnpublish).toHaveBeenCalledTimes(2);
     });
+
+    it('stores the published version of the entries before publishing them', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: null });
+      mockFindOneDocument.mockReturnValueOnce({ id: 1, title: 'Published' });
+      const update = jest.fn();
+
+      const strapiMock = {
+        ...baseStrapiMock,
+        db: {
+          ...baseStrapiMock.db,
+          query: jest.fn().mockReturnValue({
+            findMany: jest.fn().mockReturnValue([
+              {
+                id: 1,
+                contentType: 'collectionType',
+                entryDocumentId: 'doc',
+                type: 'publish',
+              },
+            ]),
+            update,
+          }),
+        },
+      };
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi: strapiMock });
+
+      await releaseService.publish(1);
+
+      expect(mockFindOneDocument).toHaveBeenCalledWith(
+        expect.objectContaining({ documentId: 'doc', status: 'published' })
+      );
+      expect(update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { snapshot: { published: { id: 1, title: 'Published' } } },
+      });
+    });
+  });
+
+  describe('revert', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const getStrapiMock = (release: any) => {
+      const create = jest.fn(({ data }) => ({ id: 2, ...data }));
+
+      return {
+        create,
+        strapi: {
+          ...baseStrapiMock,
+          db: {
+            ...baseStrapiMock.db,
+            query: jest.fn().mockReturnValue({
+              findOne: jest.fn().mockReturnValue(release),
+              create,
+            }),
+          },
+          getModel: jest.fn().mockReturnValue({
+            attributes: {
+              title: { type: 'string' },
+              updatedAt: { type: 'datetime' },
+            },
+          }),
+        },
+      };
+    };
+
+    it('throws an error if the release is not published', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: null });
+      const { strapi } = getStrapiMock(null);
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+
+      await expect(releaseService.revert(1, { user: mockUser })).rejects.toThrow(
+        'Release not published'
+      );
+    });
+
+    it('throws an error if the release is already reverted', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: new Date() });
+      const { strapi } = getStrapiMock({ id: 1, actions: [], revertedBy: { id: 2 } });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+
+      await expect(releaseService.revert(1, { user: mockUser })).rejects.toThrow(
+        'Release already reverted'
+      );
+    });
+
+    it('throws an error if the release was published without snapshots', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: new Date() });
+      const { strapi } = getStrapiMock({ id: 1, actions: [{ id: 1, snapshot: null }] });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+
+      await expect(releaseService.revert(1, { user: mockUser })).rejects.toThrow(
+        'Release was published without snapshots and cannot be reverted'
+      );
+    });
+
+    it('restores the previous versions and records the revert as a new release', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: new Date() });
+      const { strapi, create } = getStrapiMock({
+        id: 1,
+        name: 'Release',
+        actions: [
+          {
+            contentType: 'api::article.article',
+            entryDocumentId: 'published-before',
+            type: 'publish',
+            snapshot: { published: { id: 1, title: 'Before', updatedAt: 'date' } },
+          },
+          {
+            contentType: 'api::article.article',
+            entryDocumentId: 'new',
+            type: 'publish',
+            snapshot: { published: null },
+          },
+        ],
+      });
+
+      // Published version and draft of the first entry, then published version of the second one
+      mockFindOneDocument
+        .mockReturnValueOnce({ id: 2, title: 'After' })
+        .mockReturnValueOnce({ id: 3, title: 'Draft' })
+        .mockReturnValueOnce({ id: 4, title: 'New' });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+      const release = await releaseService.revert(1, { user: mockUser });
+
+      expect(mockUpdateDocument).toHaveBeenNthCalledWith(1, {
+        documentId: 'published-before',
+        data: { title: 'Before' },
+      });
+      expect(mockPublish).toHaveBeenCalledWith({ documentId: 'published-before' });
+      expect(mockUpdateDocument).toHaveBeenNthCalledWith(2, {
+        documentId: 'published-before',
+        data: { title: 'Draft' },
+      });
+      expect(mockUnpublish).toHaveBeenCalledWith({ documentId: 'new' });
+
+      expect(release).toMatchObject({ name: 'Revert Release', status: 'done', revertOf: 1 });
+      expect(create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'publish',
+          entryDocumentId: 'published-before',
+          snapshot: { published: { id: 2, title: 'After' } },
+          release: 2,
+        }),
+      });
+      expect(create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'unpublish',
+          entryDocumentId: 'new',
+          snapshot: { published: { id: 4, title: 'New' } },
+          release: 2,
+        }),
+      });
+    });
+
+    it('restores the polymorphic relations with the type of their targets', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: new Date() });
+      const { strapi } = getStrapiMock({
+        id: 1,
+        name: 'Release',
+        actions: [
+          {
+            contentType: 'api::article.article',
+            entryDocumentId: 'article',
+            type: 'publish',
+            snapshot: {
+              published: {
+                id: 1,
+                related: [
+                  { __type: 'api::page.page', id: 1, documentId: 'page', locale: 'en' },
+                  { __type: 'api::page.page', id: 2, documentId: 'deleted-page', locale: 'en' },
+                ],
+              },
+            },
+          },
+        ],
+      });
+      strapi.getModel.mockReturnValue({
+        uid: 'api::article.article',
+        attributes: { related: { type: 'relation', relation: 'morphToMany' } },
+      });
+
+      mockFindOneDocument
+        // Published version and draft of the entry
+        .mockReturnValueOnce({ id: 2, related: [] })
+        .mockReturnValueOnce({ id: 3, related: [] })
+        // Targets of the stored version
+        .mockReturnValueOnce({ documentId: 'page', locale: 'en' })
+        .mockReturnValueOnce(null);
+
+      const releaseService = createReleaseService({
+        // @ts-expect-error Ignore missing properties
+        strapi: { ...strapi, contentTypes: { 'api::page.page': {} } },
+      });
+      await releaseService.revert(1, { user: mockUser });
+
+      expect(mockUpdateDocument).toHaveBeenNthCalledWith(1, {
+        documentId: 'article',
+        data: { related: [{ documentId: 'page', locale: 'en', __type: 'api::page.page' }] },
+      });
+    });
+
+    it('throws an error if a polymorphic relation cannot be restored', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1, releasedAt: new Date() });
+      const { strapi, create } = getStrapiMock({
+        id: 1,
+        name: 'Release',
+        actions: [
+          {
+            contentType: 'api::article.article',
+            entryDocumentId: 'article',
+            type: 'publish',
+            snapshot: { published: { id: 1, target: null } },
+          },
+        ],
+      });
+      strapi.getModel.mockReturnValue({
+        uid: 'api::article.article',
+        attributes: { target: { type: 'relation', relation: 'morphToOne' } },
+      });
+
+      mockFindOneDocument.mockReturnValueOnce({ id: 2 }).mockReturnValueOnce({ id: 3 });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+
+      await expect(releaseService.revert(1, { user: mockUser })).rejects.toThrow(
+        "The polymorphic relation target of api::article.article can't be restored"
+      );
+      expect(mockPublish).not.toHaveBeenCalled();
+      expect(create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('publishOccurrence', () => {
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    const occurrenceDate = new Date('2024-01-01T08:00:00.000Z');
+
+    const getStrapiMock = ({ release, existingOccurrence = null }: any) => {
+      const create = jest.fn(({ data }) => ({ id: 2, ...data }));
+      const findOne = jest.fn(({ where }) => (where.recurrenceOf ? existingOccurrence : release));
+
+      return {
+        create,
+        strapi: {
+          ...baseStrapiMock,
+          db: {
+            ...baseStrapiMock.db,
+            query: jest.fn().mockReturnValue({
+              findOne,
+              findMany: jest.fn().mockReturnValue([]),
+              create,
+              update: jest.fn(),
+            }),
+          },
+        },
+      };
+    };
+
+    it('throws an error if the release is not recurring', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1 });
+      const { strapi } = getStrapiMock({ release: { id: 1, recurrence: null, actions: [] } });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+
+      await expect(releaseService.publishOccurrence(1, occurrenceDate)).rejects.toThrow(
+        'Release is not recurring'
+      );
+    });
+
+    it('does not create an occurrence twice', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1 });
+      const { strapi, create } = getStrapiMock({
+        release: { id: 1, recurrence: '0 9 * * 1', actions: [{ type: 'unpublish' }] },
+        existingOccurrence: { id: 2 },
+      });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+
+      expect(await releaseService.publishOccurrence(1, occurrenceDate)).toBeNull();
+      expect(create).not.toHaveBeenCalled();
+    });
+
+    it('copies the actions of the release to a new release', async () => {
+      mockExecute.mockReturnValueOnce({ id: 1 });
+      const { strapi, create } = getStrapiMock({
+        release: {
+          id: 1,
+          name: 'Homepage banner',
+          recurrence: '0 9 * * 1',
+          timezone: 'Europe/Paris',
+          createdBy: { id: 3 },
+          actions: [
+            {
+              type: 'unpublish',
+              contentType: 'api::banner.banner',
+              entryDocumentId: 'doc',
+              locale: 'en',
+            },
+          ],
+        },
+      });
+
+      // @ts-expect-error Ignore missing properties
+      const releaseService = createReleaseService({ strapi });
+      const publish = jest.spyOn(releaseService, 'publish').mockResolvedValue({} as any);
+
+      await releaseService.publishOccurrence(1, occurrenceDate);
+
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          name: 'Homepage banner (2024-01-01T08:00:00.000Z)',
+          status: 'empty',
+          scheduledAt: occurrenceDate,
+          timezone: 'Europe/Paris',
+          recurrenceOf: 1,
+          createdBy: 3,
+          updatedBy: 3,
+        },
+      });
+      expect(create).toHaveBeenCalledWith({
+        data: {
+          type: 'unpublish',
+          contentType: 'api::banner.banner',
+          entryDocumentId: 'doc',
+          locale: 'en',
+          isEntryValid: true,
+          release: 2,
+        },
+      });
+      expect(publish).toHaveBeenCalledWith(2);
+    });
   });
 
   describe('delete', () => {
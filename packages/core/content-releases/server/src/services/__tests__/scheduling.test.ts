@@ -87,6 +87,55 @@ describe('Scheduling service', () => {
     });
   });
 
+  describe('setRecurrence', () => {
+    it('should schedule the occurrences of the release in its timezone', async () => {
+      const mockScheduleJob = jest.fn().mockReturnValue({ cancel: jest.fn() });
+      // @ts-expect-error - scheduleJob is a mock
+      scheduleJob.mockImplementation(mockScheduleJob);
+
+      const strapiMock = {
+        ...baseStrapiMock,
+        db: {
+          query: jest.fn(() => ({
+            findOne: jest.fn().mockReturnValue({ id: 1 }),
+          })),
+        },
+      };
+
+      // @ts-expect-error Ignore missing properties
+      const schedulingService = createSchedulingService({ strapi: strapiMock });
+      const scheduledJobs = await schedulingService.setRecurrence('1', '0 9 * * 1', 'Europe/Paris');
+
+      expect(scheduledJobs.size).toBe(1);
+      expect(mockScheduleJob).toHaveBeenCalledWith(
+        { rule: '0 9 * * 1', tz: 'Europe/Paris' },
+        expect.any(Function)
+      );
+    });
+  });
+
+  describe('getOccurrences', () => {
+    it('should return the occurrences of a recurrence within a period', () => {
+      // @ts-expect-error Ignore missing properties
+      const schedulingService = createSchedulingService({ strapi: baseStrapiMock });
+
+      const occurrences = schedulingService.getOccurrences(
+        '0 9 * * 1',
+        'Europe/Paris',
+        new Date('2024-01-01T00:00:00.000Z'),
+        new Date('2024-01-31T23:59:59.000Z')
+      );
+
+      expect(occurrences.map((date) => date.toISOString())).toEqual([
+        '2024-01-01T08:00:00.000Z',
+        '2024-01-08T08:00:00.000Z',
+        '2024-01-15T08:00:00.000Z',
+        '2024-01-22T08:00:00.000Z',
+        '2024-01-29T08:00:00.000Z',
+      ]);
+    });
+  });
+
   describe('cancel', () => {
     it('should cancel the job if it exists', async () => {
       const mockScheduleJob = jest.fn().mockReturnValue({ cancel: jest.fn() });
@@ -145,13 +194,18 @@ describe('Scheduling service', () => {
       // @ts-expect-error - scheduleJob is a mock
       scheduleJob.mockImplementation(mockScheduleJob);
 
+      const findMany = jest
+        .fn()
+        .mockReturnValueOnce([{ id: 1, scheduledAt: new Date(), releasedAt: null }])
+        .mockReturnValueOnce([
+          { id: 2, recurrence: '0 9 * * 1', timezone: 'Europe/Paris', releasedAt: null },
+        ]);
+
       const strapiMock = {
         ...baseStrapiMock,
         db: {
           query: jest.fn(() => ({
-            findMany: jest
-              .fn()
-              .mockReturnValue([{ id: 1, scheduledAt: new Date(), releasedAt: null }]),
+            findMany,
             findOne: jest.fn().mockReturnValue({ id: 1 }),
           })),
         },
@@ -160,8 +214,49 @@ describe('Scheduling service', () => {
       // @ts-expect-error Ignore missing properties
       const schedulingService = createSchedulingService({ strapi: strapiMock });
       const scheduledJobs = await schedulingService.syncFromDatabase();
-      expect(scheduledJobs.size).toBe(1);
+
+      expect(scheduledJobs.size).toBe(2);
       expect(mockScheduleJob).toHaveBeenCalledWith(expect.any(Date), expect.any(Function));
+      expect(mockScheduleJob).toHaveBeenCalledWith(
+        { rule: '0 9 * * 1', tz: 'Europe/Paris' },
+        expect.any(Function)
+      );
+    });
+
+    it('logs the recurring releases that cannot be scheduled and schedules the others', async () => {
+      const mockScheduleJob = jest.fn().mockReturnValue({ cancel: jest.fn() });
+      // @ts-expect-error - scheduleJob is a mock
+      scheduleJob.mockImplementation(mockScheduleJob);
+
+      const findMany = jest
+        .fn()
+        .mockReturnValueOnce([])
+        .mockReturnValueOnce([
+          { id: 2, recurrence: '0 9 * * 1', timezone: null, releasedAt: null },
+          { id: 3, recurrence: '0 10 * * 1', timezone: null, releasedAt: null },
+        ]);
+
+      const strapiMock = {
+        ...baseStrapiMock,
+        log: { error: jest.fn() },
+        db: {
+          query: jest.fn(() => ({
+            findMany,
+            // the release 2 has been published in the meantime
+            findOne: jest.fn(async ({ where }) => (where.id === 2 ? null : { id: where.id })),
+          })),
+        },
+      };
+
+      // @ts-expect-error Ignore missing properties
+      const schedulingService = createSchedulingService({ strapi: strapiMock });
+      const scheduledJobs = await schedulingService.syncFromDatabase();
+
+      expect(scheduledJobs.size).toBe(1);
+      expect(scheduledJobs.has(3)).toBe(true);
+      expect(strapiMock.log.error).toHaveBeenCalledWith(
+        '[Content Releases] Failed to schedule the recurring release 2'
+      );
     });
   });
 });
@@ -1,5 +1,6 @@
 import release from './release';
 import releaseAction from './release-action';
+import releaseDiff from './release-diff';
 import releaseValidation from './validation';
 import scheduling from './scheduling';
 import settings from './settings';
@@ -7,6 +8,7 @@ import settings from './settings';
 export const services = {
   release,
   'release-action': releaseAction,
+  'release-diff': releaseDiff,
   'release-validation': releaseValidation,
   scheduling,
   settings,
@@ -193,7 +193,8 @@ const createReleaseActionService = ({ strapi }: { strapi: Core.Strapi }) => {
         );
 
         return {
-          ...action,
+          // The snapshot holds the unsanitized published version of the entry, it is only used to revert
+          ..._.omit(['snapshot'], action),
           entry,
           status: entry ? await getEntryStatus(action.contentType, entry) : null,
         };
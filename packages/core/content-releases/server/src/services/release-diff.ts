@@ -0,0 +1,261 @@
+import { contentTypes, errors, async } from '@strapi/utils';
+import type { Core, Schema, Struct, UID } from '@strapi/types';
+
+import _ from 'lodash/fp';
+
+import { RELEASE_ACTION_MODEL_UID, RELEASE_MODEL_UID } from '../constants';
+
+import type {
+  ReleaseAction,
+  ReleaseActionConflict,
+  ReleaseActionDiff,
+  ReleaseActionFieldChange,
+} from '../../../shared/contracts/release-actions';
+import { isEntryValid } from '../utils';
+
+type EntrySanitizer = (contentType: UID.ContentType, entry: any) => Promise<any>;
+
+// Fields that are managed by Strapi and always differ between a draft and its published version
+const IGNORED_FIELDS = [
+  'id',
+  'documentId',
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'createdBy',
+  'updatedBy',
+  'locale',
+  'localizations',
+  'strapi_stage',
+  'strapi_assignee',
+];
+
+const isEmpty = (value: unknown) => value === null || value === undefined;
+
+const toIdentifiers = (value: any, key: 'id' | 'documentId') => {
+  if (isEmpty(value)) {
+    return null;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => item[key] ?? item.id);
+  }
+
+  return value[key] ?? value.id;
+};
+
+const createReleaseDiffService = ({ strapi }: { strapi: Core.Strapi }) => {
+  /**
+   * Reduces a value to what is compared between two versions of an entry: relations to their
+   * documentIds, media to their ids and components to their own normalized attributes
+   */
+  const normalizeValue = (attribute: Schema.Attribute.AnyAttribute, value: any): unknown => {
+    if (isEmpty(value)) {
+      return null;
+    }
+
+    switch (attribute.type) {
+      case 'relation':
+        return toIdentifiers(value, 'documentId');
+      case 'media':
+        return toIdentifiers(value, 'id');
+      case 'component': {
+        const model = strapi.getModel(attribute.component);
+
+        return Array.isArray(value)
+          ? value.map((item) => normalizeEntry(model, item))
+          : normalizeEntry(model, value);
+      }
+      case 'dynamiczone':
+        return value.map((item: any) => ({
+          __component: item.__component,
+          ...normalizeEntry(strapi.getModel(item.__component), item),
+        }));
+      default:
+        return value;
+    }
+  };
+
+  const normalizeEntry = (model: Struct.Schema, entry: any) => {
+    return Object.entries(model.attributes).reduce<Record<string, unknown>>(
+      (acc, [name, attribute]) => {
+        if (!IGNORED_FIELDS.includes(name) && !contentTypes.isPrivateAttribute(model, name)) {
+          acc[name] = normalizeValue(attribute, entry[name]);
+        }
+
+        return acc;
+      },
+      {}
+    );
+  };
+
+  const getChanges = (contentType: UID.ContentType, before: any, after: any) => {
+    const model = strapi.getModel(contentType);
+    const normalizedBefore = before ? normalizeEntry(model, before) : {};
+    const normalizedAfter = normalizeEntry(model, after);
+
+    return Object.keys(normalizedAfter).reduce<ReleaseActionFieldChange[]>((acc, field) => {
+      const beforeValue = normalizedBefore[field] ?? null;
+      const afterValue = normalizedAfter[field] ?? null;
+
+      if (_.isEqual(beforeValue, afterValue)) {
+        return acc;
+      }
+
+      if (isEmpty(beforeValue)) {
+        acc.push({ field, type: 'added', before: null, after: afterValue });
+      } else if (isEmpty(afterValue)) {
+        acc.push({ field, type: 'removed', before: beforeValue, after: null });
+      } else {
+        acc.push({ field, type: 'modified', before: beforeValue, after: afterValue });
+      }
+
+      return acc;
+    }, []);
+  };
+
+  const getMainFields = async (contentTypeUids: UID.ContentType[]) => {
+    const contentManagerContentTypeService = strapi
+      .plugin('content-manager')
+      .service('content-types');
+
+    const mainFields: Partial<Record<UID.ContentType, string>> = {};
+
+    for (const contentTypeUid of contentTypeUids) {
+      const contentTypeConfig = await contentManagerContentTypeService.findConfiguration({
+        uid: contentTypeUid,
+      });
+
+      mainFields[contentTypeUid] = contentTypeConfig.settings.mainField;
+    }
+
+    return mainFields;
+  };
+
+  /**
+   * Finds the pending releases, other than the given one, that also have an action on the
+   * entries of the given actions
+   */
+  const getOtherReleasesActions = async (releaseId: ReleaseAction['id'], actions: any[]) => {
+    if (actions.length === 0) {
+      return [];
+    }
+
+    return strapi.db.query(RELEASE_ACTION_MODEL_UID).findMany({
+      where: {
+        release: {
+          id: { $ne: releaseId },
+          releasedAt: { $null: true },
+        },
+        $or: actions.map((action) => ({
+          contentType: action.contentType,
+          entryDocumentId: action.entryDocumentId,
+          locale: action.locale ?? null,
+        })),
+      },
+      populate: { release: { select: ['id', 'name'] } },
+    });
+  };
+
+  const isSameEntry = (action: any, otherAction: any) =>
+    action.contentType === otherAction.contentType &&
+    action.entryDocumentId === otherAction.entryDocumentId &&
+    (action.locale ?? null) === (otherAction.locale ?? null);
+
+  return {
+    /**
+     * Computes, for every action of a release, the field level changes between the published
+     * version of its entry and the draft that will be published, along with the conflicts that
+     * may prevent or alter the publication
+     */
+    async computeDiff(
+      releaseId: ReleaseAction['id'],
+      { sanitizeEntry }: { sanitizeEntry?: EntrySanitizer } = {}
+    ): Promise<ReleaseActionDiff[]> {
+      const release = await strapi.db.query(RELEASE_MODEL_UID).findOne({
+        where: { id: releaseId },
+        select: ['id'],
+      });
+
+      if (!release) {
+        throw new errors.NotFoundError(`No release found for id ${releaseId}`);
+      }
+
+      const actions = await strapi.db.query(RELEASE_ACTION_MODEL_UID).findMany({
+        where: { release: releaseId },
+        orderBy: { id: 'asc' },
+      });
+
+      const contentTypeUids: UID.ContentType[] = _.uniq(
+        actions.map((action: any) => action.contentType)
+      );
+      const mainFields = await getMainFields(contentTypeUids);
+      const otherReleasesActions = await getOtherReleasesActions(releaseId, actions);
+
+      const populateBuilderService = strapi.plugin('content-manager').service('populate-builder');
+
+      return async.map(actions, async (action: any): Promise<ReleaseActionDiff> => {
+        const { contentType, entryDocumentId, locale = null } = action;
+
+        // @ts-expect-error - populateBuilderService should be a function but is returning service
+        const populate = await populateBuilderService(contentType).populateDeep(Infinity).build();
+
+        const findVersion = (status: 'draft' | 'published') => {
+          return strapi
+            .documents(contentType)
+            .findOne({ documentId: entryDocumentId, locale, populate, status });
+        };
+
+        const sanitize = async (entry: any) => {
+          return entry && sanitizeEntry ? sanitizeEntry(contentType, entry) : entry;
+        };
+
+        const draft = action.type === 'publish' ? await findVersion('draft') : null;
+        const published = await findVersion('published');
+        const entry = action.type === 'publish' ? draft : published;
+
+        const conflicts: ReleaseActionConflict[] = [];
+
+        if (!entry) {
+          conflicts.push({ type: 'entry-not-found' });
+        } else if (draft && !(await isEntryValid(contentType, draft, { strapi }))) {
+          conflicts.push({ type: 'invalid-entry' });
+        }
+
+        const otherReleases = otherReleasesActions
+          .filter((otherAction: any) => isSameEntry(action, otherAction))
+          .map((otherAction: any) => _.pick(['id', 'name'], otherAction.release));
+
+        if (otherReleases.length > 0) {
+          conflicts.push({ type: 'other-releases', releases: _.uniqBy('id', otherReleases) });
+        }
+
+        const sanitizedDraft = await sanitize(draft);
+        const sanitizedPublished = await sanitize(published);
+        const sanitizedEntry = action.type === 'publish' ? sanitizedDraft : sanitizedPublished;
+        const mainField = mainFields[contentType as UID.ContentType];
+
+        return {
+          id: action.id,
+          type: action.type,
+          contentType: {
+            uid: contentType,
+            displayName: strapi.getModel(contentType).info.displayName,
+            mainFieldValue: mainField ? sanitizedEntry?.[mainField] : undefined,
+          },
+          entryDocumentId,
+          locale,
+          // Unpublishing removes the published version as a whole, there is no field to compare
+          changes: sanitizedDraft
+            ? getChanges(contentType, sanitizedPublished, sanitizedDraft)
+            : [],
+          conflicts,
+        };
+      });
+    },
+  };
+};
+
+export type ReleaseDiffService = ReturnType<typeof createReleaseDiffService>;
+
+export default createReleaseDiffService;
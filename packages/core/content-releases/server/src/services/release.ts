@@ -1,4 +1,4 @@
-import { setCreatorFields, errors } from '@strapi/utils';
+import { setCreatorFields, errors, async } from '@strapi/utils';
 
 import type { Core, Struct, UID, Data } from '@strapi/types';
 
@@ -8,13 +8,31 @@ import type {
   CreateRelease,
   UpdateRelease,
   PublishRelease,
+  RevertRelease,
+  GetReleasesCalendar,
+  ReleaseCalendarEvent,
   GetRelease,
   Release,
   DeleteRelease,
 } from '../../../shared/contracts/releases';
 import type { ReleaseAction } from '../../../shared/contracts/release-actions';
 import type { UserInfo } from '../../../shared/types';
-import { getService } from '../utils';
+import { getService, getDraftEntryValidStatus } from '../utils';
+
+// Fields that are managed by Strapi and are not restored when reverting a release
+const RESTORE_IGNORED_FIELDS = [
+  'id',
+  'documentId',
+  'createdAt',
+  'updatedAt',
+  'publishedAt',
+  'createdBy',
+  'updatedBy',
+  'locale',
+  'localizations',
+  'strapi_stage',
+  'strapi_assignee',
+];
 
 const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
   const dispatchWebhook = (
@@ -74,6 +92,209 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
     return formattedActions;
   };
 
+  const getDeepPopulate = async (contentType: UID.ContentType) => {
+    const populateBuilderService = strapi.plugin('content-manager').service('populate-builder');
+
+    // @ts-expect-error - populateBuilderService should be a function but is returning service
+    return populateBuilderService(contentType).populateDeep(Infinity).build();
+  };
+
+  const findPublishedVersion = async ({
+    contentType,
+    entryDocumentId,
+    locale,
+  }: Pick<ReleaseAction, 'contentType' | 'entryDocumentId' | 'locale'>) => {
+    return strapi.documents(contentType).findOne({
+      documentId: entryDocumentId,
+      locale,
+      populate: await getDeepPopulate(contentType),
+      status: 'published',
+    });
+  };
+
+  /**
+   * Stores the published version of the entry of every action of a release before it is published,
+   * a release without snapshots can't be reverted
+   */
+  const snapshotActions = async (releaseId: Release['id']) => {
+    const actions: ReleaseAction[] = await strapi.db.query(RELEASE_ACTION_MODEL_UID).findMany({
+      where: {
+        release: {
+          id: releaseId,
+        },
+      },
+    });
+
+    for (const action of actions) {
+      const published = await findPublishedVersion(action);
+
+      await strapi.db.query(RELEASE_ACTION_MODEL_UID).update({
+        where: { id: action.id },
+        data: { snapshot: { published } },
+      });
+    }
+  };
+
+  /**
+   * Converts the populated value of a morphToMany relation to the relations to restore, which are
+   * identified by the uid of their content type
+   */
+  const getRestoreMorphRelations = async (
+    model: Struct.Schema,
+    name: string,
+    relations: { __type: string; documentId?: string; locale?: string | null }[]
+  ) => {
+    const existingRelations = await async.map(relations, async (relation: any) => {
+      if (!(relation.__type in strapi.contentTypes)) {
+        // Components and removed content types don't have documents to relate to
+        throw new errors.ValidationError(
+          `The polymorphic relation ${name} of ${model.uid} targets ${relation.__type} and can't be restored`
+        );
+      }
+
+      const entry = await strapi.documents(relation.__type as UID.ContentType).findOne({
+        documentId: relation.documentId,
+        locale: relation.locale || undefined,
+        fields: ['documentId', 'locale'],
+      });
+
+      return (
+        entry && { documentId: entry.documentId, locale: entry.locale, __type: relation.__type }
+      );
+    });
+
+    return existingRelations.filter(Boolean);
+  };
+
+  /**
+   * Converts a version of an entry to the data to update the entry with. Relations and media that
+   * no longer exist are left out, as they can't be restored.
+   */
+  const getRestoreData = async (model: Struct.Schema, entry: Record<string, any>) => {
+    const data: Record<string, unknown> = {};
+
+    for (const [name, attribute] of Object.entries(model.attributes)) {
+      if (RESTORE_IGNORED_FIELDS.includes(name)) {
+        continue;
+      }
+
+      const value = entry[name];
+
+      switch (attribute.type) {
+        case 'relation': {
+          if (attribute.relation === 'morphToOne') {
+            // The populated value of a morphToOne relation doesn't hold the type of its target
+            throw new errors.ValidationError(
+              `The polymorphic relation ${name} of ${model.uid} can't be restored`
+            );
+          }
+
+          if (attribute.relation === 'morphToMany') {
+            data[name] = await getRestoreMorphRelations(model, name, value ?? []);
+            break;
+          }
+
+          if (!('target' in attribute) || !attribute.target) {
+            break;
+          }
+
+          const relations: any[] = Array.isArray(value) ? value : [value].filter(Boolean);
+          const existingRelations = await async.map(relations, (relation: any) =>
+            strapi.documents(attribute.target as UID.ContentType).findOne({
+              documentId: relation.documentId,
+              locale: relation.locale || undefined,
+              fields: ['documentId', 'locale'],
+            })
+          );
+          const restoredRelations = existingRelations
+            .filter(Boolean)
+            .map(({ documentId, locale }: any) => ({ documentId, locale }));
+
+          data[name] = Array.isArray(value) ? restoredRelations : (restoredRelations[0] ?? null);
+          break;
+        }
+        case 'media': {
+          const files: any[] = Array.isArray(value) ? value : [value].filter(Boolean);
+          const existingFiles = await async.map(files, (file: any) =>
+            strapi.db
+              .query('plugin::upload.file')
+              .findOne({ where: { id: file.id }, select: ['id'] })
+          );
+          const restoredFiles = existingFiles.filter(Boolean).map(({ id }: any) => id);
+
+          data[name] = Array.isArray(value) ? restoredFiles : (restoredFiles[0] ?? null);
+          break;
+        }
+        case 'component': {
+          const componentModel = strapi.getModel(attribute.component);
+
+          if (attribute.repeatable) {
+            data[name] = await async.map(value ?? [], (item: any) =>
+              getRestoreData(componentModel, item)
+            );
+          } else {
+            data[name] = value ? await getRestoreData(componentModel, value) : null;
+          }
+          break;
+        }
+        case 'dynamiczone':
+          data[name] = await async.map(value ?? [], async (item: any) => ({
+            __component: item.__component,
+            ...(await getRestoreData(strapi.getModel(item.__component), item)),
+          }));
+          break;
+        default:
+          // Attributes added after the version was stored are reset
+          data[name] = value ?? null;
+      }
+    }
+
+    return data;
+  };
+
+  /**
+   * Restores the published version of the entry of an action. The entry is unpublished if it
+   * wasn't published, otherwise the stored version is published and the current draft is kept.
+   */
+  const restoreAction = async ({ contentType, entryDocumentId, locale, snapshot }: any) => {
+    const documentId = entryDocumentId;
+    const documents = strapi.documents(contentType as UID.ContentType);
+
+    if (!snapshot.published) {
+      await documents.unpublish({ documentId, locale });
+
+      return 'unpublish' as const;
+    }
+
+    const model = strapi.getModel(contentType);
+    const draft = await documents.findOne({
+      documentId,
+      locale,
+      populate: await getDeepPopulate(contentType),
+      status: 'draft',
+    });
+
+    if (!draft) {
+      throw new errors.ValidationError(
+        `Entry ${documentId} of ${contentType} no longer exists and can't be restored`
+      );
+    }
+
+    await documents.update({
+      documentId,
+      locale,
+      data: (await getRestoreData(model, snapshot.published)) as any,
+    });
+    await documents.publish({ documentId, locale });
+    await documents.update({
+      documentId,
+      locale,
+      data: (await getRestoreData(model, draft)) as any,
+    });
+
+    return 'publish' as const;
+  };
+
   return {
     async create(releaseData: CreateRelease.Request['body'], { user }: { user: UserInfo }) {
       const releaseWithCreatorFields = await setCreatorFields({ user })(releaseData);
@@ -97,7 +318,11 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
         },
       });
 
-      if (releaseWithCreatorFields.scheduledAt) {
+      if (releaseWithCreatorFields.recurrence) {
+        const schedulingService = getService('scheduling', { strapi });
+
+        await schedulingService.setRecurrence(release.id, release.recurrence, release.timezone);
+      } else if (releaseWithCreatorFields.scheduledAt) {
         const schedulingService = getService('scheduling', { strapi });
 
         await schedulingService.set(release.id, release.scheduledAt);
@@ -170,15 +395,21 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
 
       const updatedRelease = await strapi.db.query(RELEASE_MODEL_UID).update({
         where: { id },
-        data: releaseWithCreatorFields,
+        data: {
+          ...releaseWithCreatorFields,
+          // As scheduledAt, the recurrence is removed when it isn't sent
+          recurrence: releaseWithCreatorFields.recurrence ?? null,
+        },
       });
 
       const schedulingService = getService('scheduling', { strapi });
 
-      if (releaseData.scheduledAt) {
+      if (releaseData.recurrence) {
+        await schedulingService.setRecurrence(id, releaseData.recurrence, updatedRelease.timezone);
+      } else if (releaseData.scheduledAt) {
         // set function always cancel the previous job if it exists, so we can call it directly
         await schedulingService.set(id, releaseData.scheduledAt);
-      } else if (release.scheduledAt) {
+      } else if (release.scheduledAt || release.recurrence) {
         // When user don't send a scheduledAt and we have one on the release, means that user want to unschedule it
         schedulingService.cancel(id);
       }
@@ -248,7 +479,7 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
         });
       });
 
-      if (release.scheduledAt) {
+      if (release.scheduledAt || release.recurrence) {
         const schedulingService = getService('scheduling', { strapi });
         await schedulingService.cancel(release.id);
       }
@@ -294,8 +525,10 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
 
             const formattedActions = await getFormattedActions(releaseId);
 
-            await strapi.db.transaction(async () =>
-              Promise.all(
+            await strapi.db.transaction(async () => {
+              await snapshotActions(releaseId);
+
+              return Promise.all(
                 Object.keys(formattedActions).map(async (contentTypeUid) => {
                   const contentType = contentTypeUid as UID.ContentType;
                   const { publish, unpublish } = formattedActions[contentType];
@@ -305,8 +538,8 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
                     ...unpublish.map((params) => strapi.documents(contentType).unpublish(params)),
                   ]);
                 })
-              )
-            );
+              );
+            });
 
             const release = await strapi.db.query(RELEASE_MODEL_UID).update({
               where: {
@@ -359,6 +592,229 @@ const createReleaseService = ({ strapi }: { strapi: Core.Strapi }) => {
       return release;
     },
 
+    /**
+     * Reverts a published release: the entries it touched are restored to the version they had
+     * before it was published, in one transaction. The revert is recorded as a new published release.
+     */
+    async revert(releaseId: RevertRelease.Request['params']['id'], { user }: { user: UserInfo }) {
+      const revertRelease = await strapi.db.transaction(async ({ trx }) => {
+        // The release is locked so it can't be reverted twice at the same time
+        const lockedRelease = (await strapi.db
+          ?.queryBuilder(RELEASE_MODEL_UID)
+          .where({ id: releaseId })
+          .select(['id', 'name', 'releasedAt'])
+          .first()
+          .transacting(trx)
+          .forUpdate()
+          .execute()) as Pick<Release, 'id' | 'name' | 'releasedAt'> | undefined;
+
+        if (!lockedRelease) {
+          throw new errors.NotFoundError(`No release found for id ${releaseId}`);
+        }
+
+        if (!lockedRelease.releasedAt) {
+          throw new errors.ValidationError('Release not published');
+        }
+
+        const release = await strapi.db.query(RELEASE_MODEL_UID).findOne({
+          where: { id: releaseId },
+          populate: { actions: true, revertedBy: { select: ['id'] } },
+        });
+
+        if (release.revertedBy) {
+          throw new errors.ValidationError('Release already reverted');
+        }
+
+        if (release.actions.some((action: any) => !action.snapshot)) {
+          throw new errors.ValidationError(
+            'Release was published without snapshots and cannot be reverted'
+          );
+        }
+
+        const revertActions = [];
+
+        for (const action of release.actions) {
+          // The version published by the release is stored, so the revert can be reverted too
+          const published = await findPublishedVersion(action);
+          const type = await restoreAction(action);
+
+          revertActions.push({
+            type,
+            contentType: action.contentType,
+            entryDocumentId: action.entryDocumentId,
+            locale: action.locale,
+            isEntryValid: true,
+            snapshot: { published },
+          });
+        }
+
+        const revertReleaseData = await setCreatorFields({ user })({
+          name: `Revert ${release.name}`,
+          status: 'done',
+          releasedAt: new Date(),
+          revertOf: release.id,
+        });
+
+        const createdRelease = await strapi.db.query(RELEASE_MODEL_UID).create({
+          data: revertReleaseData,
+        });
+
+        for (const revertAction of revertActions) {
+          await strapi.db.query(RELEASE_ACTION_MODEL_UID).create({
+            data: { ...revertAction, release: createdRelease.id },
+          });
+        }
+
+        return createdRelease;
+      });
+
+      dispatchWebhook(ALLOWED_WEBHOOK_EVENTS.RELEASES_REVERT, {
+        isPublished: true,
+        release: revertRelease,
+      });
+
+      strapi.telemetry.send('didRevertContentRelease');
+
+      return revertRelease;
+    },
+
+    /**
+     * Publishes an occurrence of a recurring release: its actions are copied to a new release that
+     * is published right away, while the recurring release stays pending for the next occurrences
+     */
+    async publishOccurrence(releaseId: Release['id'], occurrenceDate: Date) {
+      const occurrence = await strapi.db.transaction(async ({ trx }) => {
+        // The recurring release is locked so every instance of a cluster creates the occurrence once
+        const lockedRelease = await strapi.db
+          ?.queryBuilder(RELEASE_MODEL_UID)
+          .where({ id: releaseId })
+          .select(['id'])
+          .first()
+          .transacting(trx)
+          .forUpdate()
+          .execute();
+
+        if (!lockedRelease) {
+          throw new errors.NotFoundError(`No release found for id ${releaseId}`);
+        }
+
+        const release = await strapi.db.query(RELEASE_MODEL_UID).findOne({
+          where: { id: releaseId },
+          populate: { actions: true, createdBy: { select: ['id'] } },
+        });
+
+        if (!release.recurrence || release.releasedAt) {
+          throw new errors.ValidationError('Release is not recurring');
+        }
+
+        const existingOccurrence = await strapi.db.query(RELEASE_MODEL_UID).findOne({
+          where: { recurrenceOf: releaseId, scheduledAt: occurrenceDate },
+          select: ['id'],
+        });
+
+        if (existingOccurrence || release.actions.length === 0) {
+          return null;
+        }
+
+        const createdRelease = await strapi.db.query(RELEASE_MODEL_UID).create({
+          data: {
+            name: `${release.name} (${occurrenceDate.toISOString()})`,
+            status: 'empty',
+            scheduledAt: occurrenceDate,
+            timezone: release.timezone,
+            recurrenceOf: release.id,
+            createdBy: release.createdBy?.id,
+            updatedBy: release.createdBy?.id,
+          },
+        });
+
+        for (const action of release.actions) {
+          const isEntryValid =
+            action.type === 'publish'
+              ? await getDraftEntryValidStatus(
+                  {
+                    contentType: action.contentType,
+                    documentId: action.entryDocumentId,
+                    locale: action.locale,
+                  },
+                  { strapi }
+                )
+              : true;
+
+          await strapi.db.query(RELEASE_ACTION_MODEL_UID).create({
+            data: {
+              type: action.type,
+              contentType: action.contentType,
+              entryDocumentId: action.entryDocumentId,
+              locale: action.locale,
+              isEntryValid,
+              release: createdRelease.id,
+            },
+          });
+        }
+
+        return createdRelease;
+      });
+
+      if (!occurrence) {
+        return null;
+      }
+
+      await this.updateReleaseStatus(occurrence.id);
+
+      return this.publish(occurrence.id);
+    },
+
+    /**
+     * Lists the scheduled, published and upcoming recurring publications of the releases within a period
+     */
+    async getCalendar({ start, end }: GetReleasesCalendar.Request['query']) {
+      const startDate = new Date(start);
+      const endDate = new Date(end);
+
+      const releases = await strapi.db.query(RELEASE_MODEL_UID).findMany({
+        where: {
+          $or: [
+            { releasedAt: { $between: [startDate, endDate] } },
+            { releasedAt: null, scheduledAt: { $between: [startDate, endDate] } },
+            { releasedAt: null, recurrence: { $notNull: true } },
+          ],
+        },
+        select: ['id', 'name', 'status', 'releasedAt', 'scheduledAt', 'timezone', 'recurrence'],
+      });
+
+      const schedulingService = getService('scheduling', { strapi });
+      const now = new Date();
+
+      const events = releases.flatMap((release: Release): ReleaseCalendarEvent[] => {
+        const calendarRelease = { id: release.id, name: release.name, status: release.status };
+
+        if (release.releasedAt) {
+          return [{ release: calendarRelease, date: release.releasedAt, type: 'published' }];
+        }
+
+        if (release.recurrence) {
+          // Past occurrences are listed as the published releases they created
+          const occurrencesStart = startDate > now ? startDate : now;
+
+          return schedulingService
+            .getOccurrences(release.recurrence, release.timezone, occurrencesStart, endDate)
+            .map((date: Date) => ({
+              release: calendarRelease,
+              date: date.toISOString(),
+              type: 'occurrence',
+            }));
+        }
+
+        return [{ release: calendarRelease, date: release.scheduledAt!, type: 'scheduled' }];
+      });
+
+      return events.sort(
+        (a: ReleaseCalendarEvent, b: ReleaseCalendarEvent) =>
+          new Date(a.date).getTime() - new Date(b.date).getTime()
+      );
+    },
+
     async updateReleaseStatus(releaseId: Release['id']) {
       const releaseActionService = getService('release-action', { strapi });
 
@@ -1,4 +1,5 @@
 import { scheduleJob, Job } from 'node-schedule';
+import { parseExpression } from 'cron-parser';
 import type { Core } from '@strapi/types';
 
 import { errors } from '@strapi/utils';
@@ -6,6 +7,9 @@ import { Release } from '../../../shared/contracts/releases';
 import { getService } from '../utils';
 import { RELEASE_MODEL_UID } from '../constants';
 
+// Maximum number of occurrences of a recurring release returned for a period
+const MAX_OCCURRENCES = 500;
+
 const createSchedulingService = ({ strapi }: { strapi: Core.Strapi }) => {
   const scheduledJobs = new Map<Release['id'], Job>();
 
@@ -39,6 +43,65 @@ const createSchedulingService = ({ strapi }: { strapi: Core.Strapi }) => {
       return scheduledJobs;
     },
 
+    /**
+     * Schedules the occurrences of a recurring release, each of them is published as a new release
+     */
+    async setRecurrence(
+      releaseId: Release['id'],
+      recurrence: string,
+      timezone: Release['timezone']
+    ) {
+      const release = await strapi.db
+        .query(RELEASE_MODEL_UID)
+        .findOne({ where: { id: releaseId, releasedAt: null } });
+
+      if (!release) {
+        throw new errors.NotFoundError(`No release found for id ${releaseId}`);
+      }
+
+      const job = scheduleJob(
+        { rule: recurrence, tz: timezone ?? undefined },
+        async (fireDate: Date) => {
+          try {
+            await getService('release', { strapi }).publishOccurrence(releaseId, fireDate);
+          } catch (error) {
+            strapi.log.error(
+              `[Content Releases] Failed to publish the occurrence of release ${releaseId} scheduled at ${fireDate.toISOString()}`
+            );
+            strapi.log.error(error);
+          }
+        }
+      );
+
+      if (scheduledJobs.has(releaseId)) {
+        this.cancel(releaseId);
+      }
+
+      scheduledJobs.set(releaseId, job);
+
+      return scheduledJobs;
+    },
+
+    /**
+     * Returns the dates, within a period, at which a recurring release is published
+     */
+    getOccurrences(recurrence: string, timezone: Release['timezone'], start: Date, end: Date) {
+      const interval = parseExpression(recurrence, {
+        // The current date is excluded from the occurrences
+        currentDate: new Date(start.getTime() - 1),
+        endDate: end,
+        tz: timezone ?? undefined,
+      });
+
+      const occurrences: Date[] = [];
+
+      while (interval.hasNext() && occurrences.length < MAX_OCCURRENCES) {
+        occurrences.push(interval.next().toDate());
+      }
+
+      return occurrences;
+    },
+
     cancel(releaseId: Release['id']) {
       if (scheduledJobs.has(releaseId)) {
         scheduledJobs.get(releaseId)!.cancel();
@@ -71,6 +134,27 @@ const createSchedulingService = ({ strapi }: { strapi: Core.Strapi }) => {
         this.set(release.id, release.scheduledAt);
       }
 
+      const recurringReleases = await strapi.db.query(RELEASE_MODEL_UID).findMany({
+        where: {
+          recurrence: {
+            $notNull: true,
+          },
+          releasedAt: null,
+        },
+      });
+
+      for (const release of recurringReleases) {
+        try {
+          await this.setRecurrence(release.id, release.recurrence, release.timezone);
+        } catch (error) {
+          // the release may have been published or deleted in the meantime
+          strapi.log.error(
+            `[Content Releases] Failed to schedule the recurring release ${release.id}`
+          );
+          strapi.log.error(error);
+        }
+      }
+
       return scheduledJobs;
     },
   };
@@ -3,12 +3,14 @@ import type { UID, Data, Core } from '@strapi/types';
 import type { SettingsService } from '../services/settings';
 import type { ReleaseService } from '../services/release';
 import type { ReleaseActionService } from '../services/release-action';
+import type { ReleaseDiffService } from '../services/release-diff';
 
 type Services = {
   release: ReleaseService;
   'release-validation': any;
   scheduling: any;
   'release-action': ReleaseActionService;
+  'release-diff': ReleaseDiffService;
   'event-manager': any;
   settings: SettingsService;
 };
@@ -40,6 +40,29 @@ export interface FormattedReleaseAction extends Entity {
   status: 'draft' | 'published' | 'modified';
 }
 
+export interface ReleaseActionFieldChange {
+  field: string;
+  type: 'added' | 'modified' | 'removed';
+  before: unknown;
+  after: unknown;
+}
+
+export type ReleaseActionConflict =
+  | { type: 'entry-not-found' }
+  | { type: 'invalid-entry' }
+  | { type: 'other-releases'; releases: Pick<Release, 'id' | 'name'>[] };
+
+export interface ReleaseActionDiff {
+  id: ReleaseAction['id'];
+  type: ReleaseAction['type'];
+  contentType: FormattedReleaseAction['contentType'];
+  entryDocumentId: ReleaseAction['entryDocumentId'];
+  locale: string | null;
+  // Field level changes between the published version and the draft that will be published
+  changes: ReleaseActionFieldChange[];
+  conflicts: ReleaseActionConflict[];
+}
+
 /**
  * POST /content-releases/:releaseId/actions - Create a release action
  */
@@ -1,5 +1,5 @@
 import type { Entity } from '../types';
-import type { ReleaseAction } from './release-actions';
+import type { ReleaseAction, ReleaseActionDiff } from './release-actions';
 import type { UserInfo } from '../types';
 import { errors } from '@strapi/utils';
 import type { SanitizedAdminUser } from '@strapi/admin/strapi-admin';
@@ -11,7 +11,12 @@ export interface Release extends Entity {
   status: 'ready' | 'blocked' | 'failed' | 'done' | 'empty';
   // We save scheduledAt always in UTC, but users can set the release in a different timezone to show that in the UI for everyone
   timezone: string | null;
+  // Cron expression of a recurring release, each occurrence is published as a new release
+  recurrence: string | null;
   actions: ReleaseAction[];
+  revertOf?: Pick<Release, 'id' | 'name'> | null;
+  revertedBy?: Pick<Release, 'id' | 'name'> | null;
+  recurrenceOf?: Pick<Release, 'id' | 'name'> | null;
 }
 
 export type Pagination = {
@@ -111,6 +116,28 @@ export declare namespace GetRelease {
   }
 }
 
+/**
+ * GET /content-releases/:id/diff - Get the changes and conflicts of a release before publishing it
+ */
+export declare namespace GetReleaseDiff {
+  export interface Request {
+    state: {
+      userAbility: {};
+    };
+    params: {
+      id: Release['id'];
+    };
+  }
+
+  export interface Response {
+    data: ReleaseActionDiff[];
+    meta: {
+      conflictsCount: number;
+    };
+    error?: errors.ApplicationError | errors.NotFoundError;
+  }
+}
+
 /**
  * POST /content-releases/ - Create a release
  */
@@ -123,6 +150,7 @@ export declare namespace CreateRelease {
       name: string;
       scheduledAt: Date | null;
       timezone: string | null;
+      recurrence?: string | null;
     };
   }
 
@@ -148,6 +176,7 @@ export declare namespace UpdateRelease {
       // When editing a release, scheduledAt always need to be explicitly sended, so it can be null to unschedule it
       scheduledAt?: Date | null;
       timezone?: string | null;
+      recurrence?: string | null;
     };
   }
 
@@ -199,3 +228,49 @@ export declare namespace PublishRelease {
     error?: errors.ApplicationError | errors.ValidationError;
   }
 }
+
+/**
+ * POST /content-releases/:releaseId/revert - Revert a published release
+ */
+export declare namespace RevertRelease {
+  export interface Request {
+    state: {
+      user: UserInfo;
+    };
+    params: {
+      id: Release['id'];
+    };
+  }
+
+  export interface Response {
+    data: Omit<Release, 'actions'>;
+    meta: {
+      totalEntries: number;
+    };
+    error?: errors.ApplicationError | errors.ValidationError | errors.NotFoundError;
+  }
+}
+
+export interface ReleaseCalendarEvent {
+  release: Pick<Release, 'id' | 'name' | 'status'>;
+  date: string;
+  // Occurrences are the upcoming publications of recurring releases
+  type: 'scheduled' | 'published' | 'occurrence';
+}
+
+/**
+ * GET /content-releases/calendar - Get the publications of the releases within a period
+ */
+export declare namespace GetReleasesCalendar {
+  export interface Request {
+    query: {
+      start: string;
+      end: string;
+    };
+  }
+
+  export interface Response {
+    data: ReleaseCalendarEvent[];
+    error?: errors.ApplicationError | errors.ValidationError;
+  }
+}
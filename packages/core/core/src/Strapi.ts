@@ -114,6 +114,10 @@ class Strapi extends Container implements Core.Strapi {
     return this.get('cron');
   }
 
+  get jobs(): Modules.Jobs.JobsService {
+    return this.get('jobs');
+  }
+
   get log(): Logger {
     return this.get('logger');
   }
@@ -282,6 +286,7 @@ class Strapi extends Container implements Core.Strapi {
             settings: {
               migrations: {
                 dir: path.join(projectDir, 'database/migrations'),
+                context: () => ({ strapi: this, documents: this.documents }),
               },
             },
           })
@@ -414,9 +419,10 @@ class Strapi extends Container implements Core.Strapi {
     return this;
   }
 
-  async bootstrap() {
-    this.configureGlobalProxy();
-
+  /**
+   * Initializes the database with the models of the application, without syncing its schema
+   */
+  async initDatabase() {
     const models = [
       ...utils.transformContentTypesToModels(
         [...Object.values(this.contentTypes), ...Object.values(this.components)],
@@ -426,6 +432,12 @@ class Strapi extends Container implements Core.Strapi {
     ];
 
     await this.db.init({ models });
+  }
+
+  async bootstrap() {
+    this.configureGlobalProxy();
+
+    await this.initDatabase();
 
     let oldContentTypes;
     if (await this.db.getSchemaConnection().hasTable(coreStoreModel.tableName)) {
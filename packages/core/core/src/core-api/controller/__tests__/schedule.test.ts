@@ -0,0 +1,91 @@
+import type { Core, Struct } from '@strapi/types';
+
+import { saveWithSchedule, validateSchedule } from '../schedule';
+
+const contentType = {
+  uid: 'api::article.article',
+  kind: 'collectionType',
+  options: { draftAndPublish: true },
+  attributes: {},
+} as unknown as Struct.ContentTypeSchema;
+
+const inOneDay = () => new Date(Date.now() + 24 * 60 * 60 * 1000);
+
+describe('Core API schedule', () => {
+  describe('validateSchedule', () => {
+    test('Rejects a date in the past', async () => {
+      await expect(
+        validateSchedule(contentType, { publishAt: new Date(Date.now() - 1000) })
+      ).rejects.toThrow('publishAt must be a date in the future');
+    });
+
+    test('Rejects an unpublication before the publication', async () => {
+      const publishAt = inOneDay();
+
+      await expect(
+        validateSchedule(contentType, { publishAt, unpublishAt: publishAt })
+      ).rejects.toThrow('unpublishAt must be after publishAt');
+    });
+
+    test('Accepts a schedule removing the publication', async () => {
+      const schedule = { publishAt: null, unpublishAt: inOneDay() };
+
+      await expect(validateSchedule(contentType, schedule)).resolves.toEqual(schedule);
+    });
+  });
+
+  describe('saveWithSchedule', () => {
+    const schedule = jest.fn();
+    const transaction = jest.fn((cb: () => Promise<unknown>) => cb());
+
+    beforeAll(() => {
+      global.strapi = {
+        db: { transaction },
+        documents: () => ({ schedule }),
+      } as unknown as Core.Strapi;
+    });
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    test('Saves without a transaction when there is no schedule', async () => {
+      const save = jest.fn(async () => ({ documentId: 'doc' }));
+
+      await expect(saveWithSchedule(contentType, undefined, save)).resolves.toEqual({
+        entity: { documentId: 'doc' },
+        scheduled: undefined,
+      });
+      expect(transaction).not.toHaveBeenCalled();
+    });
+
+    test('Saves and schedules the document in a transaction', async () => {
+      const publishAt = inOneDay();
+      schedule.mockResolvedValueOnce({ documentId: 'doc', publishAt });
+
+      const save = jest.fn(async () => ({ documentId: 'doc', locale: 'en' }));
+
+      const { scheduled } = await saveWithSchedule(contentType, { publishAt }, save);
+
+      expect(transaction).toHaveBeenCalledTimes(1);
+      expect(schedule).toHaveBeenCalledWith({
+        documentId: 'doc',
+        locale: 'en',
+        publishAt,
+        unpublishAt: undefined,
+      });
+      expect(scheduled).toEqual({ documentId: 'doc', publishAt });
+    });
+
+    test('Rejects the save when the schedule is rejected', async () => {
+      schedule.mockRejectedValueOnce(new Error('unpublishAt must be after publishAt'));
+
+      const save = jest.fn(async () => ({ documentId: 'doc' }));
+
+      await expect(
+        saveWithSchedule(contentType, { unpublishAt: inOneDay() }, save)
+      ).rejects.toThrow('unpublishAt must be after publishAt');
+      expect(transaction).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -3,6 +3,8 @@ import { errors } from '@strapi/utils';
 import type { Core, Struct, Utils, UID } from '@strapi/types';
 import type Koa from 'koa';
 
+import { saveWithSchedule, validateSchedule } from './schedule';
+
 interface Options {
   contentType: Struct.CollectionTypeSchema;
 }
@@ -59,17 +61,21 @@ const createCollectionTypeController = ({
 
       await this.validateInput(body.data, ctx);
 
+      const schedule = await validateSchedule(contentType, body.schedule);
+
       const sanitizedInputData = await this.sanitizeInput(body.data, ctx);
 
-      const entity = await strapi.service(uid).create({
-        ...sanitizedQuery,
-        data: sanitizedInputData,
-      });
+      const { entity, scheduled } = await saveWithSchedule(contentType, schedule, () =>
+        strapi.service(uid).create({
+          ...sanitizedQuery,
+          data: sanitizedInputData,
+        })
+      );
 
       const sanitizedEntity = await this.sanitizeOutput(entity, ctx);
 
       ctx.status = 201;
-      return this.transformResponse(sanitizedEntity);
+      return this.transformResponse(sanitizedEntity, scheduled ? { schedule: scheduled } : {});
     },
 
     /**
@@ -88,16 +94,20 @@ const createCollectionTypeController = ({
 
       await this.validateInput(body.data, ctx);
 
+      const schedule = await validateSchedule(contentType, body.schedule);
+
       const sanitizedInputData = await this.sanitizeInput(body.data, ctx);
 
-      const entity = await strapi.service(uid).update(id, {
-        ...sanitizedQuery,
-        data: sanitizedInputData,
-      });
+      const { entity, scheduled } = await saveWithSchedule(contentType, schedule, () =>
+        strapi.service(uid).update(id, {
+          ...sanitizedQuery,
+          data: sanitizedInputData,
+        })
+      );
 
       const sanitizedEntity = await this.sanitizeOutput(entity, ctx);
 
-      return this.transformResponse(sanitizedEntity);
+      return this.transformResponse(sanitizedEntity, scheduled ? { schedule: scheduled } : {});
     },
 
     /**
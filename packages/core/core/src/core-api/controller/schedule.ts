@@ -0,0 +1,98 @@
+import { isNil } from 'lodash/fp';
+import { contentTypes as contentTypeUtils, errors, validateYupSchema, yup } from '@strapi/utils';
+import type { Struct, UID } from '@strapi/types';
+
+interface Schedule {
+  publishAt?: Date | string | null;
+  unpublishAt?: Date | string | null;
+}
+
+type ScheduledEntity = { documentId: string; locale?: string | null } | null;
+
+const scheduleSchema = yup
+  .object()
+  .shape({
+    publishAt: yup.date().nullable(),
+    unpublishAt: yup.date().nullable(),
+  })
+  .noUnknown();
+
+/**
+ * Validates the optional "schedule" payload of a request body, before the document is saved
+ */
+const validateSchedule = async (
+  contentType: Struct.ContentTypeSchema,
+  schedule: unknown
+): Promise<Schedule | undefined> => {
+  if (isNil(schedule)) {
+    return undefined;
+  }
+
+  if (!contentTypeUtils.hasDraftAndPublish(contentType)) {
+    throw new errors.ValidationError(
+      'Cannot schedule the publication of a content type without draft and publish'
+    );
+  }
+
+  await validateYupSchema(scheduleSchema, { strict: false })(
+    schedule,
+    'Invalid "schedule" payload in the request body'
+  );
+
+  const { publishAt, unpublishAt } = schedule as Schedule;
+
+  for (const [field, value] of Object.entries({ publishAt, unpublishAt })) {
+    if (!isNil(value) && new Date(value).getTime() <= Date.now()) {
+      throw new errors.ValidationError(`${field} must be a date in the future`);
+    }
+  }
+
+  if (!isNil(publishAt) && !isNil(unpublishAt) && new Date(unpublishAt) <= new Date(publishAt)) {
+    throw new errors.ValidationError('unpublishAt must be after publishAt');
+  }
+
+  return schedule as Schedule;
+};
+
+/**
+ * Schedules the publication and unpublication of a saved document locale
+ */
+const applySchedule = async (
+  contentType: Struct.ContentTypeSchema,
+  entity: ScheduledEntity,
+  schedule: Schedule
+) => {
+  if (!entity) {
+    return undefined;
+  }
+
+  return strapi.documents(contentType.uid as UID.ContentType).schedule({
+    documentId: entity.documentId,
+    locale: entity.locale ?? undefined,
+    publishAt: schedule.publishAt,
+    unpublishAt: schedule.unpublishAt,
+  });
+};
+
+/**
+ * Saves a document and applies its schedule in the same transaction, so that the document is not
+ * saved when the schedule is rejected, e.g. when it conflicts with the current schedule
+ */
+const saveWithSchedule = async <TEntity extends ScheduledEntity>(
+  contentType: Struct.ContentTypeSchema,
+  schedule: Schedule | undefined,
+  save: () => Promise<TEntity>
+) => {
+  if (!schedule) {
+    return { entity: await save(), scheduled: undefined };
+  }
+
+  return strapi.db.transaction(async () => {
+    const entity = await save();
+    const scheduled = await applySchedule(contentType, entity, schedule);
+
+    return { entity, scheduled };
+  });
+};
+
+export { validateSchedule, saveWithSchedule };
@@ -2,6 +2,8 @@ import { isObject } from 'lodash/fp';
 import { errors } from '@strapi/utils';
 import type { Struct, Core, Utils, UID } from '@strapi/types';
 
+import { saveWithSchedule, validateSchedule } from './schedule';
+
 interface Options {
   contentType: Struct.SingleTypeSchema;
 }
@@ -43,16 +45,20 @@ const createSingleTypeController = ({
 
       await this.validateInput(body.data, ctx);
 
+      const schedule = await validateSchedule(contentType, body.schedule);
+
       const sanitizedInputData = await this.sanitizeInput(body.data, ctx);
 
-      const entity = await strapi.service(uid).createOrUpdate({
-        ...query,
-        data: sanitizedInputData,
-      });
+      const { entity, scheduled } = await saveWithSchedule(contentType, schedule, () =>
+        strapi.service(uid).createOrUpdate({
+          ...query,
+          data: sanitizedInputData,
+        })
+      );
 
       const sanitizedEntity = await this.sanitizeOutput(entity, ctx);
 
-      return this.transformResponse(sanitizedEntity);
+      return this.transformResponse(sanitizedEntity, scheduled ? { schedule: scheduled } : {});
     },
 
     async delete(ctx) {
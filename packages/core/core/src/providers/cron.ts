@@ -1,9 +1,23 @@
 import { defineProvider } from './provider';
 import createCronService from '../services/cron';
+import { createCronRunStore, cronRunModel } from '../services/cron-run-store';
 
 export default defineProvider({
   init(strapi) {
-    strapi.add('cron', () => createCronService());
+    strapi.get('models').add(cronRunModel);
+
+    strapi.add('cronRunStore', () => createCronRunStore({ db: strapi.db }));
+    strapi.add('cron', () =>
+      createCronService({
+        runStore: strapi.get('cronRunStore'),
+        logger: strapi.log,
+        configuration: {
+          lock: strapi.config.get('server.cron.lock', false),
+          history: strapi.config.get('server.cron.history', false),
+          historyRetention: strapi.config.get('server.cron.historyRetention'),
+        },
+      })
+    );
   },
   async bootstrap(strapi) {
     if (strapi.config.get('server.cron.enabled', true)) {
@@ -0,0 +1,15 @@
+import { defineProvider } from './provider';
+import {
+  SCHEDULED_ACTION_JOB,
+  runScheduledAction,
+  scheduleModel,
+} from '../services/document-service/scheduling';
+
+export default defineProvider({
+  init(strapi) {
+    strapi.get('models').add(scheduleModel);
+  },
+  async bootstrap(strapi) {
+    strapi.get('jobs').register(SCHEDULED_ACTION_JOB, runScheduledAction);
+  },
+});
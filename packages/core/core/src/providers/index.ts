@@ -1,10 +1,21 @@
 import admin from './admin';
 import coreStore from './coreStore';
 import cron from './cron';
+import documentScheduling from './document-scheduling';
+import jobs from './jobs';
 import registries from './registries';
 import telemetry from './telemetry';
 import webhooks from './webhooks';
 
 import type { Provider } from './provider';
 
-export const providers: Provider[] = [registries, admin, coreStore, webhooks, telemetry, cron];
+export const providers: Provider[] = [
+  registries,
+  admin,
+  coreStore,
+  jobs,
+  documentScheduling,
+  webhooks,
+  telemetry,
+  cron,
+];
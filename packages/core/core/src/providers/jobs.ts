@@ -0,0 +1,26 @@
+import { defineProvider } from './provider';
+import { createJobStore, jobModel } from '../services/job-store';
+import createJobsService from '../services/jobs';
+
+export default defineProvider({
+  init(strapi) {
+    strapi.get('models').add(jobModel);
+
+    strapi.add('jobStore', () => createJobStore({ db: strapi.db }));
+    strapi.add('jobs', () =>
+      createJobsService({
+        store: strapi.get('jobStore'),
+        logger: strapi.log,
+        configuration: strapi.config.get('server.jobs', {}),
+      })
+    );
+  },
+  async bootstrap(strapi) {
+    if (strapi.config.get('server.jobs.enabled', true)) {
+      strapi.get('jobs').start();
+    }
+  },
+  async destroy(strapi) {
+    await strapi.get('jobs').stop();
+  },
+});
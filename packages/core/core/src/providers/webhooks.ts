@@ -1,18 +1,27 @@
 import { defineProvider } from './provider';
 import { createWebhookStore, webhookModel } from '../services/webhook-store';
+import {
+  createWebhookDeliveryStore,
+  webhookDeliveryModel,
+  webhookDeliveryAttemptModel,
+} from '../services/webhook-delivery-store';
 import createWebhookRunner from '../services/webhook-runner';
 
 export default defineProvider({
   init(strapi) {
     strapi.get('models').add(webhookModel);
+    strapi.get('models').add(webhookDeliveryModel);
+    strapi.get('models').add(webhookDeliveryAttemptModel);
 
     strapi.add('webhookStore', () => createWebhookStore({ db: strapi.db }));
+    strapi.add('webhookDeliveryStore', () => createWebhookDeliveryStore({ db: strapi.db }));
     strapi.add('webhookRunner', () =>
       createWebhookRunner({
         eventHub: strapi.eventHub,
         logger: strapi.log,
         configuration: strapi.config.get('server.webhooks', {}),
         fetch: strapi.fetch,
+        deliveryStore: strapi.get('webhookDeliveryStore'),
       })
     );
   },
@@ -25,5 +34,10 @@ export default defineProvider({
     for (const webhook of webhooks) {
       strapi.get('webhookRunner').add(webhook);
     }
+
+    strapi.get('webhookRunner').start();
+  },
+  async destroy(strapi) {
+    strapi.get('webhookRunner').stop();
   },
 });
@@ -0,0 +1,122 @@
+import type { Job, JobCallback } from 'node-schedule';
+import type { Core, Modules } from '@strapi/types';
+
+import createCronService from '../cron';
+
+const createRun = (overrides = {}) => ({
+  id: '1',
+  name: 'cleanup',
+  scheduledAt: new Date(),
+  startedAt: new Date(),
+  finishedAt: null,
+  duration: null,
+  status: 'running' as const,
+  error: null,
+  ...overrides,
+});
+
+const createRunStore = (): jest.Mocked<Modules.Cron.CronRunStore> => ({
+  createRun: jest.fn(async (data) => createRun(data)),
+  finishRun: jest.fn(),
+  findRuns: jest.fn(),
+  purgeRuns: jest.fn(),
+});
+
+const logger = { error: jest.fn() };
+
+// node-schedule calls the job with its fire date, which its typings leave out
+const invoke = (job: Job, date: Date) => {
+  return (job.invoke as JobCallback).call(job, date);
+};
+
+const fireDate = new Date('2024-01-01T00:00:00.250Z');
+
+describe('Cron service', () => {
+  beforeAll(() => {
+    global.strapi = {} as Core.Strapi;
+  });
+
+  test('Records the runs of the named tasks', async () => {
+    const runStore = createRunStore();
+    const task = jest.fn(async () => {});
+
+    const cron = createCronService({ runStore, logger });
+    cron.add({ cleanup: { task, options: '0 0 * * *', history: true } });
+
+    await invoke(cron.jobs[0].job, fireDate);
+
+    expect(runStore.createRun).toHaveBeenCalledWith({
+      name: 'cleanup',
+      scheduledAt: new Date('2024-01-01T00:00:00.000Z'),
+      lockKey: null,
+    });
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(runStore.finishRun).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), {
+      status: 'success',
+    });
+  });
+
+  test('Records the error of a failed run', async () => {
+    const runStore = createRunStore();
+
+    const cron = createCronService({ runStore, logger, configuration: { history: true } });
+    cron.add({
+      cleanup: {
+        async task() {
+          throw new Error('Database unavailable');
+        },
+        options: '0 0 * * *',
+      },
+    });
+
+    await expect(invoke(cron.jobs[0].job, fireDate)).rejects.toThrow('Database unavailable');
+
+    expect(runStore.finishRun).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), {
+      status: 'failed',
+      error: 'Database unavailable',
+    });
+  });
+
+  test('Skips a locked task when another instance holds the lock of the tick', async () => {
+    const runStore = createRunStore();
+    runStore.createRun.mockResolvedValueOnce(null);
+    const task = jest.fn(async () => {});
+
+    const cron = createCronService({ runStore, logger, configuration: { lock: true } });
+    cron.add({ cleanup: { task, options: '0 0 * * *' } });
+
+    await invoke(cron.jobs[0].job, fireDate);
+
+    expect(runStore.createRun).toHaveBeenCalledWith(
+      expect.objectContaining({ lockKey: 'cleanup:2024-01-01T00:00:00.000Z' })
+    );
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  test('Does not record the runs of the tasks without history nor lock', async () => {
+    const runStore = createRunStore();
+    const task = jest.fn(async () => {});
+
+    const cron = createCronService({ runStore, logger, configuration: { history: true } });
+    cron.add({ cleanup: { task, options: '0 0 * * *', history: false } });
+
+    await invoke(cron.jobs[0].job, fireDate);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(runStore.createRun).not.toHaveBeenCalled();
+    expect(cron.jobs[0].history).toBe(false);
+  });
+
+  test('Does not record the runs of the tasks named after their rule', async () => {
+    const runStore = createRunStore();
+    const task = jest.fn(async () => {});
+
+    const cron = createCronService({ runStore, logger, configuration: { history: true } });
+    cron.add({ '0 0 * * *': task });
+
+    await invoke(cron.jobs[0].job, fireDate);
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(runStore.createRun).not.toHaveBeenCalled();
+  });
+});
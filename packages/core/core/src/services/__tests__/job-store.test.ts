@@ -0,0 +1,101 @@
+import { createJobStore } from '../job-store';
+
+const createJob = (overrides = {}) => ({
+  id: '1',
+  name: 'send-email',
+  payload: null,
+  status: 'pending' as const,
+  priority: 0,
+  attempts: 0,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedUntil: null,
+  lastError: null,
+  result: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  completedAt: null,
+  ...overrides,
+});
+
+const createDB = (count = 1) => {
+  const query = {
+    findOne: jest.fn(async ({ where }) => ({ ...createJob(), ...where })),
+    updateMany: jest.fn(async () => ({ count })),
+  };
+
+  return { query, db: { query: jest.fn(() => query) } as any };
+};
+
+describe('Job store', () => {
+  describe('claimJob', () => {
+    test('Claims a job by bumping its attempts', async () => {
+      const { db, query } = createDB();
+      const store = createJobStore({ db });
+
+      const claimed = await store.claimJob(createJob({ attempts: 1 }), 1000);
+
+      expect(query.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', status: 'pending', attempts: 1 },
+        data: expect.objectContaining({ status: 'running', attempts: 2 }),
+      });
+      expect(claimed).toMatchObject({ status: 'running', attempts: 2 });
+    });
+
+    test('Returns null when another worker claimed the job', async () => {
+      const { db } = createDB(0);
+      const store = createJobStore({ db });
+
+      expect(await store.claimJob(createJob(), 1000)).toBeNull();
+    });
+
+    test('Fails a job interrupted on its last attempt instead of claiming it', async () => {
+      const { db, query } = createDB();
+      const store = createJobStore({ db });
+
+      const job = createJob({ status: 'running', attempts: 3, lockedUntil: new Date(0) });
+
+      expect(await store.claimJob(job, 1000)).toBeNull();
+      expect(query.updateMany).toHaveBeenCalledTimes(1);
+      expect(query.updateMany).toHaveBeenCalledWith({
+        where: { id: '1', status: 'running', attempts: 3 },
+        data: expect.objectContaining({
+          status: 'failed',
+          lastError: 'The job was interrupted on its last attempt',
+        }),
+      });
+    });
+  });
+
+  describe('completeJob / failJob', () => {
+    test('Only update the job while it is held by the same attempt', async () => {
+      const { db, query } = createDB();
+      const store = createJobStore({ db });
+
+      const job = createJob({ status: 'running', attempts: 2 });
+
+      await store.completeJob(job, { sent: true });
+      await store.failJob(job, 'Error', null);
+
+      expect(query.updateMany).toHaveBeenNthCalledWith(1, {
+        where: { id: '1', status: 'running', attempts: 2 },
+        data: expect.objectContaining({ status: 'completed', result: { sent: true } }),
+      });
+      expect(query.updateMany).toHaveBeenNthCalledWith(2, {
+        where: { id: '1', status: 'running', attempts: 2 },
+        data: expect.objectContaining({ status: 'failed', lastError: 'Error' }),
+      });
+    });
+
+    test('Returns null when the job was claimed again by another worker', async () => {
+      const { db, query } = createDB(0);
+      const store = createJobStore({ db });
+
+      const job = createJob({ status: 'running', attempts: 2 });
+
+      expect(await store.completeJob(job, null)).toBeNull();
+      expect(await store.failJob(job, 'Error', new Date())).toBeNull();
+      expect(query.findOne).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,166 @@
+import createJobsService from '../jobs';
+
+const createJob = (overrides = {}) => ({
+  id: '1',
+  name: 'send-email',
+  payload: { to: 'test@strapi.io' },
+  status: 'pending' as const,
+  priority: 0,
+  attempts: 0,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedUntil: null,
+  lastError: null,
+  result: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  completedAt: null,
+  ...overrides,
+});
+
+const createStore = () => ({
+  createJob: jest.fn(async (data) => ({ ...createJob(), ...data })),
+  findJob: jest.fn(),
+  findJobs: jest.fn(),
+  findDueJobs: jest.fn(async () => [] as any[]),
+  claimJob: jest.fn(async (job) => ({ ...job, status: 'running', attempts: job.attempts + 1 })),
+  extendLock: jest.fn(),
+  completeJob: jest.fn(),
+  failJob: jest.fn(),
+  updateJob: jest.fn(async (id, data) => createJob({ id, ...data })),
+  purgeJobs: jest.fn(),
+});
+
+const logger = { error: jest.fn(), warn: jest.fn() } as any;
+
+const flush = () =>
+  new Promise((resolve) => {
+    setImmediate(resolve);
+  });
+
+describe('Jobs service', () => {
+  test('Enqueues a job with the default retry policy', async () => {
+    const store = createStore();
+    const jobs = createJobsService({ store, logger });
+
+    jobs.register('send-email', jest.fn());
+
+    await jobs.enqueue('send-email', { to: 'test@strapi.io' }, { priority: 10, delay: 1000 });
+
+    expect(store.createJob).toHaveBeenCalledWith({
+      name: 'send-email',
+      payload: { to: 'test@strapi.io' },
+      priority: 10,
+      maxAttempts: 3,
+      runAt: expect.any(Date),
+    });
+    expect(store.createJob.mock.calls[0][0].runAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test('Refuses to enqueue jobs without a registered handler', async () => {
+    const jobs = createJobsService({ store: createStore(), logger });
+
+    await expect(jobs.enqueue('unknown')).rejects.toThrow("No job named 'unknown' is registered");
+  });
+
+  test('Runs the due jobs and records their result', async () => {
+    const store = createStore();
+    store.findDueJobs.mockResolvedValueOnce([createJob()]);
+    const handler = jest.fn(async () => 'sent');
+
+    const jobs = createJobsService({ store, logger });
+    jobs.register('send-email', handler);
+
+    await jobs.processDueJobs();
+    await flush();
+
+    expect(store.findDueJobs).toHaveBeenCalledWith(['send-email'], 5);
+    expect(handler).toHaveBeenCalledWith(
+      { to: 'test@strapi.io' },
+      expect.objectContaining({ id: '1', attempts: 1 })
+    );
+    expect(store.completeJob).toHaveBeenCalledWith(expect.objectContaining({ id: '1' }), 'sent');
+  });
+
+  test('Skips the jobs claimed by another worker', async () => {
+    const store = createStore();
+    store.findDueJobs.mockResolvedValueOnce([createJob()]);
+    store.claimJob.mockResolvedValueOnce(null);
+    const handler = jest.fn();
+
+    const jobs = createJobsService({ store, logger });
+    jobs.register('send-email', handler);
+
+    await jobs.processDueJobs();
+    await flush();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  test('Schedules a retry with an exponential backoff when the job fails', async () => {
+    const store = createStore();
+    store.findDueJobs.mockResolvedValueOnce([createJob({ attempts: 1 })]);
+
+    const jobs = createJobsService({ store, logger });
+    jobs.register('send-email', {
+      handler: jest.fn(async () => {
+        throw new Error('SMTP unavailable');
+      }),
+      backoff: { delay: 1000 },
+    });
+
+    const before = Date.now();
+    await jobs.processDueJobs();
+    await flush();
+
+    const [, error, retryAt] = store.failJob.mock.calls[0];
+
+    expect(error).toBe('SMTP unavailable');
+    expect(retryAt.getTime()).toBeGreaterThanOrEqual(before + 2000);
+  });
+
+  test('Marks the job as failed once the max attempts are reached', async () => {
+    const store = createStore();
+    store.findDueJobs.mockResolvedValueOnce([createJob({ attempts: 2 })]);
+
+    const jobs = createJobsService({ store, logger });
+    jobs.register('send-email', async () => {
+      throw new Error('SMTP unavailable');
+    });
+
+    await jobs.processDueJobs();
+    await flush();
+
+    expect(store.failJob).toHaveBeenCalledWith(
+      expect.objectContaining({ attempts: 3 }),
+      'SMTP unavailable',
+      null
+    );
+  });
+
+  test('Respects the concurrency of a job definition', async () => {
+    const store = createStore();
+    store.findDueJobs.mockResolvedValueOnce([createJob({ id: '1' }), createJob({ id: '2' })]);
+    const handler = jest.fn(() => new Promise(() => {}));
+
+    const jobs = createJobsService({ store, logger });
+    jobs.register('send-email', { handler, concurrency: 1 });
+
+    await jobs.processDueJobs();
+
+    expect(store.claimJob).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('Only cancels pending jobs', async () => {
+    const store = createStore();
+    const jobs = createJobsService({ store, logger });
+
+    store.findJob.mockResolvedValueOnce(createJob());
+    await jobs.cancel('1');
+    expect(store.updateJob).toHaveBeenCalledWith('1', { status: 'cancelled' });
+
+    store.findJob.mockResolvedValueOnce(createJob({ status: 'running' }));
+    await expect(jobs.cancel('1')).rejects.toThrow('Only pending jobs can be cancelled');
+  });
+});
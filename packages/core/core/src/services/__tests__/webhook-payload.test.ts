@@ -0,0 +1,86 @@
+import { buildPayload, matchesFilters, renderTemplate } from '../webhook-payload';
+
+const payload = {
+  event: 'entry.create',
+  createdAt: new Date('2024-01-01T00:00:00.000Z'),
+  model: 'article',
+  uid: 'api::article.article',
+  entry: {
+    documentId: 'abc',
+    title: 'Hello',
+    locale: 'fr',
+    views: 12,
+    tags: ['news'],
+  },
+};
+
+describe('Webhook payload', () => {
+  describe('matchesFilters', () => {
+    test('Matches when no filters are set', () => {
+      expect(matchesFilters(null, payload)).toBe(true);
+      expect(matchesFilters({}, payload)).toBe(true);
+    });
+
+    test('Filters by content type', () => {
+      expect(matchesFilters({ uids: ['api::article.article'] }, payload)).toBe(true);
+      expect(matchesFilters({ uids: ['api::page.page'] }, payload)).toBe(false);
+      expect(matchesFilters({ uids: ['api::page.page'] }, { event: 'media.create' })).toBe(false);
+    });
+
+    test('Filters by locale', () => {
+      expect(matchesFilters({ locales: ['fr', 'en'] }, payload)).toBe(true);
+      expect(matchesFilters({ locales: ['en'] }, payload)).toBe(false);
+    });
+
+    test('Filters with a JSON Logic condition', () => {
+      expect(matchesFilters({ condition: { '>': [{ var: 'entry.views' }, 10] } }, payload)).toBe(
+        true
+      );
+      expect(
+        matchesFilters({ condition: { '==': [{ var: 'entry.title' }, 'Goodbye'] } }, payload)
+      ).toBe(false);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    test('Picks and renames values while keeping their type', () => {
+      expect(
+        renderTemplate(
+          { id: '{{ entry.documentId }}', count: '{{entry.views}}', labels: '{{entry.tags}}' },
+          payload
+        )
+      ).toEqual({ id: 'abc', count: 12, labels: ['news'] });
+    });
+
+    test('Interpolates placeholders within text', () => {
+      expect(
+        renderTemplate({ text: 'New {{model}}: {{entry.title}} ({{entry.missing}})' }, payload)
+      ).toEqual({ text: 'New article: Hello ()' });
+    });
+
+    test('Renders nested objects and arrays', () => {
+      expect(
+        renderTemplate(
+          { blocks: [{ type: 'title', value: '{{entry.title}}' }], static: true },
+          payload
+        )
+      ).toEqual({ blocks: [{ type: 'title', value: 'Hello' }], static: true });
+    });
+
+    test('Returns null for missing values', () => {
+      expect(renderTemplate({ value: '{{entry.missing}}' }, payload)).toEqual({ value: null });
+    });
+  });
+
+  describe('buildPayload', () => {
+    test('Sends the full payload without a template', () => {
+      expect(buildPayload({ template: null }, payload)).toBe(payload);
+    });
+
+    test('Renders the template when there is one', () => {
+      expect(buildPayload({ template: { title: '{{entry.title}}' } }, payload)).toEqual({
+        title: 'Hello',
+      });
+    });
+  });
+});
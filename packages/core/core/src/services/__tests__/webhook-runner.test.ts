@@ -0,0 +1,210 @@
+import createWebhookRunner from '../webhook-runner';
+import createEventHub from '../event-hub';
+
+const webhook = {
+  id: '1',
+  name: 'test',
+  url: 'http://localhost/webhook',
+  headers: {},
+  events: ['entry.create'],
+  isEnabled: true,
+};
+
+const createDelivery = (overrides = {}) => ({
+  id: '10',
+  webhookId: '1',
+  event: 'entry.create',
+  payload: { event: 'entry.create' },
+  status: 'pending' as const,
+  attemptCount: 0,
+  lastStatusCode: null,
+  nextAttemptAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const createDeliveryStore = () => ({
+  createDelivery: jest.fn(async (data) => createDelivery(data)),
+  findDelivery: jest.fn(),
+  findDeliveries: jest.fn(),
+  findDueDeliveries: jest.fn(async () => []),
+  claimDelivery: jest.fn(async (delivery) => ({
+    ...delivery,
+    attemptCount: delivery.attemptCount + 1,
+  })),
+  recordAttempt: jest.fn(async (delivery, _result, next) => ({ ...delivery, ...next })),
+  deleteWebhookDeliveries: jest.fn(),
+  purgeDeliveries: jest.fn(),
+});
+
+const logger = { error: jest.fn(), warn: jest.fn() } as any;
+
+describe('WebhookRunner', () => {
+  test('Persists a delivery and records a successful attempt', async () => {
+    const deliveryStore = createDeliveryStore();
+    const fetch = jest.fn(async () => ({ ok: true, status: 200 })) as any;
+
+    const runner = createWebhookRunner({
+      eventHub: createEventHub(),
+      logger,
+      fetch,
+      deliveryStore,
+    });
+
+    runner.add(webhook);
+
+    await runner.executeListener({ event: 'entry.create', info: { model: 'article' } });
+
+    expect(deliveryStore.createDelivery).toHaveBeenCalledWith({
+      webhookId: '1',
+      event: 'entry.create',
+      payload: expect.objectContaining({ event: 'entry.create', model: 'article' }),
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+    expect(deliveryStore.recordAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attemptCount: 1 }),
+      expect.objectContaining({ statusCode: 200, response: null }),
+      { status: 'success', nextAttemptAt: null }
+    );
+  });
+
+  test('Schedules a retry with an exponential backoff when the delivery fails', async () => {
+    const deliveryStore = createDeliveryStore();
+    const fetch = jest.fn(async () => ({
+      ok: false,
+      status: 503,
+      text: async () => 'Service unavailable',
+    })) as any;
+
+    const runner = createWebhookRunner({
+      eventHub: createEventHub(),
+      logger,
+      fetch,
+      deliveryStore,
+      configuration: { retry: { initialDelay: 1000, maxDelay: 5000, maxAttempts: 5 } },
+    });
+
+    runner.add(webhook);
+
+    const before = Date.now();
+    await runner.deliver(createDelivery({ attemptCount: 2 }));
+
+    const [, result, next] = deliveryStore.recordAttempt.mock.calls[0];
+
+    expect(result).toMatchObject({ statusCode: 503, response: 'Service unavailable' });
+    expect(next.status).toBe('pending');
+    expect(next.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 4000);
+    expect(runner.getRetryDelay(10)).toBe(5000);
+  });
+
+  test('Marks the delivery as failed once the max attempts are reached', async () => {
+    const deliveryStore = createDeliveryStore();
+    const fetch = jest.fn(async () => {
+      throw new Error('connect ECONNREFUSED');
+    }) as any;
+
+    const runner = createWebhookRunner({
+      eventHub: createEventHub(),
+      logger,
+      fetch,
+      deliveryStore,
+      configuration: { retry: { maxAttempts: 3 } },
+    });
+
+    runner.add(webhook);
+
+    await runner.deliver(createDelivery({ attemptCount: 2 }));
+
+    expect(deliveryStore.recordAttempt).toHaveBeenCalledWith(
+      expect.objectContaining({ attemptCount: 3 }),
+      expect.objectContaining({ statusCode: 500, response: 'connect ECONNREFUSED' }),
+      { status: 'failed', nextAttemptAt: null }
+    );
+  });
+
+  test('Skips deliveries already claimed by another worker', async () => {
+    const deliveryStore = createDeliveryStore();
+    deliveryStore.claimDelivery.mockResolvedValueOnce(null);
+    const fetch = jest.fn() as any;
+
+    const runner = createWebhookRunner({
+      eventHub: createEventHub(),
+      logger,
+      fetch,
+      deliveryStore,
+    });
+
+    runner.add(webhook);
+
+    expect(await runner.deliver(createDelivery())).toBeNull();
+    expect(fetch).not.toHaveBeenCalled();
+    expect(deliveryStore.recordAttempt).not.toHaveBeenCalled();
+  });
+
+  test('Redelivers a previous delivery as a new one', async () => {
+    const deliveryStore = createDeliveryStore();
+    const fetch = jest.fn(async () => ({ ok: true, status: 204 })) as any;
+
+    const runner = createWebhookRunner({
+      eventHub: createEventHub(),
+      logger,
+      fetch,
+      deliveryStore,
+    });
+
+    runner.add(webhook);
+
+    await runner.redeliver(createDelivery({ status: 'failed', attemptCount: 5 }));
+
+    expect(deliveryStore.createDelivery).toHaveBeenCalledWith({
+      webhookId: '1',
+      event: 'entry.create',
+      payload: { event: 'entry.create' },
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  test('Does not create deliveries for events filtered out by the webhook', async () => {
+    const deliveryStore = createDeliveryStore();
+    const fetch = jest.fn(async () => ({ ok: true, status: 200 })) as any;
+
+    const runner = createWebhookRunner({
+      eventHub: createEventHub(),
+      logger,
+      fetch,
+      deliveryStore,
+    });
+
+    runner.add({
+      ...webhook,
+      filters: { uids: ['api::article.article'] },
+      template: { title: '{{entry.title}}' },
+    });
+
+    await runner.executeListener({
+      event: 'entry.create',
+      info: { uid: 'api::page.page', entry: { title: 'Page' } },
+    });
+
+    expect(deliveryStore.createDelivery).not.toHaveBeenCalled();
+
+    await runner.executeListener({
+      event: 'entry.create',
+      info: { uid: 'api::article.article', entry: { title: 'Article' } },
+    });
+
+    expect(deliveryStore.createDelivery).toHaveBeenCalledWith({
+      webhookId: '1',
+      event: 'entry.create',
+      payload: { title: 'Article' },
+    });
+    expect(fetch).toHaveBeenCalledWith(
+      webhook.url,
+      expect.objectContaining({
+        body: JSON.stringify({ title: 'Article' }),
+        headers: expect.objectContaining({ 'X-Strapi-Event': 'entry.create' }),
+      })
+    );
+  });
+});
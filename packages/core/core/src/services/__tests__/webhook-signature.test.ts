@@ -0,0 +1,58 @@
+import crypto from 'crypto';
+
+import { createSignatureHeader, getActiveSecrets } from '../webhook-signature';
+
+const sign = (secret: string, timestamp: number, body: string) =>
+  crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+describe('Webhook signature', () => {
+  const body = JSON.stringify({ event: 'entry.create' });
+  const timestamp = 1700000000;
+
+  test('Returns null when the webhook has no secret', () => {
+    expect(createSignatureHeader([], body, timestamp)).toBeNull();
+    expect(createSignatureHeader(undefined, body, timestamp)).toBeNull();
+  });
+
+  test('Signs the timestamp and body with the current secret', () => {
+    const header = createSignatureHeader(
+      [{ secret: 'current', createdAt: new Date().toISOString(), expiresAt: null }],
+      body,
+      timestamp
+    );
+
+    expect(header).toBe(`t=${timestamp},v1=${sign('current', timestamp, body)}`);
+  });
+
+  test('Signs with both secrets while a rotation is in progress', () => {
+    const header = createSignatureHeader(
+      [
+        { secret: 'current', createdAt: '2023-11-14T00:00:00.000Z', expiresAt: null },
+        {
+          secret: 'previous',
+          createdAt: '2023-01-01T00:00:00.000Z',
+          expiresAt: new Date((timestamp + 60) * 1000).toISOString(),
+        },
+      ],
+      body,
+      timestamp
+    );
+
+    expect(header).toBe(
+      `t=${timestamp},v1=${sign('current', timestamp, body)},v1=${sign('previous', timestamp, body)}`
+    );
+  });
+
+  test('Ignores expired secrets', () => {
+    const secrets = [
+      { secret: 'current', createdAt: '2023-11-14T00:00:00.000Z', expiresAt: null },
+      {
+        secret: 'previous',
+        createdAt: '2023-01-01T00:00:00.000Z',
+        expiresAt: '2023-01-02T00:00:00.000Z',
+      },
+    ];
+
+    expect(getActiveSecrets(secrets, new Date(timestamp * 1000))).toEqual([secrets[0]]);
+  });
+});
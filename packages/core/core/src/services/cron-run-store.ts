@@ -0,0 +1,147 @@
+/**
+ * Cron run store persists the history of the cron task runs. Its unique lock key doubles as a
+ * database-backed lock so that a task runs once per tick across all the instances of a cluster.
+ */
+
+import type { Model, Database } from '@strapi/database';
+import type { Modules } from '@strapi/types';
+
+const cronRunModel: Model = {
+  uid: 'strapi::cron-run',
+  singularName: 'strapi_cron_runs',
+  tableName: 'strapi_cron_runs',
+  attributes: {
+    id: {
+      type: 'increments',
+    },
+    name: {
+      type: 'string',
+    },
+    lockKey: {
+      type: 'string',
+    },
+    scheduledAt: {
+      type: 'datetime',
+    },
+    startedAt: {
+      type: 'datetime',
+    },
+    finishedAt: {
+      type: 'datetime',
+    },
+    duration: {
+      type: 'integer',
+    },
+    status: {
+      type: 'enumeration',
+      enum: ['running', 'success', 'failed'],
+    },
+    error: {
+      type: 'text',
+    },
+  },
+  indexes: [
+    {
+      name: 'strapi_cron_runs_lock_key_unique',
+      columns: ['lock_key'],
+      type: 'unique',
+    },
+  ],
+};
+
+type CronRun = Modules.Cron.CronRun;
+type CronRunStore = Modules.Cron.CronRunStore;
+
+const PURGE_BATCH_SIZE = 500;
+
+const toId = (id: string | number) => (typeof id === 'number' ? id.toString() : id);
+
+const fromDBObject = (row: any): CronRun => {
+  return {
+    id: toId(row.id),
+    name: row.name,
+    scheduledAt: row.scheduledAt,
+    startedAt: row.startedAt,
+    finishedAt: row.finishedAt ?? null,
+    duration: row.duration ?? null,
+    status: row.status,
+    error: row.error ?? null,
+  };
+};
+
+const createCronRunStore = ({ db }: { db: Database }): CronRunStore => {
+  return {
+    async createRun({ name, scheduledAt, lockKey = null }) {
+      try {
+        const row = await db.query('strapi::cron-run').create({
+          data: { name, lockKey, scheduledAt, startedAt: new Date(), status: 'running' },
+        });
+
+        return fromDBObject(row);
+      } catch (error) {
+        // The unique lock key is already taken: another instance is running this tick
+        if (lockKey && (await db.query('strapi::cron-run').findOne({ where: { lockKey } }))) {
+          return null;
+        }
+
+        throw error;
+      }
+    },
+
+    async finishRun(run, { status, error = null }) {
+      const finishedAt = new Date();
+
+      const row = await db.query('strapi::cron-run').update({
+        where: { id: run.id },
+        data: {
+          status,
+          error,
+          finishedAt,
+          duration: finishedAt.getTime() - new Date(run.startedAt).getTime(),
+        },
+      });
+
+      return row ? fromDBObject(row) : null;
+    },
+
+    async findRuns({ name, status, page = 1, pageSize = 10 } = {}) {
+      const where: Record<string, unknown> = {};
+
+      if (name) {
+        where.name = name;
+      }
+
+      if (status) {
+        where.status = status;
+      }
+
+      const { results, pagination } = await db.query('strapi::cron-run').findPage({
+        where,
+        orderBy: { startedAt: 'desc' },
+        page,
+        pageSize,
+      });
+
+      return { results: results.map(fromDBObject), pagination };
+    },
+
+    async purgeRuns(olderThan) {
+      const rows = await db.query('strapi::cron-run').findMany({
+        select: ['id'],
+        where: { startedAt: { $lt: olderThan }, status: { $ne: 'running' } },
+        limit: PURGE_BATCH_SIZE,
+      });
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      await db.query('strapi::cron-run').deleteMany({
+        where: { id: { $in: rows.map((row) => row.id) } },
+      });
+    },
+  };
+};
+
+export { cronRunModel, createCronRunStore };
+export type { CronRunStore };
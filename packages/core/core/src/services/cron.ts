@@ -1,11 +1,15 @@
 import { Job, Spec } from 'node-schedule';
+import createDebugger from 'debug';
 import { isFunction } from 'lodash/fp';
-import type { Core } from '@strapi/types';
+import type { Logger } from '@strapi/logger';
+import type { Core, Modules } from '@strapi/types';
 
 interface JobSpec {
   job: Job;
   options: Spec;
   name: string | null;
+  lock: boolean;
+  history: boolean;
 }
 
 type TaskFn = ({ strapi }: { strapi: Core.Strapi }, ...args: unknown[]) => Promise<unknown>;
@@ -15,15 +19,125 @@ type Task =
   | {
       task: TaskFn;
       options: Spec;
+      lock?: boolean;
+      history?: boolean;
     };
 
 interface Tasks {
   [key: string]: Task;
 }
 
-const createCronService = () => {
+interface CronServiceParameters {
+  /**
+   * Records the runs of the named tasks and locks them when a store is provided
+   */
+  runStore?: Modules.Cron.CronRunStore;
+  logger?: Pick<Logger, 'error'>;
+  configuration?: {
+    /**
+     * Run every named task once per tick across the cluster, unless the task disables it
+     */
+    lock?: boolean;
+    /**
+     * Record the runs of every named task, unless the task disables it. The runs of the locked
+     * tasks are always recorded as they hold the lock.
+     */
+    history?: boolean;
+    /**
+     * Time in milliseconds after which the run history is removed
+     */
+    historyRetention?: number;
+  };
+}
+
+const debug = createDebugger('strapi:cron');
+
+const DEFAULT_HISTORY_RETENTION = 30 * 24 * 60 * 60 * 1000;
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+const createCronService = ({
+  runStore,
+  logger,
+  configuration = {},
+}: CronServiceParameters = {}) => {
   let jobsSpecs: JobSpec[] = [];
   let running = false;
+  let lastPurgeAt = 0;
+
+  const purgeRuns = async () => {
+    if (!runStore || Date.now() - lastPurgeAt < PURGE_INTERVAL) {
+      return;
+    }
+
+    lastPurgeAt = Date.now();
+
+    const retention = configuration.historyRetention ?? DEFAULT_HISTORY_RETENTION;
+    await runStore.purgeRuns(new Date(Date.now() - retention));
+  };
+
+  /**
+   * Wraps a named task to record its runs. Locked tasks are only run by the instance which
+   * records the run of the tick first.
+   */
+  const withRunHistory = (
+    name: string,
+    lock: boolean,
+    fn: (...args: unknown[]) => Promise<unknown>
+  ) => {
+    return async (...args: unknown[]) => {
+      if (!runStore) {
+        return fn(...args);
+      }
+
+      // node-schedule calls the job with its fire date which is the same on every instance
+      const fireDate = args[0] instanceof Date ? args[0] : new Date();
+      const scheduledAt = new Date(Math.floor(fireDate.getTime() / 1000) * 1000);
+
+      let run: Modules.Cron.CronRun | null = null;
+
+      try {
+        run = await runStore.createRun({
+          name,
+          scheduledAt,
+          lockKey: lock ? `${name}:${scheduledAt.toISOString()}` : null,
+        });
+
+        if (!run) {
+          debug(`Skipping cron task '${name}', another instance is running it`);
+          return;
+        }
+      } catch (error) {
+        logger?.error(`Could not record the run of the cron task '${name}'`);
+        logger?.error(error);
+
+        // Without the lock, the task could run on several instances
+        if (lock) {
+          return;
+        }
+      }
+
+      try {
+        const result = await fn(...args);
+
+        if (run) {
+          await runStore.finishRun(run, { status: 'success' });
+        }
+
+        return result;
+      } catch (error) {
+        if (run) {
+          await runStore.finishRun(run, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+
+        throw error;
+      } finally {
+        await purgeRuns().catch((error) => logger?.error(error));
+      }
+    };
+  };
 
   return {
     add(tasks: Tasks = {}) {
@@ -33,6 +147,8 @@ const createCronService = () => {
         let fn: TaskFn;
         let options: Spec;
         let taskName: string | null;
+        let lock = false;
+        let history = false;
         if (isFunction(taskValue)) {
           // don't use task name if key is the rule
           taskName = null;
@@ -43,6 +159,8 @@ const createCronService = () => {
           taskName = taskExpression;
           fn = taskValue.task.bind(taskValue);
           options = taskValue.options;
+          lock = taskValue.lock ?? configuration.lock ?? false;
+          history = taskValue.history ?? configuration.history ?? false;
         } else {
           throw new Error(
             `Could not schedule a cron job for "${taskExpression}": no function found.`
@@ -51,9 +169,13 @@ const createCronService = () => {
 
         const fnWithStrapi = (...args: unknown[]) => fn({ strapi }, ...args);
 
-        // const job = new Job(null, fnWithStrapi);
-        const job = new Job(fnWithStrapi);
-        jobsSpecs.push({ job, options, name: taskName });
+        // only named tasks can be told apart across the instances and restarts
+        const job = new Job(
+          taskName && (lock || history)
+            ? withRunHistory(taskName, lock, fnWithStrapi)
+            : fnWithStrapi
+        );
+        jobsSpecs.push({ job, options, name: taskName, lock, history: lock || history });
 
         if (running) {
           job.schedule(options);
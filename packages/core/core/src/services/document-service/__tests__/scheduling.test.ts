@@ -0,0 +1,112 @@
+import { SCHEDULED_ACTION_JOB, runScheduledAction, setSchedule } from '../scheduling';
+
+const uid = 'api::article.article';
+
+const createStrapi = (schedules: any[] = []) => {
+  const query = {
+    findMany: jest.fn(async () => schedules),
+    findOne: jest.fn(async () => schedules[0] ?? null),
+    create: jest.fn(async ({ data }) => ({ id: 10, ...data })),
+    update: jest.fn(),
+    delete: jest.fn(),
+  };
+
+  const documents = { publish: jest.fn(), unpublish: jest.fn() };
+
+  return {
+    query,
+    documents,
+    strapi: {
+      db: {
+        query: jest.fn(() => query),
+        transaction: jest.fn((cb) => cb()),
+      },
+      jobs: {
+        enqueue: jest.fn(async () => ({ id: '42' })),
+        cancel: jest.fn(async () => null),
+      },
+      documents: jest.fn(() => documents),
+    },
+  };
+};
+
+const inOneHour = () => new Date(Date.now() + 60 * 60 * 1000);
+
+describe('Document scheduling', () => {
+  test('Enqueues a job at the scheduled date', async () => {
+    const { strapi, query } = createStrapi();
+    global.strapi = strapi as any;
+
+    const publishAt = inOneHour();
+    const schedule = await setSchedule(uid, 'doc', 'en', { publishAt });
+
+    expect(query.create).toHaveBeenCalledWith({
+      data: {
+        contentType: uid,
+        documentId: 'doc',
+        locale: 'en',
+        action: 'publish',
+        scheduledAt: publishAt,
+      },
+    });
+    expect(strapi.jobs.enqueue).toHaveBeenCalledWith(
+      SCHEDULED_ACTION_JOB,
+      { scheduleId: 10 },
+      { runAt: publishAt }
+    );
+    expect(query.update).toHaveBeenCalledWith({ where: { id: 10 }, data: { jobId: '42' } });
+    expect(schedule).toEqual({ documentId: 'doc', locale: 'en', publishAt, unpublishAt: null });
+  });
+
+  test('Replaces the existing schedule of an action and removes it with null', async () => {
+    const existing = { id: 1, action: 'unpublish', scheduledAt: inOneHour(), jobId: '7' };
+    const { strapi, query } = createStrapi([existing]);
+    global.strapi = strapi as any;
+
+    const schedule = await setSchedule(uid, 'doc', null, { unpublishAt: null });
+
+    expect(query.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+    expect(strapi.jobs.cancel).toHaveBeenCalledWith('7');
+    expect(query.create).not.toHaveBeenCalled();
+    expect(schedule.unpublishAt).toBeNull();
+  });
+
+  test('Rejects invalid dates', async () => {
+    const { strapi } = createStrapi();
+    global.strapi = strapi as any;
+
+    await expect(setSchedule(uid, 'doc', null, { publishAt: 'tomorrow' })).rejects.toThrow(
+      'publishAt must be a valid date'
+    );
+    await expect(setSchedule(uid, 'doc', null, { publishAt: new Date(0) })).rejects.toThrow(
+      'publishAt must be a date in the future'
+    );
+
+    const publishAt = inOneHour();
+    await expect(
+      setSchedule(uid, 'doc', null, { publishAt, unpublishAt: publishAt })
+    ).rejects.toThrow('unpublishAt must be after publishAt');
+  });
+
+  test('Runs the scheduled action and removes its schedule', async () => {
+    const { strapi, query, documents } = createStrapi([
+      { id: 1, contentType: uid, documentId: 'doc', locale: 'en', action: 'publish' },
+    ]);
+    global.strapi = strapi as any;
+
+    await runScheduledAction({ scheduleId: 1 });
+
+    expect(strapi.documents).toHaveBeenCalledWith(uid);
+    expect(documents.publish).toHaveBeenCalledWith({ documentId: 'doc', locale: 'en' });
+    expect(query.delete).toHaveBeenCalledWith({ where: { id: 1 } });
+  });
+
+  test('Ignores the jobs of removed schedules', async () => {
+    const { strapi, documents } = createStrapi();
+    global.strapi = strapi as any;
+
+    await runScheduledAction({ scheduleId: 1 });
+
+    expect(documents.publish).not.toHaveBeenCalled();
+  });
+});
@@ -8,6 +8,7 @@ import * as DP from './draft-and-publish';
 import * as i18n from './internationalization';
 import { copyNonLocalizedFields } from './internationalization';
 import * as components from './components';
+import * as scheduling from './scheduling';
 
 import { createEntriesService } from './entries';
 import { pickSelectionParams } from './params';
@@ -136,6 +137,11 @@ export const createContentTypeRepository: RepositoryFactoryMethod = (
 
     entriesToDelete.forEach(emitEvent('entry.delete'));
 
+    if (hasDraftAndPublish) {
+      const locales = new Set(entriesToDelete.map((entry: any) => entry.locale ?? null));
+      await scheduling.clearSchedules(uid, documentId, Array.from(locales));
+    }
+
     return { documentId, entries: deletedEntries };
   }
 
@@ -427,6 +433,41 @@ export const createContentTypeRepository: RepositoryFactoryMethod = (
     return { documentId, entries: draftEntries };
   }
 
+  // Schedules apply to a single locale, the default one when none is given
+  async function getScheduleLocale(params: any) {
+    const { lookup } = await async.pipe(
+      i18n.defaultLocale(contentType),
+      i18n.localeToLookup(contentType)
+    )(params);
+
+    return (lookup?.locale ?? null) as string | null;
+  }
+
+  async function getSchedule(opts = {} as any) {
+    const { documentId, ...params } = opts;
+
+    const locale = await getScheduleLocale(params);
+
+    return scheduling.getSchedule(uid, documentId, locale);
+  }
+
+  async function schedule(opts = {} as any) {
+    const { documentId, publishAt, unpublishAt, ...params } = opts;
+
+    const locale = await getScheduleLocale(params);
+
+    const draft = await strapi.db.query(uid).findOne({
+      select: ['id'],
+      where: { documentId, publishedAt: null, ...(locale ? { locale } : {}) },
+    });
+
+    if (!draft) {
+      throw new errors.NotFoundError('Document not found');
+    }
+
+    return scheduling.setSchedule(uid, documentId, locale, { publishAt, unpublishAt });
+  }
+
   async function updateComponents(entry: any, data: any) {
     return components.updateComponents(uid, entry, data);
   }
@@ -447,6 +488,8 @@ export const createContentTypeRepository: RepositoryFactoryMethod = (
     publish: hasDraftAndPublish ? wrapInTransaction(publish) : (undefined as any),
     unpublish: hasDraftAndPublish ? wrapInTransaction(unpublish) : (undefined as any),
     discardDraft: hasDraftAndPublish ? wrapInTransaction(discardDraft) : (undefined as any),
+    schedule: hasDraftAndPublish ? wrapInTransaction(schedule) : (undefined as any),
+    getSchedule: hasDraftAndPublish ? wrapInTransaction(getSchedule) : (undefined as any),
 
     updateComponents,
     omitComponentData,
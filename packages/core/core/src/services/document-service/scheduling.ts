@@ -0,0 +1,248 @@
+/**
+ * Scheduled publication and unpublication of documents.
+ *
+ * Every scheduled action of a document locale is stored in its own table and executed at its date
+ * by a job of the jobs service, so the schedules survive restarts and run once across a cluster.
+ */
+
+import { errors } from '@strapi/utils';
+import type { Model } from '@strapi/database';
+import type { UID } from '@strapi/types';
+
+type ScheduledAction = 'publish' | 'unpublish';
+
+interface ScheduleDates {
+  publishAt?: Date | string | null;
+  unpublishAt?: Date | string | null;
+}
+
+interface ScheduledActionPayload {
+  scheduleId: string | number;
+}
+
+interface DocumentSchedule {
+  id: string | number;
+  contentType: UID.ContentType;
+  documentId: string;
+  locale: string | null;
+  action: ScheduledAction;
+  scheduledAt: Date | string;
+  jobId: string | null;
+}
+
+const SCHEDULED_ACTION_JOB = 'strapi::document-scheduled-action';
+
+const ACTIONS: [ScheduledAction, keyof ScheduleDates][] = [
+  ['publish', 'publishAt'],
+  ['unpublish', 'unpublishAt'],
+];
+
+const scheduleModel: Model = {
+  uid: 'strapi::document-schedule',
+  singularName: 'strapi_document_schedules',
+  tableName: 'strapi_document_schedules',
+  attributes: {
+    id: {
+      type: 'increments',
+    },
+    contentType: {
+      type: 'string',
+    },
+    documentId: {
+      type: 'string',
+    },
+    locale: {
+      type: 'string',
+    },
+    action: {
+      type: 'enumeration',
+      enum: ['publish', 'unpublish'],
+    },
+    scheduledAt: {
+      type: 'datetime',
+    },
+    jobId: {
+      type: 'string',
+    },
+  },
+  indexes: [
+    {
+      name: 'strapi_document_schedules_document_index',
+      columns: ['content_type', 'document_id', 'locale'],
+    },
+  ],
+};
+
+const toDate = (value: Date | string, field: string) => {
+  const date = new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new errors.ValidationError(`${field} must be a valid date`);
+  }
+
+  return date;
+};
+
+const findSchedules = (uid: UID.ContentType, documentId: string, locale: string | null) => {
+  return strapi.db.query('strapi::document-schedule').findMany({
+    where: { contentType: uid, documentId, locale },
+  });
+};
+
+const removeSchedule = async (schedule: DocumentSchedule) => {
+  await strapi.db.query('strapi::document-schedule').delete({ where: { id: schedule.id } });
+
+  if (schedule.jobId) {
+    // The job may already be running, in which case it will not find its schedule anymore
+    await strapi.jobs.cancel(schedule.jobId).catch(() => null);
+  }
+};
+
+const toScheduleResult = (
+  documentId: string,
+  locale: string | null,
+  schedules: DocumentSchedule[]
+) => {
+  const dateOf = (action: ScheduledAction) => {
+    const schedule = schedules.find((schedule) => schedule.action === action);
+    return schedule ? new Date(schedule.scheduledAt) : null;
+  };
+
+  return {
+    documentId,
+    locale,
+    publishAt: dateOf('publish'),
+    unpublishAt: dateOf('unpublish'),
+  };
+};
+
+const getSchedule = async (uid: UID.ContentType, documentId: string, locale: string | null) => {
+  const schedules = await findSchedules(uid, documentId, locale);
+
+  return toScheduleResult(documentId, locale, schedules);
+};
+
+/**
+ * Replaces the scheduled actions of a document locale. An undefined date keeps the current
+ * schedule of its action and a null date removes it.
+ */
+const setSchedule = async (
+  uid: UID.ContentType,
+  documentId: string,
+  locale: string | null,
+  dates: ScheduleDates
+) => {
+  const schedules = await findSchedules(uid, documentId, locale);
+  const { publishAt, unpublishAt } = toScheduleResult(documentId, locale, schedules);
+
+  const next: Record<keyof ScheduleDates, Date | null> = { publishAt, unpublishAt };
+
+  for (const [, field] of ACTIONS) {
+    const value = dates[field];
+
+    if (value === null) {
+      next[field] = null;
+    } else if (value !== undefined) {
+      const date = toDate(value, field);
+
+      if (date.getTime() <= Date.now()) {
+        throw new errors.ValidationError(`${field} must be a date in the future`);
+      }
+
+      next[field] = date;
+    }
+  }
+
+  if (next.publishAt && next.unpublishAt && next.unpublishAt <= next.publishAt) {
+    throw new errors.ValidationError('unpublishAt must be after publishAt');
+  }
+
+  const changedActions = ACTIONS.filter(([, field]) => dates[field] !== undefined);
+
+  for (const [action, field] of changedActions) {
+    const existing = schedules.find((schedule) => schedule.action === action);
+
+    if (existing) {
+      await removeSchedule(existing);
+    }
+
+    const scheduledAt = next[field];
+
+    if (scheduledAt) {
+      const schedule = await strapi.db.query('strapi::document-schedule').create({
+        data: { contentType: uid, documentId, locale, action, scheduledAt },
+      });
+
+      const job = await strapi.jobs.enqueue<ScheduledActionPayload>(
+        SCHEDULED_ACTION_JOB,
+        { scheduleId: schedule.id },
+        { runAt: scheduledAt }
+      );
+
+      await strapi.db
+        .query('strapi::document-schedule')
+        .update({ where: { id: schedule.id }, data: { jobId: job.id } });
+    }
+  }
+
+  return { documentId, locale, ...next };
+};
+
+/**
+ * Removes the scheduled actions of the given locales of a document
+ */
+const clearSchedules = async (
+  uid: UID.ContentType,
+  documentId: string,
+  locales: (string | null)[]
+) => {
+  if (locales.length === 0) {
+    return;
+  }
+
+  const schedules = await strapi.db.query('strapi::document-schedule').findMany({
+    where: { contentType: uid, documentId, $or: locales.map((locale) => ({ locale })) },
+  });
+
+  for (const schedule of schedules) {
+    await removeSchedule(schedule);
+  }
+};
+
+/**
+ * Job handler executing a scheduled action, the schedule is removed once the action succeeded
+ */
+const runScheduledAction = async ({ scheduleId }: ScheduledActionPayload) => {
+  const schedule: DocumentSchedule | null = await strapi.db
+    .query('strapi::document-schedule')
+    .findOne({ where: { id: scheduleId } });
+
+  // The schedule was changed or removed after the job was enqueued
+  if (!schedule) {
+    return;
+  }
+
+  const { contentType, documentId, locale, action } = schedule;
+
+  await strapi.db.transaction(async () => {
+    const documents = strapi.documents(contentType);
+    const params = { documentId, locale: locale ?? undefined };
+
+    if (action === 'publish') {
+      await documents.publish(params);
+    } else {
+      await documents.unpublish(params);
+    }
+
+    await strapi.db.query('strapi::document-schedule').delete({ where: { id: schedule.id } });
+  });
+};
+
+export {
+  SCHEDULED_ACTION_JOB,
+  scheduleModel,
+  getSchedule,
+  setSchedule,
+  clearSchedules,
+  runScheduledAction,
+};
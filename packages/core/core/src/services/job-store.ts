@@ -0,0 +1,285 @@
+/**
+ * Job store persists the background jobs so they survive restarts and can be shared between instances
+ */
+
+import type { Model, Database } from '@strapi/database';
+import type { Modules } from '@strapi/types';
+
+const jobModel: Model = {
+  uid: 'strapi::job',
+  singularName: 'strapi_jobs',
+  tableName: 'strapi_jobs',
+  attributes: {
+    id: {
+      type: 'increments',
+    },
+    name: {
+      type: 'string',
+    },
+    payload: {
+      type: 'json',
+    },
+    status: {
+      type: 'enumeration',
+      enum: ['pending', 'running', 'completed', 'failed', 'cancelled'],
+    },
+    priority: {
+      type: 'integer',
+    },
+    attempts: {
+      type: 'integer',
+    },
+    maxAttempts: {
+      type: 'integer',
+    },
+    runAt: {
+      type: 'datetime',
+    },
+    lockedUntil: {
+      type: 'datetime',
+    },
+    lastError: {
+      type: 'text',
+    },
+    result: {
+      type: 'json',
+    },
+    createdAt: {
+      type: 'datetime',
+    },
+    updatedAt: {
+      type: 'datetime',
+    },
+    completedAt: {
+      type: 'datetime',
+    },
+  },
+  indexes: [
+    {
+      name: 'strapi_jobs_status_run_at_index',
+      columns: ['status', 'run_at'],
+    },
+  ],
+};
+
+type Job<TPayload = unknown> = Modules.Jobs.Job<TPayload>;
+type JobStore = Modules.Jobs.JobStore;
+
+const PURGE_BATCH_SIZE = 500;
+
+const toId = (id: string | number) => (typeof id === 'number' ? id.toString() : id);
+
+const fromDBObject = <TPayload = unknown>(row: any): Job<TPayload> => {
+  return {
+    id: toId(row.id),
+    name: row.name,
+    payload: row.payload ?? null,
+    status: row.status,
+    priority: row.priority ?? 0,
+    attempts: row.attempts ?? 0,
+    maxAttempts: row.maxAttempts ?? 1,
+    runAt: row.runAt,
+    lockedUntil: row.lockedUntil ?? null,
+    lastError: row.lastError ?? null,
+    result: row.result ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+    completedAt: row.completedAt ?? null,
+  };
+};
+
+const createJobStore = ({ db }: { db: Database }): JobStore => {
+  const findJob = async (id: string) => {
+    const row = await db.query('strapi::job').findOne({ where: { id } });
+
+    return row ? fromDBObject(row) : null;
+  };
+
+  return {
+    async createJob({ name, payload, priority, maxAttempts, runAt }) {
+      const now = new Date();
+
+      const row = await db.query('strapi::job').create({
+        data: {
+          name,
+          payload,
+          status: 'pending',
+          priority,
+          attempts: 0,
+          maxAttempts,
+          runAt,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      return fromDBObject(row);
+    },
+
+    findJob,
+
+    async findJobs({ name, status, page = 1, pageSize = 10 } = {}) {
+      const where: Record<string, unknown> = {};
+
+      if (name) {
+        where.name = name;
+      }
+
+      if (status) {
+        where.status = Array.isArray(status) ? { $in: status } : status;
+      }
+
+      const { results, pagination } = await db.query('strapi::job').findPage({
+        where,
+        orderBy: { createdAt: 'desc' },
+        page,
+        pageSize,
+      });
+
+      return { results: results.map(fromDBObject), pagination };
+    },
+
+    /**
+     * Due jobs are the pending jobs scheduled in the past and the running jobs whose lock expired
+     */
+    async findDueJobs(names, limit) {
+      if (names.length === 0) {
+        return [];
+      }
+
+      const now = new Date();
+
+      const rows = await db.query('strapi::job').findMany({
+        where: {
+          name: { $in: names },
+          $or: [
+            { status: 'pending', runAt: { $lte: now } },
+            { status: 'running', lockedUntil: { $lt: now } },
+          ],
+        },
+        orderBy: [{ priority: 'desc' }, { runAt: 'asc' }],
+        limit,
+      });
+
+      return rows.map(fromDBObject);
+    },
+
+    /**
+     * Optimistically locks a job by bumping its attempts, only one worker can succeed.
+     * A job interrupted on its last attempt is failed instead of being run again.
+     */
+    async claimJob(job, lockDuration) {
+      const now = new Date();
+      const where = { id: job.id, status: job.status, attempts: job.attempts };
+
+      if (job.attempts >= job.maxAttempts) {
+        await db.query('strapi::job').updateMany({
+          where,
+          data: {
+            status: 'failed',
+            lockedUntil: null,
+            lastError: job.lastError ?? 'The job was interrupted on its last attempt',
+            completedAt: now,
+            updatedAt: now,
+          },
+        });
+
+        return null;
+      }
+
+      const attempts = job.attempts + 1;
+      const lockedUntil = new Date(now.getTime() + lockDuration);
+
+      const { count } = await db.query('strapi::job').updateMany({
+        where,
+        data: { status: 'running', attempts, lockedUntil, updatedAt: now },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return { ...job, status: 'running', attempts, lockedUntil, updatedAt: now };
+    },
+
+    async extendLock(job, lockDuration) {
+      const now = new Date();
+
+      await db.query('strapi::job').updateMany({
+        where: { id: job.id, status: 'running', attempts: job.attempts },
+        data: { lockedUntil: new Date(now.getTime() + lockDuration), updatedAt: now },
+      });
+    },
+
+    /**
+     * Only the worker holding the job can complete or fail it, a worker whose lock expired
+     * must not overwrite the outcome of the worker that claimed the job again
+     */
+    async completeJob(job, result) {
+      const now = new Date();
+
+      const { count } = await db.query('strapi::job').updateMany({
+        where: { id: job.id, status: 'running', attempts: job.attempts },
+        data: {
+          status: 'completed',
+          result: result ?? null,
+          lockedUntil: null,
+          lastError: null,
+          completedAt: now,
+          updatedAt: now,
+        },
+      });
+
+      return count > 0 ? findJob(job.id) : null;
+    },
+
+    async failJob(job, error, retryAt) {
+      const now = new Date();
+
+      const { count } = await db.query('strapi::job').updateMany({
+        where: { id: job.id, status: 'running', attempts: job.attempts },
+        data: {
+          status: retryAt ? 'pending' : 'failed',
+          runAt: retryAt ?? job.runAt,
+          lockedUntil: null,
+          lastError: error,
+          completedAt: retryAt ? null : now,
+          updatedAt: now,
+        },
+      });
+
+      return count > 0 ? findJob(job.id) : null;
+    },
+
+    async updateJob(id, data) {
+      const row = await db.query('strapi::job').update({
+        where: { id },
+        data: { ...data, updatedAt: new Date() },
+      });
+
+      return row ? fromDBObject(row) : null;
+    },
+
+    async purgeJobs(olderThan) {
+      const rows = await db.query('strapi::job').findMany({
+        select: ['id'],
+        where: {
+          status: { $in: ['completed', 'failed', 'cancelled'] },
+          updatedAt: { $lt: olderThan },
+        },
+        limit: PURGE_BATCH_SIZE,
+      });
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      await db.query('strapi::job').deleteMany({
+        where: { id: { $in: rows.map((row) => row.id) } },
+      });
+    },
+  };
+};
+
+export { jobModel, createJobStore };
+export type { JobStore };
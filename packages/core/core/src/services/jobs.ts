@@ -0,0 +1,359 @@
+/**
+ * The jobs service runs named background jobs persisted in the database.
+ *
+ * Every instance polls the jobs table for the due jobs it has a handler for and claims them with an
+ * optimistic lock, so the jobs survive restarts and are shared between the instances of a cluster.
+ */
+
+import createDebugger from 'debug';
+import _ from 'lodash';
+import { errors } from '@strapi/utils';
+import type { Logger } from '@strapi/logger';
+import type { Modules } from '@strapi/types';
+
+type Job = Modules.Jobs.Job;
+type JobDefinition = Modules.Jobs.JobDefinition;
+type JobStore = Modules.Jobs.JobStore;
+type JobsService = Modules.Jobs.JobsService;
+
+const { ApplicationError } = errors;
+
+interface Config {
+  /**
+   * Maximum number of jobs running at the same time in this process
+   */
+  concurrency: number;
+  /**
+   * Interval in milliseconds at which due jobs are looked up
+   */
+  pollInterval: number;
+  /**
+   * Time in milliseconds a worker holds a job for, the lock is extended while the job runs
+   */
+  lockDuration: number;
+  /**
+   * Time in milliseconds after which finished jobs are removed
+   */
+  retention: number;
+  /**
+   * Time in milliseconds to wait for the running jobs to finish when stopping
+   */
+  shutdownTimeout: number;
+  retry: {
+    maxAttempts: number;
+    backoff: {
+      type: 'fixed' | 'exponential';
+      delay: number;
+      maxDelay: number;
+    };
+  };
+}
+
+interface ConstructorParameters {
+  store: JobStore;
+  logger: Logger;
+  configuration?: Record<string, unknown>;
+}
+
+const debug = createDebugger('strapi:jobs');
+
+const PURGE_INTERVAL = 60 * 60 * 1000;
+
+const defaultConfiguration: Config = {
+  concurrency: 5,
+  pollInterval: 5 * 1000,
+  lockDuration: 60 * 1000,
+  retention: 7 * 24 * 60 * 60 * 1000,
+  shutdownTimeout: 10 * 1000,
+  retry: {
+    maxAttempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 1000,
+      maxDelay: 60 * 60 * 1000,
+    },
+  },
+};
+
+const createJobsService = ({
+  store,
+  logger,
+  configuration = {},
+}: ConstructorParameters): JobsService => {
+  const config: Config = _.merge({}, defaultConfiguration, configuration);
+
+  const definitions = new Map<string, JobDefinition>();
+  const runningCounts = new Map<string, number>();
+  const activeJobs = new Set<Promise<void>>();
+
+  let pollTimer: NodeJS.Timeout | null = null;
+  let isPolling = false;
+  let lastPurgeAt = 0;
+
+  const getRetryDelay = (definition: JobDefinition, attempts: number) => {
+    const { type, delay, maxDelay } = _.merge({}, config.retry.backoff, definition.backoff);
+
+    if (type === 'fixed') {
+      return delay;
+    }
+
+    return Math.min(delay * 2 ** (attempts - 1), maxDelay);
+  };
+
+  const hasCapacity = (name: string) => {
+    const definition = definitions.get(name);
+    const runningCount = runningCounts.get(name) ?? 0;
+
+    return (
+      definition !== undefined &&
+      activeJobs.size < config.concurrency &&
+      (definition.concurrency === undefined || runningCount < definition.concurrency)
+    );
+  };
+
+  const execute = async (job: Job, definition: JobDefinition) => {
+    debug(`Running job '${job.name}' (${job.id}), attempt ${job.attempts}/${job.maxAttempts}`);
+
+    const lockTimer = setInterval(() => {
+      store.extendLock(job, config.lockDuration).catch((error) => logger.error(error));
+    }, config.lockDuration / 2);
+
+    lockTimer.unref();
+
+    let result: unknown;
+
+    try {
+      result = await definition.handler(job.payload, job);
+    } catch (error) {
+      clearInterval(lockTimer);
+
+      const message = error instanceof Error ? error.message : String(error);
+      const retryAt =
+        job.attempts < job.maxAttempts
+          ? new Date(Date.now() + getRetryDelay(definition, job.attempts))
+          : null;
+
+      logger.warn(
+        `Job '${job.name}' (${job.id}) failed on attempt ${job.attempts}/${job.maxAttempts}: ${message}`
+      );
+
+      await store.failJob(job, message, retryAt);
+
+      return;
+    }
+
+    clearInterval(lockTimer);
+    await store.completeJob(job, result);
+  };
+
+  const run = (job: Job) => {
+    const definition = definitions.get(job.name)!;
+
+    runningCounts.set(job.name, (runningCounts.get(job.name) ?? 0) + 1);
+
+    const promise = execute(job, definition)
+      .catch((error) => {
+        logger.error(`Error running job '${job.name}' (${job.id})`);
+        logger.error(error);
+      })
+      .finally(() => {
+        runningCounts.set(job.name, (runningCounts.get(job.name) ?? 1) - 1);
+        activeJobs.delete(promise);
+
+        // Pick up the next due job without waiting for the next poll
+        if (pollTimer) {
+          jobs.processDueJobs();
+        }
+      });
+
+    activeJobs.add(promise);
+  };
+
+  const purge = async () => {
+    if (Date.now() - lastPurgeAt < PURGE_INTERVAL) {
+      return;
+    }
+
+    lastPurgeAt = Date.now();
+    await store.purgeJobs(new Date(Date.now() - config.retention));
+  };
+
+  const jobs: JobsService = {
+    register(name, definition) {
+      debug(`Registering job '${name}'`);
+
+      if (definitions.has(name)) {
+        throw new Error(`A job named '${name}' is already registered`);
+      }
+
+      definitions.set(name, _.isFunction(definition) ? { handler: definition } : definition);
+
+      return jobs;
+    },
+
+    unregister(name) {
+      definitions.delete(name);
+
+      return jobs;
+    },
+
+    has(name) {
+      return definitions.has(name);
+    },
+
+    async enqueue(name, payload, options = {}) {
+      const definition = definitions.get(name);
+
+      if (!definition) {
+        throw new ApplicationError(`No job named '${name}' is registered`);
+      }
+
+      const { delay = 0, runAt, priority = 0, maxAttempts } = options;
+
+      const job = await store.createJob({
+        name,
+        payload: payload ?? null,
+        priority,
+        maxAttempts: maxAttempts ?? definition.maxAttempts ?? config.retry.maxAttempts,
+        runAt: runAt ?? new Date(Date.now() + delay),
+      });
+
+      debug(`Enqueued job '${name}' (${job.id})`);
+
+      // The job is left to the next poll rather than run right away: enqueue can be called within a
+      // transaction that the job would otherwise inherit before it is committed
+
+      return job;
+    },
+
+    findJob(id) {
+      return store.findJob(id);
+    },
+
+    findJobs(params) {
+      return store.findJobs(params);
+    },
+
+    async cancel(id) {
+      const job = await store.findJob(id);
+
+      if (!job) {
+        return null;
+      }
+
+      if (job.status !== 'pending') {
+        throw new ApplicationError('Only pending jobs can be cancelled');
+      }
+
+      return store.updateJob(id, { status: 'cancelled' });
+    },
+
+    async retry(id) {
+      const job = await store.findJob(id);
+
+      if (!job) {
+        return null;
+      }
+
+      if (job.status !== 'failed' && job.status !== 'cancelled') {
+        throw new ApplicationError('Only failed or cancelled jobs can be retried');
+      }
+
+      const retriedJob = await store.updateJob(id, {
+        status: 'pending',
+        attempts: 0,
+        runAt: new Date(),
+      });
+
+      if (pollTimer) {
+        jobs.processDueJobs();
+      }
+
+      return retriedJob;
+    },
+
+    async processDueJobs() {
+      if (isPolling) {
+        return;
+      }
+
+      isPolling = true;
+
+      try {
+        const names = Array.from(definitions.keys()).filter(hasCapacity);
+        const available = config.concurrency - activeJobs.size;
+
+        if (names.length > 0 && available > 0) {
+          const dueJobs = await store.findDueJobs(names, available);
+
+          for (const dueJob of dueJobs) {
+            if (hasCapacity(dueJob.name)) {
+              const claimedJob = await store.claimJob(dueJob, config.lockDuration);
+
+              // Another worker already picked up this job
+              if (claimedJob) {
+                run(claimedJob);
+              }
+            }
+          }
+        }
+
+        await purge();
+      } catch (error) {
+        logger.error('Error processing due jobs');
+        logger.error(error);
+      } finally {
+        isPolling = false;
+      }
+    },
+
+    start() {
+      if (pollTimer) {
+        return jobs;
+      }
+
+      debug('Starting jobs polling');
+
+      pollTimer = setInterval(() => {
+        jobs.processDueJobs();
+      }, config.pollInterval);
+
+      pollTimer.unref();
+
+      jobs.processDueJobs();
+
+      return jobs;
+    },
+
+    /**
+     * Stops polling and waits for the running jobs to finish. Jobs still running after the shutdown
+     * timeout keep their lock until it expires and are then picked up again.
+     */
+    async stop() {
+      if (pollTimer) {
+        debug('Stopping jobs polling');
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+
+      if (activeJobs.size === 0) {
+        return;
+      }
+
+      let timeout: NodeJS.Timeout | undefined;
+
+      await Promise.race([
+        Promise.allSettled(activeJobs),
+        new Promise((resolve) => {
+          timeout = setTimeout(resolve, config.shutdownTimeout);
+        }),
+      ]);
+
+      clearTimeout(timeout);
+    },
+  };
+
+  return jobs;
+};
+
+export default createJobsService;
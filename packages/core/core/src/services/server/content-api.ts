@@ -7,7 +7,8 @@ const createContentAPI = (strapi: Core.Strapi) => {
     type: 'content-api',
   };
 
-  return createAPI(strapi, opts);
+  // Content API requests can read from the database replicas, until they write to the primary
+  return createAPI(strapi, opts).use((ctx, next) => strapi.db.withReplicas(() => next()));
 };
 
 export { createContentAPI };
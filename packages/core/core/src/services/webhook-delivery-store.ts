@@ -0,0 +1,268 @@
+/**
+ * Webhook delivery store persists every webhook delivery and each attempt made to send it
+ */
+
+import type { Model, Database } from '@strapi/database';
+import type { Modules } from '@strapi/types';
+
+const webhookDeliveryModel: Model = {
+  uid: 'strapi::webhook-delivery',
+  singularName: 'strapi_webhook_deliveries',
+  tableName: 'strapi_webhook_deliveries',
+  attributes: {
+    id: {
+      type: 'increments',
+    },
+    webhookId: {
+      type: 'string',
+    },
+    event: {
+      type: 'string',
+    },
+    payload: {
+      type: 'json',
+    },
+    status: {
+      type: 'enumeration',
+      enum: ['pending', 'success', 'failed'],
+    },
+    attemptCount: {
+      type: 'integer',
+    },
+    lastStatusCode: {
+      type: 'integer',
+    },
+    nextAttemptAt: {
+      type: 'datetime',
+    },
+    createdAt: {
+      type: 'datetime',
+    },
+    updatedAt: {
+      type: 'datetime',
+    },
+  },
+};
+
+const webhookDeliveryAttemptModel: Model = {
+  uid: 'strapi::webhook-delivery-attempt',
+  singularName: 'strapi_webhook_delivery_attempts',
+  tableName: 'strapi_webhook_delivery_attempts',
+  attributes: {
+    id: {
+      type: 'increments',
+    },
+    deliveryId: {
+      type: 'integer',
+    },
+    attempt: {
+      type: 'integer',
+    },
+    statusCode: {
+      type: 'integer',
+    },
+    duration: {
+      type: 'integer',
+    },
+    response: {
+      type: 'text',
+    },
+    createdAt: {
+      type: 'datetime',
+    },
+  },
+};
+
+type WebhookDelivery = Modules.WebhookDeliveryStore.WebhookDelivery;
+type WebhookDeliveryAttempt = Modules.WebhookDeliveryStore.WebhookDeliveryAttempt;
+type WebhookDeliveryStore = Modules.WebhookDeliveryStore.WebhookDeliveryStore;
+
+const PURGE_BATCH_SIZE = 500;
+
+const toId = (id: string | number) => (typeof id === 'number' ? id.toString() : id);
+
+const fromDBObject = (row: any): WebhookDelivery => {
+  return {
+    id: toId(row.id),
+    webhookId: row.webhookId,
+    event: row.event,
+    payload: row.payload,
+    status: row.status,
+    attemptCount: row.attemptCount ?? 0,
+    lastStatusCode: row.lastStatusCode ?? null,
+    nextAttemptAt: row.nextAttemptAt ?? null,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+};
+
+const attemptFromDBObject = (row: any): WebhookDeliveryAttempt => {
+  return {
+    id: toId(row.id),
+    deliveryId: toId(row.deliveryId),
+    attempt: row.attempt,
+    statusCode: row.statusCode,
+    duration: row.duration,
+    response: row.response ?? null,
+    createdAt: row.createdAt,
+  };
+};
+
+const createWebhookDeliveryStore = ({ db }: { db: Database }): WebhookDeliveryStore => {
+  const findAttempts = async (deliveryIds: string[]) => {
+    if (deliveryIds.length === 0) {
+      return [];
+    }
+
+    const rows = await db.query('strapi::webhook-delivery-attempt').findMany({
+      where: { deliveryId: { $in: deliveryIds.map(Number) } },
+      orderBy: { attempt: 'asc' },
+    });
+
+    return rows.map(attemptFromDBObject);
+  };
+
+  const withAttempts = async (deliveries: WebhookDelivery[]) => {
+    const attempts = await findAttempts(deliveries.map((delivery) => delivery.id));
+
+    return deliveries.map((delivery) => ({
+      ...delivery,
+      attempts: attempts.filter((attempt) => attempt.deliveryId === delivery.id),
+    }));
+  };
+
+  return {
+    async createDelivery({ webhookId, event, payload }) {
+      const now = new Date();
+
+      const row = await db.query('strapi::webhook-delivery').create({
+        data: {
+          webhookId,
+          event,
+          payload,
+          status: 'pending',
+          attemptCount: 0,
+          nextAttemptAt: now,
+          createdAt: now,
+          updatedAt: now,
+        },
+      });
+
+      return fromDBObject(row);
+    },
+
+    async findDelivery(id) {
+      const row = await db.query('strapi::webhook-delivery').findOne({ where: { id } });
+
+      if (!row) {
+        return null;
+      }
+
+      const [delivery] = await withAttempts([fromDBObject(row)]);
+      return delivery;
+    },
+
+    async findDeliveries(webhookId, { page = 1, pageSize = 10 } = {}) {
+      const { results, pagination } = await db.query('strapi::webhook-delivery').findPage({
+        where: { webhookId },
+        orderBy: { createdAt: 'desc' },
+        page,
+        pageSize,
+      });
+
+      return {
+        results: await withAttempts(results.map(fromDBObject)),
+        pagination,
+      };
+    },
+
+    async findDueDeliveries(limit) {
+      const rows = await db.query('strapi::webhook-delivery').findMany({
+        where: { status: 'pending', nextAttemptAt: { $lte: new Date() } },
+        orderBy: { nextAttemptAt: 'asc' },
+        limit,
+      });
+
+      return rows.map(fromDBObject);
+    },
+
+    /**
+     * Optimistically locks a delivery by bumping its attempt count. The next attempt date is pushed
+     * back by the lease duration so that a delivery interrupted by a crash is retried later on.
+     */
+    async claimDelivery(delivery, leaseDuration) {
+      const attemptCount = delivery.attemptCount + 1;
+      const nextAttemptAt = new Date(Date.now() + leaseDuration);
+
+      const { count } = await db.query('strapi::webhook-delivery').updateMany({
+        where: { id: delivery.id, status: 'pending', attemptCount: delivery.attemptCount },
+        data: { attemptCount, nextAttemptAt, updatedAt: new Date() },
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      return { ...delivery, attemptCount, nextAttemptAt };
+    },
+
+    async recordAttempt(delivery, { statusCode, duration, response }, { status, nextAttemptAt }) {
+      await db.query('strapi::webhook-delivery-attempt').create({
+        data: {
+          deliveryId: Number(delivery.id),
+          attempt: delivery.attemptCount,
+          statusCode,
+          duration,
+          response,
+          createdAt: new Date(),
+        },
+      });
+
+      const row = await db.query('strapi::webhook-delivery').update({
+        where: { id: delivery.id },
+        data: { status, nextAttemptAt, lastStatusCode: statusCode, updatedAt: new Date() },
+      });
+
+      return row ? fromDBObject(row) : null;
+    },
+
+    async deleteWebhookDeliveries(webhookId) {
+      const rows = await db
+        .query('strapi::webhook-delivery')
+        .findMany({ select: ['id'], where: { webhookId } });
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      const ids = rows.map((row) => row.id);
+
+      await db.query('strapi::webhook-delivery-attempt').deleteMany({
+        where: { deliveryId: { $in: ids } },
+      });
+      await db.query('strapi::webhook-delivery').deleteMany({ where: { id: { $in: ids } } });
+    },
+
+    async purgeDeliveries(olderThan) {
+      const rows = await db.query('strapi::webhook-delivery').findMany({
+        select: ['id'],
+        where: { status: { $ne: 'pending' }, createdAt: { $lt: olderThan } },
+        limit: PURGE_BATCH_SIZE,
+      });
+
+      if (rows.length === 0) {
+        return;
+      }
+
+      const ids = rows.map((row) => row.id);
+
+      await db.query('strapi::webhook-delivery-attempt').deleteMany({
+        where: { deliveryId: { $in: ids } },
+      });
+      await db.query('strapi::webhook-delivery').deleteMany({ where: { id: { $in: ids } } });
+    },
+  };
+};
+
+export { webhookDeliveryModel, webhookDeliveryAttemptModel, createWebhookDeliveryStore };
+export type { WebhookDeliveryStore };
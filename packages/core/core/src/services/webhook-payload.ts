@@ -0,0 +1,88 @@
+/**
+ * Evaluates the filters of a webhook and renders its body template against an event payload
+ */
+import jsonLogic from 'json-logic-js';
+import { get, isEmpty, isNil, isPlainObject, mapValues } from 'lodash/fp';
+import type { Modules } from '@strapi/types';
+
+type WebhookFilters = Modules.WebhookStore.WebhookFilters;
+type Payload = Record<string, unknown>;
+
+const PLACEHOLDER_REGEX = /\{\{\s*([\w.[\]-]+)\s*\}\}/g;
+const EXACT_PLACEHOLDER_REGEX = /^\{\{\s*([\w.[\]-]+)\s*\}\}$/;
+
+/**
+ * Content type and locale filters only match events carrying an entry of that content type or locale
+ */
+const matchesFilters = (filters: WebhookFilters | null | undefined, payload: Payload) => {
+  if (!filters) {
+    return true;
+  }
+
+  const { uids, locales, condition } = filters;
+
+  if (!isEmpty(uids) && !uids!.includes(payload.uid as string)) {
+    return false;
+  }
+
+  if (!isEmpty(locales) && !locales!.includes(get('entry.locale', payload) as string)) {
+    return false;
+  }
+
+  if (condition && !isEmpty(condition)) {
+    return Boolean(jsonLogic.apply(condition as jsonLogic.RulesLogic, payload));
+  }
+
+  return true;
+};
+
+const stringify = (value: unknown) => {
+  if (isNil(value)) {
+    return '';
+  }
+
+  if (typeof value === 'object' && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+
+  return value instanceof Date ? value.toISOString() : String(value);
+};
+
+/**
+ * A string made of a single placeholder is replaced by the raw value so objects, arrays and numbers
+ * keep their type. Placeholders within a longer string are interpolated as text.
+ */
+const renderTemplate = (template: unknown, payload: Payload): unknown => {
+  if (typeof template === 'string') {
+    const exactMatch = template.match(EXACT_PLACEHOLDER_REGEX);
+
+    if (exactMatch) {
+      return get(exactMatch[1], payload) ?? null;
+    }
+
+    return template.replace(PLACEHOLDER_REGEX, (_, path: string) => stringify(get(path, payload)));
+  }
+
+  if (Array.isArray(template)) {
+    return template.map((value) => renderTemplate(value, payload));
+  }
+
+  if (isPlainObject(template)) {
+    return mapValues((value: unknown) => renderTemplate(value, payload), template as object);
+  }
+
+  return template;
+};
+
+const buildPayload = (
+  { template }: Pick<Modules.WebhookStore.Webhook, 'template'>,
+  payload: Payload
+): Payload => {
+  if (!template || isEmpty(template)) {
+    return payload;
+  }
+
+  return renderTemplate(template, payload) as Payload;
+};
+
+export { matchesFilters, renderTemplate, buildPayload };
@@ -8,13 +8,43 @@ import type { Logger } from '@strapi/logger';
 
 import type { Modules } from '@strapi/types';
 import WorkerQueue from './worker-queue';
+import { SIGNATURE_HEADER, createSignatureHeader } from './webhook-signature';
+import { buildPayload, matchesFilters } from './webhook-payload';
 import type { EventHub } from './event-hub';
 import type { Fetch } from '../utils/fetch';
 
 type Webhook = Modules.WebhookStore.Webhook;
+type WebhookDelivery = Modules.WebhookDeliveryStore.WebhookDelivery;
+type WebhookDeliveryStore = Modules.WebhookDeliveryStore.WebhookDeliveryStore;
 
 interface Config {
   defaultHeaders: Record<string, string>;
+  /**
+   * Time in milliseconds after which a request to a webhook is aborted
+   */
+  timeout: number;
+  retry: {
+    /**
+     * Number of attempts after which a delivery is marked as failed
+     */
+    maxAttempts: number;
+    /**
+     * Delay in milliseconds before the first retry, doubled after every failed attempt
+     */
+    initialDelay: number;
+    maxDelay: number;
+  };
+  deliveries: {
+    /**
+     * Interval in milliseconds at which pending deliveries are looked up
+     */
+    pollInterval: number;
+    batchSize: number;
+    /**
+     * Time in milliseconds after which finished deliveries are removed from the delivery log
+     */
+    retention: number;
+  };
 }
 
 interface ConstructorParameters {
@@ -22,6 +52,7 @@ interface ConstructorParameters {
   logger: Logger;
   configuration?: Record<string, unknown>;
   fetch: Fetch;
+  deliveryStore: WebhookDeliveryStore;
 }
 
 interface Event {
@@ -29,12 +60,27 @@ interface Event {
   info: Record<string, unknown>;
 }
 
+type Task = { type: 'event'; event: Event } | { type: 'delivery'; delivery: WebhookDelivery };
+
 type Listener = (info: Record<string, unknown>) => Promise<void>;
 
 const debug = createdDebugger('strapi:webhook');
 
+const RESPONSE_EXCERPT_LENGTH = 1000;
+
 const defaultConfiguration: Config = {
   defaultHeaders: {},
+  timeout: 10000,
+  retry: {
+    maxAttempts: 5,
+    initialDelay: 30 * 1000,
+    maxDelay: 60 * 60 * 1000,
+  },
+  deliveries: {
+    pollInterval: 10 * 1000,
+    batchSize: 50,
+    retention: 30 * 24 * 60 * 60 * 1000,
+  },
 };
 
 class WebhookRunner {
@@ -48,15 +94,30 @@ class WebhookRunner {
 
   private listeners: Map<string, Listener> = new Map();
 
-  private queue: WorkerQueue<Event, void>;
+  private queue: WorkerQueue<Task, void>;
 
   private fetch: Fetch;
 
-  constructor({ eventHub, logger, configuration = {}, fetch }: ConstructorParameters) {
+  private deliveryStore: WebhookDeliveryStore;
+
+  private pendingDeliveries: Set<string> = new Set();
+
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  private isPolling = false;
+
+  constructor({
+    eventHub,
+    logger,
+    configuration = {},
+    fetch,
+    deliveryStore,
+  }: ConstructorParameters) {
     debug('Initialized webhook runner');
     this.eventHub = eventHub;
     this.logger = logger;
     this.fetch = fetch;
+    this.deliveryStore = deliveryStore;
 
     if (typeof configuration !== 'object') {
       throw new Error(
@@ -64,11 +125,11 @@ class WebhookRunner {
       );
     }
 
-    this.config = _.merge(defaultConfiguration, configuration);
+    this.config = _.merge({}, defaultConfiguration, configuration);
 
     this.queue = new WorkerQueue({ logger, concurrency: 5 });
 
-    this.queue.subscribe(this.executeListener.bind(this));
+    this.queue.subscribe(this.executeTask.bind(this));
   }
 
   deleteListener(event: string) {
@@ -91,43 +152,199 @@ class WebhookRunner {
     }
 
     const listen = async (info: Event['info']) => {
-      this.queue.enqueue({ event, info });
+      this.queue.enqueue({ type: 'event', event: { event, info } });
     };
 
     this.listeners.set(event, listen);
     this.eventHub.on(event, listen);
   }
 
+  async executeTask(task: Task) {
+    if (task.type === 'delivery') {
+      try {
+        await this.deliver(task.delivery);
+      } finally {
+        this.pendingDeliveries.delete(task.delivery.id);
+      }
+
+      return;
+    }
+
+    await this.executeListener(task.event);
+  }
+
   async executeListener({ event, info }: Event) {
     debug(`Executing webhook for event '${event}'`);
     const webhooks = this.webhooksMap.get(event) || [];
-    const activeWebhooks = webhooks.filter((webhook) => webhook.isEnabled === true);
+    const payload = {
+      event,
+      createdAt: new Date(),
+      ...info,
+    };
+
+    const activeWebhooks = webhooks.filter((webhook) => {
+      return webhook.isEnabled === true && matchesFilters(webhook.filters, payload);
+    });
 
     for (const webhook of activeWebhooks) {
-      await this.run(webhook, event, info).catch((error: unknown) => {
+      try {
+        const delivery = await this.deliveryStore.createDelivery({
+          webhookId: webhook.id,
+          event,
+          payload: buildPayload(webhook, payload),
+        });
+
+        await this.deliver(delivery);
+      } catch (error) {
         this.logger.error('Error running webhook');
         this.logger.error(error);
-      });
+      }
     }
   }
 
-  run(webhook: Webhook, event: string, info = {}) {
-    const { url, headers } = webhook;
+  /**
+   * Makes a single attempt at delivering a persisted delivery and schedules the next attempt
+   * with an exponential backoff when it fails
+   */
+  async deliver(delivery: WebhookDelivery) {
+    debug(`Delivering '${delivery.event}' to webhook '${delivery.webhookId}'`);
+
+    const claimedDelivery = await this.deliveryStore.claimDelivery(
+      delivery,
+      this.config.timeout * 2
+    );
+
+    // Another worker already picked up this delivery
+    if (!claimedDelivery) {
+      return null;
+    }
 
-    return this.fetch(url, {
-      method: 'post',
-      body: JSON.stringify({
+    const webhook = this.findWebhook(claimedDelivery.webhookId);
+
+    if (!webhook || !webhook.isEnabled) {
+      return this.deliveryStore.recordAttempt(
+        claimedDelivery,
+        { statusCode: 0, duration: 0, response: 'Webhook not found or disabled' },
+        { status: 'failed', nextAttemptAt: null }
+      );
+    }
+
+    const startedAt = Date.now();
+    const { statusCode, message } = await this.send(
+      webhook,
+      claimedDelivery.event,
+      claimedDelivery.payload
+    );
+    const duration = Date.now() - startedAt;
+
+    const isSuccess = statusCode >= 200 && statusCode < 300;
+    const hasAttemptsLeft = claimedDelivery.attemptCount < this.config.retry.maxAttempts;
+
+    let status: WebhookDelivery['status'] = 'success';
+    let nextAttemptAt: Date | null = null;
+
+    if (!isSuccess) {
+      status = hasAttemptsLeft ? 'pending' : 'failed';
+      nextAttemptAt = hasAttemptsLeft
+        ? new Date(Date.now() + this.getRetryDelay(claimedDelivery.attemptCount))
+        : null;
+
+      this.logger.warn(
+        `Webhook '${webhook.name}' responded with status ${statusCode} for '${claimedDelivery.event}' (attempt ${claimedDelivery.attemptCount}/${this.config.retry.maxAttempts})`
+      );
+    }
+
+    return this.deliveryStore.recordAttempt(
+      claimedDelivery,
+      {
+        statusCode,
+        duration,
+        response: message ? message.slice(0, RESPONSE_EXCERPT_LENGTH) : null,
+      },
+      { status, nextAttemptAt }
+    );
+  }
+
+  /**
+   * Creates a fresh delivery with the payload of a previous one and sends it right away
+   */
+  async redeliver(delivery: WebhookDelivery) {
+    debug(`Redelivering '${delivery.event}' to webhook '${delivery.webhookId}'`);
+
+    const newDelivery = await this.deliveryStore.createDelivery({
+      webhookId: delivery.webhookId,
+      event: delivery.event,
+      payload: delivery.payload,
+    });
+
+    return (await this.deliver(newDelivery)) ?? newDelivery;
+  }
+
+  async processDueDeliveries() {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const deliveries = await this.deliveryStore.findDueDeliveries(
+        this.config.deliveries.batchSize
+      );
+
+      for (const delivery of deliveries) {
+        if (!this.pendingDeliveries.has(delivery.id)) {
+          this.pendingDeliveries.add(delivery.id);
+          this.queue.enqueue({ type: 'delivery', delivery });
+        }
+      }
+
+      await this.deliveryStore.purgeDeliveries(
+        new Date(Date.now() - this.config.deliveries.retention)
+      );
+    } catch (error) {
+      this.logger.error('Error processing pending webhook deliveries');
+      this.logger.error(error);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  getRetryDelay(attemptCount: number) {
+    const { initialDelay, maxDelay } = this.config.retry;
+
+    return Math.min(initialDelay * 2 ** (attemptCount - 1), maxDelay);
+  }
+
+  run(webhook: Webhook, event: string, info = {}) {
+    return this.send(
+      webhook,
+      event,
+      buildPayload(webhook, {
         event,
         createdAt: new Date(),
         ...info,
-      }),
+      })
+    );
+  }
+
+  send(webhook: Webhook, event: string, payload: WebhookDelivery['payload']) {
+    const { url, headers, secrets } = webhook;
+
+    const body = JSON.stringify(payload);
+    const signature = createSignatureHeader(secrets, body);
+
+    return this.fetch(url, {
+      method: 'post',
+      body,
       headers: {
         ...this.config.defaultHeaders,
         ...headers,
+        ...(signature ? { [SIGNATURE_HEADER]: signature } : {}),
         'X-Strapi-Event': event,
         'Content-Type': 'application/json',
       },
-      signal: AbortSignal.timeout(10000),
+      signal: AbortSignal.timeout(this.config.timeout),
     })
       .then(async (res) => {
         if (res.ok) {
@@ -144,11 +361,23 @@ class WebhookRunner {
       .catch((err) => {
         return {
           statusCode: 500,
-          message: err.message,
+          message: err.message as string,
         };
       });
   }
 
+  findWebhook(id: string) {
+    for (const webhooks of this.webhooksMap.values()) {
+      const webhook = webhooks.find((value) => value.id === id);
+
+      if (webhook) {
+        return webhook;
+      }
+    }
+
+    return undefined;
+  }
+
   add(webhook: Webhook) {
     debug(`Registering webhook '${webhook.id}'`);
     const { events } = webhook;
@@ -184,6 +413,33 @@ class WebhookRunner {
       }
     });
   }
+
+  /**
+   * Starts polling the delivery log for deliveries to retry, including the ones left pending by a previous process
+   */
+  start() {
+    if (this.pollTimer) {
+      return;
+    }
+
+    debug('Starting webhook delivery polling');
+
+    this.pollTimer = setInterval(() => {
+      this.processDueDeliveries();
+    }, this.config.deliveries.pollInterval);
+
+    this.pollTimer.unref();
+
+    this.processDueDeliveries();
+  }
+
+  stop() {
+    if (this.pollTimer) {
+      debug('Stopping webhook delivery polling');
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
 }
 
 /**
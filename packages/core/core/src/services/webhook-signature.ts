@@ -0,0 +1,42 @@
+/**
+ * Signs webhook requests so receivers can verify they were sent by this Strapi instance.
+ *
+ * The signature header looks like `t=1700000000,v1=<hex>,v1=<hex>` where `t` is the unix timestamp
+ * of the request and every `v1` is an HMAC-SHA256 of `${t}.${body}` computed with one of the
+ * active secrets of the webhook. During a secret rotation, both the new and the previous secret
+ * sign the request, so receivers should accept the request if any of the signatures matches.
+ */
+import crypto from 'crypto';
+import type { Modules } from '@strapi/types';
+
+type WebhookSecret = Modules.WebhookStore.WebhookSecret;
+
+const SIGNATURE_HEADER = 'X-Strapi-Signature';
+
+const getActiveSecrets = (secrets: WebhookSecret[] = [], now = new Date()) => {
+  return secrets.filter(({ expiresAt }) => !expiresAt || new Date(expiresAt) > now);
+};
+
+const computeSignature = (secret: string, timestamp: number, body: string) => {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+};
+
+const createSignatureHeader = (
+  secrets: WebhookSecret[] | undefined,
+  body: string,
+  timestamp = Math.floor(Date.now() / 1000)
+) => {
+  const activeSecrets = getActiveSecrets(secrets, new Date(timestamp * 1000));
+
+  if (activeSecrets.length === 0) {
+    return null;
+  }
+
+  const signatures = activeSecrets.map(({ secret }) => {
+    return `v1=${computeSignature(secret, timestamp, body)}`;
+  });
+
+  return [`t=${timestamp}`, ...signatures].join(',');
+};
+
+export { SIGNATURE_HEADER, getActiveSecrets, computeSignature, createSignatureHeader };
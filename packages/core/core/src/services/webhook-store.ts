@@ -2,6 +2,7 @@
  * Webhook store is the implementation of webhook storage over the core_store
  */
 
+import crypto from 'crypto';
 import { errors } from '@strapi/utils';
 import type { Model, Database } from '@strapi/database';
 import type { Modules } from '@strapi/types';
@@ -31,10 +32,20 @@ const webhookModel: Model = {
     enabled: {
       type: 'boolean',
     },
+    secrets: {
+      type: 'json',
+    },
+    filters: {
+      type: 'json',
+    },
+    template: {
+      type: 'json',
+    },
   },
 };
 
 type Webhook = Modules.WebhookStore.Webhook;
+type WebhookSecret = Modules.WebhookStore.WebhookSecret;
 type DBOutput = Omit<Webhook, 'id' | 'isEnabled'> & { id: string | number; enabled: boolean };
 type DBInput = Omit<DBOutput, 'id'>;
 
@@ -45,6 +56,9 @@ const toDBObject = (data: Webhook): DBInput => {
     headers: data.headers,
     events: data.events,
     enabled: data.isEnabled,
+    ...(data.secrets ? { secrets: data.secrets } : {}),
+    ...(data.filters !== undefined ? { filters: data.filters } : {}),
+    ...(data.template !== undefined ? { template: data.template } : {}),
   };
 };
 
@@ -56,9 +70,23 @@ const fromDBObject = (row: DBOutput): Webhook => {
     headers: row.headers,
     events: row.events,
     isEnabled: row.enabled,
+    secrets: row.secrets ?? [],
+    filters: row.filters ?? null,
+    template: row.template ?? null,
   };
 };
 
+/**
+ * Default time during which a rotated secret keeps signing requests, leaving receivers time to update
+ */
+const DEFAULT_SECRET_GRACE_PERIOD = 24 * 60 * 60 * 1000;
+
+const createSecret = (): WebhookSecret => ({
+  secret: `whsec_${crypto.randomBytes(32).toString('hex')}`,
+  createdAt: new Date().toISOString(),
+  expiresAt: null,
+});
+
 const webhookEventValidator = async (allowedEvents: Map<string, string>, events: string[]) => {
   const allowedValues = Array.from(allowedEvents.values());
 
@@ -82,6 +110,7 @@ export interface WebhookStore {
   createWebhook(data: Webhook): Promise<Webhook>;
   updateWebhook(id: string, data: Webhook): Promise<Webhook | null>;
   deleteWebhook(id: string): Promise<Webhook | null>;
+  regenerateSecret(id: string, options?: { gracePeriod?: number }): Promise<Webhook | null>;
 }
 
 const createWebhookStore = ({ db }: { db: Database }): WebhookStore => {
@@ -121,7 +150,7 @@ const createWebhookStore = ({ db }: { db: Database }): WebhookStore => {
       return db
         .query('strapi::webhook')
         .create({
-          data: toDBObject({ ...data, isEnabled: true }),
+          data: toDBObject({ ...data, isEnabled: true, secrets: [createSecret()] }),
         })
         .then(fromDBObject);
     },
@@ -139,6 +168,31 @@ const createWebhookStore = ({ db }: { db: Database }): WebhookStore => {
       const webhook = await db.query('strapi::webhook').delete({ where: { id } });
       return webhook ? fromDBObject(webhook) : null;
     },
+    async regenerateSecret(id, { gracePeriod = DEFAULT_SECRET_GRACE_PERIOD } = {}) {
+      const webhook = await this.findWebhook(id);
+
+      if (!webhook) {
+        return null;
+      }
+
+      // Only the current secret survives the rotation, any previously rotated secret is dropped
+      const [currentSecret] = webhook.secrets ?? [];
+      const secrets = [createSecret()];
+
+      if (currentSecret && gracePeriod > 0) {
+        secrets.push({
+          ...currentSecret,
+          expiresAt: new Date(Date.now() + gracePeriod).toISOString(),
+        });
+      }
+
+      const result = await db.query('strapi::webhook').update({
+        where: { id },
+        data: { secrets },
+      });
+
+      return result ? fromDBObject(result) : null;
+    },
   };
 };
 
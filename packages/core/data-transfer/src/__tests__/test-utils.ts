@@ -84,6 +84,10 @@ export const createMockedQueryBuilder = <T extends string = ContentType>(data: {
         state.populate = populate;
         return this;
       },
+      where(where: unknown) {
+        state.where = where;
+        return this;
+      },
       stream() {
         return Readable.from(data[uid]);
       },
@@ -0,0 +1,191 @@
+import type { IEntity } from '../../../types';
+import { createEntityAnonymizer, validateAnonymizationOptions } from '../anonymization';
+import { TransferEngineValidationError } from '../errors';
+
+const schemas = {
+  'plugin::users-permissions.user': {
+    uid: 'plugin::users-permissions.user',
+    modelType: 'contentType',
+    attributes: {
+      username: { type: 'string' },
+      email: { type: 'email' },
+      password: { type: 'password' },
+      birthday: { type: 'date' },
+      role: { type: 'enumeration', enum: ['reader', 'writer'] },
+      settings: { type: 'json' },
+      confirmed: { type: 'boolean' },
+    },
+  },
+} as any;
+
+const user: IEntity = {
+  type: 'plugin::users-permissions.user',
+  id: 1,
+  data: {
+    username: 'jdoe',
+    email: 'jdoe@example.org',
+    password: '$2a$10$hash',
+    birthday: '1990-05-12',
+    role: 'writer',
+    settings: { theme: 'dark' },
+    confirmed: true,
+  },
+} as any;
+
+describe('Anonymization', () => {
+  test('Applies the strategy of each attribute', () => {
+    const anonymize = createEntityAnonymizer(
+      {
+        rules: {
+          'plugin::users-permissions.user': {
+            username: 'fake',
+            email: 'fake',
+            password: 'null',
+            birthday: 'fake',
+            role: 'fake',
+            settings: 'fake',
+            confirmed: 'keep',
+          },
+        },
+      },
+      schemas
+    );
+
+    const { data } = anonymize(user);
+
+    expect(data).toEqual({
+      username: expect.stringMatching(/^username-[0-9a-f]{12}$/),
+      email: expect.stringMatching(/^[0-9a-f]{12}@example\.com$/),
+      password: null,
+      birthday: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+      role: expect.stringMatching(/^(reader|writer)$/),
+      settings: null,
+      confirmed: true,
+    });
+    expect(data.birthday).not.toBe('1990-05-12');
+  });
+
+  test('Anonymizes the same value the same way, depending on the salt', () => {
+    const rules = { '*': { email: 'hash' as const } };
+    const anonymize = createEntityAnonymizer({ rules });
+
+    expect(anonymize(user).data.email).toBe(anonymize({ ...user, id: 2 }).data.email);
+    expect(anonymize(user).data.email).toMatch(/^[0-9a-f]{64}$/);
+    expect(createEntityAnonymizer({ rules, salt: 'secret' })(user).data.email).not.toBe(
+      anonymize(user).data.email
+    );
+  });
+
+  test('Lets the content types override the rules applied to all of them', () => {
+    const anonymize = createEntityAnonymizer({
+      rules: {
+        '*': { username: 'null', email: 'null' },
+        'plugin::users-permissions.user': { username: 'keep' },
+      },
+    });
+
+    expect(anonymize(user).data).toMatchObject({ username: 'jdoe', email: null });
+  });
+
+  test('Anonymizes the nested components and the dynamic zones', () => {
+    const componentSchemas = {
+      'api::order.order': {
+        uid: 'api::order.order',
+        modelType: 'contentType',
+        attributes: {
+          customer: { type: 'component', component: 'shared.customer', repeatable: false },
+          blocks: { type: 'dynamiczone', components: ['shared.contact'] },
+        },
+      },
+      'shared.customer': {
+        uid: 'shared.customer',
+        modelType: 'component',
+        attributes: {
+          name: { type: 'string' },
+          contacts: { type: 'component', component: 'shared.contact', repeatable: true },
+        },
+      },
+      'shared.contact': {
+        uid: 'shared.contact',
+        modelType: 'component',
+        attributes: {
+          email: { type: 'email' },
+          phone: { type: 'string' },
+        },
+      },
+    } as any;
+
+    const anonymize = createEntityAnonymizer(
+      {
+        rules: {
+          '*': { email: 'fake' },
+          'shared.customer': { name: 'hash' },
+          'shared.contact': { phone: 'null' },
+        },
+      },
+      componentSchemas
+    );
+
+    const order: IEntity = {
+      type: 'api::order.order',
+      id: 1,
+      data: {
+        customer: {
+          id: 1,
+          name: 'John Doe',
+          contacts: [{ id: 2, email: 'jdoe@example.org', phone: '0102030405' }],
+        },
+        blocks: [
+          { id: 3, __component: 'shared.contact', email: 'jane@example.org', phone: '0607080910' },
+        ],
+      },
+    } as any;
+
+    expect(anonymize(order).data).toEqual({
+      customer: {
+        id: 1,
+        name: expect.stringMatching(/^[0-9a-f]{64}$/),
+        contacts: [
+          { id: 2, email: expect.stringMatching(/^[0-9a-f]{12}@example\.com$/), phone: null },
+        ],
+      },
+      blocks: [
+        {
+          id: 3,
+          __component: 'shared.contact',
+          email: expect.stringMatching(/^[0-9a-f]{12}@example\.com$/),
+          phone: null,
+        },
+      ],
+    });
+  });
+
+  test('Guesses the fake values from the data without a schema', () => {
+    const anonymize = createEntityAnonymizer({
+      rules: { '*': { username: 'fake', email: 'fake', settings: 'fake' } },
+    });
+
+    expect(anonymize(user).data).toMatchObject({
+      username: expect.stringMatching(/^username-/),
+      email: expect.stringMatching(/@example\.com$/),
+      settings: null,
+    });
+  });
+
+  test('Leaves the missing and empty values as they are', () => {
+    const anonymize = createEntityAnonymizer({ rules: { '*': { email: 'fake', phone: 'fake' } } });
+    const entity = { ...user, data: { ...user.data, email: null } };
+
+    expect(anonymize(entity).data).toEqual(entity.data);
+  });
+
+  test('Rejects unknown strategies', () => {
+    expect(() =>
+      validateAnonymizationOptions({ rules: { '*': { email: 'remove' as any } } })
+    ).toThrow(
+      new TransferEngineValidationError(
+        'Invalid anonymization strategy "remove" for "*.email". Expected one of: fake, hash, null, keep'
+      )
+    );
+  });
+});
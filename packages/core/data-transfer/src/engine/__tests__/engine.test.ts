@@ -776,6 +776,29 @@ describe('Transfer engine', () => {
       expect(completeDestination.createLinksWriteStream).toHaveBeenCalled();
       expect(processedLinks).toStrictEqual(defaultLinksData);
     });
+
+    test('anonymizes the entities using the anonymization rules', async () => {
+      const processedEntities: IEntity[] = [];
+
+      completeDestination = createDestination({
+        createEntitiesWriteStream: jest.fn().mockResolvedValue(
+          getMockDestinationStream((chunk: IEntity) => {
+            processedEntities.push(chunk);
+          })
+        ),
+      });
+      const engine = createTransferEngine(completeSource, completeDestination, {
+        ...defaultOptions,
+        anonymize: { rules: { 'api::foo.foo': { foo: 'fake' }, 'api::bar.bar': { bar: 'null' } } },
+      });
+
+      await engine.transferEntities();
+
+      expect(processedEntities[0].data).toEqual({
+        foo: expect.stringMatching(/^foo-[0-9a-f]{12}$/),
+      });
+      expect(processedEntities[1].data).toEqual({ bar: null });
+    });
   });
 
   describe('integrity checks', () => {
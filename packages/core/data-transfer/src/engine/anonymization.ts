@@ -0,0 +1,175 @@
+import { createHash } from 'crypto';
+import { isNil } from 'lodash/fp';
+import type { Schema, Struct } from '@strapi/types';
+
+import type { AnonymizationStrategy, IAnonymizationOptions, IEntity } from '../../types';
+import { TransferEngineValidationError } from './errors';
+
+export const ANONYMIZATION_STRATEGIES: ReadonlyArray<AnonymizationStrategy> = Object.freeze([
+  'fake',
+  'hash',
+  'null',
+  'keep',
+]);
+
+/**
+ * Rules applied to the attributes of every content type, unless a content type overrides them
+ */
+export const ANY_CONTENT_TYPE = '*';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+// Dates are faked within the 20 years following this one
+const FAKE_DATE_ORIGIN = Date.UTC(2000, 0, 1);
+const FAKE_DATE_RANGE = 20 * 365 * 24 * 60 * 60 * 1000;
+
+type SchemaMap = Record<string, Struct.Schema>;
+
+/**
+ * Throw if the anonymization rules use an unknown strategy
+ */
+export const validateAnonymizationOptions = (options: IAnonymizationOptions) => {
+  const { rules } = options ?? {};
+
+  if (!rules || typeof rules !== 'object') {
+    throw new TransferEngineValidationError('Invalid anonymization options. Missing rules', {
+      check: 'anonymization.rules',
+    });
+  }
+
+  Object.entries(rules).forEach(([uid, attributes]) => {
+    Object.entries(attributes ?? {}).forEach(([attribute, strategy]) => {
+      if (!ANONYMIZATION_STRATEGIES.includes(strategy)) {
+        throw new TransferEngineValidationError(
+          `Invalid anonymization strategy "${strategy}" for "${uid}.${attribute}". Expected one of: ${ANONYMIZATION_STRATEGIES.join(', ')}`,
+          { check: 'anonymization.rules' }
+        );
+      }
+    });
+  });
+};
+
+/**
+ * Create an entity mapper which applies the anonymization rules to the entities' attributes and
+ * to the attributes of their components and dynamic zones
+ *
+ * The fake and hash values only depend on the original value (and salt), so that the same value
+ * is always anonymized the same way. Only the hashes are unique, the fake values can collide.
+ */
+export const createEntityAnonymizer = (options: IAnonymizationOptions, schemas?: SchemaMap) => {
+  const { rules, salt = '' } = options;
+
+  const digest = (value: unknown) => {
+    return createHash('sha256')
+      .update(salt)
+      .update(typeof value === 'string' ? value : JSON.stringify(value))
+      .digest('hex');
+  };
+
+  // Without a schema, the type of the attribute is guessed from its value
+  const inferType = (value: unknown) => {
+    if (typeof value === 'string') {
+      return EMAIL_PATTERN.test(value) ? 'email' : 'string';
+    }
+
+    return typeof value === 'number' ? 'float' : 'json';
+  };
+
+  const fake = (name: string, value: unknown, attribute?: Schema.Attribute.AnyAttribute) => {
+    const hash = digest(value);
+    const type = attribute?.type ?? inferType(value);
+
+    switch (type) {
+      case 'email':
+        return `${hash.slice(0, 12)}@example.com`;
+      case 'password':
+        return hash;
+      case 'string':
+      case 'text':
+      case 'richtext':
+      case 'uid':
+        return `${name}-${hash.slice(0, 12)}`;
+      case 'integer':
+      case 'biginteger':
+      case 'float':
+      case 'decimal': {
+        const number = parseInt(hash.slice(0, 8), 16) % 1000000;
+        return type === 'biginteger' ? String(number) : number;
+      }
+      case 'date':
+      case 'datetime': {
+        const time = FAKE_DATE_ORIGIN + (parseInt(hash.slice(0, 12), 16) % FAKE_DATE_RANGE);
+        const date = new Date(time).toISOString();
+        return type === 'date' ? date.slice(0, 10) : date;
+      }
+      case 'enumeration': {
+        const { enum: values = [] } = attribute as Schema.Attribute.Enumeration<string[]>;
+        return values.length > 0 ? values[parseInt(hash.slice(0, 8), 16) % values.length] : null;
+      }
+      default:
+        // Structured values (json, blocks, media, ...) have no meaningful fake value
+        return null;
+    }
+  };
+
+  const getRules = (uid: string) => ({ ...rules[ANY_CONTENT_TYPE], ...rules[uid] });
+
+  const anonymizeData = (uid: string, input: Record<string, unknown>) => {
+    const attributes = schemas?.[uid]?.attributes ?? {};
+    const data = { ...input };
+
+    // The components are anonymized with the rules of their own uid
+    Object.entries(attributes).forEach(([attributeName, attribute]) => {
+      const value = data[attributeName];
+
+      if (isNil(value)) {
+        return;
+      }
+
+      if (attribute.type === 'component') {
+        const anonymizeComponent = (item: Record<string, unknown>) => {
+          return anonymizeData(attribute.component, item);
+        };
+
+        data[attributeName] = Array.isArray(value)
+          ? value.map(anonymizeComponent)
+          : anonymizeComponent(value as Record<string, unknown>);
+      }
+
+      if (attribute.type === 'dynamiczone' && Array.isArray(value)) {
+        data[attributeName] = value.map((item: Record<string, unknown>) => {
+          return anonymizeData(item.__component as string, item);
+        });
+      }
+    });
+
+    Object.entries(getRules(uid)).forEach(([attributeName, strategy]) => {
+      if (!(attributeName in data) || strategy === 'keep') {
+        return;
+      }
+
+      const value = data[attributeName];
+
+      if (strategy === 'null') {
+        data[attributeName] = null;
+        return;
+      }
+
+      // There is nothing to anonymize
+      if (isNil(value)) {
+        return;
+      }
+
+      data[attributeName] =
+        strategy === 'hash' ? digest(value) : fake(attributeName, value, attributes[attributeName]);
+    });
+
+    return data;
+  };
+
+  return (entity: IEntity): IEntity => {
+    const data = anonymizeData(entity.type, entity.data as Record<string, unknown>);
+
+    return { ...entity, data } as IEntity;
+  };
+};
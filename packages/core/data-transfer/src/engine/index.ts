@@ -32,10 +32,12 @@ import type {
   ErrorHandlerContext,
   ErrorHandlers,
   ErrorCode,
+  IAnonymizationOptions,
 } from '../../types';
 import type { Diff } from '../utils/json';
 
 import { compareSchemas, validateProvider } from './validation';
+import { createEntityAnonymizer, validateAnonymizationOptions } from './anonymization';
 
 import { TransferEngineError, TransferEngineValidationError } from './errors';
 import {
@@ -154,6 +156,10 @@ class TransferEngine<
     validateProvider('source', sourceProvider);
     validateProvider('destination', destinationProvider);
 
+    if (options.anonymize) {
+      validateAnonymizationOptions(options.anonymize);
+    }
+
     this.sourceProvider = sourceProvider;
     this.destinationProvider = destinationProvider;
     this.options = options;
@@ -260,6 +266,30 @@ class TransferEngine<
     return stream;
   }
 
+  /**
+   * Create and return a transform stream which anonymizes the entities based on the anonymization rules.
+   *
+   * If no rules are given, it returns a simple PassThrough stream.
+   */
+  #createAnonymizationStream(): PassThrough | Transform {
+    const { anonymize } = this.options;
+
+    if (!anonymize) {
+      return new PassThrough({ objectMode: true });
+    }
+
+    let anonymizeEntity: ((entity: IEntity) => IEntity) | undefined;
+
+    return utils.stream.map(async (entity: IEntity) => {
+      if (!anonymizeEntity) {
+        const { sourceSchemas } = await this.#getSchemas();
+        anonymizeEntity = createEntityAnonymizer(anonymize, sourceSchemas);
+      }
+
+      return anonymizeEntity(entity);
+    });
+  }
+
   /**
    * Update the Engine's transfer progress data for a given stage.
    *
@@ -834,6 +864,7 @@ class TransferEngine<
 
     const transform = chain([
       this.#createStageTransformStream(stage),
+      this.#createAnonymizationStream(),
       new Transform({
         objectMode: true,
         transform: async (entity: IEntity, _encoding, callback) => {
@@ -959,6 +990,8 @@ export type {
   ErrorHandlerContext,
   SchemaDiffHandlerContext,
   ITransferResults,
+  IAnonymizationOptions,
 };
 
 export * as errors from './errors';
+export * as anonymization from './anonymization';
@@ -6,7 +6,12 @@ import tar from 'tar-stream';
 import { stringer } from 'stream-json/jsonl/Stringer';
 import { chain } from 'stream-chain';
 
-import { createEncryptionCipher } from '../../../utils/encryption';
+import {
+  createEncryptionCipher,
+  createRecipientsEncryptionStream,
+  getSignatureFilePath,
+  signFile,
+} from '../../../utils/encryption';
 import type {
   IAsset,
   IDestinationProvider,
@@ -23,6 +28,11 @@ export interface ILocalFileDestinationProviderOptions {
   encryption: {
     enabled: boolean; // if the file should be encrypted
     key?: string; // the key to use when encryption.enabled is true
+    recipients?: string[]; // the public keys (PEM) to encrypt the file for, used instead of the key
+  };
+
+  signature?: {
+    privateKey: string; // the private key (PEM) used to sign the file, the signature is written next to it
   };
 
   compression: {
@@ -40,6 +50,7 @@ export interface ILocalFileDestinationProviderTransferResults
   extends IDestinationProviderTransferResults {
   file?: {
     path?: string;
+    signaturePath?: string;
   };
 }
 
@@ -110,8 +121,8 @@ class LocalFileDestinationProvider implements IDestinationProvider {
     this.#diagnostics = diagnostics;
     const { compression, encryption } = this.options;
 
-    if (encryption.enabled && !encryption.key) {
-      throw new Error("Can't encrypt without a key");
+    if (encryption.enabled && !encryption.key && !encryption.recipients?.length) {
+      throw new Error("Can't encrypt without a key or recipients");
     }
 
     this.#archive.stream = tar.pack();
@@ -133,7 +144,9 @@ class LocalFileDestinationProvider implements IDestinationProvider {
       archiveTransforms.push(this.createGzip());
     }
 
-    if (encryption.enabled && encryption.key) {
+    if (encryption.enabled && encryption.recipients?.length) {
+      archiveTransforms.push(createRecipientsEncryptionStream(encryption.recipients));
+    } else if (encryption.enabled && encryption.key) {
       archiveTransforms.push(createEncryptionCipher(encryption.key));
     }
 
@@ -157,12 +170,21 @@ class LocalFileDestinationProvider implements IDestinationProvider {
         pipeline.on('close', resolve).on('error', reject);
       });
     }
+
+    const { signature } = this.options;
+
+    if (signature) {
+      this.#reportInfo('signing archive');
+      const signaturePath = await signFile(this.#archivePath, signature.privateKey);
+      this.results.file = { ...this.results.file, signaturePath };
+    }
   }
 
   async rollback(): Promise<void> {
     this.#reportInfo('rolling back');
     await this.close();
     await rm(this.#archivePath, { force: true });
+    await rm(getSignatureFilePath(this.#archivePath), { force: true });
   }
 
   getMetadata() {
@@ -0,0 +1,74 @@
+import { Readable } from 'stream';
+
+import { collect } from '../../../../utils/stream';
+import { createCSVParser, getEntitiesFilePath, isFlatSchema, stringifyCSVRow } from '../format';
+
+const parseCSV = async (text: string | string[]) => {
+  return collect(Readable.from(Array.isArray(text) ? text : [text]).pipe(createCSVParser()));
+};
+
+describe('Directory format', () => {
+  test('Converts the UIDs to file names', () => {
+    expect(getEntitiesFilePath('api::article.article', 'jsonl')).toBe(
+      'entities/api.article.article.jsonl'
+    );
+    expect(getEntitiesFilePath('shared.seo', 'csv')).toBe('entities/shared.seo.csv');
+  });
+
+  test('Only considers the schemas without nested values as flat', () => {
+    expect(
+      isFlatSchema({ attributes: { title: { type: 'string' }, views: { type: 'integer' } } } as any)
+    ).toBe(true);
+    expect(
+      isFlatSchema({ attributes: { seo: { type: 'component', component: 'shared.seo' } } } as any)
+    ).toBe(false);
+    expect(isFlatSchema({ attributes: { data: { type: 'json' } } } as any)).toBe(false);
+  });
+
+  describe('CSV', () => {
+    test('Quotes the strings only', () => {
+      expect(stringifyCSVRow(['title', 1, true, null, 'with "quotes", and commas'])).toBe(
+        '"title",1,true,,"with ""quotes"", and commas"\n'
+      );
+    });
+
+    test('Throws on nested values', () => {
+      expect(() => stringifyCSVRow([{ id: 1 }])).toThrow('Unexpected CSV value: {"id":1}');
+    });
+
+    test('Parses the rows back to their values', async () => {
+      const rows = [
+        ['id', 'title', 'views', 'featured', 'publishedAt'],
+        [1, 'with "quotes",\nline breaks and commas', 10.5, false, null],
+        [2, '', 0, true, '2024-01-01T00:00:00.000Z'],
+      ];
+
+      expect(await parseCSV(rows.map(stringifyCSVRow).join(''))).toEqual(rows);
+    });
+
+    test('Parses the rows split across chunks', async () => {
+      expect(await parseCSV(['"a""', 'b",1\r', '\n"c",', '2'])).toEqual([
+        ['a"b', 1],
+        ['c', 2],
+      ]);
+    });
+
+    test('Parses the multi-byte characters split across chunks', async () => {
+      const buffer = Buffer.from('"café 🚀",1\n');
+      // Split the bytes of the é and of the emoji
+      const chunks = [buffer.subarray(0, 5), buffer.subarray(5, 9), buffer.subarray(9)];
+
+      const rows = await collect(Readable.from(chunks).pipe(createCSVParser()));
+
+      expect(rows).toEqual([['café 🚀', 1]]);
+    });
+
+    test('Keeps the unquoted cells which are not numbers as strings', async () => {
+      expect(await parseCSV('hello,12abc\n')).toEqual([['hello', '12abc']]);
+    });
+
+    test('Fails on unclosed quoted cells', async () => {
+      await expect(parseCSV('"unclosed\n')).rejects.toThrow('a quoted cell is not closed');
+    });
+  });
+});
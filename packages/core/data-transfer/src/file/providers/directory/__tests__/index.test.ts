@@ -0,0 +1,139 @@
+import os from 'os';
+import path from 'path';
+import { Readable, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import fs from 'fs-extra';
+
+import { createLocalDirectoryDestinationProvider, createLocalDirectorySourceProvider } from '..';
+import { collect } from '../../../../utils/stream';
+
+const schemas = [
+  {
+    uid: 'api::article.article',
+    modelType: 'contentType',
+    attributes: {
+      title: { type: 'string' },
+      views: { type: 'integer' },
+      seo: { type: 'component', component: 'shared.seo' },
+    },
+  },
+  {
+    uid: 'api::category.category',
+    modelType: 'contentType',
+    attributes: {
+      name: { type: 'string' },
+      featured: { type: 'boolean' },
+    },
+  },
+];
+
+const entities = [
+  { type: 'api::article.article', id: 1, data: { title: 'First', views: 2, seo: { id: 3 } } },
+  { type: 'api::category.category', id: 1, data: { name: 'News, "latest"', featured: true } },
+  { type: 'api::category.category', id: 2, data: { name: 'Other', featured: null } },
+];
+
+const links = [
+  {
+    kind: 'relation.basic',
+    relation: 'manyToOne',
+    left: { type: 'api::article.article', ref: 1, field: 'category' },
+    right: { type: 'api::category.category', ref: 1 },
+  },
+];
+
+const metadata = { createdAt: '2024-01-01T00:00:00.000Z', strapi: { version: '5.0.0' } };
+
+const write = async (stream: Writable, chunks: unknown[]) => {
+  await pipeline(Readable.from(chunks), stream);
+};
+
+describe('Local Directory Providers', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'strapi-')), 'export');
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(directory), { recursive: true, force: true });
+  });
+
+  const exportData = async (format: 'jsonl' | 'csv') => {
+    const destination = createLocalDirectoryDestinationProvider({
+      directory: { path: directory },
+      format,
+    });
+
+    await destination.bootstrap();
+    destination.setMetadata('source', metadata);
+
+    await write(destination.createSchemasWriteStream(), schemas);
+    await write(destination.createEntitiesWriteStream(), entities);
+    await write(destination.createAssetsWriteStream(), [
+      {
+        filename: 'image.png',
+        filepath: 'uploads/image.png',
+        stats: { size: 4 },
+        metadata: { id: 1, name: 'image.png' },
+        stream: Readable.from([Buffer.from('data')]),
+      },
+    ]);
+    await write(destination.createLinksWriteStream(), links);
+    await write(destination.createConfigurationWriteStream(), []);
+    await destination.close();
+  };
+
+  test.each(['jsonl', 'csv'] as const)('Imports back the data exported as %s', async (format) => {
+    await exportData(format);
+
+    const source = createLocalDirectorySourceProvider({ directory: { path: directory } });
+
+    await source.bootstrap();
+
+    expect(await source.getMetadata()).toEqual(metadata);
+    expect(await collect(source.createSchemasReadStream())).toEqual(schemas);
+    expect(await collect(source.createEntitiesReadStream())).toEqual(entities);
+    expect(await collect(source.createLinksReadStream())).toEqual(links);
+    expect(await collect(source.createConfigurationReadStream())).toEqual([]);
+
+    const [asset] = await collect<any>(source.createAssetsReadStream());
+
+    expect(asset).toMatchObject({
+      filename: 'image.png',
+      stats: { size: 4 },
+      metadata: { id: 1, name: 'image.png' },
+    });
+    expect((await collect<Buffer>(asset.stream)).toString()).toBe('data');
+  });
+
+  test('Writes one file per content type, as CSV for the flat ones', async () => {
+    await exportData('csv');
+
+    expect(await fs.readdir(path.join(directory, 'entities'))).toEqual([
+      'api.article.article.jsonl',
+      'api.category.category.csv',
+    ]);
+    expect(
+      await fs.readFile(path.join(directory, 'entities/api.category.category.csv'), 'utf8')
+    ).toBe('"id","name","featured"\n1,"News, ""latest""",true\n2,"Other",\n');
+  });
+
+  test('Refuses to write into a directory which is not empty', async () => {
+    await fs.outputFile(path.join(directory, 'file.txt'), '');
+
+    const destination = createLocalDirectoryDestinationProvider({ directory: { path: directory } });
+
+    await expect(destination.bootstrap()).rejects.toThrow(
+      `The directory '${directory}' is not empty.`
+    );
+  });
+
+  test('Fails to bootstrap the source without metadata', async () => {
+    const source = createLocalDirectorySourceProvider({ directory: { path: directory } });
+
+    await expect(source.bootstrap()).rejects.toThrow(
+      `Directory '${directory}' is not a valid Strapi data directory.`
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import path from 'path';
+import { once } from 'events';
+import { Writable } from 'stream';
+import { finished, pipeline } from 'stream/promises';
+import fs from 'fs-extra';
+import type { Struct } from '@strapi/types';
+
+import type {
+  IAsset,
+  IDestinationProvider,
+  IDestinationProviderTransferResults,
+  IEntity,
+  IMetadata,
+  ProviderType,
+} from '../../../../types';
+import type { IDiagnosticReporter } from '../../../utils/diagnostic';
+import { ProviderInitializationError, ProviderTransferError } from '../../../errors/providers';
+import {
+  ASSETS_MANIFEST_FILE_PATH,
+  ASSETS_UPLOADS_DIRECTORY,
+  CONFIGURATION_FILE_PATH,
+  EntitiesFileFormat,
+  getEntitiesFilePath,
+  isFlatSchema,
+  LINKS_FILE_PATH,
+  METADATA_FILE_PATH,
+  SCHEMAS_FILE_PATH,
+  stringifyCSVRow,
+} from './format';
+
+export interface ILocalDirectoryDestinationProviderOptions {
+  directory: {
+    path: string; // the directory to create, it must not exist or be empty
+  };
+
+  format?: EntitiesFileFormat; // the format of the entities files, "csv" only applies to the schemas without nested values
+}
+
+export interface ILocalDirectoryDestinationProviderTransferResults
+  extends IDestinationProviderTransferResults {
+  directory?: {
+    path?: string;
+  };
+}
+
+interface IEntitiesFile {
+  stream: fs.WriteStream;
+  columns?: string[]; // only defined for CSV files
+}
+
+export const createLocalDirectoryDestinationProvider = (
+  options: ILocalDirectoryDestinationProviderOptions
+) => {
+  return new LocalDirectoryDestinationProvider(options);
+};
+
+/**
+ * Write a chunk to a file stream, waiting for it to drain when its buffer is full
+ */
+const writeChunk = async (stream: fs.WriteStream, chunk: string) => {
+  if (!stream.write(chunk)) {
+    await once(stream, 'drain');
+  }
+};
+
+/**
+ * Pass the outcome of an asynchronous operation to a stream callback
+ */
+const settle = (operation: Promise<unknown>, callback: (error?: Error | null) => void) => {
+  operation.then(() => callback(), callback);
+};
+
+const closeFile = async (stream: fs.WriteStream) => {
+  stream.end();
+  await finished(stream);
+};
+
+class LocalDirectoryDestinationProvider implements IDestinationProvider {
+  name = 'destination::local-directory';
+
+  type: ProviderType = 'destination';
+
+  options: ILocalDirectoryDestinationProviderOptions;
+
+  results: ILocalDirectoryDestinationProviderTransferResults = {};
+
+  #providersMetadata: { source?: IMetadata; destination?: IMetadata } = {};
+
+  #schemas: Record<string, Struct.Schema> = {};
+
+  #diagnostics?: IDiagnosticReporter;
+
+  constructor(options: ILocalDirectoryDestinationProviderOptions) {
+    this.options = options;
+  }
+
+  #reportInfo(message: string) {
+    this.#diagnostics?.report({
+      details: {
+        createdAt: new Date(),
+        message,
+        origin: 'directory-destination-provider',
+      },
+      kind: 'info',
+    });
+  }
+
+  #resolve(filePath: string) {
+    return path.join(this.options.directory.path, filePath);
+  }
+
+  async #openFile(filePath: string) {
+    await fs.ensureDir(path.dirname(this.#resolve(filePath)));
+
+    return fs.createWriteStream(this.#resolve(filePath));
+  }
+
+  setMetadata(target: ProviderType, metadata: IMetadata): IDestinationProvider {
+    this.#providersMetadata[target] = metadata;
+
+    return this;
+  }
+
+  async bootstrap(diagnostics: IDiagnosticReporter) {
+    this.#diagnostics = diagnostics;
+    const { path: directoryPath } = this.options.directory;
+
+    if ((await fs.pathExists(directoryPath)) && (await fs.readdir(directoryPath)).length > 0) {
+      throw new ProviderInitializationError(`The directory '${directoryPath}' is not empty.`);
+    }
+
+    await fs.ensureDir(directoryPath);
+
+    this.results.directory = { path: directoryPath };
+  }
+
+  async close() {
+    const metadata = this.#providersMetadata.source;
+
+    if (metadata) {
+      this.#reportInfo('writing metadata');
+      await fs.writeJSON(this.#resolve(METADATA_FILE_PATH), metadata, { spaces: 2 });
+    }
+  }
+
+  async rollback(): Promise<void> {
+    this.#reportInfo('rolling back');
+    await fs.rm(this.options.directory.path, { recursive: true, force: true });
+  }
+
+  getMetadata() {
+    return null;
+  }
+
+  /**
+   * Create a write stream which writes each chunk as a line of a JSONL file
+   */
+  #createJsonlWriteStream(filePath: string, onChunk?: (chunk: any) => void) {
+    const file = this.#openFile(filePath);
+
+    return new Writable({
+      objectMode: true,
+
+      write(chunk, _encoding, callback) {
+        onChunk?.(chunk);
+        settle(
+          file.then((stream) => writeChunk(stream, `${JSON.stringify(chunk)}\n`)),
+          callback
+        );
+      },
+
+      final(callback) {
+        settle(file.then(closeFile), callback);
+      },
+    });
+  }
+
+  createSchemasWriteStream() {
+    this.#reportInfo('creating schemas write stream');
+
+    return this.#createJsonlWriteStream(SCHEMAS_FILE_PATH, (schema: Struct.Schema) => {
+      this.#schemas[schema.uid] = schema;
+    });
+  }
+
+  createEntitiesWriteStream(): Writable {
+    this.#reportInfo('creating entities write stream');
+    const files = new Map<string, IEntitiesFile>();
+
+    const openEntitiesFile = async (type: string, row: Record<string, unknown>) => {
+      const schema = this.#schemas[type];
+      const useCSV = this.options.format === 'csv' && schema !== undefined && isFlatSchema(schema);
+      const stream = await this.#openFile(getEntitiesFilePath(type, useCSV ? 'csv' : 'jsonl'));
+
+      if (!useCSV) {
+        return { stream };
+      }
+
+      // The header is based on the first entity as every entity of a schema has the same columns
+      const columns = Object.keys(row);
+      await writeChunk(stream, stringifyCSVRow(columns));
+
+      return { stream, columns };
+    };
+
+    const writeEntity = async ({ type, id, data }: IEntity) => {
+      const row: Record<string, unknown> = { id, ...(data as Record<string, unknown>) };
+
+      if (!files.has(type)) {
+        files.set(type, await openEntitiesFile(type, row));
+      }
+
+      const { stream, columns } = files.get(type) as IEntitiesFile;
+
+      if (!columns) {
+        await writeChunk(stream, `${JSON.stringify(row)}\n`);
+        return;
+      }
+
+      const unknownColumns = Object.keys(row).filter((column) => !columns.includes(column));
+
+      if (unknownColumns.length > 0) {
+        throw new ProviderTransferError(
+          `Unexpected attributes for "${type}" (${id}): ${unknownColumns.join(', ')}`
+        );
+      }
+
+      await writeChunk(stream, stringifyCSVRow(columns.map((column) => row[column])));
+    };
+
+    return new Writable({
+      objectMode: true,
+
+      write(entity: IEntity, _encoding, callback) {
+        settle(writeEntity(entity), callback);
+      },
+
+      final(callback) {
+        settle(
+          Promise.all(Array.from(files.values()).map(({ stream }) => closeFile(stream))),
+          callback
+        );
+      },
+    });
+  }
+
+  createLinksWriteStream(): Writable {
+    this.#reportInfo('creating links write stream');
+
+    return this.#createJsonlWriteStream(LINKS_FILE_PATH);
+  }
+
+  createConfigurationWriteStream(): Writable {
+    this.#reportInfo('creating configuration write stream');
+
+    return this.#createJsonlWriteStream(CONFIGURATION_FILE_PATH);
+  }
+
+  createAssetsWriteStream(): Writable {
+    this.#reportInfo('creating assets write stream');
+    const manifest = this.#createJsonlWriteStream(ASSETS_MANIFEST_FILE_PATH);
+
+    const writeAsset = async ({ filename, stats, metadata, stream }: IAsset) => {
+      await pipeline(
+        stream,
+        await this.#openFile(path.posix.join(ASSETS_UPLOADS_DIRECTORY, filename))
+      );
+
+      if (!manifest.write({ filename, size: stats.size, metadata })) {
+        await once(manifest, 'drain');
+      }
+    };
+
+    return new Writable({
+      objectMode: true,
+
+      write(asset: IAsset, _encoding, callback) {
+        settle(writeAsset(asset), callback);
+      },
+
+      final(callback) {
+        settle(finished(manifest.end()), callback);
+      },
+    });
+  }
+}
@@ -0,0 +1,171 @@
+import { posix } from 'path';
+import { Transform } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import type { Struct } from '@strapi/types';
+
+/**
+ * Layout of a Strapi data directory, paths are relative to its root
+ */
+export const METADATA_FILE_PATH = 'metadata.json';
+export const SCHEMAS_FILE_PATH = 'schemas.jsonl';
+export const ENTITIES_DIRECTORY = 'entities';
+export const LINKS_FILE_PATH = 'links.jsonl';
+export const CONFIGURATION_FILE_PATH = 'configuration.jsonl';
+export const ASSETS_MANIFEST_FILE_PATH = posix.join('assets', 'manifest.jsonl');
+export const ASSETS_UPLOADS_DIRECTORY = posix.join('assets', 'uploads');
+
+export type EntitiesFileFormat = 'jsonl' | 'csv';
+
+/**
+ * Get the path of the file containing the entities of a given schema, without its extension
+ *
+ * The "::" separator of the UIDs is replaced by a dot as it is not allowed in Windows file names.
+ * Content types UIDs always contain two dots once converted and components UIDs only one, so the
+ * converted names can't collide.
+ */
+export const getEntitiesFilePath = (uid: string, format: EntitiesFileFormat) => {
+  return posix.join(ENTITIES_DIRECTORY, `${uid.replace('::', '.')}.${format}`);
+};
+
+// Attributes whose values can't be represented in a single CSV cell
+const NESTED_ATTRIBUTE_TYPES = ['component', 'dynamiczone', 'json', 'blocks'];
+
+/**
+ * Check if the entities of a schema only contain scalar values and can be written as CSV rows
+ */
+export const isFlatSchema = (schema: Struct.Schema) => {
+  return Object.values(schema.attributes).every(
+    (attribute) => !NESTED_ATTRIBUTE_TYPES.includes(attribute.type)
+  );
+};
+
+export type CSVValue = string | number | boolean | null;
+
+/**
+ * Convert a list of scalar values to a CSV row, terminated by a line break
+ *
+ * Strings are always quoted so that they can be told apart from the other values when parsing the
+ * row: numbers and booleans are written as is, and null values as empty cells.
+ */
+export const stringifyCSVRow = (values: unknown[]) => {
+  const cells = values.map((value) => {
+    if (value === null || value === undefined) {
+      return '';
+    }
+
+    if (typeof value === 'string') {
+      return `"${value.replace(/"/g, '""')}"`;
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    throw new Error(`Unexpected CSV value: ${JSON.stringify(value)}`);
+  });
+
+  return `${cells.join(',')}\n`;
+};
+
+/**
+ * Convert an unquoted CSV cell back to its value, following the conventions of stringifyCSVRow
+ */
+const parseUnquotedCell = (cell: string): CSVValue => {
+  if (cell === '') {
+    return null;
+  }
+
+  if (cell === 'true' || cell === 'false') {
+    return cell === 'true';
+  }
+
+  const number = Number(cell);
+
+  // Keep the cells of hand-edited files that are not numbers as strings
+  return Number.isNaN(number) ? cell : number;
+};
+
+/**
+ * Create a transform stream which parses CSV text into rows (arrays of values)
+ *
+ * Quoted cells can contain separators, line breaks and escaped ("") quotes.
+ */
+export const createCSVParser = () => {
+  let row: CSVValue[] = [];
+  let cell = '';
+  let isQuoted = false;
+  // Whether the parser is between the quotes of a cell
+  let inQuotes = false;
+  // Whether the last character was a quote closing a quoted section, or the first half of an escaped quote
+  let afterQuote = false;
+  const decoder = new StringDecoder('utf8');
+
+  const endCell = () => {
+    row.push(isQuoted ? cell : parseUnquotedCell(cell));
+    cell = '';
+    isQuoted = false;
+    afterQuote = false;
+  };
+
+  const endRow = (stream: Transform) => {
+    endCell();
+    stream.push(row);
+    row = [];
+  };
+
+  const parse = (stream: Transform, text: string) => {
+    for (const char of text) {
+      if (inQuotes) {
+        if (char === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        // A quote right after a closing quote is an escaped quote
+        if (afterQuote) {
+          cell += '"';
+        }
+
+        inQuotes = true;
+        isQuoted = true;
+        afterQuote = false;
+      } else if (char === ',') {
+        endCell();
+      } else if (char === '\n') {
+        endRow(stream);
+      } else if (char !== '\r') {
+        cell += char;
+        afterQuote = false;
+      }
+    }
+  };
+
+  return new Transform({
+    readableObjectMode: true,
+
+    transform(chunk: Buffer | string, _encoding, callback) {
+      // A multi-byte character can be split across two chunks
+      parse(this, typeof chunk === 'string' ? chunk : decoder.write(chunk));
+
+      callback();
+    },
+
+    flush(callback) {
+      parse(this, decoder.end());
+
+      if (inQuotes) {
+        callback(new Error('Unexpected end of CSV data, a quoted cell is not closed'));
+        return;
+      }
+
+      // Ignore the trailing line break of the last row
+      if (row.length > 0 || cell !== '' || isQuoted) {
+        endRow(this);
+      }
+
+      callback();
+    },
+  });
+};
@@ -0,0 +1,253 @@
+import path from 'path';
+import { Readable } from 'stream';
+import fs from 'fs-extra';
+import { isEmpty, keyBy } from 'lodash/fp';
+import { chain } from 'stream-chain';
+import { parser } from 'stream-json/jsonl/Parser';
+import type { Struct } from '@strapi/types';
+
+import type {
+  IAsset,
+  IEntity,
+  IFile,
+  IMetadata,
+  ISourceProvider,
+  ProviderType,
+} from '../../../../types';
+import type { IDiagnosticReporter } from '../../../utils/diagnostic';
+
+import * as utils from '../../../utils';
+import { ProviderInitializationError, ProviderTransferError } from '../../../errors/providers';
+import {
+  ASSETS_MANIFEST_FILE_PATH,
+  ASSETS_UPLOADS_DIRECTORY,
+  CONFIGURATION_FILE_PATH,
+  createCSVParser,
+  CSVValue,
+  getEntitiesFilePath,
+  LINKS_FILE_PATH,
+  METADATA_FILE_PATH,
+  SCHEMAS_FILE_PATH,
+} from './format';
+
+export interface ILocalDirectorySourceProviderOptions {
+  directory: {
+    path: string; // the directory to load
+  };
+}
+
+interface IAssetManifestEntry {
+  filename: string;
+  size: number;
+  metadata: IFile;
+}
+
+export const createLocalDirectorySourceProvider = (
+  options: ILocalDirectorySourceProviderOptions
+) => {
+  return new LocalDirectorySourceProvider(options);
+};
+
+class LocalDirectorySourceProvider implements ISourceProvider {
+  type: ProviderType = 'source';
+
+  name = 'source::local-directory';
+
+  options: ILocalDirectorySourceProviderOptions;
+
+  #metadata?: IMetadata;
+
+  #diagnostics?: IDiagnosticReporter;
+
+  constructor(options: ILocalDirectorySourceProviderOptions) {
+    this.options = options;
+  }
+
+  #reportInfo(message: string) {
+    this.#diagnostics?.report({
+      details: {
+        createdAt: new Date(),
+        message,
+        origin: 'directory-source-provider',
+      },
+      kind: 'info',
+    });
+  }
+
+  #resolve(filePath: string) {
+    return path.join(this.options.directory.path, filePath);
+  }
+
+  async bootstrap(diagnostics: IDiagnosticReporter) {
+    this.#diagnostics = diagnostics;
+    const { path: directoryPath } = this.options.directory;
+
+    try {
+      await this.#loadMetadata();
+    } catch (e) {
+      throw new ProviderInitializationError(
+        `Directory '${directoryPath}' is not a valid Strapi data directory.`
+      );
+    }
+  }
+
+  async #loadMetadata() {
+    this.#metadata = await fs.readJSON(this.#resolve(METADATA_FILE_PATH));
+  }
+
+  async getMetadata() {
+    this.#reportInfo('getting metadata');
+    if (!this.#metadata) {
+      await this.#loadMetadata();
+    }
+
+    return this.#metadata ?? null;
+  }
+
+  async #loadSchemas() {
+    return utils.stream.collect<Struct.Schema>(this.createSchemasReadStream());
+  }
+
+  async getSchemas() {
+    this.#reportInfo('getting schemas');
+    const schemaCollection = await this.#loadSchemas();
+
+    if (isEmpty(schemaCollection)) {
+      throw new ProviderInitializationError('Could not load schemas from Strapi data directory.');
+    }
+
+    // Group schema by UID
+    const schemas = keyBy('uid', schemaCollection);
+
+    // Transform to valid JSON
+    return utils.schema.schemasToValidJSON(schemas);
+  }
+
+  createSchemasReadStream(): Readable {
+    this.#reportInfo('creating schemas read stream');
+    return this.#streamJsonlFile(SCHEMAS_FILE_PATH);
+  }
+
+  createEntitiesReadStream(): Readable {
+    this.#reportInfo('creating entities read stream');
+    const loadSchemas = this.#loadSchemas.bind(this);
+    const resolve = this.#resolve.bind(this);
+    const streamJsonlFile = this.#streamJsonlFile.bind(this);
+    const streamCSVFile = this.#streamCSVFile.bind(this);
+
+    return Readable.from(
+      (async function* entitiesGenerator(): AsyncGenerator<IEntity> {
+        // The schemas are used to find the entities files since their names can't be converted back to UIDs
+        for (const { uid } of await loadSchemas()) {
+          const jsonlFilePath = getEntitiesFilePath(uid, 'jsonl');
+          const csvFilePath = getEntitiesFilePath(uid, 'csv');
+
+          let rows: Readable | undefined;
+
+          if (await fs.pathExists(resolve(jsonlFilePath))) {
+            rows = streamJsonlFile(jsonlFilePath);
+          } else if (await fs.pathExists(resolve(csvFilePath))) {
+            rows = streamCSVFile(csvFilePath);
+          }
+
+          if (!rows) {
+            continue;
+          }
+
+          for await (const { id, ...data } of rows) {
+            yield { type: uid, id, data } as IEntity;
+          }
+        }
+      })()
+    );
+  }
+
+  createLinksReadStream(): Readable {
+    this.#reportInfo('creating links read stream');
+    return this.#streamJsonlFile(LINKS_FILE_PATH);
+  }
+
+  createConfigurationReadStream(): Readable {
+    this.#reportInfo('creating configuration read stream');
+    return this.#streamJsonlFile(CONFIGURATION_FILE_PATH);
+  }
+
+  createAssetsReadStream(): Readable {
+    this.#reportInfo('creating assets read stream');
+    const manifest = this.#streamJsonlFile(ASSETS_MANIFEST_FILE_PATH);
+    const resolve = this.#resolve.bind(this);
+
+    return Readable.from(
+      (async function* assetsGenerator(): AsyncGenerator<IAsset> {
+        for await (const entry of manifest) {
+          const { filename, size, metadata } = entry as IAssetManifestEntry;
+          const filepath = path.posix.join(ASSETS_UPLOADS_DIRECTORY, filename);
+
+          yield {
+            filename,
+            filepath,
+            metadata,
+            stats: { size },
+            stream: fs.createReadStream(resolve(filepath)),
+          };
+        }
+      })()
+    );
+  }
+
+  /**
+   * Stream the lines of a JSONL file as objects, or nothing if the file doesn't exist
+   */
+  #streamJsonlFile(filePath: string): Readable {
+    if (!fs.existsSync(this.#resolve(filePath))) {
+      return Readable.from([]);
+    }
+
+    const stream = chain([
+      fs.createReadStream(this.#resolve(filePath)),
+      // JSONL parser to read the data chunks one by one (line by line)
+      parser({ checkErrors: true }),
+      // The JSONL parser returns each line as key/value
+      (line: { key: string; value: object }) => line.value,
+    ]);
+
+    return this.#wrapParseErrors(stream, filePath);
+  }
+
+  /**
+   * Stream the rows of a CSV file as objects whose keys are the columns of its header row
+   */
+  #streamCSVFile(filePath: string): Readable {
+    let columns: string[] | undefined;
+
+    const stream = chain([
+      fs.createReadStream(this.#resolve(filePath)),
+      createCSVParser(),
+      (values: CSVValue[]) => {
+        if (!columns) {
+          columns = values.map(String);
+          return null;
+        }
+
+        return Object.fromEntries(values.map((value, index) => [columns?.[index], value]));
+      },
+    ]);
+
+    return this.#wrapParseErrors(stream, filePath);
+  }
+
+  #wrapParseErrors(stream: Readable, filePath: string): Readable {
+    return Readable.from(
+      (async function* parseErrorsGenerator() {
+        try {
+          yield* stream;
+        } catch (e) {
+          throw new ProviderTransferError(
+            `Error parsing the data file ${filePath}: ${(e as Error).message}`,
+            { details: { error: e } }
+          );
+        }
+      })()
+    );
+  }
+}
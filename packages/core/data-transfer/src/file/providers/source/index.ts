@@ -35,6 +35,11 @@ export interface ILocalFileSourceProviderOptions {
   encryption: {
     enabled: boolean; // if the file is encrypted (and should be decrypted)
     key?: string; // the key to decrypt the file
+    privateKey?: string; // the private key (PEM) to decrypt a file encrypted for recipients, used instead of the key
+  };
+
+  signature?: {
+    trustedKeys: string[]; // the public keys (PEM) of the trusted signers, the file must be signed by one of them
   };
 
   compression: {
@@ -62,7 +67,7 @@ class LocalFileSourceProvider implements ISourceProvider {
 
     const { encryption } = this.options;
 
-    if (encryption.enabled && encryption.key === undefined) {
+    if (encryption.enabled && encryption.key === undefined && encryption.privateKey === undefined) {
       throw new Error('Missing encryption key');
     }
   }
@@ -84,6 +89,22 @@ class LocalFileSourceProvider implements ISourceProvider {
   async bootstrap(diagnostics: IDiagnosticReporter) {
     this.#diagnostics = diagnostics;
     const { path: filePath } = this.options.file;
+    const { signature } = this.options;
+
+    if (signature) {
+      this.#reportInfo('verifying signature');
+      let isSigned = false;
+
+      try {
+        isSigned = await utils.encryption.verifyFileSignature(filePath, signature.trustedKeys);
+      } catch {
+        // invalid keys or signature file, the file is considered as not signed
+      }
+
+      if (!isSigned) {
+        throw new ProviderInitializationError(`File '${filePath}' is not signed by a trusted key.`);
+      }
+    }
 
     try {
       // Read the metadata to ensure the file can be parsed
@@ -215,7 +236,9 @@ class LocalFileSourceProvider implements ISourceProvider {
       throw new Error(`Could not read backup file path provided at "${this.options.file.path}"`);
     }
 
-    if (encryption.enabled && encryption.key) {
+    if (encryption.enabled && encryption.privateKey) {
+      streams.push(utils.encryption.createRecipientsDecryptionStream(encryption.privateKey));
+    } else if (encryption.enabled && encryption.key) {
       streams.push(utils.encryption.createDecryptionCipher(encryption.key));
     }
 
@@ -164,4 +164,33 @@ describe('Local Strapi Destination Provider - Get Assets Stream', () => {
       expect(error.message).toBe('File ID not found for ID: 1'); // Customize as needed
     });
   });
+
+  test('Forwards the errors of the asset streams during a dry run', async () => {
+    const provider = createLocalStrapiDestinationProvider({
+      getStrapi: () => createStrapi(),
+      strategy: 'merge',
+      merge: { dryRun: true },
+      restore: {
+        assets: true,
+      },
+    });
+    await provider.bootstrap();
+
+    const stream = await provider.createAssetsWriteStream();
+    const asset = {
+      filename: 'test-photo.jpg',
+      stream: new Readable({
+        read() {
+          this.destroy(new Error('Unreadable asset'));
+        },
+      }),
+    } as unknown as IAsset;
+
+    await expect(
+      new Promise<void>((resolve, reject) => {
+        stream.on('error', reject);
+        stream.write(asset, (error) => (error ? reject(error) : resolve()));
+      })
+    ).rejects.toThrow('Unreadable asset');
+  });
 });
@@ -252,5 +252,28 @@ describe('Local Strapi Source Destination', () => {
 
       expect(deleteAllSpy).toBeCalledTimes(1);
     });
+
+    test('Should not delete any entity when merging', async () => {
+      const strapi = getStrapiFactory({
+        db: {
+          transaction,
+          lifecycles: {
+            enable: jest.fn(),
+            disable: jest.fn(),
+          },
+        },
+        ...strapiCommonProperties,
+      })();
+
+      const provider = createLocalStrapiDestinationProvider({
+        getStrapi: () => strapi,
+        strategy: 'merge',
+      });
+      const deleteAllSpy = jest.spyOn(restoreApi, 'deleteRecords');
+      await provider.bootstrap();
+      await provider.beforeTransfer();
+
+      expect(deleteAllSpy).not.toHaveBeenCalled();
+    });
   });
 });
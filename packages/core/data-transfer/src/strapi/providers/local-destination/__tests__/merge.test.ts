@@ -0,0 +1,134 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+import { createEntitiesWriteStream } from '../strategies/merge';
+import { getStrapiFactory, getContentTypes } from '../../../../__tests__/test-utils';
+import * as queries from '../../../queries';
+
+jest.mock('../../../queries', () => {
+  const create = jest.fn(async ({ data }) => ({ ...data, id: 100 }));
+  const update = jest.fn(async (id, { data }) => ({ ...data, id }));
+  const clear = jest.fn();
+  const findRef = jest.fn();
+
+  return {
+    entity: {
+      createEntityQuery: jest.fn(() => () => ({
+        create,
+        update,
+        getDeepPopulateComponentLikeQuery: jest.fn(() => ({})),
+      })),
+    },
+    identity: {
+      createIdentityQuery: jest.fn(() => ({
+        toIdentity: jest.fn((_uid, data) => ({ documentId: data.documentId })),
+        findRef,
+      })),
+    },
+    link: {
+      createLinkQuery: jest.fn(() => () => ({ clear })),
+    },
+    mocks: { create, update, clear, findRef },
+  };
+});
+
+const { create, update, clear, findRef } = (queries as any).mocks;
+
+const existing = { id: 5, documentId: 'doc', title: 'My first foo' };
+
+const getStrapi = () => {
+  return getStrapiFactory({
+    getModel: jest.fn((uid: 'foo' | 'bar') => getContentTypes()[uid]),
+    db: {
+      query: jest.fn(() => ({ findOne: jest.fn(async () => existing) })),
+    },
+  })();
+};
+
+const transaction = {
+  attach: jest.fn(async (handler) => handler({})),
+  end: jest.fn(),
+  rollback: jest.fn(),
+};
+
+const write = async (
+  options: Partial<Parameters<typeof createEntitiesWriteStream>[0]>,
+  data: any
+) => {
+  const updateMappingTable = jest.fn();
+  const onEntity = jest.fn();
+
+  await pipeline(
+    Readable.from([{ type: 'foo', id: 1, data }]),
+    createEntitiesWriteStream({
+      strapi: getStrapi(),
+      updateMappingTable,
+      transaction,
+      onEntity,
+      ...options,
+    })
+  );
+
+  return { updateMappingTable, onEntity };
+};
+
+describe('Merge strategy', () => {
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('Creates the entities without a match', async () => {
+    findRef.mockResolvedValueOnce(undefined);
+
+    const { updateMappingTable, onEntity } = await write({}, { documentId: 'new', title: 'New' });
+
+    expect(create).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { documentId: 'new', title: 'New' } })
+    );
+    expect(update).not.toHaveBeenCalled();
+    expect(clear).not.toHaveBeenCalled();
+    expect(updateMappingTable).toHaveBeenCalledWith('foo', 1, 100);
+    expect(onEntity).toHaveBeenCalledWith('foo', 'created');
+  });
+
+  test('Updates the matching entities and removes the links they own', async () => {
+    findRef.mockResolvedValueOnce(5);
+
+    const { updateMappingTable, onEntity } = await write(
+      {},
+      { documentId: 'doc', title: 'Updated foo' }
+    );
+
+    expect(clear).toHaveBeenCalledWith('foo', 5, { inverse: false });
+    expect(update).toHaveBeenCalledWith(
+      5,
+      expect.objectContaining({ data: { documentId: 'doc', title: 'Updated foo' } })
+    );
+    expect(create).not.toHaveBeenCalled();
+    expect(updateMappingTable).toHaveBeenCalledWith('foo', 1, 5);
+    expect(onEntity).toHaveBeenCalledWith('foo', 'updated');
+  });
+
+  test('Skips the matching entities without changes', async () => {
+    findRef.mockResolvedValueOnce(5);
+
+    const { updateMappingTable, onEntity } = await write(
+      {},
+      { documentId: 'doc', title: 'My first foo' }
+    );
+
+    expect(update).not.toHaveBeenCalled();
+    expect(create).not.toHaveBeenCalled();
+    expect(updateMappingTable).toHaveBeenCalledWith('foo', 1, 5);
+    expect(onEntity).toHaveBeenCalledWith('foo', 'skipped');
+  });
+
+  test('Matches the entities on the configured attribute and keeps their document ID', async () => {
+    findRef.mockResolvedValueOnce(5);
+
+    await write({ matchBy: { foo: 'title' } }, { documentId: 'other', title: 'My first foo' });
+
+    expect(findRef).toHaveBeenCalledWith('foo', { documentId: 'other' }, { title: 'My first foo' });
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,5 @@
 import { Writable, Readable } from 'stream';
+import { finished } from 'stream/promises';
 import path from 'path';
 import * as fse from 'fs-extra';
 import type { Knex } from 'knex';
@@ -13,7 +14,7 @@ import type {
 } from '../../../../types';
 import type { IDiagnosticReporter } from '../../../utils/diagnostic';
 
-import { restore } from './strategies';
+import { merge, restore } from './strategies';
 import * as utils from '../../../utils';
 import {
   ProviderInitializationError,
@@ -22,7 +23,7 @@ import {
 } from '../../../errors/providers';
 import { assertValidStrapi } from '../../../utils/providers';
 
-export const VALID_CONFLICT_STRATEGIES = ['restore'];
+export const VALID_CONFLICT_STRATEGIES = ['restore', 'merge'];
 export const DEFAULT_CONFLICT_STRATEGY = 'restore';
 
 export interface ILocalStrapiDestinationProviderOptions {
@@ -30,7 +31,13 @@ export interface ILocalStrapiDestinationProviderOptions {
 
   autoDestroy?: boolean; // shut down the instance returned by getStrapi() at the end of the transfer
   restore?: restore.IRestoreOptions; // erase data in strapi database before transfer; required if strategy is 'restore'
-  strategy: 'restore'; // conflict management strategy; only the restore strategy is available at this time
+  merge?: merge.IMergeOptions; // how to match the existing entities when strategy is 'merge'
+  strategy: 'restore' | 'merge'; // conflict management strategy; 'merge' updates the matching entities and keeps the other data
+  incremental?: boolean; // keep the existing data and update the entities matching the transferred ones instead of erasing everything
+}
+
+export interface ILocalStrapiDestinationProviderResults {
+  merge?: merge.IMergeReport; // what has been created, updated or skipped for each content type when merging
 }
 
 class LocalStrapiDestinationProvider implements IDestinationProvider {
@@ -40,6 +47,8 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
 
   options: ILocalStrapiDestinationProviderOptions;
 
+  results: ILocalStrapiDestinationProviderResults = {};
+
   strapi?: Core.Strapi;
 
   transaction?: Transaction;
@@ -55,6 +64,8 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
    */
   #entitiesMapper: { [type: string]: { [id: number]: number } };
 
+  #sourceMetadata?: IMetadata;
+
   constructor(options: ILocalStrapiDestinationProviderOptions) {
     this.options = options;
     this.#entitiesMapper = {};
@@ -88,6 +99,33 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
     return !excluded && !notIncluded;
   };
 
+  /**
+   * Incremental and partial transfers are always merged so that the data outside of the transfer is kept
+   */
+  #isMerging = () => {
+    return Boolean(
+      this.options.strategy === 'merge' ||
+        this.options.incremental ||
+        this.#sourceMetadata?.selection
+    );
+  };
+
+  #isDryRun = () => {
+    return this.#isMerging() && Boolean(this.options.merge?.dryRun);
+  };
+
+  #reportMerge = (type: string, action: merge.MergeAction) => {
+    if (!this.results.merge) {
+      this.results.merge = {};
+    }
+
+    if (!this.results.merge[type]) {
+      this.results.merge[type] = { created: 0, updated: 0, skipped: 0 };
+    }
+
+    this.results.merge[type][action] += 1;
+  };
+
   #reportInfo(message: string) {
     this.#diagnostics?.report({
       details: {
@@ -102,7 +140,14 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
   async close(): Promise<void> {
     const { autoDestroy } = this.options;
     assertValidStrapi(this.strapi);
-    this.transaction?.end();
+
+    // Nothing is persisted during a dry run, only the merge report is kept
+    if (this.#isDryRun()) {
+      await this.transaction?.rollback();
+    } else {
+      this.transaction?.end();
+    }
+
     this.strapi.db.lifecycles.enable();
     // Basically `!== false` but more deterministic
     if (autoDestroy === undefined || autoDestroy === true) {
@@ -179,7 +224,8 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
 
     await this.transaction?.attach(async (trx) => {
       try {
-        if (this.options.strategy === 'restore') {
+        // Merged transfers only add or update data, nothing is erased beforehand
+        if (this.options.strategy === 'restore' && !this.#isMerging()) {
           await this.#handleAssetsBackup();
           await this.#deleteAllAssets(trx);
           await this.#deleteFromRestoreOptions();
@@ -190,6 +236,14 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
     });
   }
 
+  setMetadata(target: ProviderType, metadata: IMetadata): IDestinationProvider {
+    if (target === 'source') {
+      this.#sourceMetadata = metadata;
+    }
+
+    return this;
+  }
+
   getMetadata(): IMetadata {
     this.#reportInfo('getting metadata');
     assertValidStrapi(this.strapi, 'Not able to get Schemas');
@@ -229,6 +283,18 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
       Object.assign(this.#entitiesMapper[type], { [oldID]: newID });
     };
 
+    if (this.#isMerging()) {
+      return merge.createEntitiesWriteStream({
+        strapi: this.strapi,
+        updateMappingTable,
+        transaction: this.transaction,
+        matchBy: this.options.merge?.matchBy,
+        // Incremental sources send the links of the changed entities from both sides
+        clearInverseLinks: this.options.incremental,
+        onEntity: this.#reportMerge,
+      });
+    }
+
     if (strategy === 'restore') {
       return restore.createEntitiesWriteStream({
         strapi: this.strapi,
@@ -316,6 +382,16 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
       );
     }
 
+    // The assets are read but not uploaded during a dry run
+    if (this.#isDryRun()) {
+      return new Writable({
+        objectMode: true,
+        write(chunk: IAsset, _encoding, callback) {
+          finished(chunk.stream.resume()).then(() => callback(), callback);
+        },
+      });
+    }
+
     const removeAssetsBackup = this.#removeAssetsBackup.bind(this);
     const strapi = this.strapi;
     const transaction = this.transaction;
@@ -403,6 +479,24 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
     this.#reportInfo('creating configuration write stream');
     const { strategy } = this.options;
 
+    // The configuration can't be matched with the existing one, it is left untouched when merging
+    if (this.#isMerging()) {
+      const onWarning = this.onWarning?.bind(this);
+      let hasWarned = false;
+
+      return new Writable({
+        objectMode: true,
+        write(_config, _encoding, callback) {
+          if (!hasWarned) {
+            onWarning?.('The configuration is not transferred when merging data');
+            hasWarned = true;
+          }
+
+          callback();
+        },
+      });
+    }
+
     if (strategy === 'restore') {
       return restore.createConfigurationWriteStream(this.strapi, this.transaction);
     }
@@ -423,8 +517,10 @@ class LocalStrapiDestinationProvider implements IDestinationProvider {
     const { strategy } = this.options;
     const mapID = (uid: string, id: number): number | undefined => this.#entitiesMapper[uid]?.[id];
 
-    if (strategy === 'restore') {
-      return restore.createLinksWriteStream(mapID, this.strapi, this.transaction, this.onWarning);
+    if (strategy === 'restore' || strategy === 'merge') {
+      return restore.createLinksWriteStream(mapID, this.strapi, this.transaction, this.onWarning, {
+        incremental: this.#isMerging(),
+      });
     }
 
     throw new ProviderValidationError(`Invalid strategy ${strategy}`, {
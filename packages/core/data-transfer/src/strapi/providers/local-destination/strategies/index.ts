@@ -1 +1,2 @@
 export * as restore from './restore';
+export * as merge from './merge';
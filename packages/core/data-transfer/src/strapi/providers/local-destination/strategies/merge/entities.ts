@@ -0,0 +1,168 @@
+import { Writable } from 'stream';
+import type { Core, UID } from '@strapi/types';
+
+import { isNil, last } from 'lodash/fp';
+
+import { ProviderTransferError } from '../../../../../errors/providers';
+import type { IEntity, Transaction } from '../../../../../../types';
+import { json } from '../../../../../utils';
+import * as queries from '../../../../queries';
+import { resolveComponentUID } from '../../../../../utils/components';
+import type { IMergeOptions, MergeAction } from '.';
+
+interface IEntitiesMergeStreamOptions {
+  strapi: Core.Strapi;
+  updateMappingTable<TSchemaUID extends UID.Schema>(
+    type: TSchemaUID,
+    oldID: number,
+    newID: number
+  ): void;
+  transaction?: Transaction;
+  matchBy?: IMergeOptions['matchBy'];
+  clearInverseLinks?: boolean; // also remove the links pointing to the matched entities, for sources sending them again
+  onEntity?(type: string, action: MergeAction): void;
+}
+
+/**
+ * Create a write stream which updates the existing entities matching the transferred ones and creates the others
+ *
+ * Entities are matched by their document ID (or the configured unique attribute), locale and publication state.
+ * The links owned by the matched entities are removed as the source sends them again, the other data is left intact.
+ */
+export const createEntitiesWriteStream = (options: IEntitiesMergeStreamOptions) => {
+  const {
+    strapi,
+    updateMappingTable,
+    transaction,
+    matchBy = {},
+    clearInverseLinks = false,
+    onEntity,
+  } = options;
+  const query = queries.entity.createEntityQuery(strapi);
+  const identities = queries.identity.createIdentityQuery(strapi);
+
+  const findExistingRef = async (type: string, data: Record<string, unknown>) => {
+    const identity = identities.toIdentity(type, data);
+    const field = matchBy[type];
+
+    if (!identity) {
+      return undefined;
+    }
+
+    if (!field) {
+      return identities.findRef(type, identity);
+    }
+
+    if (isNil(data[field])) {
+      return undefined;
+    }
+
+    return identities.findRef(type, identity, { [field]: data[field] });
+  };
+
+  return new Writable({
+    objectMode: true,
+
+    async write(entity: IEntity, _encoding, callback) {
+      await transaction?.attach(async (trx) => {
+        const { type, id } = entity;
+        const { create, update, getDeepPopulateComponentLikeQuery } = query(type);
+        const contentType = strapi.getModel(type);
+        const links = queries.link.createLinkQuery(strapi, trx)();
+
+        const updateComponentsMappingTable = (diffs: json.Diff[]) => {
+          const mapped: [UID.Schema, number][] = [];
+
+          // For each difference found on an ID attribute,
+          // update the mapping the table accordingly
+          diffs.forEach((diff) => {
+            if (diff.kind === 'modified' && last(diff.path) === 'id' && 'kind' in contentType) {
+              const target = resolveComponentUID({
+                paths: diff.path,
+                data: entity.data,
+                contentType,
+                strapi,
+              });
+
+              // If no type is found for the given path, then ignore the diff
+              if (!target) {
+                return;
+              }
+
+              const [oldID, newID] = diff.values as [number, number];
+
+              updateMappingTable(target, oldID, newID);
+              mapped.push([target, newID]);
+            }
+          });
+
+          return mapped;
+        };
+
+        try {
+          const existingRef = await findExistingRef(type, entity.data);
+
+          if (existingRef === undefined) {
+            const created = await create({
+              data: entity.data,
+              populate: getDeepPopulateComponentLikeQuery(contentType, { select: 'id' }),
+              select: 'id',
+            });
+
+            updateMappingTable(type, id, created.id);
+            updateComponentsMappingTable(json.diff(entity.data, created));
+            onEntity?.(type, 'created');
+
+            return callback(null);
+          }
+
+          const existing = await strapi.db.query(type).findOne({
+            where: { id: existingRef },
+            populate: getDeepPopulateComponentLikeQuery(contentType),
+          });
+
+          // Entities matched on another attribute keep their document ID to stay grouped with their other versions
+          const data = {
+            ...(entity.data as Record<string, unknown>),
+            documentId: existing.documentId,
+          };
+          const diffs = json.diff(data, existing);
+          const hasChanges = diffs.some((diff) => last(diff.path) !== 'id');
+
+          updateMappingTable(type, id, existingRef);
+
+          // The links of a matched entity are transferred again, so the current ones are removed
+          await links.clear(type, existingRef, { inverse: clearInverseLinks });
+
+          if (!hasChanges) {
+            // The components are kept, their links are transferred again as well
+            for (const [componentUID, componentRef] of updateComponentsMappingTable(diffs)) {
+              await links.clear(componentUID, componentRef, { inverse: clearInverseLinks });
+            }
+
+            onEntity?.(type, 'skipped');
+
+            return callback(null);
+          }
+
+          const updated = await update(existingRef, {
+            data,
+            populate: getDeepPopulateComponentLikeQuery(contentType, { select: 'id' }),
+            select: 'id',
+          });
+
+          updateComponentsMappingTable(json.diff(data, updated));
+          onEntity?.(type, 'updated');
+        } catch (e) {
+          if (e instanceof Error) {
+            return callback(e);
+          }
+
+          return callback(new ProviderTransferError(`Failed to merge "${type}" (${id})`));
+        }
+
+        return callback(null);
+      });
+    },
+  });
+};
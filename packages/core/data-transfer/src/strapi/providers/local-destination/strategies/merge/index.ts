@@ -0,0 +1,12 @@
+export interface IMergeOptions {
+  matchBy?: { [uid: string]: string }; // unique attribute used to match the existing entities of a content type instead of their document ID
+  dryRun?: boolean; // report what would be created, updated or skipped and roll everything back at the end of the transfer
+}
+
+export type MergeAction = 'created' | 'updated' | 'skipped';
+
+export interface IMergeReport {
+  [uid: string]: { [action in MergeAction]: number };
+}
+
+export * from './entities';
@@ -3,6 +3,7 @@ import type { Core } from '@strapi/types';
 import { ProviderTransferError } from '../../../../../errors/providers';
 import { ILink, Transaction } from '../../../../../../types';
 import { createLinkQuery } from '../../../../queries/link';
+import { createIdentityQuery } from '../../../../queries/identity';
 
 interface ErrorWithCode extends Error {
   code: string;
@@ -28,8 +29,25 @@ export const createLinksWriteStream = (
   mapID: (uid: string, id: number) => number | undefined,
   strapi: Core.Strapi,
   transaction?: Transaction,
-  onWarning?: (message: string) => void
+  onWarning?: (message: string) => void,
+  { incremental = false }: { incremental?: boolean } = {}
 ) => {
+  const identities = createIdentityQuery(strapi);
+
+  /**
+   * Incremental transfers link entities that may not have been transferred, those are
+   * resolved using their identity instead of keeping a reference that only exists in the source
+   */
+  const resolveRef = async (side: ILink['left'] | ILink['right']) => {
+    const ref = mapID(side.type, side.ref);
+
+    if (ref !== undefined || !incremental) {
+      return ref ?? side.ref;
+    }
+
+    return side.identity ? identities.findRef(side.type, side.identity) : undefined;
+  };
+
   return new Writable({
     objectMode: true,
     async write(link: ILink, _encoding, callback) {
@@ -41,8 +59,18 @@ export const createLinksWriteStream = (
         const originalRightRef = right.ref;
 
         // Map IDs if needed
-        left.ref = mapID(left.type, originalLeftRef) ?? originalLeftRef;
-        right.ref = mapID(right.type, originalRightRef) ?? originalRightRef;
+        const leftRef = await resolveRef(left);
+        const rightRef = await resolveRef(right);
+
+        if (leftRef === undefined || rightRef === undefined) {
+          onWarning?.(
+            `Skipping link ${left.type}:${originalLeftRef} -> ${right.type}:${originalRightRef} as one of its entities could not be found.`
+          );
+          return callback(null);
+        }
+
+        left.ref = leftRef;
+        right.ref = rightRef;
 
         try {
           await query().insert(link);
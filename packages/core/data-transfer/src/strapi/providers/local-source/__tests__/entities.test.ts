@@ -85,6 +85,42 @@ describe('Local Strapi Source Provider - Entities Streaming', () => {
         );
       });
     });
+
+    test('Should only stream the entities updated since the given date', async () => {
+      const since = new Date('2024-01-01T00:00:00.000Z');
+      const where = jest.fn().mockReturnThis();
+      const queryBuilder = jest.fn(() => ({
+        select: jest.fn().mockReturnThis(),
+        populate: jest.fn().mockReturnThis(),
+        where,
+        stream: () => Readable.from([{ id: 1, title: 'Updated title' }]),
+      }));
+      const contentTypes = getContentTypes();
+      const strapi = getStrapiFactory({
+        contentTypes,
+        db: {
+          queryBuilder,
+          metadata: {
+            get: jest.fn((uid) => ({
+              attributes: uid === 'foo' ? { updatedAt: { type: 'datetime' } } : {},
+            })),
+          },
+        },
+        getModel: jest.fn((uid) => {
+          return contentTypes[uid];
+        }),
+      })();
+
+      const results = await collect(createEntitiesStream(strapi, { since }));
+
+      expect(results).toHaveLength(2);
+      // The entities updated a few minutes before the given date are streamed again
+      expect(where).toHaveBeenCalledWith({
+        updatedAt: { $gt: new Date('2023-12-31T23:55:00.000Z') },
+      });
+      // Models without an updatedAt attribute are always fully streamed
+      expect(where).toHaveBeenCalledWith({});
+    });
   });
 
   describe('Create Entities Transform Stream', () => {
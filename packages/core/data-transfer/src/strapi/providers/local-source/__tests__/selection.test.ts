@@ -0,0 +1,118 @@
+import { getSelectedReferences } from '../selection';
+
+const models: Record<string, any> = {
+  'api::article.article': {
+    uid: 'api::article.article',
+    attributes: {
+      title: { type: 'string' },
+      locale: { type: 'string' },
+      cover: { type: 'media' },
+      category: {
+        type: 'relation',
+        relation: 'manyToOne',
+        target: 'api::category.category',
+        inversedBy: 'articles',
+      },
+      seo: { type: 'component', component: 'shared.seo' },
+    },
+  },
+  'api::category.category': {
+    uid: 'api::category.category',
+    attributes: {
+      name: { type: 'string' },
+      articles: {
+        type: 'relation',
+        relation: 'oneToMany',
+        target: 'api::article.article',
+        mappedBy: 'category',
+      },
+    },
+  },
+  'shared.seo': {
+    uid: 'shared.seo',
+    attributes: {
+      image: { type: 'media' },
+    },
+  },
+  'plugin::upload.file': {
+    uid: 'plugin::upload.file',
+    attributes: {
+      name: { type: 'string' },
+    },
+  },
+};
+
+const entities: Record<string, any[]> = {
+  'api::article.article': [
+    { id: 1, locale: 'en', cover: { id: 10 }, category: { id: 20 }, seo: { id: 30, image: null } },
+  ],
+  'api::category.category': [{ id: 20 }],
+  'plugin::upload.file': [{ id: 10 }],
+};
+
+const getStrapi = () => {
+  const findMany = jest.fn();
+
+  const strapi: any = {
+    contentTypes: {
+      'api::article.article': models['api::article.article'],
+      'api::category.category': models['api::category.category'],
+    },
+    getModel: jest.fn((uid: string) => models[uid]),
+    db: {
+      metadata: {
+        get: jest.fn((uid: string) => models[uid]),
+      },
+      query: jest.fn((uid: string) => ({
+        findMany: findMany.mockImplementationOnce(async () => entities[uid] ?? []),
+      })),
+    },
+  };
+
+  return { strapi, findMany };
+};
+
+describe('Local Strapi Source Provider - Selection', () => {
+  test('Collects the selected entities along with their components and dependencies', async () => {
+    const { strapi } = getStrapi();
+
+    const references = await getSelectedReferences(strapi, {
+      contentTypes: ['api::article.article'],
+    });
+
+    expect(references).toEqual(
+      new Map([
+        ['api::article.article', new Set([1])],
+        ['shared.seo', new Set([30])],
+        ['plugin::upload.file', new Set([10])],
+        ['api::category.category', new Set([20])],
+      ])
+    );
+  });
+
+  test('Applies the filters and locales to the selected content types', async () => {
+    const { strapi, findMany } = getStrapi();
+
+    await getSelectedReferences(strapi, {
+      contentTypes: ['api::article.article'],
+      locales: ['en'],
+      filters: { title: { $contains: 'news' } },
+    });
+
+    expect(findMany).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        where: { title: { $contains: 'news' }, locale: { $in: ['en'] } },
+      })
+    );
+  });
+
+  test('Does not follow the inverse side of the relations', async () => {
+    const { strapi, findMany } = getStrapi();
+
+    await getSelectedReferences(strapi, { contentTypes: ['api::category.category'] });
+
+    expect(findMany).toHaveBeenCalledTimes(1);
+    expect(findMany).toHaveBeenCalledWith(expect.objectContaining({ populate: {} }));
+  });
+});
@@ -5,6 +5,8 @@ import * as webStream from 'stream/web';
 import type { Core } from '@strapi/types';
 
 import type { IAsset, IFile } from '../../../../types';
+import { getUpdatedSinceFilter } from './incremental';
+import type { References } from './selection';
 
 function getFileStream(
   filepath: string,
@@ -94,18 +96,33 @@ async function signFile(file: IFile) {
 
 /**
  * Generate and consume assets streams in order to stream each file individually
+ *
+ * When a date is given, only the files updated after it are streamed.
+ * When a selection is given, only the selected files are streamed.
  */
-export const createAssetsStream = (strapi: Core.Strapi): Duplex => {
+export const createAssetsStream = (
+  strapi: Core.Strapi,
+  { since, selection }: { since?: Date; selection?: Promise<References> } = {}
+): Duplex => {
   const generator: () => AsyncGenerator<IAsset, void> = async function* () {
+    const references = await selection;
+    const selected = references?.get('plugin::upload.file') ?? new Set();
+
     const stream: Readable = strapi.db
       .queryBuilder('plugin::upload.file')
       // Create a query builder instance (default type is 'select')
       // Fetch all columns
       .select('*')
+      // Only fetch the files updated since the given date
+      .where(getUpdatedSinceFilter(strapi, 'plugin::upload.file', since))
       // Get a readable stream
       .stream();
 
     for await (const file of stream) {
+      if (references && !selected.has(file.id)) {
+        continue;
+      }
+
       const isLocalProvider = file.provider === 'local';
       if (!isLocalProvider) {
         await signFile(file);
@@ -3,15 +3,31 @@ import type { Core, Struct } from '@strapi/types';
 
 import * as shared from '../../queries';
 import { IEntity } from '../../../../types';
+import { getUpdatedSinceFilter } from './incremental';
+import type { References } from './selection';
 
 /**
  * Generate and consume content-types streams in order to stream each entity individually
+ *
+ * When a date is given, only the entities updated after it are streamed.
+ * When a selection is given, only the selected entities are streamed.
  */
-export const createEntitiesStream = (strapi: Core.Strapi): Readable => {
+export const createEntitiesStream = (
+  strapi: Core.Strapi,
+  { since, selection }: { since?: Date; selection?: Promise<References> } = {}
+): Readable => {
   const contentTypes: Struct.ContentTypeSchema[] = Object.values(strapi.contentTypes);
 
   async function* contentTypeStreamGenerator() {
+    const references = await selection;
+
     for (const contentType of contentTypes) {
+      const selected = references?.get(contentType.uid);
+
+      if (references && !selected) {
+        continue;
+      }
+
       const query = shared.entity.createEntityQuery(strapi).call(null, contentType.uid);
 
       const stream: Readable = strapi.db
@@ -19,12 +35,14 @@ export const createEntitiesStream = (strapi: Core.Strapi): Readable => {
         .queryBuilder(contentType.uid)
         // Fetch all columns
         .select('*')
+        // Only fetch the entities updated since the given date
+        .where(getUpdatedSinceFilter(strapi, contentType.uid, since))
         // Apply the populate
         .populate(query.deepPopulateComponentLikeQuery)
         // Get a readable stream
         .stream();
 
-      yield { contentType, stream };
+      yield { contentType, stream, selected };
     }
   }
 
@@ -33,9 +51,13 @@ export const createEntitiesStream = (strapi: Core.Strapi): Readable => {
       entity: IEntity;
       contentType: Struct.ContentTypeSchema;
     }> {
-      for await (const { stream, contentType } of contentTypeStreamGenerator()) {
+      for await (const { stream, contentType, selected } of contentTypeStreamGenerator()) {
         try {
           for await (const entity of stream) {
+            if (selected && !selected.has(entity.id)) {
+              continue;
+            }
+
             yield { entity, contentType };
           }
         } catch {
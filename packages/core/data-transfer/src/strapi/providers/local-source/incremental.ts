@@ -0,0 +1,86 @@
+import { castArray } from 'lodash/fp';
+import type { Core, Struct } from '@strapi/types';
+
+import * as shared from '../../queries';
+
+/**
+ * Margin in milliseconds removed from the date of an incremental transfer. The entities saved
+ * around the start of the previous transfer, or stamped by an instance whose clock is behind, are
+ * transferred again rather than missed.
+ */
+export const SINCE_OVERLAP = 5 * 60 * 1000;
+
+/**
+ * Get the filter matching the entities of a model updated after the given date, minus the overlap.
+ *
+ * Every entity matches when no date is given or when the model has no updatedAt attribute.
+ */
+export const getUpdatedSinceFilter = (strapi: Core.Strapi, uid: string, since?: Date) => {
+  if (!since || !strapi.db.metadata.get(uid)?.attributes.updatedAt) {
+    return {};
+  }
+
+  return { updatedAt: { $gt: new Date(since.getTime() - SINCE_OVERLAP) } };
+};
+
+/**
+ * Collect the reference IDs of the entities updated after the given date along with the IDs of
+ * their components, grouped by UID
+ */
+export const getChangedReferences = async (strapi: Core.Strapi, since: Date) => {
+  const changes = new Map<string, Set<number>>();
+  const query = shared.entity.createEntityQuery(strapi);
+
+  const add = (uid: string, id: number) => {
+    if (!changes.has(uid)) {
+      changes.set(uid, new Set());
+    }
+
+    changes.get(uid)?.add(id);
+  };
+
+  const collectComponents = (model: Struct.Schema, data: Record<string, any>) => {
+    for (const [name, attribute] of Object.entries(model.attributes)) {
+      const value = data[name];
+
+      if (!value) {
+        continue;
+      }
+
+      if (attribute.type === 'component') {
+        const component = strapi.getModel(attribute.component);
+
+        for (const item of castArray(value)) {
+          add(component.uid, item.id);
+          collectComponents(component, item);
+        }
+      }
+
+      if (attribute.type === 'dynamiczone') {
+        for (const item of value) {
+          const component = strapi.getModel(item.__component);
+
+          add(component.uid, item.id);
+          collectComponents(component, item);
+        }
+      }
+    }
+  };
+
+  for (const contentType of Object.values(strapi.contentTypes) as Struct.ContentTypeSchema[]) {
+    const { getDeepPopulateComponentLikeQuery } = query(contentType.uid);
+
+    const entities = await strapi.db.query(contentType.uid).findMany({
+      select: ['id'],
+      where: getUpdatedSinceFilter(strapi, contentType.uid, since),
+      populate: getDeepPopulateComponentLikeQuery(contentType, { select: 'id' }),
+    });
+
+    for (const entity of entities) {
+      add(contentType.uid, entity.id);
+      collectComponents(contentType, entity);
+    }
+  }
+
+  return changes;
+};
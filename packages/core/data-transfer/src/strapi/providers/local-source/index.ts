@@ -2,12 +2,14 @@ import { Readable } from 'stream';
 import { chain } from 'stream-chain';
 import type { Core, Struct } from '@strapi/types';
 
-import type { IMetadata, ISourceProvider, ProviderType } from '../../../../types';
+import type { IMetadata, ISelection, ISourceProvider, ProviderType } from '../../../../types';
 import type { IDiagnosticReporter } from '../../../utils/diagnostic';
 import { createEntitiesStream, createEntitiesTransformStream } from './entities';
 import { createLinksStream } from './links';
 import { createConfigurationStream } from './configuration';
 import { createAssetsStream } from './assets';
+import { getSelectedReferences } from './selection';
+import type { References } from './selection';
 import * as utils from '../../../utils';
 import { assertValidStrapi } from '../../../utils/providers';
 
@@ -15,6 +17,10 @@ export interface ILocalStrapiSourceProviderOptions {
   getStrapi(): Core.Strapi | Promise<Core.Strapi>; // return an initialized instance of Strapi
 
   autoDestroy?: boolean; // shut down the instance returned by getStrapi() at the end of the transfer
+
+  since?: Date; // only stream the entities, links and assets updated after this date (incremental transfer)
+
+  selection?: ISelection; // only stream the selected entities and the entities they depend on (partial transfer)
 }
 
 export const createLocalStrapiSourceProvider = (options: ILocalStrapiSourceProviderOptions) => {
@@ -32,6 +38,8 @@ class LocalStrapiSourceProvider implements ISourceProvider {
 
   #diagnostics?: IDiagnosticReporter;
 
+  #selectedReferences?: Promise<References>;
+
   constructor(options: ILocalStrapiSourceProviderOptions) {
     this.options = options;
   }
@@ -85,6 +93,25 @@ class LocalStrapiSourceProvider implements ISourceProvider {
     this.#reportError(formattedError.message, err);
   }
 
+  /**
+   * Resolve the selected entities once and share them between the entities, links and assets streams
+   */
+  #getSelectedReferences(): Promise<References> | undefined {
+    const { selection } = this.options;
+
+    if (!selection) {
+      return undefined;
+    }
+
+    assertValidStrapi(this.strapi, 'Not able to resolve the selection');
+
+    if (!this.#selectedReferences) {
+      this.#selectedReferences = getSelectedReferences(this.strapi, selection);
+    }
+
+    return this.#selectedReferences;
+  }
+
   async close(): Promise<void> {
     const { autoDestroy } = this.options;
     assertValidStrapi(this.strapi);
@@ -105,6 +132,7 @@ class LocalStrapiSourceProvider implements ISourceProvider {
       strapi: {
         version: strapiVersion,
       },
+      selection: this.options.selection,
     };
   }
 
@@ -113,7 +141,10 @@ class LocalStrapiSourceProvider implements ISourceProvider {
     this.#reportInfo('creating entities read stream');
     return chain([
       // Entities stream
-      createEntitiesStream(this.strapi),
+      createEntitiesStream(this.strapi, {
+        since: this.options.since,
+        selection: this.#getSelectedReferences(),
+      }),
 
       // Transform stream
       createEntitiesTransformStream(),
@@ -124,12 +155,21 @@ class LocalStrapiSourceProvider implements ISourceProvider {
     assertValidStrapi(this.strapi, 'Not able to stream links');
     this.#reportInfo('creating links read stream');
 
-    return createLinksStream(this.strapi);
+    return createLinksStream(this.strapi, {
+      since: this.options.since,
+      selection: this.#getSelectedReferences(),
+    });
   }
 
   createConfigurationReadStream(): Readable {
     assertValidStrapi(this.strapi, 'Not able to stream configuration');
     this.#reportInfo('creating configuration read stream');
+
+    // Incremental and partial transfers only cover the content, the configuration is left untouched
+    if (this.options.since || this.options.selection) {
+      return Readable.from([]);
+    }
+
     return createConfigurationStream(this.strapi);
   }
 
@@ -152,7 +192,10 @@ class LocalStrapiSourceProvider implements ISourceProvider {
     assertValidStrapi(this.strapi, 'Not able to stream assets');
     this.#reportInfo('creating assets read stream');
 
-    const stream = createAssetsStream(this.strapi);
+    const stream = createAssetsStream(this.strapi, {
+      since: this.options.since,
+      selection: this.#getSelectedReferences(),
+    });
     stream.on('error', (err) => {
       this.#handleStreamError('assets', err);
     });
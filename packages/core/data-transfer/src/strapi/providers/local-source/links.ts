@@ -3,22 +3,61 @@ import type { Core } from '@strapi/types';
 
 import type { ILink } from '../../../../types';
 import { createLinkQuery } from '../../queries/link';
+import { createIdentityQuery } from '../../queries/identity';
+import { getChangedReferences } from './incremental';
+import type { References } from './selection';
 
 /**
  * Create a Readable which will stream all the links from a Strapi instance
+ *
+ * When a date is given, only the links from or to the entities updated after it are streamed.
+ * Both sides of those links are identified so that the destination can resolve the entities
+ * that are not part of the transfer.
+ *
+ * When a selection is given, only the links between selected entities are streamed.
  */
-export const createLinksStream = (strapi: Core.Strapi): Readable => {
+export const createLinksStream = (
+  strapi: Core.Strapi,
+  { since, selection }: { since?: Date; selection?: Promise<References> } = {}
+): Readable => {
   const uids = [...Object.keys(strapi.contentTypes), ...Object.keys(strapi.components)] as string[];
 
   // Async generator stream that returns every link from a Strapi instance
   return Readable.from(
     (async function* linkGenerator(): AsyncGenerator<ILink> {
       const query = createLinkQuery(strapi);
+      const identities = createIdentityQuery(strapi);
+      const changes = since ? await getChangedReferences(strapi, since) : undefined;
+      const references = await selection;
+
+      const isChanged = ({ type, ref }: { type: string; ref: number }) => {
+        return changes?.get(type)?.has(ref) ?? false;
+      };
+
+      const isSelected = ({ type, ref }: { type: string; ref: number }) => {
+        return references?.get(type)?.has(ref) ?? false;
+      };
 
       for (const uid of uids) {
         const generator = query().generateAll(uid);
 
         for await (const link of generator) {
+          if (references && !(isSelected(link.left) && isSelected(link.right))) {
+            continue;
+          }
+
+          if (!changes) {
+            yield link;
+            continue;
+          }
+
+          if (!isChanged(link.left) && !isChanged(link.right)) {
+            continue;
+          }
+
+          link.left.identity = await identities.get(link.left.type, link.left.ref);
+          link.right.identity = await identities.get(link.right.type, link.right.ref);
+
           yield link;
         }
       }
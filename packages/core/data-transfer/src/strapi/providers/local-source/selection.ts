@@ -0,0 +1,155 @@
+import { castArray, chunk } from 'lodash/fp';
+import type { Core, Struct } from '@strapi/types';
+
+import type { ISelection } from '../../../../types';
+
+// Avoid hitting the bindings limit of the databases when querying entities by ID
+const BATCH_SIZE = 500;
+
+export type References = Map<string, Set<number>>;
+
+const addReference = (references: References, uid: string, id: number) => {
+  if (!references.has(uid)) {
+    references.set(uid, new Set());
+  }
+
+  references.get(uid)?.add(id);
+};
+
+/**
+ * Get the UID of the entities an attribute depends on, if any
+ */
+const getDependencyTarget = (attribute: Struct.Schema['attributes'][string]) => {
+  if (attribute.type === 'media') {
+    return 'plugin::upload.file';
+  }
+
+  if (attribute.type === 'relation' && 'target' in attribute && !('mappedBy' in attribute)) {
+    return attribute.target;
+  }
+
+  return undefined;
+};
+
+/**
+ * Collect the reference IDs of the selected entities along with the IDs of their components and of
+ * the entities they depend on, grouped by UID
+ *
+ * The dependencies are the entities targeted by the relations and media owned by the selected
+ * entities (or their components), collected recursively. Inverse relations are not followed as they
+ * would pull most of the database into the selection.
+ */
+export const getSelectedReferences = async (strapi: Core.Strapi, selection: ISelection) => {
+  const references: References = new Map();
+  // Dependencies that still need to be fetched, grouped by UID
+  let dependencies: References = new Map();
+
+  const getLocaleFilter = (uid: string) => {
+    if (!selection.locales || !strapi.db.metadata.get(uid)?.attributes.locale) {
+      return {};
+    }
+
+    return { locale: { $in: selection.locales } };
+  };
+
+  const getPopulate = (model: Struct.Schema): Record<string, unknown> => {
+    const populate: Record<string, unknown> = {};
+
+    for (const [name, attribute] of Object.entries(model.attributes)) {
+      if (attribute.type === 'component') {
+        const component = strapi.getModel(attribute.component);
+
+        populate[name] = { select: ['id'], populate: getPopulate(component) };
+      }
+
+      if (attribute.type === 'dynamiczone') {
+        const on: Record<string, unknown> = {};
+
+        for (const componentUID of attribute.components) {
+          const component = strapi.getModel(componentUID);
+
+          on[componentUID] = { select: ['id'], populate: getPopulate(component) };
+        }
+
+        populate[name] = { on };
+      }
+
+      if (getDependencyTarget(attribute)) {
+        populate[name] = { select: ['id'] };
+      }
+    }
+
+    return populate;
+  };
+
+  const collect = (model: Struct.Schema, data: Record<string, any>) => {
+    for (const [name, attribute] of Object.entries(model.attributes)) {
+      const value = data[name];
+
+      if (!value) {
+        continue;
+      }
+
+      if (attribute.type === 'component') {
+        const component = strapi.getModel(attribute.component);
+
+        for (const item of castArray(value)) {
+          addReference(references, component.uid, item.id);
+          collect(component, item);
+        }
+      }
+
+      if (attribute.type === 'dynamiczone') {
+        for (const item of value) {
+          const component = strapi.getModel(item.__component);
+
+          addReference(references, component.uid, item.id);
+          collect(component, item);
+        }
+      }
+
+      const target = getDependencyTarget(attribute);
+
+      if (target) {
+        for (const item of castArray(value)) {
+          if (!references.get(target)?.has(item.id)) {
+            addReference(dependencies, target, item.id);
+          }
+        }
+      }
+    }
+  };
+
+  const findMany = async (uid: string, where: Record<string, unknown>) => {
+    const model = strapi.getModel(uid as Struct.Schema['uid']);
+    const populate = getPopulate(model);
+
+    const entities = await strapi.db.query(uid).findMany({ select: ['id'], where, populate });
+
+    for (const entity of entities) {
+      addReference(references, uid, entity.id);
+      collect(model, entity);
+    }
+  };
+
+  const contentTypes = selection.contentTypes ?? Object.keys(strapi.contentTypes);
+
+  for (const uid of contentTypes) {
+    await findMany(uid, { ...selection.filters, ...getLocaleFilter(uid) });
+  }
+
+  while (dependencies.size > 0) {
+    const current = dependencies;
+    dependencies = new Map();
+
+    for (const [uid, ids] of current) {
+      const missing = [...ids].filter((id) => !references.get(uid)?.has(id));
+
+      for (const batch of chunk(BATCH_SIZE, missing)) {
+        await findMany(uid, { id: { $in: batch }, ...getLocaleFilter(uid) });
+      }
+    }
+  }
+
+  return references;
+};
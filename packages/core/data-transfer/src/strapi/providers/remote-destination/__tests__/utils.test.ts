@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { WebSocket } from 'ws';
 import { TRANSFER_PATH } from '../../../remote/constants';
 import { CommandMessage } from '../../../../../types/remote/protocol/client';
@@ -18,6 +19,20 @@ afterEach(() => {
   jest.clearAllMocks();
 });
 
+const createSocket = () => {
+  const socket = Object.assign(new EventEmitter(), { send: jest.fn() });
+
+  return socket as unknown as WebSocket & { send: jest.Mock };
+};
+
+const getSentMessages = (socket: { send: jest.Mock }) => {
+  return socket.send.mock.calls.map(([payload]) => JSON.parse(payload));
+};
+
+const reply = (socket: WebSocket, uuid: string, data: unknown) => {
+  socket.emit('message', Buffer.from(JSON.stringify({ uuid, data })));
+};
+
 describe('Remote Strapi Destination Utils', () => {
   test('Dispatch method sends payload', () => {
     const ws = new WebSocket(`ws://test/admin${TRANSFER_PATH}`);
@@ -44,4 +59,53 @@ describe('Remote Strapi Destination Utils', () => {
     // @ts-ignore
     expect(ws.send).toHaveBeenCalledWith(expect.toContain(message), expect.anything());
   });
+
+  test('Holds the messages while suspended and sends them again once the transfer is resumed', async () => {
+    const lostSocket = createSocket();
+    const newSocket = createSocket();
+    const dispatcher = createDispatcher(lostSocket);
+    const checkpoint = { completed: ['schemas'], stage: 'entities', batches: 2 };
+
+    dispatcher.setTransferProperties({ id: 'transfer-id', kind: 'push' });
+    dispatcher.suspend();
+
+    const metadata = dispatcher.dispatchTransferAction('getMetadata');
+
+    expect(lostSocket.send).not.toHaveBeenCalled();
+
+    const resumed = dispatcher.resume(newSocket);
+    const [resume] = getSentMessages(newSocket);
+
+    expect(resume).toMatchObject({
+      type: 'command',
+      command: 'resume',
+      params: { transferID: 'transfer-id' },
+    });
+
+    reply(newSocket, resume.uuid, { transferID: 'transfer-id', checkpoint });
+
+    await expect(resumed).resolves.toEqual({ transferID: 'transfer-id', checkpoint });
+
+    const [, action] = getSentMessages(newSocket);
+
+    expect(action).toMatchObject({ action: 'getMetadata', transferID: 'transfer-id' });
+
+    reply(newSocket, action.uuid, { createdAt: 'now' });
+
+    await expect(metadata).resolves.toEqual({ createdAt: 'now' });
+  });
+
+  test('Rejects the pending and next messages once aborted', async () => {
+    const dispatcher = createDispatcher(createSocket());
+    const error = new Error('Could not reconnect');
+
+    dispatcher.setTransferProperties({ id: 'transfer-id', kind: 'push' });
+
+    const metadata = dispatcher.dispatchTransferAction('getMetadata');
+
+    dispatcher.abort(error);
+
+    await expect(metadata).rejects.toThrow(error);
+    await expect(dispatcher.dispatchTransferAction('getSchemas')).rejects.toThrow(error);
+  });
 });
@@ -4,7 +4,12 @@ import { WebSocket } from 'ws';
 import { once } from 'lodash/fp';
 import type { Struct, Utils } from '@strapi/types';
 
-import { createDispatcher, connectToWebsocket, trimTrailingSlash } from '../utils';
+import {
+  createDispatcher,
+  connectToWebsocket,
+  reconnectToWebsocket,
+  trimTrailingSlash,
+} from '../utils';
 
 import type {
   IDestinationProvider,
@@ -21,13 +26,17 @@ import { TRANSFER_PATH } from '../../remote/constants';
 import { ProviderTransferError, ProviderValidationError } from '../../../errors/providers';
 
 export interface IRemoteStrapiDestinationProviderOptions
-  extends Pick<ILocalStrapiDestinationProviderOptions, 'restore' | 'strategy'> {
+  extends Pick<ILocalStrapiDestinationProviderOptions, 'restore' | 'strategy' | 'incremental'> {
   url: URL; // the url of the remote Strapi admin
   auth?: Auth.ITransferTokenAuth;
   retryMessageOptions?: {
     retryMessageTimeout: number; // milliseconds to wait for a response from a message
     retryMessageMaxRetries: number; // max number of retries for a message before aborting transfer
   };
+  reconnectOptions?: {
+    reconnectDelay: number; // milliseconds to wait before each attempt to resume an interrupted transfer
+    reconnectMaxAttempts: number; // max number of attempts to resume an interrupted transfer before aborting it
+  };
 }
 
 const jsonLength = (obj: object) => Buffer.byteLength(JSON.stringify(obj));
@@ -49,6 +58,11 @@ class RemoteStrapiDestinationProvider implements IDestinationProvider {
 
   #diagnostics?: IDiagnosticReporter;
 
+  // Open a new connection to the remote Strapi, using the settings from the bootstrap
+  #connect?: () => Promise<WebSocket>;
+
+  #isClosing = false;
+
   constructor(options: IRemoteStrapiDestinationProviderOptions) {
     this.options = options;
     this.ws = null;
@@ -68,11 +82,11 @@ class RemoteStrapiDestinationProvider implements IDestinationProvider {
   }
 
   async initTransfer(): Promise<string> {
-    const { strategy, restore } = this.options;
+    const { strategy, restore, incremental } = this.options;
 
     const query = this.dispatcher?.dispatchCommand({
       command: 'init',
-      params: { options: { strategy, restore }, transfer: 'push' },
+      params: { options: { strategy, restore, incremental }, transfer: 'push' },
     });
 
     const res = (await query) as Server.Payload<Server.InitMessage>;
@@ -233,12 +247,49 @@ class RemoteStrapiDestinationProvider implements IDestinationProvider {
     });
   }
 
+  #bindConnection(ws: WebSocket) {
+    this.ws = ws;
+
+    ws.once('close', () => this.#resumeTransfer());
+  }
+
+  /**
+   * Try to resume the transfer with a new connection when the current one has been lost
+   */
+  async #resumeTransfer() {
+    const { dispatcher } = this;
+    const transferID = dispatcher?.transferID;
+
+    if (this.#isClosing || !dispatcher || !transferID || !this.#connect) {
+      return;
+    }
+
+    this.#reportInfo(`connection lost, resuming transfer ${transferID}`);
+    dispatcher.suspend();
+
+    try {
+      const ws = await reconnectToWebsocket(this.#connect, this.options.reconnectOptions);
+      this.#bindConnection(ws);
+
+      const res = await dispatcher.resume(ws);
+      const { stage, batches } = res?.checkpoint ?? {};
+
+      this.#reportInfo(
+        `resumed transfer ${transferID} ${stage ? `at stage ${stage} after ${batches} batches` : 'between stages'}`
+      );
+    } catch (e) {
+      dispatcher.abort(
+        e instanceof Error ? e : new ProviderTransferError('Could not resume the transfer')
+      );
+    }
+  }
+
   async bootstrap(diagnostics?: IDiagnosticReporter): Promise<void> {
     this.#diagnostics = diagnostics;
     const { url, auth } = this.options;
     const validProtocols = ['https:', 'http:'];
 
-    let ws: WebSocket;
+    let connect: () => Promise<WebSocket>;
 
     if (!validProtocols.includes(url.protocol)) {
       throw new ProviderValidationError(`Invalid protocol "${url.protocol}"`, {
@@ -257,13 +308,13 @@ class RemoteStrapiDestinationProvider implements IDestinationProvider {
     this.#reportInfo('establishing websocket connection');
     // No auth defined, trying public access for transfer
     if (!auth) {
-      ws = await connectToWebsocket(wsUrl, undefined, this.#diagnostics);
+      connect = () => connectToWebsocket(wsUrl, undefined, this.#diagnostics);
     }
 
     // Common token auth, this should be the main auth method
     else if (auth.type === 'token') {
       const headers = { Authorization: `Bearer ${auth.token}` };
-      ws = await connectToWebsocket(wsUrl, { headers }, this.#diagnostics);
+      connect = () => connectToWebsocket(wsUrl, { headers }, this.#diagnostics);
     }
 
     // Invalid auth method provided
@@ -276,13 +327,16 @@ class RemoteStrapiDestinationProvider implements IDestinationProvider {
       });
     }
 
+    const ws = await connect();
+    this.#connect = connect;
+
     this.#reportInfo('established websocket connection');
 
-    this.ws = ws;
+    this.#bindConnection(ws);
     const { retryMessageOptions } = this.options;
 
     this.#reportInfo('creating dispatcher');
-    this.dispatcher = createDispatcher(this.ws, retryMessageOptions, (message: string) =>
+    this.dispatcher = createDispatcher(ws, retryMessageOptions, (message: string) =>
       this.#reportInfo(message)
     );
     this.#reportInfo('created dispatcher');
@@ -297,6 +351,8 @@ class RemoteStrapiDestinationProvider implements IDestinationProvider {
   }
 
   async close() {
+    this.#isClosing = true;
+
     // Gracefully close the remote transfer process
     if (this.transferID && this.dispatcher) {
       await this.dispatcher.dispatchTransferAction('close');
@@ -18,7 +18,12 @@ import { Client, Server, Auth } from '../../../../types/remote/protocol';
 import { ProviderTransferError, ProviderValidationError } from '../../../errors/providers';
 import { TRANSFER_PATH } from '../../remote/constants';
 import { ILocalStrapiSourceProviderOptions } from '../local-source';
-import { createDispatcher, connectToWebsocket, trimTrailingSlash } from '../utils';
+import {
+  createDispatcher,
+  connectToWebsocket,
+  reconnectToWebsocket,
+  trimTrailingSlash,
+} from '../utils';
 
 export interface IRemoteStrapiSourceProviderOptions extends ILocalStrapiSourceProviderOptions {
   url: URL; // the url of the remote Strapi admin
@@ -27,6 +32,10 @@ export interface IRemoteStrapiSourceProviderOptions extends ILocalStrapiSourcePr
     retryMessageTimeout: number; // milliseconds to wait for a response from a message
     retryMessageMaxRetries: number; // max number of retries for a message before aborting transfer
   };
+  reconnectOptions?: {
+    reconnectDelay: number; // milliseconds to wait before each attempt to resume an interrupted transfer
+    reconnectMaxAttempts: number; // max number of attempts to resume an interrupted transfer before aborting it
+  };
   streamTimeout?: number; // milliseconds to wait between chunks of an asset before aborting the transfer
 }
 
@@ -62,6 +71,24 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
 
   #diagnostics?: IDiagnosticReporter;
 
+  // Open a new connection to the remote Strapi, using the settings from the bootstrap
+  #connect?: () => Promise<WebSocket>;
+
+  #isClosing = false;
+
+  // Listeners of the data sent by the server, bound again to the new connection when resuming the transfer
+  #listeners = new Set<(raw: Buffer) => Promise<void>>();
+
+  #listen(listener: (raw: Buffer) => Promise<void>) {
+    this.#listeners.add(listener);
+    this.ws?.on('message', listener);
+  }
+
+  #unlisten(listener: (raw: Buffer) => Promise<void>) {
+    this.#listeners.delete(listener);
+    this.ws?.off('message', listener);
+  }
+
   async #createStageReadStream(stage: Exclude<TransferStage, 'schemas'>) {
     const startResult = await this.#startStep(stage);
 
@@ -72,25 +99,36 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
     const { id: processID } = startResult as { id: string };
 
     const stream = new PassThrough({ objectMode: true });
+    const receivedUUIDs = new Set<string>();
 
     const listener = async (raw: Buffer) => {
       const parsed = JSON.parse(raw.toString());
       // If not a message related to our transfer process, ignore it
       if (!parsed.uuid || parsed?.data?.type !== 'transfer' || parsed?.data?.id !== processID) {
-        this.ws?.once('message', listener);
         return;
       }
 
       const { uuid, data: message } = parsed;
+
+      // Messages are sent again after resuming the transfer if their confirmation has been lost
+      if (receivedUUIDs.has(uuid)) {
+        await this.#respond(uuid);
+        return;
+      }
+
+      receivedUUIDs.add(uuid);
+
       const { ended, error, data } = message;
 
       if (error) {
+        this.#unlisten(listener);
         await this.#respond(uuid);
         stream.destroy(error);
         return;
       }
 
       if (ended) {
+        this.#unlisten(listener);
         await this.#respond(uuid);
         await this.#endStep(stage);
 
@@ -103,12 +141,10 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
         stream.push(item);
       }
 
-      this.ws?.once('message', listener);
-
       await this.#respond(uuid);
     };
 
-    this.ws?.once('message', listener);
+    this.#listen(listener);
 
     return stream;
   }
@@ -352,8 +388,11 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
   }
 
   async initTransfer(): Promise<string> {
+    const { since } = this.options;
+
     const query = this.dispatcher?.dispatchCommand({
       command: 'init',
+      params: { options: { since: since?.toISOString() }, transfer: 'pull' },
     });
 
     const res = (await query) as Server.Payload<Server.InitMessage>;
@@ -376,10 +415,48 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
     });
   }
 
+  #bindConnection(ws: WebSocket) {
+    this.ws = ws;
+
+    this.#listeners.forEach((listener) => ws.on('message', listener));
+    ws.once('close', () => this.#resumeTransfer());
+  }
+
+  /**
+   * Try to resume the transfer with a new connection when the current one has been lost
+   */
+  async #resumeTransfer() {
+    const { dispatcher } = this;
+    const transferID = dispatcher?.transferID;
+
+    if (this.#isClosing || !dispatcher || !transferID || !this.#connect) {
+      return;
+    }
+
+    this.#reportInfo(`connection lost, resuming transfer ${transferID}`);
+    dispatcher.suspend();
+
+    try {
+      const ws = await reconnectToWebsocket(this.#connect, this.options.reconnectOptions);
+      this.#bindConnection(ws);
+
+      const res = await dispatcher.resume(ws);
+      const { stage, batches } = res?.checkpoint ?? {};
+
+      this.#reportInfo(
+        `resumed transfer ${transferID} ${stage ? `at stage ${stage} after ${batches} batches` : 'between stages'}`
+      );
+    } catch (e) {
+      dispatcher.abort(
+        e instanceof Error ? e : new ProviderTransferError('Could not resume the transfer')
+      );
+    }
+  }
+
   async bootstrap(diagnostics?: IDiagnosticReporter): Promise<void> {
     this.#diagnostics = diagnostics;
     const { url, auth } = this.options;
-    let ws: WebSocket;
+    let connect: () => Promise<WebSocket>;
     this.assertValidProtocol(url);
     const wsProtocol = url.protocol === 'https:' ? 'wss:' : 'ws:';
     const wsUrl = `${wsProtocol}//${url.host}${trimTrailingSlash(
@@ -389,13 +466,13 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
     this.#reportInfo('establishing websocket connection');
     // No auth defined, trying public access for transfer
     if (!auth) {
-      ws = await connectToWebsocket(wsUrl, undefined, this.#diagnostics);
+      connect = () => connectToWebsocket(wsUrl, undefined, this.#diagnostics);
     }
 
     // Common token auth, this should be the main auth method
     else if (auth.type === 'token') {
       const headers = { Authorization: `Bearer ${auth.token}` };
-      ws = await connectToWebsocket(wsUrl, { headers }, this.#diagnostics);
+      connect = () => connectToWebsocket(wsUrl, { headers }, this.#diagnostics);
     }
 
     // Invalid auth method provided
@@ -408,12 +485,15 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
       });
     }
 
+    const ws = await connect();
+    this.#connect = connect;
+
     this.#reportInfo('established websocket connection');
-    this.ws = ws;
+    this.#bindConnection(ws);
     const { retryMessageOptions } = this.options;
 
     this.#reportInfo('creating dispatcher');
-    this.dispatcher = createDispatcher(this.ws, retryMessageOptions, (message: string) =>
+    this.dispatcher = createDispatcher(ws, retryMessageOptions, (message: string) =>
       this.#reportInfo(message)
     );
     this.#reportInfo('creating dispatcher');
@@ -427,6 +507,8 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
   }
 
   async close() {
+    this.#isClosing = true;
+
     await this.dispatcher?.dispatchTransferAction('close');
 
     await new Promise<void>((resolve) => {
@@ -467,7 +549,8 @@ class RemoteStrapiSourceProvider implements ISourceProvider {
   async #respond(uuid: string) {
     return new Promise((resolve, reject) => {
       this.ws?.send(JSON.stringify({ uuid }), (e) => {
-        if (e) {
+        // If the connection has been lost, the server sends the message again once the transfer is resumed
+        if (e && this.ws?.readyState === WebSocket.OPEN) {
           reject(e);
         } else {
           resolve(e);
@@ -14,10 +14,23 @@ import { IDiagnosticReporter } from '../../utils/diagnostic';
 
 interface IDispatcherState {
   transfer?: { kind: Client.TransferKind; id: string };
+  ws: WebSocket;
+  // Set when the transfer can't be resumed, every message is then rejected with it
+  error?: Error;
+  // Whether the connection has been lost, the messages are held until the transfer is resumed
+  suspended: boolean;
 }
 
 interface IDispatchOptions {
   attachTransfer?: boolean;
+  // Send the message even if the dispatcher is suspended
+  force?: boolean;
+}
+
+interface IPendingMessage {
+  send(): void;
+  listen(socket: WebSocket): void;
+  reject(error: Error): void;
 }
 
 type Dispatch<T> = Omit<T, 'transferID' | 'uuid'>;
@@ -30,7 +43,10 @@ export const createDispatcher = (
   },
   reportInfo?: (message: string) => void
 ) => {
-  const state: IDispatcherState = {};
+  const state: IDispatcherState = { ws, suspended: false };
+
+  // Messages which have been dispatched and are waiting for a response
+  const pendingMessages = new Map<string, IPendingMessage>();
 
   type DispatchMessage = Dispatch<Client.Message>;
 
@@ -38,10 +54,14 @@ export const createDispatcher = (
     message: DispatchMessage,
     options: IDispatchOptions = {}
   ): Promise<U | null> => {
-    if (!ws) {
+    if (!state.ws) {
       throw new Error('No websocket connection found');
     }
 
+    if (state.error) {
+      throw state.error;
+    }
+
     return new Promise<U | null>((resolve, reject) => {
       const uuid = randomUUID();
       const payload = { ...message, uuid };
@@ -62,61 +82,83 @@ export const createDispatcher = (
         );
       }
       const stringifiedPayload = JSON.stringify(payload);
-      ws.send(stringifiedPayload, (error) => {
-        if (error) {
-          reject(error);
+      const send = () => {
+        const socket = state.ws;
+
+        // The message is held until the transfer is resumed
+        if (state.suspended && !options.force) {
+          return;
         }
-      });
+
+        socket.send(stringifiedPayload, (error) => {
+          // If the connection has been lost, the message is sent again once the transfer is resumed
+          if (error && socket.readyState === WebSocket.OPEN) {
+            reject(error);
+          }
+        });
+      };
+      send();
       const { retryMessageMaxRetries, retryMessageTimeout } = retryMessageOptions;
       const sendPeriodically = () => {
         if (numberOfTimesMessageWasSent <= retryMessageMaxRetries) {
           numberOfTimesMessageWasSent += 1;
-          ws.send(stringifiedPayload, (error) => {
-            if (error) {
-              reject(error);
-            }
-          });
+          send();
         } else {
+          pendingMessages.delete(uuid);
           reject(new ProviderError('error', 'Request timed out'));
         }
       };
       const interval = setInterval(sendPeriodically, retryMessageTimeout);
 
-      const onResponse = (raw: RawData) => {
-        const response: Server.Message<U> = JSON.parse(raw.toString());
-        if (message.type === 'command') {
-          reportInfo?.(
-            `received response to message command: ${(message as Client.CommandMessage).command} uuid: ${uuid} sent: ${numberOfTimesMessageWasSent}`
-          );
-        } else if (message.type === 'transfer') {
-          const messageToSend = message as Client.TransferMessage;
-          reportInfo?.(
-            `received response to message action:${messageToSend.action} ${messageToSend.kind === 'step' ? `step:${messageToSend.step}` : ''} uuid:${uuid} sent:${numberOfTimesMessageWasSent}`
-          );
-        }
-        if (response.uuid === uuid) {
-          clearInterval(interval);
-          if (response.error) {
-            const message = response.error.message;
-            const details = response.error.details?.details as ProviderErrorDetails;
-            const step = response.error.details?.step;
-            let error = new ProviderError('error', message, details);
-            if (step === 'transfer') {
-              error = new ProviderTransferError(message, details);
-            } else if (step === 'validation') {
-              error = new ProviderValidationError(message, details);
-            } else if (step === 'initialization') {
-              error = new ProviderInitializationError(message);
+      const listen = (socket: WebSocket) => {
+        const onResponse = (raw: RawData) => {
+          const response: Server.Message<U> = JSON.parse(raw.toString());
+          if (message.type === 'command') {
+            reportInfo?.(
+              `received response to message command: ${(message as Client.CommandMessage).command} uuid: ${uuid} sent: ${numberOfTimesMessageWasSent}`
+            );
+          } else if (message.type === 'transfer') {
+            const messageToSend = message as Client.TransferMessage;
+            reportInfo?.(
+              `received response to message action:${messageToSend.action} ${messageToSend.kind === 'step' ? `step:${messageToSend.step}` : ''} uuid:${uuid} sent:${numberOfTimesMessageWasSent}`
+            );
+          }
+          if (response.uuid === uuid) {
+            clearInterval(interval);
+            pendingMessages.delete(uuid);
+            if (response.error) {
+              const message = response.error.message;
+              const details = response.error.details?.details as ProviderErrorDetails;
+              const step = response.error.details?.step;
+              let error = new ProviderError('error', message, details);
+              if (step === 'transfer') {
+                error = new ProviderTransferError(message, details);
+              } else if (step === 'validation') {
+                error = new ProviderValidationError(message, details);
+              } else if (step === 'initialization') {
+                error = new ProviderInitializationError(message);
+              }
+              return reject(error);
             }
-            return reject(error);
+            resolve(response.data ?? null);
+          } else {
+            socket.once('message', onResponse);
           }
-          resolve(response.data ?? null);
-        } else {
-          ws.once('message', onResponse);
-        }
+        };
+
+        socket.once('message', onResponse);
       };
 
-      ws.once('message', onResponse);
+      pendingMessages.set(uuid, {
+        send,
+        listen,
+        reject(error) {
+          clearInterval(interval);
+          reject(error);
+        },
+      });
+
+      listen(state.ws);
     });
   };
 
@@ -161,6 +203,56 @@ export const createDispatcher = (
     state.transfer = { ...properties };
   };
 
+  /**
+   * Hold the messages until the transfer is resumed, used when the connection has been lost
+   */
+  const suspend = () => {
+    state.suspended = true;
+  };
+
+  /**
+   * Resume the current transfer with a new connection, then send again the messages waiting for a response
+   */
+  const resume = async (socket: WebSocket) => {
+    if (!state.transfer) {
+      throw new ProviderTransferError('No transfer to resume');
+    }
+
+    const messages = Array.from(pendingMessages.values());
+
+    state.ws = socket;
+
+    const message = {
+      type: 'command',
+      command: 'resume',
+      params: { transferID: state.transfer.id },
+    } as Client.CommandMessage;
+
+    const response = await dispatch<Server.Payload<Server.ResumeMessage>>(message, {
+      force: true,
+    });
+
+    state.suspended = false;
+
+    messages.forEach(({ listen, send }) => {
+      listen(socket);
+      send();
+    });
+
+    return response;
+  };
+
+  /**
+   * Reject all the messages waiting for a response
+   */
+  const abort = (error: Error) => {
+    state.error = error;
+    state.suspended = false;
+
+    pendingMessages.forEach(({ reject }) => reject(error));
+    pendingMessages.clear();
+  };
+
   return {
     get transferID() {
       return state.transfer?.id;
@@ -171,6 +263,9 @@ export const createDispatcher = (
     },
 
     setTransferProperties,
+    suspend,
+    resume,
+    abort,
 
     dispatch,
     dispatchCommand,
@@ -264,3 +359,30 @@ export const waitUntil = async (test: () => boolean, interval: number): Promise<
 
   return Promise.resolve();
 };
+
+/**
+ * Open a new websocket connection to resume an interrupted transfer, waiting between each attempt
+ */
+export const reconnectToWebsocket = async (
+  connect: () => Promise<WebSocket>,
+  reconnectOptions = {
+    reconnectMaxAttempts: 5,
+    reconnectDelay: 5000,
+  }
+): Promise<WebSocket> => {
+  const { reconnectMaxAttempts, reconnectDelay } = reconnectOptions;
+
+  for (let attempt = 1; attempt <= reconnectMaxAttempts; attempt += 1) {
+    await wait(reconnectDelay);
+
+    try {
+      return await connect();
+    } catch {
+      // try again until the max number of attempts is reached
+    }
+  }
+
+  throw new ProviderTransferError(
+    `Could not reconnect to the remote Strapi instance after ${reconnectMaxAttempts} attempts`
+  );
+};
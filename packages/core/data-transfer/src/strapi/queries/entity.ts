@@ -60,6 +60,26 @@ const createEntityQuery = (strapi: Core.Strapi): any => {
       );
     };
 
+    /**
+     * Replace the data of an existing entity, its previous components are deleted
+     * in favor of the ones created from the given data
+     */
+    const update = async <T extends { data: U }, U extends object>(id: number, params: T) => {
+      const componentsToDelete = await components.get(uid, { id });
+      const dataWithComponents = await components.assignToEntity(uid, params.data);
+      const sanitizedData = omitInvalidCreationAttributes(dataWithComponents);
+
+      const updated = await strapi.db.query(uid).update({
+        ...params,
+        where: { id },
+        data: sanitizedData,
+      });
+
+      await components.delete(uid, componentsToDelete);
+
+      return updated;
+    };
+
     const deleteMany = async <T extends object>(params?: T) => {
       const entitiesToDelete = await strapi.db.query(uid).findMany(params ?? {});
 
@@ -135,6 +155,7 @@ const createEntityQuery = (strapi: Core.Strapi): any => {
     return {
       create,
       createMany,
+      update,
       deleteMany,
       getDeepPopulateComponentLikeQuery,
 
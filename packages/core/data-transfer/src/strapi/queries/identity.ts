@@ -0,0 +1,96 @@
+import type { Core } from '@strapi/types';
+
+import type { IEntityIdentity } from '../../../types';
+
+// TODO: Remove any types when we'll have types for DB metadata
+
+/**
+ * Reference IDs differ between Strapi instances, so entities are matched by the
+ * document they belong to, their locale and whether they are the published version
+ */
+export const createIdentityQuery = (strapi: Core.Strapi) => {
+  const getAttributes = (uid: string): Record<string, any> | undefined => {
+    return strapi.db.metadata.get(uid)?.attributes;
+  };
+
+  const hasIdentity = (uid: string) => {
+    return Boolean(getAttributes(uid)?.documentId);
+  };
+
+  /**
+   * Build the identity of an entity from its data, undefined if its model has no documentId
+   */
+  const toIdentity = (uid: string, data: Record<string, any>): IEntityIdentity | undefined => {
+    const attributes = getAttributes(uid);
+
+    if (!attributes?.documentId || !data.documentId) {
+      return undefined;
+    }
+
+    const identity: IEntityIdentity = { documentId: data.documentId };
+
+    if (attributes.locale) {
+      identity.locale = data.locale ?? null;
+    }
+
+    if (attributes.publishedAt) {
+      identity.published = Boolean(data.publishedAt);
+    }
+
+    return identity;
+  };
+
+  const cache = new Map<string, IEntityIdentity | undefined>();
+
+  /**
+   * Get the identity of the entity with the given reference ID
+   */
+  const get = async (uid: string, ref: number) => {
+    const key = `${uid}:${ref}`;
+
+    if (cache.has(key)) {
+      return cache.get(key);
+    }
+
+    const attributes = getAttributes(uid);
+
+    if (!attributes?.documentId) {
+      return undefined;
+    }
+
+    const select = ['documentId', 'locale', 'publishedAt'].filter((field) => field in attributes);
+    const entity = await strapi.db.query(uid).findOne({ select, where: { id: ref } });
+    const identity = entity ? toIdentity(uid, entity) : undefined;
+
+    cache.set(key, identity);
+
+    return identity;
+  };
+
+  /**
+   * Find the reference ID of the entity matching the given identity
+   *
+   * The document ID can be replaced by other conditions, e.g. to match the entities on a unique attribute
+   */
+  const findRef = async (
+    uid: string,
+    identity: IEntityIdentity,
+    match: Record<string, unknown> = { documentId: identity.documentId }
+  ): Promise<number | undefined> => {
+    const where: Record<string, unknown> = { ...match };
+
+    if (identity.locale !== undefined) {
+      where.locale = identity.locale;
+    }
+
+    if (identity.published !== undefined) {
+      where.publishedAt = identity.published ? { $notNull: true } : null;
+    }
+
+    const entity = await strapi.db.query(uid).findOne({ select: ['id'], where });
+
+    return entity?.id;
+  };
+
+  return { hasIdentity, toIdentity, get, findRef };
+};
@@ -1,2 +1,3 @@
 export * as entity from './entity';
+export * as identity from './identity';
 export * as link from './link';
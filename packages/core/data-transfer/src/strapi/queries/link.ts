@@ -324,7 +324,95 @@ export const createLinkQuery = (strapi: Core.Strapi, trx?: Knex.Transaction) =>
       }
     };
 
-    return { generateAll, generateAllForAttribute, insert };
+    /**
+     * Remove every link from or to the given entity, whichever side of the relation owns it
+     *
+     * When inverse is false, only the links owned by the entity are removed along with the
+     * polymorphic links targeting it (e.g. its media, which are stored on the file side)
+     */
+    const clear = async (
+      uid: string,
+      ref: number,
+      { inverse = true }: { inverse?: boolean } = {}
+    ) => {
+      const run = async (qb: Knex.QueryBuilder) => {
+        if (trx) {
+          qb.transacting(trx);
+        }
+
+        await qb;
+      };
+
+      for (const metadata of strapi.db.metadata.values() as IterableIterator<any>) {
+        const attributes = filterValidRelationalAttributes(metadata.attributes);
+        const table = addSchema(metadata.tableName);
+
+        for (const attribute of Object.values(attributes)) {
+          const isLeft = metadata.uid === uid;
+          const isRight = inverse && attribute.target === uid;
+
+          if (attribute.joinColumn) {
+            const joinColumnName: string = attribute.joinColumn.name;
+
+            if (isLeft) {
+              await run(
+                connection(table)
+                  .where('id', ref)
+                  .update({ [joinColumnName]: null })
+              );
+            }
+
+            if (isRight) {
+              await run(
+                connection(table)
+                  .where(joinColumnName, ref)
+                  .update({ [joinColumnName]: null })
+              );
+            }
+          }
+
+          if (attribute.joinTable) {
+            const { name, joinColumn, inverseJoinColumn, morphColumn } = attribute.joinTable;
+            const joinTable = addSchema(name);
+
+            if (isLeft && (inverse || !morphColumn)) {
+              await run(connection(joinTable).where(joinColumn.name, ref).delete());
+            }
+
+            if (isRight && inverseJoinColumn) {
+              await run(connection(joinTable).where(inverseJoinColumn.name, ref).delete());
+            }
+
+            if (morphColumn) {
+              await run(
+                connection(joinTable)
+                  .where(morphColumn.idColumn.name, ref)
+                  .where(morphColumn.typeColumn.name, uid)
+                  .delete()
+              );
+            }
+          }
+
+          if (attribute.morphColumn) {
+            const { typeColumn, idColumn } = attribute.morphColumn;
+            const nullifyMorph = { [typeColumn.name]: null, [idColumn.name]: null };
+
+            if (isLeft) {
+              await run(connection(table).where('id', ref).update(nullifyMorph));
+            }
+
+            await run(
+              connection(table)
+                .where(idColumn.name, ref)
+                .where(typeColumn.name, uid)
+                .update(nullifyMorph)
+            );
+          }
+        }
+      }
+    };
+
+    return { generateAll, generateAllForAttribute, insert, clear };
   };
 
   return query;
@@ -3,6 +3,7 @@ import type { WebSocket, RawData } from 'ws';
 import type { ValidTransferCommand } from './constants';
 import type { TransferMethod } from '../constants';
 import type { IDiagnosticReporter } from '../../../utils/diagnostic';
+import type { TransferStage, Protocol } from '../../../../types';
 
 type BufferLike = Parameters<WebSocket['send']>[0];
 
@@ -14,6 +15,7 @@ export interface TransferState {
     e?: Error | null;
     data?: unknown;
   };
+  checkpoint: Protocol.Server.TransferCheckpoint;
 }
 
 export interface Handler {
@@ -30,6 +32,11 @@ export interface Handler {
 
   get diagnostics(): IDiagnosticReporter;
 
+  get checkpoint(): TransferState['checkpoint'];
+
+  // The websocket connection currently used to communicate with the client
+  get socket(): WebSocket;
+
   // Add message UUIDs
   addUUID(uuid: string): void;
 
@@ -68,6 +75,16 @@ export interface Handler {
    */
   confirm<T = unknown>(message: T): Promise<void>;
 
+  /**
+   * Switch to a new connection with the client and resend the messages waiting for a confirmation
+   */
+  reconnect(socket: WebSocket): void;
+
+  /**
+   * Record the progress of the transfer for the given stage
+   */
+  updateCheckpoint(stage: TransferStage, action: 'start' | 'stream' | 'end'): void;
+
   // Utils
 
   /**
@@ -96,6 +113,7 @@ export interface Handler {
   init(...args: unknown[]): unknown;
   end(...args: unknown[]): unknown;
   status(...args: unknown[]): unknown;
+  resume(...args: unknown[]): unknown;
 
   // Events
   onMessage(message: RawData, isBinary: boolean): Promise<void> | void;
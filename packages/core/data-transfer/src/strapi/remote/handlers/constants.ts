@@ -1,2 +1,5 @@
-export const VALID_TRANSFER_COMMANDS = ['init', 'end', 'status'] as const;
+export const VALID_TRANSFER_COMMANDS = ['init', 'end', 'status', 'resume'] as const;
 export type ValidTransferCommand = (typeof VALID_TRANSFER_COMMANDS)[number];
+
+// Milliseconds during which an interrupted transfer can be resumed before being rolled back
+export const DEFAULT_RESUME_GRACE_PERIOD = 60000;
@@ -203,6 +203,7 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
         id,
       });
       batch = [];
+      this.updateCheckpoint(stage, 'stream');
     };
 
     if (!stream) {
@@ -224,6 +225,7 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
             error: null,
             id,
           });
+          this.updateCheckpoint(stage, 'stream');
         }
       }
 
@@ -248,6 +250,7 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
       const flushUUID = randomUUID();
 
       await this.createReadableStreamForStep(step);
+      this.updateCheckpoint(step, 'start');
       this.flush(step, flushUUID);
 
       return { ok: true, id: flushUUID };
@@ -263,6 +266,7 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
       }
 
       delete this.streams?.[step];
+      this.updateCheckpoint(step, 'end');
 
       return { ok: true };
     }
@@ -343,7 +347,7 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
   },
 
   // Commands
-  async init(this: PullHandler) {
+  async init(this: PullHandler, params?: Protocol.Client.GetCommandParams<'init'>) {
     if (this.transferID || this.provider) {
       throw new Error('Transfer already in progress');
     }
@@ -354,9 +358,12 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
 
     this.streams = {};
 
+    const since = params?.transfer === 'pull' ? params.options.since : undefined;
+
     this.provider = createLocalStrapiSourceProvider({
       autoDestroy: false,
       getStrapi: () => strapi as Core.Strapi,
+      since: since ? new Date(since) : undefined,
     });
 
     return { transferID: this.transferID };
@@ -387,6 +394,7 @@ export const createPullController = handlerControllerFactory<Partial<PullHandler
         kind: TRANSFER_KIND,
         startedAt,
         elapsed: Date.now() - startedAt,
+        checkpoint: this.checkpoint,
       };
     }
     return { active: false, kind: null, elapsed: null, startedAt: null };
@@ -337,6 +337,7 @@ export const createPushController = handlerControllerFactory<Partial<PushHandler
       await this.createWritableStreamForStep(stage);
 
       this.stats[stage] = { started: 0, finished: 0 };
+      this.updateCheckpoint(stage, 'start');
 
       return { ok: true };
     }
@@ -353,17 +354,21 @@ export const createPushController = handlerControllerFactory<Partial<PushHandler
 
       // Assets are nested streams
       if (stage === 'assets') {
-        return this.streamAsset(msg.data);
+        await this.streamAsset(msg.data);
       }
 
       // For all other steps
-      await Promise.all(
-        msg.data.map(async (item) => {
-          this.stats[stage].started += 1;
-          await writeAsync(stream, item);
-          this.stats[stage].finished += 1;
-        })
-      );
+      else {
+        await Promise.all(
+          msg.data.map(async (item) => {
+            this.stats[stage].started += 1;
+            await writeAsync(stream, item);
+            this.stats[stage].finished += 1;
+          })
+        );
+      }
+
+      this.updateCheckpoint(stage, 'stream');
     }
 
     if (msg.action === 'end') {
@@ -377,6 +382,7 @@ export const createPushController = handlerControllerFactory<Partial<PushHandler
       }
 
       delete this.streams?.[stage];
+      this.updateCheckpoint(stage, 'end');
 
       return { ok: true, stats: this.stats[stage] };
     }
@@ -472,6 +478,10 @@ export const createPushController = handlerControllerFactory<Partial<PushHandler
 
     await this.verifyAuth();
 
+    if (params.transfer !== TRANSFER_KIND) {
+      throw new ProviderTransferError(`Invalid transfer kind provided: "${params.transfer}"`);
+    }
+
     this.transferID = randomUUID();
     this.startedAt = Date.now();
 
@@ -511,6 +521,7 @@ export const createPushController = handlerControllerFactory<Partial<PushHandler
         kind: TRANSFER_KIND,
         startedAt,
         elapsed: Date.now() - startedAt,
+        checkpoint: this.checkpoint,
       };
     }
 
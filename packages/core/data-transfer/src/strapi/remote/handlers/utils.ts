@@ -7,7 +7,11 @@ import { WebSocket, WebSocketServer } from 'ws';
 import type { Handler, TransferState } from './abstract';
 import type { Protocol } from '../../../../types';
 import { ProviderError, ProviderTransferError } from '../../../errors/providers';
-import { VALID_TRANSFER_COMMANDS, ValidTransferCommand } from './constants';
+import {
+  DEFAULT_RESUME_GRACE_PERIOD,
+  VALID_TRANSFER_COMMANDS,
+  ValidTransferCommand,
+} from './constants';
 import { TransferMethod } from '../constants';
 import { createDiagnosticReporter } from '../../../utils/diagnostic';
 
@@ -61,6 +65,20 @@ const resetTimeouts = () => {
   httpServer.headersTimeout = timeouts.headersTimeout;
   httpServer.requestTimeout = timeouts.requestTimeout;
 };
+
+const createCheckpoint = (): TransferState['checkpoint'] => ({
+  completed: [],
+  stage: null,
+  batches: 0,
+});
+
+const getResumeGracePeriod = () => {
+  return strapi.config.get<number>(
+    'server.transfer.remote.resumeGracePeriod',
+    DEFAULT_RESUME_GRACE_PERIOD
+  );
+};
+
 /**
  * Make sure that the upgrade header is a valid websocket one
  */
@@ -148,12 +166,26 @@ export const handlerControllerFactory =
 
     const wss = new WebSocket.Server({ ...serverOptions, noServer: true });
 
+    // Transfers whose connection has been interrupted, waiting to be resumed by their transfer ID
+    const suspendedTransfers = new Map<string, { handler: Handler; timeout: NodeJS.Timeout }>();
+
     return async (ctx: Context) => {
       const cb: WSCallback = (ws) => {
-        const state: TransferState = { id: undefined };
+        const state: TransferState = { id: undefined, checkpoint: createCheckpoint() };
         const messageUUIDs = new Set<string>();
         const diagnostics = createDiagnosticReporter();
 
+        // The connection used to communicate with the client, replaced when the transfer is resumed
+        let client = ws;
+
+        // Messages sent to the client which are waiting for a confirmation
+        const confirmations = new Map<
+          string,
+          { payload: string; listen(socket: WebSocket): void; reject(error: Error): void }
+        >();
+
+        const isConnected = () => client.readyState === WebSocket.OPEN;
+
         const cannotRespondHandler = (err: unknown) => {
           strapi?.log?.error(
             '[Data transfer] Cannot send error response to client, closing connection'
@@ -167,6 +199,9 @@ export const handlerControllerFactory =
           }
         };
 
+        // The handler bound to this connection, replaced by the suspended one when resuming a transfer
+        let handler: Handler;
+
         const prototype: Handler = {
           // Transfer ID
           get transferID() {
@@ -198,6 +233,14 @@ export const handlerControllerFactory =
             return diagnostics;
           },
 
+          get checkpoint() {
+            return state.checkpoint;
+          },
+
+          get socket() {
+            return client;
+          },
+
           addUUID(uuid) {
             messageUUIDs.add(uuid);
           },
@@ -257,39 +300,78 @@ export const handlerControllerFactory =
                   : null,
               });
 
-              this.send(payload, (error) => (error ? reject(error) : resolve()));
+              // If the connection has been lost, the response is sent again when the client resends its message
+              this.send(payload, (error) => (error && isConnected() ? reject(error) : resolve()));
             });
           },
 
           send(message, cb) {
-            ws.send(message, cb);
+            client.send(message, cb);
           },
           confirm(message) {
             return new Promise((resolve, reject) => {
+              if (!this.transferID) {
+                reject(new Error('No transfer in progress'));
+                return;
+              }
+
               const uuid = randomUUID();
 
               const payload = JSON.stringify({ uuid, data: message });
 
+              const listen = (socket: WebSocket) => {
+                const onResponse = (raw: RawData) => {
+                  const response = JSON.parse(raw.toString());
+
+                  if (response.uuid === uuid) {
+                    confirmations.delete(uuid);
+                    resolve(response.data ?? null);
+                  } else {
+                    socket.once('message', onResponse);
+                  }
+                };
+
+                socket.once('message', onResponse);
+              };
+
+              confirmations.set(uuid, { payload, listen, reject });
+
               this.send(payload, (error) => {
-                if (error) {
+                if (error && isConnected()) {
+                  confirmations.delete(uuid);
                   reject(error);
                 }
               });
 
-              const onResponse = (raw: RawData) => {
-                const response = JSON.parse(raw.toString());
+              listen(client);
+            });
+          },
 
-                if (response.uuid === uuid) {
-                  resolve(response.data ?? null);
-                } else {
-                  ws.once('message', onResponse);
-                }
-              };
+          reconnect(socket) {
+            client = socket;
 
-              ws.once('message', onResponse);
+            confirmations.forEach(({ payload, listen }) => {
+              listen(socket);
+              this.send(payload);
             });
           },
 
+          updateCheckpoint(stage, action) {
+            const { completed } = state.checkpoint;
+
+            if (action === 'start') {
+              state.checkpoint = { completed, stage, batches: 0 };
+            }
+
+            if (action === 'stream') {
+              state.checkpoint.batches += 1;
+            }
+
+            if (action === 'end') {
+              state.checkpoint = { completed: [...completed, stage], stage: null, batches: 0 };
+            }
+          },
+
           async executeAndRespond(uuid, fn) {
             try {
               const response = await fn();
@@ -314,6 +396,13 @@ export const handlerControllerFactory =
             this.transferID = undefined;
             this.startedAt = undefined;
             this.response = undefined;
+
+            state.checkpoint = createCheckpoint();
+
+            confirmations.forEach(({ reject }) =>
+              reject(new Error('The transfer has been closed'))
+            );
+            confirmations.clear();
           },
 
           teardown() {
@@ -329,6 +418,34 @@ export const handlerControllerFactory =
           end() {},
           status() {},
 
+          async resume(params?: Protocol.Client.GetCommandParams<'resume'>) {
+            await this.verifyAuth();
+
+            if (this.isTransferStarted()) {
+              throw new Error('Transfer already in progress');
+            }
+
+            const transferID = params?.transferID;
+            const suspended = transferID ? suspendedTransfers.get(transferID) : undefined;
+
+            if (!transferID || !suspended) {
+              throw new ProviderTransferError(
+                'No interrupted transfer found for the provided ID, it may have expired'
+              );
+            }
+
+            clearTimeout(suspended.timeout);
+            suspendedTransfers.delete(transferID);
+
+            // The suspended handler takes over this connection and its next messages
+            suspended.handler.reconnect(ws);
+            handler = suspended.handler;
+
+            strapi.log.info(`[Data transfer] Resuming transfer ${transferID}`);
+
+            return { transferID, checkpoint: suspended.handler.checkpoint };
+          },
+
           // Default prototype implementation for events
           onMessage() {},
           onError() {},
@@ -337,12 +454,11 @@ export const handlerControllerFactory =
           onWarning() {},
         };
 
-        const handler: Handler = Object.assign(Object.create(prototype), implementation(prototype));
+        handler = Object.assign(Object.create(prototype), implementation(prototype));
 
-        // Bind ws events to handler methods
-        ws.on('close', async (...args) => {
+        const close = async (closedHandler: Handler, code: number, reason: Buffer) => {
           try {
-            await handler.onClose(...args);
+            await closedHandler.onClose(code, reason);
           } catch (err) {
             strapi?.log?.error('[Data transfer] Uncaught error closing connection');
             strapi?.log?.error(err);
@@ -352,6 +468,47 @@ export const handlerControllerFactory =
             strapi.db.lifecycles.enable();
             strapi.log.info('[Data transfer] Restoring lifecycle hooks');
           }
+        };
+
+        /**
+         * Keep the transfer of a lost connection open during the grace period so that it can be resumed
+         * Returns false if resuming transfers is disabled
+         */
+        const suspend = (suspendedHandler: Handler, code: number, reason: Buffer) => {
+          const { transferID } = suspendedHandler;
+          const gracePeriod = getResumeGracePeriod();
+
+          if (!transferID || gracePeriod <= 0) {
+            return false;
+          }
+
+          strapi.log.info(
+            `[Data transfer] Connection lost, transfer ${transferID} can be resumed during ${gracePeriod}ms`
+          );
+
+          const timeout = setTimeout(() => {
+            suspendedTransfers.delete(transferID);
+            strapi.log.info(`[Data transfer] Transfer ${transferID} has not been resumed in time`);
+            close(suspendedHandler, code, reason);
+          }, gracePeriod);
+
+          suspendedTransfers.set(transferID, { handler: suspendedHandler, timeout });
+
+          return true;
+        };
+
+        // Bind ws events to handler methods
+        ws.on('close', async (code, reason) => {
+          // The transfer has been resumed with another connection
+          if (handler.socket !== ws) {
+            return;
+          }
+
+          if (handler.isTransferStarted() && suspend(handler, code, reason)) {
+            return;
+          }
+
+          await close(handler, code, reason);
         });
         ws.on('error', async (...args) => {
           try {
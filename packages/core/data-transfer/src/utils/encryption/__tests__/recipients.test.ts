@@ -0,0 +1,88 @@
+import { generateKeyPairSync } from 'crypto';
+import { Readable } from 'stream';
+
+import { collect } from '../../stream';
+import { createRecipientsDecryptionStream, createRecipientsEncryptionStream } from '..';
+
+const generateKeys = (type: 'rsa' | 'x25519') => {
+  const { publicKey, privateKey } =
+    type === 'rsa'
+      ? generateKeyPairSync('rsa', { modulusLength: 2048 })
+      : generateKeyPairSync('x25519');
+
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+};
+
+const rsa = generateKeys('rsa');
+const x25519 = generateKeys('x25519');
+
+const content = Buffer.from('something ate an apple'.repeat(100));
+
+const encrypt = async (publicKeys: string[]) => {
+  return Buffer.concat(
+    await collect<Buffer>(
+      Readable.from([content]).pipe(createRecipientsEncryptionStream(publicKeys))
+    )
+  );
+};
+
+const decrypt = async (data: Buffer, privateKey: string) => {
+  // Split the data in small chunks to read the header across several of them
+  const chunks = Array.from({ length: Math.ceil(data.length / 7) }, (_, index) => {
+    return data.subarray(index * 7, (index + 1) * 7);
+  });
+
+  return Buffer.concat(
+    await collect<Buffer>(Readable.from(chunks).pipe(createRecipientsDecryptionStream(privateKey)))
+  );
+};
+
+describe('Recipients encryption', () => {
+  test.each([['rsa'], ['x25519']] as const)(
+    'Decrypts a file encrypted for a %s key',
+    async (type) => {
+      const { publicKey, privateKey } = type === 'rsa' ? rsa : x25519;
+      const encrypted = await encrypt([publicKey]);
+
+      expect(encrypted.includes(content)).toBe(false);
+      expect(await decrypt(encrypted, privateKey)).toEqual(content);
+    }
+  );
+
+  test('Can be decrypted by any of the recipients', async () => {
+    const encrypted = await encrypt([rsa.publicKey, x25519.publicKey]);
+
+    expect(await decrypt(encrypted, rsa.privateKey)).toEqual(content);
+    expect(await decrypt(encrypted, x25519.privateKey)).toEqual(content);
+  });
+
+  test('Fails with the key of someone else', async () => {
+    const encrypted = await encrypt([rsa.publicKey]);
+
+    await expect(decrypt(encrypted, x25519.privateKey)).rejects.toThrow(
+      'The file is not encrypted for the provided private key'
+    );
+  });
+
+  test('Fails when the file has been modified', async () => {
+    const encrypted = await encrypt([x25519.publicKey]);
+    encrypted[encrypted.length - 20] += 1;
+
+    await expect(decrypt(encrypted, x25519.privateKey)).rejects.toThrow(
+      'The encrypted file could not be authenticated'
+    );
+  });
+
+  test('Only accepts RSA and X25519 recipients', () => {
+    const { publicKey } = generateKeyPairSync('ed25519');
+
+    expect(() =>
+      createRecipientsEncryptionStream([
+        publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+      ])
+    ).toThrow('Unsupported key type "ed25519"');
+  });
+});
@@ -0,0 +1,54 @@
+import os from 'os';
+import path from 'path';
+import { generateKeyPairSync } from 'crypto';
+import fs from 'fs-extra';
+
+import { getSignatureFilePath, signFile, verifyFileSignature } from '..';
+
+const generateKeys = () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+
+  return {
+    publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+  };
+};
+
+describe('Signature', () => {
+  const signer = generateKeys();
+  const someoneElse = generateKeys();
+
+  let filePath: string;
+
+  beforeEach(async () => {
+    filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'strapi-')), 'export.tar.gz');
+    await fs.writeFile(filePath, 'archive content');
+  });
+
+  afterEach(async () => {
+    await fs.rm(path.dirname(filePath), { recursive: true, force: true });
+  });
+
+  test('Writes the signature next to the file', async () => {
+    expect(await signFile(filePath, signer.privateKey)).toBe(`${filePath}.sig`);
+    expect(await fs.pathExists(getSignatureFilePath(filePath))).toBe(true);
+  });
+
+  test('Verifies the signature with the trusted keys', async () => {
+    await signFile(filePath, signer.privateKey);
+
+    expect(await verifyFileSignature(filePath, [someoneElse.publicKey, signer.publicKey])).toBe(
+      true
+    );
+    expect(await verifyFileSignature(filePath, [someoneElse.publicKey])).toBe(false);
+  });
+
+  test('Rejects the files which are modified or not signed', async () => {
+    expect(await verifyFileSignature(filePath, [signer.publicKey])).toBe(false);
+
+    await signFile(filePath, signer.privateKey);
+    await fs.appendFile(filePath, 'modified');
+
+    expect(await verifyFileSignature(filePath, [signer.publicKey])).toBe(false);
+  });
+});
@@ -1,2 +1,4 @@
 export * from './encrypt';
 export * from './decrypt';
+export * from './recipients';
+export * from './signature';
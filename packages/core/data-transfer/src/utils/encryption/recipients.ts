@@ -0,0 +1,282 @@
+import {
+  constants,
+  createCipheriv,
+  createDecipheriv,
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  DecipherGCM,
+  diffieHellman,
+  generateKeyPairSync,
+  hkdfSync,
+  KeyObject,
+  privateDecrypt,
+  publicEncrypt,
+  randomBytes,
+} from 'crypto';
+import { Transform } from 'stream';
+
+/**
+ * Files encrypted for recipients start with this signature, followed by the length of the header
+ * (uint32) and the header itself (JSON). The encrypted content comes next, ended by its auth tag.
+ */
+const FILE_SIGNATURE = Buffer.from('STRAPI-RECIPIENTS-1');
+const HEADER_LENGTH_SIZE = 4;
+const AUTH_TAG_LENGTH = 16;
+
+const CONTENT_ALGORITHM = 'aes-256-gcm';
+const KEY_DERIVATION_INFO = 'strapi-data-transfer-recipient';
+
+type RecipientKeyType = 'rsa' | 'x25519';
+
+interface IRecipient {
+  type: RecipientKeyType;
+  fingerprint: string; // sha256 of the public key, used to find the recipient matching a private key
+  key: string; // the content key, encrypted for the recipient
+  ephemeralPublicKey?: string; // x25519 only, used to derive the key which encrypts the content key
+  iv?: string; // x25519 only
+  authTag?: string; // x25519 only
+}
+
+interface IRecipientsHeader {
+  algorithm: typeof CONTENT_ALGORITHM;
+  iv: string;
+  recipients: IRecipient[];
+}
+
+/**
+ * Get the sha256 fingerprint of a public key, or of the public key matching a private key
+ */
+export const getKeyFingerprint = (key: KeyObject) => {
+  const publicKey = key.type === 'private' ? createPublicKey(key) : key;
+
+  return createHash('sha256')
+    .update(publicKey.export({ type: 'spki', format: 'der' }))
+    .digest('hex');
+};
+
+const getRecipientKeyType = (key: KeyObject): RecipientKeyType => {
+  const type = key.asymmetricKeyType;
+
+  if (type !== 'rsa' && type !== 'x25519') {
+    throw new Error(
+      `Unsupported key type "${type}", only RSA and X25519 keys can be used to encrypt a file for recipients`
+    );
+  }
+
+  return type;
+};
+
+const deriveWrappingKey = (privateKey: KeyObject, publicKey: KeyObject) => {
+  const secret = diffieHellman({ privateKey, publicKey });
+
+  return Buffer.from(hkdfSync('sha256', secret, Buffer.alloc(0), KEY_DERIVATION_INFO, 32));
+};
+
+const encryptContentKey = (contentKey: Buffer, publicKey: KeyObject): IRecipient => {
+  const type = getRecipientKeyType(publicKey);
+  const fingerprint = getKeyFingerprint(publicKey);
+
+  if (type === 'rsa') {
+    const key = publicEncrypt(
+      { key: publicKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      contentKey
+    );
+
+    return { type, fingerprint, key: key.toString('base64') };
+  }
+
+  // X25519 keys can't encrypt data, the content key is encrypted with a key agreed with an ephemeral key pair
+  const ephemeral = generateKeyPairSync('x25519');
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(
+    CONTENT_ALGORITHM,
+    deriveWrappingKey(ephemeral.privateKey, publicKey),
+    iv
+  );
+  const key = Buffer.concat([cipher.update(contentKey), cipher.final()]);
+
+  return {
+    type,
+    fingerprint,
+    key: key.toString('base64'),
+    ephemeralPublicKey: ephemeral.publicKey
+      .export({ type: 'spki', format: 'der' })
+      .toString('base64'),
+    iv: iv.toString('base64'),
+    authTag: cipher.getAuthTag().toString('base64'),
+  };
+};
+
+const decryptContentKey = (recipient: IRecipient, privateKey: KeyObject) => {
+  const key = Buffer.from(recipient.key, 'base64');
+
+  if (recipient.type === 'rsa') {
+    return privateDecrypt(
+      { key: privateKey, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      key
+    );
+  }
+
+  const ephemeralPublicKey = createPublicKey({
+    key: Buffer.from(recipient.ephemeralPublicKey ?? '', 'base64'),
+    type: 'spki',
+    format: 'der',
+  });
+  const decipher = createDecipheriv(
+    CONTENT_ALGORITHM,
+    deriveWrappingKey(privateKey, ephemeralPublicKey),
+    Buffer.from(recipient.iv ?? '', 'base64')
+  );
+
+  decipher.setAuthTag(Buffer.from(recipient.authTag ?? '', 'base64'));
+
+  return Buffer.concat([decipher.update(key), decipher.final()]);
+};
+
+/**
+ * It creates a stream which encrypts a file for one or more recipients
+ *
+ * The content is encrypted with a random key, which is then encrypted with the public key of each
+ * recipient, so that any of their private keys can decrypt the file.
+ *
+ * @param publicKeys - The public keys (PEM) of the recipients, either RSA or X25519 keys
+ *
+ * @returns A {@link Transform} stream writing the encrypted file
+ */
+export const createRecipientsEncryptionStream = (publicKeys: string[]): Transform => {
+  if (publicKeys.length === 0) {
+    throw new Error('At least one recipient is required to encrypt a file');
+  }
+
+  const contentKey = randomBytes(32);
+  const iv = randomBytes(12);
+
+  const header: IRecipientsHeader = {
+    algorithm: CONTENT_ALGORITHM,
+    iv: iv.toString('base64'),
+    recipients: publicKeys.map((publicKey) =>
+      encryptContentKey(contentKey, createPublicKey(publicKey))
+    ),
+  };
+
+  const headerData = Buffer.from(JSON.stringify(header));
+  const headerLength = Buffer.alloc(HEADER_LENGTH_SIZE);
+  headerLength.writeUInt32BE(headerData.length);
+
+  const cipher = createCipheriv(CONTENT_ALGORITHM, contentKey, iv);
+
+  const stream = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      callback(null, cipher.update(chunk));
+    },
+
+    flush(callback) {
+      this.push(cipher.final());
+      this.push(cipher.getAuthTag());
+      callback();
+    },
+  });
+
+  stream.push(Buffer.concat([FILE_SIGNATURE, headerLength, headerData]));
+
+  return stream;
+};
+
+/**
+ * It creates a stream which decrypts a file encrypted for recipients
+ *
+ * The auth tag is checked once the whole file has been read, and the stream fails if the file has
+ * been modified.
+ *
+ * @param privateKey - The private key (PEM) of one of the recipients of the file
+ *
+ * @returns A {@link Transform} stream writing the decrypted content
+ */
+export const createRecipientsDecryptionStream = (privateKey: string): Transform => {
+  const key = createPrivateKey(privateKey);
+  const fingerprint = getKeyFingerprint(key);
+
+  let buffer = Buffer.alloc(0);
+  let decipher: DecipherGCM | undefined;
+
+  // Read the header once it has been fully received and prepare the decipher
+  const readHeader = () => {
+    const headerStart = FILE_SIGNATURE.length + HEADER_LENGTH_SIZE;
+
+    if (buffer.length < headerStart) {
+      return;
+    }
+
+    if (!buffer.subarray(0, FILE_SIGNATURE.length).equals(FILE_SIGNATURE)) {
+      throw new Error('The file is not encrypted for recipients');
+    }
+
+    const headerEnd = headerStart + buffer.readUInt32BE(FILE_SIGNATURE.length);
+
+    if (buffer.length < headerEnd) {
+      return;
+    }
+
+    const header: IRecipientsHeader = JSON.parse(
+      buffer.subarray(headerStart, headerEnd).toString()
+    );
+    const recipient = header.recipients.find((item) => item.fingerprint === fingerprint);
+
+    if (!recipient) {
+      throw new Error('The file is not encrypted for the provided private key');
+    }
+
+    decipher = createDecipheriv(
+      header.algorithm,
+      decryptContentKey(recipient, key),
+      Buffer.from(header.iv, 'base64')
+    );
+    buffer = buffer.subarray(headerEnd);
+  };
+
+  // Decrypt what has been received, except for the last bytes which could be the auth tag
+  const decrypt = () => {
+    if (!decipher || buffer.length <= AUTH_TAG_LENGTH) {
+      return Buffer.alloc(0);
+    }
+
+    const data = decipher.update(buffer.subarray(0, buffer.length - AUTH_TAG_LENGTH));
+    buffer = buffer.subarray(buffer.length - AUTH_TAG_LENGTH);
+
+    return data;
+  };
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      buffer = Buffer.concat([buffer, chunk]);
+
+      try {
+        if (!decipher) {
+          readHeader();
+        }
+
+        this.push(decrypt());
+      } catch (error) {
+        this.destroy(error as Error);
+        return;
+      }
+
+      callback();
+    },
+
+    flush(callback) {
+      if (!decipher || buffer.length !== AUTH_TAG_LENGTH) {
+        callback(new Error('Unexpected end of the encrypted file'));
+        return;
+      }
+
+      try {
+        decipher.setAuthTag(buffer);
+        callback(null, decipher.final());
+      } catch {
+        callback(new Error('The encrypted file could not be authenticated'));
+      }
+    },
+  });
+};
@@ -0,0 +1,82 @@
+import { createHash, createPrivateKey, createPublicKey, KeyObject, sign, verify } from 'crypto';
+import { pipeline } from 'stream/promises';
+import fs from 'fs-extra';
+
+import { getKeyFingerprint } from './recipients';
+
+interface ISignatureFile {
+  digest: 'sha256';
+  fingerprint: string; // sha256 of the public key matching the signing key
+  signature: string;
+}
+
+/**
+ * Get the path of the detached signature of a file
+ */
+export const getSignatureFilePath = (filePath: string) => `${filePath}.sig`;
+
+const getFileDigest = async (filePath: string) => {
+  const hash = createHash('sha256');
+
+  await pipeline(fs.createReadStream(filePath), hash);
+
+  return hash.digest();
+};
+
+// Ed25519 and Ed448 keys sign the data as is, the other keys sign its hash
+const getSignatureAlgorithm = (key: KeyObject) => {
+  return ['ed25519', 'ed448'].includes(key.asymmetricKeyType ?? '') ? null : 'sha256';
+};
+
+/**
+ * Sign a file with a private key and write the signature next to it
+ *
+ * @param filePath - The file to sign
+ * @param privateKey - The private key (PEM) used to sign the file
+ *
+ * @returns The path of the signature file
+ */
+export const signFile = async (filePath: string, privateKey: string) => {
+  const key = createPrivateKey(privateKey);
+  const digest = await getFileDigest(filePath);
+
+  const signatureFile: ISignatureFile = {
+    digest: 'sha256',
+    fingerprint: getKeyFingerprint(key),
+    signature: sign(getSignatureAlgorithm(key), digest, key).toString('base64'),
+  };
+
+  const signatureFilePath = getSignatureFilePath(filePath);
+  await fs.writeJSON(signatureFilePath, signatureFile, { spaces: 2 });
+
+  return signatureFilePath;
+};
+
+/**
+ * Check that a file has been signed by one of the trusted keys
+ *
+ * @param filePath - The file to verify, its signature must be next to it
+ * @param trustedKeys - The public keys (PEM) of the trusted signers
+ *
+ * @returns Whether the signature of the file is valid and comes from a trusted key
+ */
+export const verifyFileSignature = async (filePath: string, trustedKeys: string[]) => {
+  const signatureFilePath = getSignatureFilePath(filePath);
+
+  if (!(await fs.pathExists(signatureFilePath))) {
+    return false;
+  }
+
+  const { fingerprint, signature }: ISignatureFile = await fs.readJSON(signatureFilePath);
+  const key = trustedKeys
+    .map((trustedKey) => createPublicKey(trustedKey))
+    .find((trustedKey) => getKeyFingerprint(trustedKey) === fingerprint);
+
+  if (!key) {
+    return false;
+  }
+
+  const digest = await getFileDigest(filePath);
+
+  return verify(getSignatureAlgorithm(key), digest, key, Buffer.from(signature, 'base64'));
+};
@@ -7,6 +7,29 @@ export interface IMetadata {
   };
 
   createdAt?: string;
+
+  /**
+   * Only defined when a subset of the entities has been transferred
+   */
+  selection?: ISelection;
+}
+
+/**
+ * Subset of the entities of a Strapi instance
+ */
+export interface ISelection {
+  /**
+   * UIDs of the selected content types, every content type is selected when not defined
+   */
+  contentTypes?: string[];
+  /**
+   * Locales of the selected entities, only applies to localized content types
+   */
+  locales?: string[];
+  /**
+   * Query filters the entities of the selected content types must match
+   */
+  filters?: Record<string, unknown>;
 }
 
 /**
@@ -31,6 +54,21 @@ export interface IEntity<T extends UID.ContentType = UID.ContentType> {
   data: Data.Entity<T>;
 }
 
+/**
+ * Identifies an entity across Strapi instances, where its reference ID can differ
+ */
+export interface IEntityIdentity {
+  documentId: string;
+  /**
+   * Only defined when the content type has a locale attribute
+   */
+  locale?: string | null;
+  /**
+   * Whether the entity is the published version of its document, only defined when the content type has a publishedAt attribute
+   */
+  published?: boolean;
+}
+
 /**
  * Union type that regroups all the different kinds of link
  */
@@ -73,6 +111,10 @@ interface IDefaultLink {
      * If the link is part of a collection, keep its position here
      */
     pos?: number;
+    /**
+     * Identity of the entity, only provided by incremental transfers
+     */
+    identity?: IEntityIdentity;
   };
 
   /**
@@ -97,6 +139,10 @@ interface IDefaultLink {
      * If the link is part of a collection, keep its position here
      */
     pos?: number;
+    /**
+     * Identity of the entity, only provided by incremental transfers
+     */
+    identity?: IEntityIdentity;
   };
 }
 
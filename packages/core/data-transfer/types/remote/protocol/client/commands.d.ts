@@ -1,7 +1,11 @@
 import type { ILocalStrapiDestinationProviderOptions } from '../../../../strapi/providers';
-import type { TransferMethod } from '../../../../strapi/remote/constants';
 
-export type CommandMessage = { type: 'command' } & (InitCommand | EndCommand | StatusCommand);
+export type CommandMessage = { type: 'command' } & (
+  | InitCommand
+  | EndCommand
+  | StatusCommand
+  | ResumeCommand
+);
 
 export type Command = CommandMessage['command'];
 
@@ -13,10 +17,15 @@ export type GetCommandParams<T extends Command> = {
 
 export type InitCommand = CreateCommand<
   'init',
-  {
-    options: Pick<ILocalStrapiDestinationProviderOptions, 'strategy' | 'restore'>;
-    transfer: TransferMethod;
-  }
+  | {
+      options: Pick<ILocalStrapiDestinationProviderOptions, 'strategy' | 'restore' | 'incremental'>;
+      transfer: 'push';
+    }
+  | {
+      // Dates are serialized when sent to the remote Strapi
+      options: { since?: string };
+      transfer: 'pull';
+    }
 >;
 export type TransferKind = InitCommand['params']['transfer'];
 
@@ -24,6 +33,9 @@ export type EndCommand = CreateCommand<'end', { transferID: string }>;
 
 export type StatusCommand = CreateCommand<'status'>;
 
+// Attach a new connection to a transfer whose connection has been interrupted
+export type ResumeCommand = CreateCommand<'resume', { transferID: string }>;
+
 type CreateCommand<T extends string, U extends Record<string, unknown> = never> = {
   type: 'command';
   command: T;
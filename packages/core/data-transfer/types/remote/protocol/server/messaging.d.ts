@@ -1,4 +1,5 @@
 import { TransferKind } from '../client';
+import type { TransferStage } from '../../../utils';
 import type { ServerError } from './error';
 import type { Diagnostic } from '../../../../src/utils/diagnostic';
 
@@ -14,8 +15,22 @@ export type OKMessage = Message<{ ok: true }>;
 export type InitMessage = Message<{ transferID: string }>;
 export type EndMessage = OKMessage;
 export type StatusMessage = Message<
-  | { active: true; kind: TransferKind; startedAt: number; elapsed: number }
+  | {
+      active: true;
+      kind: TransferKind;
+      startedAt: number;
+      elapsed: number;
+      checkpoint: TransferCheckpoint;
+    }
   | { active: false; kind: null; startedAt: null; elapsed: null }
 >;
+export type ResumeMessage = Message<{ transferID: string; checkpoint: TransferCheckpoint }>;
+
+// Progress of a transfer, used to know where an interrupted transfer resumes from
+export type TransferCheckpoint = {
+  completed: TransferStage[]; // the stages which have been fully transferred
+  stage: TransferStage | null; // the stage in progress
+  batches: number; // the number of batches of the stage in progress which have been transferred
+};
 
 export type Payload<T extends Message> = T['data'];
@@ -1,5 +1,10 @@
 import type { PassThrough } from 'stream';
-import type { ITransferResults, TransferTransforms, TransferProgress } from './utils';
+import type {
+  IAnonymizationOptions,
+  ITransferResults,
+  TransferTransforms,
+  TransferProgress,
+} from './utils';
 import type { ISourceProvider, IDestinationProvider } from './providers';
 import type { IDiagnosticReporter } from '../engine/diagnostic';
 import type { Diff } from '../utils/json';
@@ -175,4 +180,7 @@ export interface ITransferEngineOptions {
 
   // delay after each record
   throttle?: number;
+
+  // Rules used to anonymize the entities' attributes while they are transferred
+  anonymize?: IAnonymizationOptions;
 }
@@ -60,6 +60,21 @@ export type TransferFilters = {
   [key in TransferTransformOption]?: boolean | TransferFilterArray<key>;
 };
 
+/*
+ * Anonymization
+ */
+export type AnonymizationStrategy = 'fake' | 'hash' | 'null' | 'keep';
+
+export interface IAnonymizationOptions {
+  // Mixed into the fake and hashed values, so that they can't be matched against known values
+  salt?: string;
+
+  // Strategy per attribute, per content type or component UID ("*" applies to all of them)
+  rules: {
+    [uid: string]: { [attribute: string]: AnonymizationStrategy };
+  };
+}
+
 /*
  * Progress
  */
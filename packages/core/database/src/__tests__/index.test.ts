@@ -200,4 +200,96 @@ describe('Database', () => {
       });
     });
   });
+
+  describe('Replicas', () => {
+    const configWithReplicas: DatabaseConfig = {
+      ...configConnectionObject,
+      connection: {
+        ...configConnectionObject.connection,
+        replicas: [{ host: 'replica-1' }, { host: 'replica-2' }],
+      },
+    };
+
+    it('creates a connection per replica with the primary settings', async () => {
+      const db = new Database(configWithReplicas);
+
+      // eslint-disable-next-line @typescript-eslint/no-var-requires, node/no-missing-require
+      const { createConnection } = require('../connection');
+      expect(createConnection).toHaveBeenCalledTimes(3);
+      expect(createConnection.mock.calls[0][0]).not.toHaveProperty('replicas');
+      expect(createConnection.mock.calls[2][0]).toMatchObject({
+        client: 'postgres',
+        connection: { database: 'strapi', user: 'strapi', port: 5432, host: 'replica-2' },
+      });
+      expect(db.replicas).toHaveLength(2);
+
+      await db.destroy();
+    });
+
+    it('ignores the replicas with sqlite', async () => {
+      const db = new Database({
+        ...configWithReplicas,
+        connection: { ...configWithReplicas.connection, client: 'sqlite' },
+      });
+
+      expect(db.replicas).toHaveLength(0);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringMatching(/replicas/));
+
+      await db.destroy();
+    });
+
+    it('reads from the primary outside of a replication scope', async () => {
+      const db = new Database(configWithReplicas);
+
+      expect(db.getReadConnection()).toBe(db.connection);
+
+      await db.destroy();
+    });
+
+    it('reads from the replicas in turn within a replication scope', async () => {
+      const db = new Database(configWithReplicas);
+
+      await db.withReplicas(async () => {
+        expect(db.getReadConnection()).toBe(db.replicas[0]);
+        expect(db.getReadConnection()).toBe(db.replicas[1]);
+        expect(db.getReadConnection()).toBe(db.replicas[0]);
+      });
+
+      await db.destroy();
+    });
+
+    it('reads from the primary once it has been written to', async () => {
+      const db = new Database(configWithReplicas);
+
+      await db.withReplicas(async () => {
+        db.connection.emit('query', { method: 'select' });
+        expect(db.getReadConnection()).toBe(db.replicas[0]);
+
+        db.connection.emit('query', { method: 'insert' });
+        expect(db.getReadConnection()).toBe(db.connection);
+      });
+
+      await db.withReplicas(async () => {
+        db.usePrimary();
+
+        expect(db.getReadConnection()).toBe(db.connection);
+      });
+
+      await db.destroy();
+    });
+
+    it('reads from the primary within and after a transaction', async () => {
+      const db = new Database(configWithReplicas);
+
+      await db.withReplicas(async () => {
+        await db.transaction(async () => {
+          expect(db.getReadConnection()).toBe(db.connection);
+        });
+
+        expect(db.getReadConnection()).toBe(db.connection);
+      });
+
+      await db.destroy();
+    });
+  });
 });
@@ -5,6 +5,7 @@ const clientMap = {
   sqlite: 'better-sqlite3',
   mysql: 'mysql2',
   postgres: 'pg',
+  mssql: 'mssql',
 };
 
 function isClientValid(config: { client?: unknown }): config is { client: keyof typeof clientMap } {
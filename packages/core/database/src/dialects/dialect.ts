@@ -1,6 +1,13 @@
 import type { Database } from '..';
 import type { ForeignKey, Index, Schema } from '../schema';
 
+/**
+ * A foreign key of a table whose referential actions are not enforced by the database
+ */
+export interface UnenforcedForeignKey extends ForeignKey {
+  table: string;
+}
+
 export interface SchemaInspector {
   getSchema(): Promise<Schema>;
   getIndexes(tableName: string): Promise<Index[]>;
@@ -65,6 +72,19 @@ export default class Dialect {
     // noop
   }
 
+  transformSchema(schema: Schema) {
+    return schema;
+  }
+
+  /**
+   * Returns the foreign keys referencing a table whose referential actions were removed by
+   * transformSchema, the entity manager applies them when it deletes rows of the table
+   */
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  getUnenforcedForeignKeys(_tableName: string): UnenforcedForeignKey[] {
+    return [];
+  }
+
   transformErrors(error: Error | { message: string }) {
     if (error instanceof Error) {
       throw error;
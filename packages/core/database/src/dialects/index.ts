@@ -3,6 +3,7 @@ import Dialect from './dialect';
 import PostgresClass from './postgresql';
 import MysqlClass from './mysql';
 import SqliteClass from './sqlite';
+import MssqlClass from './mssql';
 
 /**
  * Require our dialect-specific code
@@ -15,6 +16,8 @@ const getDialectClass = (client: string): typeof Dialect => {
       return MysqlClass;
     case 'sqlite':
       return SqliteClass;
+    case 'mssql':
+      return MssqlClass;
     default:
       throw new Error(`Unknown dialect ${client}`);
   }
@@ -31,6 +34,8 @@ const getDialectName = (client: unknown) => {
       return 'mysql';
     case 'sqlite':
       return 'sqlite';
+    case 'mssql':
+      return 'mssql';
     default:
       throw new Error(`Unknown dialect ${client}`);
   }
@@ -0,0 +1,119 @@
+import MssqlDialect from '..';
+import { metadataToSchema } from '../../../schema/schema';
+import type { Database } from '../../..';
+import type { Table } from '../../../schema/types';
+
+jest.mock('../../../schema/schema', () => ({ metadataToSchema: jest.fn() }));
+
+const foreignKey = (name: string, column: string, referencedTable: string, onDelete: string) => ({
+  name,
+  columns: [column],
+  referencedColumns: ['id'],
+  referencedTable,
+  onDelete,
+});
+
+const articles: Table = {
+  name: 'articles',
+  columns: [],
+  indexes: [],
+  foreignKeys: [
+    foreignKey('articles_created_by_id_fk', 'created_by_id', 'admin_users', 'SET NULL'),
+    foreignKey('articles_updated_by_id_fk', 'updated_by_id', 'admin_users', 'SET NULL'),
+  ],
+};
+
+const relatedArticles: Table = {
+  name: 'articles_related_lnk',
+  columns: [],
+  indexes: [],
+  foreignKeys: [
+    foreignKey('articles_related_lnk_fk', 'article_id', 'articles', 'CASCADE'),
+    foreignKey('articles_related_lnk_inv_fk', 'inv_article_id', 'articles', 'CASCADE'),
+  ],
+};
+
+const categories: Table = {
+  name: 'articles_category_lnk',
+  columns: [],
+  indexes: [],
+  foreignKeys: [
+    foreignKey('articles_category_lnk_fk', 'article_id', 'articles', 'CASCADE'),
+    foreignKey('articles_category_lnk_inv_fk', 'category_id', 'categories', 'CASCADE'),
+  ],
+};
+
+const adminUsers: Table = {
+  name: 'admin_users',
+  columns: [],
+  indexes: [],
+  foreignKeys: [
+    foreignKey('admin_users_created_by_id_fk', 'created_by_id', 'admin_users', 'SET NULL'),
+  ],
+};
+
+const createDialect = () => new MssqlDialect({ config: { connection: {} } } as unknown as Database);
+
+describe('MssqlDialect', () => {
+  describe('transformSchema', () => {
+    test('Removes the actions of the foreign keys with multiple cascade paths', () => {
+      const schema = createDialect().transformSchema({
+        tables: [articles, relatedArticles, categories, adminUsers],
+      });
+
+      const actionsOf = (table: Table) =>
+        table.foreignKeys.map(({ onDelete, onUpdate }) => [onDelete, onUpdate ?? null]);
+
+      // created_by_id & updated_by_id reference the same table
+      expect(actionsOf(schema.tables[0])).toEqual([
+        ['NO ACTION', 'NO ACTION'],
+        ['NO ACTION', 'NO ACTION'],
+      ]);
+      // self relations
+      expect(actionsOf(schema.tables[1])).toEqual([
+        ['NO ACTION', 'NO ACTION'],
+        ['NO ACTION', 'NO ACTION'],
+      ]);
+      expect(actionsOf(schema.tables[2])).toEqual([
+        ['CASCADE', null],
+        ['CASCADE', null],
+      ]);
+      // self references
+      expect(actionsOf(schema.tables[3])).toEqual([['NO ACTION', 'NO ACTION']]);
+    });
+  });
+
+  describe('getUnenforcedForeignKeys', () => {
+    test('Returns the foreign keys referencing a table whose actions were removed', () => {
+      jest.mocked(metadataToSchema).mockReturnValue({
+        tables: [articles, relatedArticles, categories, adminUsers],
+      });
+
+      const dialect = createDialect();
+
+      expect(dialect.getUnenforcedForeignKeys('articles')).toEqual([
+        { ...relatedArticles.foreignKeys[0], table: 'articles_related_lnk' },
+        { ...relatedArticles.foreignKeys[1], table: 'articles_related_lnk' },
+      ]);
+      expect(dialect.getUnenforcedForeignKeys('admin_users')).toEqual([
+        { ...articles.foreignKeys[0], table: 'articles' },
+        { ...articles.foreignKeys[1], table: 'articles' },
+        { ...adminUsers.foreignKeys[0], table: 'admin_users' },
+      ]);
+      expect(dialect.getUnenforcedForeignKeys('categories')).toEqual([]);
+    });
+  });
+
+  describe('transformErrors', () => {
+    test('Converts the not null errors', () => {
+      const error = Object.assign(
+        new Error("Cannot insert the value NULL into column 'title', table 'strapi.dbo.articles'"),
+        { number: 515 }
+      );
+
+      expect(() => createDialect().transformErrors(error)).toThrow(
+        expect.objectContaining({ name: 'NotNullError', details: { column: 'title' } })
+      );
+    });
+  });
+});
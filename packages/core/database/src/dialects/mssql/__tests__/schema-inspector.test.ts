@@ -0,0 +1,137 @@
+import MssqlSchemaInspector from '../schema-inspector';
+import type { Database } from '../../..';
+
+const createInspector = (rows: unknown[]) => {
+  const raw = jest.fn(async () => rows);
+  const db = { connection: { raw }, getSchemaName: () => undefined } as unknown as Database;
+
+  return { raw, inspector: new MssqlSchemaInspector(db) };
+};
+
+const column = (values: Record<string, unknown>) => ({
+  character_maximum_length: null,
+  column_default: null,
+  is_nullable: 'YES',
+  is_identity: 0,
+  ...values,
+});
+
+describe('MssqlSchemaInspector', () => {
+  test('Reads the tables of the dbo schema by default', async () => {
+    const { raw, inspector } = createInspector([{ table_name: 'articles' }]);
+
+    expect(await inspector.getTables()).toEqual(['articles']);
+    expect(raw).toHaveBeenCalledWith(expect.any(String), ['dbo']);
+  });
+
+  test('Converts the column types', async () => {
+    const { raw, inspector } = createInspector([
+      column({ column_name: 'id', data_type: 'int', is_identity: 1, is_nullable: 'NO' }),
+      column({ column_name: 'title', data_type: 'nvarchar', character_maximum_length: 255 }),
+      column({ column_name: 'content', data_type: 'nvarchar', character_maximum_length: -1 }),
+      column({ column_name: 'views', data_type: 'bigint' }),
+      column({ column_name: 'price', data_type: 'decimal' }),
+      column({ column_name: 'published_at', data_type: 'datetime2' }),
+      column({ column_name: 'geometry', data_type: 'geography' }),
+    ]);
+
+    const columns = await inspector.getColumns('articles');
+
+    expect(raw).toHaveBeenCalledWith(expect.any(String), ['dbo', 'articles']);
+    expect(
+      columns.map(({ name, type, args, notNullable }) => [name, type, args, notNullable])
+    ).toEqual([
+      ['id', 'increments', [{ primary: true, primaryKey: true }], true],
+      ['title', 'string', [255], false],
+      ['content', 'text', ['longtext'], false],
+      ['views', 'bigInteger', [], false],
+      ['price', 'decimal', [10, 2], false],
+      ['published_at', 'datetime', [{ useTz: false, precision: 6 }], false],
+      ['geometry', 'specificType', ['geography'], false],
+    ]);
+  });
+
+  test('Parses the default values', async () => {
+    const { inspector } = createInspector([
+      column({ column_name: 'title', data_type: 'nvarchar', column_default: "(N'Untitled')" }),
+      column({ column_name: 'views', data_type: 'int', column_default: '((0))' }),
+      column({ column_name: 'featured', data_type: 'bit', column_default: '((1))' }),
+      column({ column_name: 'draft', data_type: 'bit', column_default: "('0')" }),
+      column({ column_name: 'created_at', data_type: 'datetime2', column_default: '(getdate())' }),
+      column({ column_name: 'slug', data_type: 'nvarchar' }),
+    ]);
+
+    const columns = await inspector.getColumns('articles');
+
+    expect(columns.map(({ name, defaultTo }) => [name, defaultTo])).toEqual([
+      ['title', "'Untitled'"],
+      ['views', '0'],
+      ['featured', 'true'],
+      ['draft', 'false'],
+      ['created_at', 'getdate()'],
+      ['slug', null],
+    ]);
+  });
+
+  test('Groups the columns of the indexes and ignores the id', async () => {
+    const { inspector } = createInspector([
+      {
+        index_id: 1,
+        index_name: 'articles_pk',
+        column_name: 'id',
+        is_unique: true,
+        is_primary: true,
+      },
+      {
+        index_id: 2,
+        index_name: 'articles_documents_idx',
+        column_name: 'document_id',
+        is_unique: false,
+        is_primary: false,
+      },
+      {
+        index_id: 2,
+        index_name: 'articles_documents_idx',
+        column_name: 'locale',
+        is_unique: false,
+        is_primary: false,
+      },
+      {
+        index_id: 3,
+        index_name: 'articles_slug_unique',
+        column_name: 'slug',
+        is_unique: true,
+        is_primary: false,
+      },
+    ]);
+
+    expect(await inspector.getIndexes('articles')).toEqual([
+      { name: 'articles_documents_idx', columns: ['document_id', 'locale'] },
+      { name: 'articles_slug_unique', columns: ['slug'], type: 'unique' },
+    ]);
+  });
+
+  test('Converts the referential actions of the foreign keys', async () => {
+    const { inspector } = createInspector([
+      {
+        constraint_name: 'articles_created_by_id_fk',
+        column_name: 'created_by_id',
+        referenced_table_name: 'admin_users',
+        referenced_column_name: 'id',
+        on_update: 'NO_ACTION',
+        on_delete: 'SET_NULL',
+      },
+    ]);
+
+    expect(await inspector.getForeignKeys('articles')).toEqual([
+      {
+        name: 'articles_created_by_id_fk',
+        columns: ['created_by_id'],
+        referencedColumns: ['id'],
+        referencedTable: 'admin_users',
+        onUpdate: 'NO ACTION',
+        onDelete: 'SET NULL',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import * as errors from '../../errors';
+import type { Database } from '../..';
+import { metadataToSchema } from '../../schema/schema';
+import type { ForeignKey, Schema, Table } from '../../schema/types';
+import Dialect from '../dialect';
+import type { UnenforcedForeignKey } from '../dialect';
+import MssqlSchemaInspector from './schema-inspector';
+
+// JSON is stored as text, which can't be queried with the knex JSON operators
+const UNSUPPORTED_OPERATORS = ['$jsonSupersetOf'];
+
+// https://learn.microsoft.com/en-us/sql/relational-databases/errors-events/database-engine-events-and-errors
+const ERROR_CODES = {
+  NOT_NULL: 515,
+};
+
+const hasReferentialAction = (foreignKey: ForeignKey) => {
+  return [foreignKey.onDelete, foreignKey.onUpdate].some(
+    (action) => action && action.toUpperCase() !== 'NO ACTION'
+  );
+};
+
+/**
+ * SQL Server rejects the foreign keys which could cascade to the same table through multiple
+ * paths: the self references and the foreign keys targeting the same table more than once
+ * (eg created_by_id & updated_by_id)
+ */
+const getMultiplePathsForeignKeys = (table: Table) => {
+  const foreignKeys = table.foreignKeys.filter(hasReferentialAction);
+
+  const countByTable = foreignKeys.reduce(
+    (acc, foreignKey) => {
+      acc[foreignKey.referencedTable] = (acc[foreignKey.referencedTable] ?? 0) + 1;
+      return acc;
+    },
+    {} as Record<string, number>
+  );
+
+  return foreignKeys.filter((foreignKey) => {
+    const isSelfReference = foreignKey.referencedTable === table.name;
+    const hasMultiplePaths = countByTable[foreignKey.referencedTable] > 1;
+
+    return isSelfReference || hasMultiplePaths;
+  });
+};
+
+export default class MssqlDialect extends Dialect {
+  schemaInspector: MssqlSchemaInspector;
+
+  unenforcedForeignKeys?: UnenforcedForeignKey[];
+
+  constructor(db: Database) {
+    super(db, 'mssql');
+
+    this.schemaInspector = new MssqlSchemaInspector(db);
+  }
+
+  useReturning() {
+    return true;
+  }
+
+  usesForeignKeys() {
+    return true;
+  }
+
+  getSqlType(type: string) {
+    switch (type) {
+      // JSON columns are created as nvarchar(max), like the text ones
+      case 'json':
+      case 'jsonb': {
+        return 'text';
+      }
+      case 'timestamp': {
+        return 'datetime';
+      }
+      default: {
+        return type;
+      }
+    }
+  }
+
+  supportsOperator(operator: string) {
+    return !UNSUPPORTED_OPERATORS.includes(operator);
+  }
+
+  /**
+   * The foreign keys with multiple cascade paths don't trigger any action, which are applied by the
+   * entity manager instead
+   */
+  transformSchema(schema: Schema): Schema {
+    const transformTable = (table: Table): Table => {
+      const multiplePathsForeignKeys = getMultiplePathsForeignKeys(table);
+
+      const foreignKeys = table.foreignKeys.map((foreignKey) => {
+        if (!multiplePathsForeignKeys.includes(foreignKey)) {
+          return foreignKey;
+        }
+
+        return { ...foreignKey, onDelete: 'NO ACTION', onUpdate: 'NO ACTION' };
+      });
+
+      return { ...table, foreignKeys };
+    };
+
+    return { ...schema, tables: schema.tables.map(transformTable) };
+  }
+
+  getUnenforcedForeignKeys(tableName: string) {
+    if (!this.unenforcedForeignKeys) {
+      const { tables } = metadataToSchema(this.db.metadata);
+
+      this.unenforcedForeignKeys = tables.flatMap((table) => {
+        return getMultiplePathsForeignKeys(table).map((foreignKey) => ({
+          ...foreignKey,
+          table: table.name,
+        }));
+      });
+    }
+
+    return this.unenforcedForeignKeys.filter(
+      (foreignKey) => foreignKey.referencedTable === tableName
+    );
+  }
+
+  transformErrors(error: Error & { number?: number }) {
+    switch (error.number) {
+      case ERROR_CODES.NOT_NULL: {
+        // eg Cannot insert the value NULL into column 'title', table 'strapi.dbo.articles'
+        const column = error.message.match(/column '([^']+)'/)?.[1];
+
+        throw new errors.NotNullError({ column });
+      }
+      default: {
+        super.transformErrors(error);
+      }
+    }
+  }
+}
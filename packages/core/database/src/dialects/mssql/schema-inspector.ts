@@ -0,0 +1,298 @@
+import type { Database } from '../..';
+import type { Schema, Column, Index, ForeignKey } from '../../schema/types';
+import type { SchemaInspector } from '../dialect';
+
+interface RawTable {
+  table_name: string;
+}
+
+interface RawColumn {
+  data_type: string;
+  column_name: string;
+  character_maximum_length: number;
+  column_default: string | null;
+  is_nullable: string;
+  is_identity: number;
+}
+
+interface RawIndex {
+  index_id: number;
+  index_name: string;
+  column_name: string;
+  is_unique: boolean;
+  is_primary: boolean;
+}
+
+interface RawForeignKey {
+  constraint_name: string;
+  column_name: string;
+  referenced_table_name: string;
+  referenced_column_name: string;
+  on_update: string;
+  on_delete: string;
+}
+
+const SQL_QUERIES = {
+  TABLE_LIST: /* sql */ `
+    SELECT t.table_name as table_name
+    FROM information_schema.tables t
+    WHERE t.table_type = 'BASE TABLE'
+    AND t.table_schema = ?;
+  `,
+  LIST_COLUMNS: /* sql */ `
+    SELECT
+      c.data_type as data_type,
+      c.column_name as column_name,
+      c.character_maximum_length as character_maximum_length,
+      c.column_default as column_default,
+      c.is_nullable as is_nullable,
+      COLUMNPROPERTY(OBJECT_ID(QUOTENAME(c.table_schema) + '.' + QUOTENAME(c.table_name)), c.column_name, 'IsIdentity') as is_identity
+    FROM information_schema.columns c
+    WHERE c.table_schema = ?
+    AND c.table_name = ?;
+  `,
+  INDEX_LIST: /* sql */ `
+    SELECT
+      i.index_id as index_id,
+      i.name as index_name,
+      col.name as column_name,
+      i.is_unique as is_unique,
+      i.is_primary_key as is_primary
+    FROM sys.indexes i
+    INNER JOIN sys.index_columns ic ON ic.object_id = i.object_id AND ic.index_id = i.index_id
+    INNER JOIN sys.columns col ON col.object_id = ic.object_id AND col.column_id = ic.column_id
+    INNER JOIN sys.tables t ON t.object_id = i.object_id
+    INNER JOIN sys.schemas s ON s.schema_id = t.schema_id
+    WHERE s.name = ?
+    AND t.name = ?
+    ORDER BY i.index_id, ic.key_ordinal;
+  `,
+  FOREIGN_KEY_LIST: /* sql */ `
+    SELECT
+      fk.name as constraint_name,
+      col.name as column_name,
+      rt.name as referenced_table_name,
+      rcol.name as referenced_column_name,
+      fk.update_referential_action_desc as on_update,
+      fk.delete_referential_action_desc as on_delete
+    FROM sys.foreign_keys fk
+    INNER JOIN sys.foreign_key_columns fkc ON fkc.constraint_object_id = fk.object_id
+    INNER JOIN sys.tables t ON t.object_id = fk.parent_object_id
+    INNER JOIN sys.schemas s ON s.schema_id = t.schema_id
+    INNER JOIN sys.columns col ON col.object_id = fkc.parent_object_id AND col.column_id = fkc.parent_column_id
+    INNER JOIN sys.tables rt ON rt.object_id = fk.referenced_object_id
+    INNER JOIN sys.columns rcol ON rcol.object_id = fkc.referenced_object_id AND rcol.column_id = fkc.referenced_column_id
+    WHERE s.name = ?
+    AND t.name = ?
+    ORDER BY fk.name, fkc.constraint_column_id;
+  `,
+};
+
+const toStrapiType = (column: RawColumn) => {
+  const rootType = column.data_type.toLowerCase().match(/[^(), ]+/)?.[0];
+
+  switch (rootType) {
+    case 'int': {
+      if (column.is_identity === 1) {
+        return { type: 'increments', args: [{ primary: true, primaryKey: true }] };
+      }
+
+      return { type: 'integer' };
+    }
+    case 'bigint': {
+      return { type: 'bigInteger' };
+    }
+    case 'decimal':
+    case 'numeric': {
+      return { type: 'decimal', args: [10, 2] };
+    }
+    case 'float':
+    case 'real': {
+      return { type: 'double' };
+    }
+    case 'bit': {
+      return { type: 'boolean' };
+    }
+    case 'nvarchar':
+    case 'varchar': {
+      // The (max) length is used for the text and JSON columns
+      if (column.character_maximum_length === -1) {
+        return { type: 'text', args: ['longtext'] };
+      }
+
+      return { type: 'string', args: [column.character_maximum_length] };
+    }
+    case 'datetime2':
+    case 'datetime':
+    case 'datetimeoffset': {
+      return { type: 'datetime', args: [{ useTz: false, precision: 6 }] };
+    }
+    case 'date': {
+      return { type: 'date' };
+    }
+    case 'time': {
+      return { type: 'time', args: [{ precision: 3 }] };
+    }
+    default: {
+      return { type: 'specificType', args: [column.data_type] };
+    }
+  }
+};
+
+/**
+ * SQL Server wraps the default values in parentheses, eg ('value') or ((0))
+ */
+const toDefaultValue = (column: RawColumn) => {
+  if (column.column_default === null) {
+    return null;
+  }
+
+  let value = column.column_default;
+  while (value.startsWith('(') && value.endsWith(')')) {
+    value = value.slice(1, -1);
+  }
+
+  // Unicode strings are prefixed, eg N'value'
+  if (value.startsWith("N'")) {
+    value = value.slice(1);
+  }
+
+  // Booleans are stored as bits
+  if (column.data_type === 'bit') {
+    const bit = value.replace(/'/g, '');
+
+    if (bit === '0' || bit === '1') {
+      return bit === '1' ? 'true' : 'false';
+    }
+  }
+
+  return value;
+};
+
+// eg SET_NULL -> SET NULL
+const toReferentialAction = (action: string) => action.replace(/_/g, ' ');
+
+export default class MssqlSchemaInspector implements SchemaInspector {
+  db: Database;
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  async getSchema() {
+    const schema: Schema = { tables: [] };
+
+    const tables = await this.getTables();
+
+    schema.tables = await Promise.all(
+      tables.map(async (tableName) => {
+        const columns = await this.getColumns(tableName);
+        const indexes = await this.getIndexes(tableName);
+        const foreignKeys = await this.getForeignKeys(tableName);
+
+        return {
+          name: tableName,
+          columns,
+          indexes,
+          foreignKeys,
+        };
+      })
+    );
+
+    return schema;
+  }
+
+  getDatabaseSchema(): string {
+    return this.db.getSchemaName() || 'dbo';
+  }
+
+  async getTables(): Promise<string[]> {
+    const rows = await this.db.connection.raw<RawTable[]>(SQL_QUERIES.TABLE_LIST, [
+      this.getDatabaseSchema(),
+    ]);
+
+    return rows.map((row) => row.table_name);
+  }
+
+  async getColumns(tableName: string): Promise<Column[]> {
+    const rows = await this.db.connection.raw<RawColumn[]>(SQL_QUERIES.LIST_COLUMNS, [
+      this.getDatabaseSchema(),
+      tableName,
+    ]);
+
+    return rows.map((row) => {
+      const { type, args = [], ...rest } = toStrapiType(row);
+
+      return {
+        type,
+        args,
+        defaultTo: toDefaultValue(row),
+        name: row.column_name,
+        notNullable: row.is_nullable === 'NO',
+        unsigned: false,
+        ...rest,
+      };
+    });
+  }
+
+  async getIndexes(tableName: string): Promise<Index[]> {
+    const rows = await this.db.connection.raw<RawIndex[]>(SQL_QUERIES.INDEX_LIST, [
+      this.getDatabaseSchema(),
+      tableName,
+    ]);
+
+    const ret: Record<RawIndex['index_id'], Index> = {};
+
+    for (const index of rows) {
+      if (index.column_name === 'id') {
+        continue;
+      }
+
+      if (!ret[index.index_id]) {
+        const indexInfo: Index = {
+          columns: [index.column_name],
+          name: index.index_name,
+        };
+
+        if (index.is_primary) {
+          indexInfo.type = 'primary';
+        } else if (index.is_unique) {
+          indexInfo.type = 'unique';
+        }
+
+        ret[index.index_id] = indexInfo;
+      } else {
+        ret[index.index_id].columns.push(index.column_name);
+      }
+    }
+
+    return Object.values(ret);
+  }
+
+  async getForeignKeys(tableName: string): Promise<ForeignKey[]> {
+    const rows = await this.db.connection.raw<RawForeignKey[]>(SQL_QUERIES.FOREIGN_KEY_LIST, [
+      this.getDatabaseSchema(),
+      tableName,
+    ]);
+
+    const ret: Record<RawForeignKey['constraint_name'], ForeignKey> = {};
+
+    for (const fk of rows) {
+      if (!ret[fk.constraint_name]) {
+        ret[fk.constraint_name] = {
+          name: fk.constraint_name,
+          columns: [],
+          referencedColumns: [],
+          referencedTable: fk.referenced_table_name,
+          onUpdate: toReferentialAction(fk.on_update),
+          onDelete: toReferentialAction(fk.on_delete),
+        };
+      }
+
+      ret[fk.constraint_name].columns.push(fk.column_name);
+      ret[fk.constraint_name].referencedColumns.push(fk.referenced_column_name);
+    }
+
+    return Object.values(ret);
+  }
+}
@@ -0,0 +1,64 @@
+import createKnex from 'knex';
+import type { Knex } from 'knex';
+
+import { cleanOrderColumns } from '../regular-relations';
+import type { Database } from '../..';
+import type { Relation } from '../../types';
+
+const knex = createKnex({ client: 'mssql' });
+
+const attribute = {
+  type: 'relation',
+  relation: 'manyToMany',
+  target: 'api::tag.tag',
+  inversedBy: 'articles',
+  joinTable: {
+    name: 'articles_tags_lnk',
+    joinColumn: { name: 'article_id', referencedColumn: 'id' },
+    inverseJoinColumn: { name: 'tag_id', referencedColumn: 'id' },
+    orderColumnName: 'tag_ord',
+    inverseOrderColumnName: 'article_ord',
+  },
+} as unknown as Relation.Bidirectional;
+
+describe('cleanOrderColumns', () => {
+  let queries: string[] = [];
+
+  const transacting = jest.fn();
+  const raw = jest.fn((sql: string, bindings: Knex.RawBinding[]) => {
+    queries.push(knex.raw(sql, bindings).toQuery());
+    return { transacting };
+  });
+  const db = {
+    connection: Object.assign((tableName: string) => knex(tableName), { raw }),
+    getSchemaName: () => undefined,
+  } as unknown as Database;
+
+  beforeAll(() => {
+    global.strapi = { db: { dialect: { client: 'mssql' } } };
+  });
+
+  beforeEach(() => {
+    queries = [];
+    jest.clearAllMocks();
+  });
+
+  test('Updates the order columns with a join on mssql', async () => {
+    const trx = {} as Knex.Transaction;
+
+    await cleanOrderColumns({ id: 1, attribute, db, inverseRelIds: [2, 3], transaction: trx });
+
+    expect(queries.map((query) => query.replace(/\s+/g, ' '))).toEqual([
+      'UPDATE a SET [tag_ord] = b.src_order FROM [articles_tags_lnk] AS a INNER JOIN ( select [id], row_number() over (partition by [article_id] order by [tag_ord]) as src_order from [articles_tags_lnk] where [article_id] = 1 ) AS b ON b.id = a.id',
+      'UPDATE a SET [article_ord] = b.inv_order FROM [articles_tags_lnk] AS a INNER JOIN ( select [id], row_number() over (partition by [tag_id] order by [article_ord]) as inv_order from [articles_tags_lnk] where [tag_id] in (2, 3) ) AS b ON b.id = a.id',
+    ]);
+    expect(transacting).toHaveBeenCalledTimes(2);
+    expect(transacting).toHaveBeenCalledWith(trx);
+  });
+
+  test('Does nothing without relations to reorder', async () => {
+    await cleanOrderColumns({ attribute, db });
+
+    expect(raw).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { applyUnenforcedForeignKeys } from '../unenforced-foreign-keys';
+import type { Database } from '../..';
+
+const createDB = (foreignKeys: unknown[]) => {
+  const queries: Record<string, { whereIn: jest.Mock; delete: jest.Mock; update: jest.Mock }> = {};
+
+  const getConnection = jest.fn((table: string) => {
+    queries[table] = {
+      whereIn: jest.fn().mockReturnThis(),
+      delete: jest.fn(),
+      update: jest.fn(),
+    };
+
+    return queries[table];
+  });
+
+  const db = {
+    dialect: { getUnenforcedForeignKeys: jest.fn(() => foreignKeys) },
+    getConnection,
+  } as unknown as Database;
+
+  return { db, queries, getConnection };
+};
+
+const foreignKey = (table: string, column: string, onDelete: string) => ({
+  table,
+  name: `${table}_${column}_fk`,
+  columns: [column],
+  referencedColumns: ['id'],
+  referencedTable: 'admin_users',
+  onDelete,
+});
+
+describe('applyUnenforcedForeignKeys', () => {
+  test('Deletes or unlinks the rows referencing the deleted rows', async () => {
+    const { db, queries } = createDB([
+      foreignKey('articles', 'created_by_id', 'SET NULL'),
+      foreignKey('admin_users_managers_lnk', 'manager_id', 'CASCADE'),
+    ]);
+
+    await applyUnenforcedForeignKeys(db, 'admin_users', [1, 2]);
+
+    expect(db.dialect.getUnenforcedForeignKeys).toHaveBeenCalledWith('admin_users');
+
+    expect(queries.articles.whereIn).toHaveBeenCalledWith('created_by_id', [1, 2]);
+    expect(queries.articles.update).toHaveBeenCalledWith({ created_by_id: null });
+    expect(queries.articles.delete).not.toHaveBeenCalled();
+
+    expect(queries.admin_users_managers_lnk.whereIn).toHaveBeenCalledWith('manager_id', [1, 2]);
+    expect(queries.admin_users_managers_lnk.delete).toHaveBeenCalled();
+    expect(queries.admin_users_managers_lnk.update).not.toHaveBeenCalled();
+  });
+
+  test('Does nothing when the database enforces every foreign key', async () => {
+    const { db, getConnection } = createDB([]);
+
+    await applyUnenforcedForeignKeys(db, 'admin_users', [1]);
+
+    expect(getConnection).not.toHaveBeenCalled();
+  });
+
+  test('Does nothing without rows to delete', async () => {
+    const { db, getConnection } = createDB([foreignKey('articles', 'created_by_id', 'SET NULL')]);
+
+    await applyUnenforcedForeignKeys(db, 'admin_users', []);
+
+    expect(getConnection).not.toHaveBeenCalled();
+  });
+});
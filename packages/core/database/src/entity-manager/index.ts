@@ -44,6 +44,7 @@ import {
   cleanOrderColumns,
 } from './regular-relations';
 import { relationsOrderer } from './relations-orderer';
+import { applyUnenforcedForeignKeys } from './unenforced-foreign-keys';
 import type { Database } from '..';
 import type { Meta } from '../metadata';
 import type { ID } from '../types';
@@ -458,6 +459,7 @@ export const createEntityManager = (db: Database): EntityManager => {
 
       const { id } = entity;
 
+      await applyUnenforcedForeignKeys(db, db.metadata.get(uid).tableName, [id]);
       await this.createQueryBuilder(uid).where({ id }).delete().execute();
 
       const trx = await strapi.db.transaction();
@@ -480,6 +482,16 @@ export const createEntityManager = (db: Database): EntityManager => {
       const states = await db.lifecycles.run('beforeDeleteMany', uid, { params });
 
       const { where } = params;
+      const { tableName } = db.metadata.get(uid);
+
+      if (!isEmpty(db.dialect.getUnenforcedForeignKeys(tableName))) {
+        const rows = await this.createQueryBuilder(uid)
+          .select('id')
+          .where(where)
+          .execute<{ id: ID }[]>({ mapResults: false });
+
+        await applyUnenforcedForeignKeys(db, tableName, map('id', rows));
+      }
 
       const deletedRows = await this.createQueryBuilder(uid)
         .where(where)
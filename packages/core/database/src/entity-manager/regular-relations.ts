@@ -301,6 +301,23 @@ const cleanOrderColumns = async ({
 
         break;
       }
+      case 'mssql': {
+        const joinTableName = addSchema(db, joinTable.name);
+        const select = selectRowsToOrder(joinTableName);
+
+        // SQL Server doesn't allow aliasing the updated table, it has to be joined instead
+        await db.connection
+          .raw(
+            `UPDATE a
+            SET ?? = b.src_order
+            FROM ?? AS a
+            INNER JOIN ( ${select.sql} ) AS b ON b.id = a.id`,
+            [orderColumnName, joinTableName, ...select.bindings]
+          )
+          .transacting(trx);
+
+        break;
+      }
       default: {
         const joinTableName = addSchema(db, joinTable.name);
         const select = selectRowsToOrder(joinTableName);
@@ -358,6 +375,23 @@ const cleanOrderColumns = async ({
           .transacting(trx);
         break;
       }
+      case 'mssql': {
+        const joinTableName = addSchema(db, joinTable.name);
+        const select = selectRowsToOrder(joinTableName);
+
+        // SQL Server doesn't allow aliasing the updated table, it has to be joined instead
+        await db.connection
+          .raw(
+            `UPDATE a
+            SET ?? = b.inv_order
+            FROM ?? AS a
+            INNER JOIN ( ${select.sql} ) AS b ON b.id = a.id`,
+            [inverseOrderColumnName, joinTableName, ...select.bindings]
+          )
+          .transacting(trx);
+
+        break;
+      }
       default: {
         const joinTableName = addSchema(db, joinTable.name);
         const select = selectRowsToOrder(joinTableName);
@@ -0,0 +1,46 @@
+import { isEmpty, toUpper } from 'lodash/fp';
+
+import { transactionCtx } from '../transaction-context';
+import type { Database } from '..';
+import type { ID } from '../types';
+
+/**
+ * Applies the referential actions of the foreign keys the database doesn't enforce (see
+ * Dialect.getUnenforcedForeignKeys) to the rows referencing rows of a table, before they are deleted:
+ * the referencing rows are deleted (CASCADE) or their reference is removed (SET NULL)
+ */
+export const applyUnenforcedForeignKeys = async (db: Database, tableName: string, ids: ID[]) => {
+  const foreignKeys = db.dialect.getUnenforcedForeignKeys(tableName);
+
+  if (isEmpty(foreignKeys) || isEmpty(ids)) {
+    return;
+  }
+
+  const trx = transactionCtx.get();
+
+  for (const { table, columns, referencedColumns, onDelete } of foreignKeys) {
+    // Strapi only creates foreign keys on a single column referencing the id
+    if (columns.length !== 1 || referencedColumns[0] !== 'id') {
+      continue;
+    }
+
+    const [column] = columns;
+    const qb = db.getConnection(table).whereIn(column, ids);
+
+    if (trx) {
+      qb.transacting(trx);
+    }
+
+    switch (toUpper(onDelete ?? '')) {
+      case 'CASCADE': {
+        await qb.delete();
+        break;
+      }
+      case 'SET NULL': {
+        await qb.update({ [column]: null });
+        break;
+      }
+      default:
+    }
+  }
+};
@@ -7,6 +7,11 @@ export default class DateField extends Field {
   }
 
   fromDB(value: unknown) {
+    // SQL Server returns dates as Date objects (at midnight UTC)
+    if (value instanceof Date) {
+      return value.toISOString().slice(0, 10);
+    }
+
     return value;
   }
 }
@@ -7,6 +7,11 @@ export default class TimeField extends Field {
   }
 
   fromDB(value: unknown) {
+    // SQL Server returns times as Date objects (on 1970-01-01 UTC)
+    if (value instanceof Date) {
+      return value.toISOString().slice(11, 23);
+    }
+
     // make sure that's a string with valid format ?
     return value;
   }
@@ -10,18 +10,28 @@ import { createLifecyclesProvider, LifecycleProvider } from './lifecycles';
 import { createConnection } from './connection';
 import * as errors from './errors';
 import { Callback, transactionCtx, TransactionObject } from './transaction-context';
+import { replicationCtx } from './replication-context';
 import { validateDatabase } from './validations';
 import type { Model } from './types';
 import type { Identifiers } from './utils/identifiers';
 import { createRepairManager, type RepairManager } from './repairs';
 
 export { isKnexQuery } from './utils/knex';
+export { describeDestructiveChange } from './schema/destructive-changes';
 
 interface Settings {
   forceMigration?: boolean;
   runMigrations?: boolean;
+  // refuse to drop tables and columns or narrow column types when syncing the schema
+  preventDestructiveChanges?: boolean;
+  // destructive changes applied anyway, eg ['articles', 'articles.title']
+  approvedDestructiveChanges?: string[];
   migrations: {
     dir: string;
+    // milliseconds to wait for another instance to finish migrating
+    lockTimeout?: number;
+    // extra context given to the user migrations
+    context?: () => Record<string, unknown>;
   };
   [key: string]: unknown;
 }
@@ -32,7 +42,10 @@ export type Logger = Record<
 >;
 
 export interface DatabaseConfig {
-  connection: Knex.Config;
+  connection: Knex.Config & {
+    // connection settings of the read replicas, merged over the primary ones
+    replicas?: Partial<Knex.StaticConnectionConfig>[];
+  };
   settings: Settings;
   logger?: Logger;
 }
@@ -49,9 +62,16 @@ const afterCreate =
     });
   };
 
+// knex query methods which don't write to the database
+const READ_METHODS = ['select', 'first', 'pluck', 'columnInfo'];
+
 class Database {
   connection: Knex;
 
+  replicas: Knex[];
+
+  replicaIndex = 0;
+
   dialect: Dialect;
 
   config: DatabaseConfig;
@@ -84,7 +104,9 @@ class Database {
 
     this.dialect = getDialect(this);
 
-    let knexConfig: Knex.Config = this.config.connection;
+    const { replicas = [], ...connectionConfig } = this.config.connection;
+
+    let knexConfig: Knex.Config = connectionConfig;
 
     // for object connections, we can configure the dialect synchronously
     if (typeof this.config.connection.connection !== 'function') {
@@ -97,7 +119,7 @@ class Database {
       );
 
       knexConfig = {
-        ...this.config.connection,
+        ...connectionConfig,
         connection: async () => {
           // @ts-expect-error confirmed it was a function above
           const conn = await this.config.connection.connection();
@@ -113,6 +135,8 @@ class Database {
       pool: { afterCreate: afterCreate(this) },
     });
 
+    this.replicas = this.createReplicas(connectionConfig, replicas);
+
     this.schema = createSchemaProvider(this);
 
     this.migrations = createMigrationsProvider(this);
@@ -150,6 +174,42 @@ class Database {
     return this;
   }
 
+  createReplicas(
+    connectionConfig: Knex.Config,
+    replicas: Partial<Knex.StaticConnectionConfig>[]
+  ): Knex[] {
+    if (replicas.length === 0) {
+      return [];
+    }
+
+    if (connectionConfig.client === 'sqlite') {
+      this.logger.warn(
+        'Read replicas are not supported by sqlite. Every query will use the primary.'
+      );
+      return [];
+    }
+
+    const { connection } = connectionConfig;
+    const primarySettings = typeof connection === 'object' ? connection : {};
+
+    // Once the primary has been written to, the scope reads from it to see its own writes
+    this.connection.on('query', ({ method }: { method: string }) => {
+      if (!READ_METHODS.includes(method)) {
+        replicationCtx.usePrimary();
+      }
+    });
+
+    return replicas.map((replica) => {
+      return createConnection(
+        {
+          ...connectionConfig,
+          connection: { ...primarySettings, ...replica } as Knex.Config['connection'],
+        },
+        { pool: { afterCreate: afterCreate(this) } }
+      );
+    });
+  }
+
   query(uid: string) {
     if (!this.metadata.has(uid)) {
       throw new Error(`Model ${uid} not found`);
@@ -168,6 +228,10 @@ class Database {
     cb?: TCallback
   ): Promise<ReturnType<TCallback> | TransactionObject> {
     const notNestedTransaction = !transactionCtx.get();
+
+    // The reads following a transaction must see its writes
+    replicationCtx.usePrimary();
+
     const trx = notNestedTransaction
       ? await this.connection.transaction()
       : (transactionCtx.get() as Knex.Transaction);
@@ -219,6 +283,38 @@ class Database {
     return schema ? connection.withSchema(schema) : connection;
   }
 
+  /**
+   * Returns the connection to run a read query on: the replicas take turns within a replication
+   * scope, outside of any transaction. Otherwise it is the primary connection.
+   */
+  getReadConnection(): Knex;
+  getReadConnection(tableName?: string): Knex.QueryBuilder;
+  getReadConnection(tableName?: string): Knex | Knex.QueryBuilder {
+    if (this.replicas.length === 0 || this.inTransaction() || !replicationCtx.canUseReplicas()) {
+      return this.getConnection(tableName);
+    }
+
+    const replica = this.replicas[this.replicaIndex % this.replicas.length];
+    this.replicaIndex += 1;
+
+    const schema = this.getSchemaName();
+    const connection = tableName ? replica(tableName) : replica;
+    return schema ? connection.withSchema(schema) : connection;
+  }
+
+  /**
+   * Runs the callback in a replication scope, in which the read queries can use the replicas
+   * until the primary is written to or `usePrimary` is called
+   */
+  withReplicas<TCallback extends Callback>(cb: TCallback): Promise<ReturnType<TCallback>> {
+    return replicationCtx.run(cb);
+  }
+
+  // Sends the remaining read queries of the current replication scope to the primary
+  usePrimary() {
+    replicationCtx.usePrimary();
+  }
+
   // Returns basic info about the database connection
   getInfo() {
     const connectionSettings = this.connection?.client?.connectionSettings || {};
@@ -258,9 +354,15 @@ class Database {
 
   async destroy() {
     await this.lifecycles.clear();
+    await Promise.all(this.replicas.map((replica) => replica.destroy()));
     await this.connection.destroy();
   }
 }
 
 export { Database, errors };
 export type { Model, Identifiers, Migration };
+export type {
+  Context as MigrationContext,
+  MigrationStatus,
+  UserMigrationFn,
+} from './migrations/common';
@@ -0,0 +1,78 @@
+import { createLock } from '../lock';
+
+import { Database } from '../..';
+
+describe('createLock', () => {
+  let db: Database;
+  let lock: ReturnType<typeof createLock>;
+  let insert: jest.Mock;
+  let first: jest.Mock;
+  let where: jest.Mock;
+
+  beforeEach(() => {
+    insert = jest.fn().mockResolvedValue(undefined);
+    first = jest.fn().mockResolvedValue(undefined);
+    where = jest.fn().mockResolvedValue(undefined);
+
+    db = {
+      getSchemaConnection: jest.fn().mockReturnValue({
+        hasTable: jest.fn().mockResolvedValue(true),
+        createTable: jest.fn().mockResolvedValue(undefined),
+      }),
+      getConnection: jest.fn().mockReturnValue({
+        insert: jest.fn().mockReturnValue({ into: insert }),
+        select: jest.fn().mockReturnValue({ where: jest.fn().mockReturnValue({ first }) }),
+        del: jest.fn().mockReturnValue({ where }),
+      }),
+    } as any;
+
+    lock = createLock({ db, tableName: 'strapi_migrations_lock', timeout: 0 });
+  });
+
+  it('should create the lock table if it does not exist', async () => {
+    (db.getSchemaConnection().hasTable as jest.Mock).mockResolvedValueOnce(false);
+
+    await lock.acquire();
+
+    expect(db.getSchemaConnection().createTable).toHaveBeenCalledWith(
+      'strapi_migrations_lock',
+      expect.any(Function)
+    );
+  });
+
+  it('should acquire the lock by inserting its row', async () => {
+    await lock.acquire();
+
+    expect(db.getConnection().insert).toHaveBeenCalledWith({ id: 1, time: expect.any(Date) });
+    expect(insert).toHaveBeenCalledWith('strapi_migrations_lock');
+  });
+
+  it('should throw when another instance holds the lock', async () => {
+    insert.mockRejectedValue(new Error('duplicate key'));
+    first.mockResolvedValue({ time: '2024-01-01T00:00:00.000Z' });
+
+    await expect(lock.acquire()).rejects.toThrow(
+      'Migrations are locked by another instance since 2024-01-01T00:00:00.000Z'
+    );
+  });
+
+  it('should rethrow the insert errors when the lock is not held', async () => {
+    insert.mockRejectedValue(new Error('connection lost'));
+
+    await expect(lock.acquire()).rejects.toThrow('connection lost');
+  });
+
+  it('should release the lock by deleting its row', async () => {
+    await lock.release();
+
+    expect(where).toHaveBeenCalledWith({ id: 1 });
+  });
+
+  it('should tell whether the lock is held', async () => {
+    expect(await lock.isLocked()).toBe(false);
+
+    first.mockResolvedValue({ time: new Date() });
+
+    expect(await lock.isLocked()).toBe(true);
+  });
+});
@@ -3,10 +3,22 @@ import type { Knex } from 'knex';
 
 import type { Database } from '..';
 
+export interface MigrationStatus {
+  name: string;
+  executed: boolean;
+}
+
 export interface UserMigrationProvider {
   shouldRun(): Promise<boolean>;
-  up(): Promise<void>;
-  down(): Promise<void>;
+  status(): Promise<MigrationStatus[]>;
+  isLocked(): Promise<boolean>;
+  unlock(): Promise<void>;
+  // runs the pending migrations, up to and including `to`
+  up(options?: { to?: string }): Promise<string[]>;
+  // reverts the last migration, or the executed ones down to and including `to`
+  down(options?: { to?: string }): Promise<string[]>;
+  // runs or reverts the migrations so that `name` is the last executed one
+  to(name: string): Promise<string[]>;
 }
 
 export interface InternalMigrationProvider {
@@ -16,18 +28,25 @@ export interface InternalMigrationProvider {
   down(): Promise<void>;
 }
 export interface MigrationProvider {
-  providers: { internal: InternalMigrationProvider };
+  providers: { internal: InternalMigrationProvider; user: UserMigrationProvider };
   shouldRun(): Promise<boolean>;
   up(): Promise<void>;
   down(): Promise<void>;
 }
 
-export type Context = { db: Database };
+export type Context = { db: Database; [key: string]: unknown };
 
 export type MigrationResolver = Resolver<Context>;
 
 export type MigrationFn = (knex: Knex.Transaction, db: Database) => Promise<void>;
 
+// User migrations also receive the context provided by the `migrations.context` setting
+export type UserMigrationFn = (
+  knex: Knex.Transaction,
+  db: Database,
+  context: Context
+) => Promise<void>;
+
 export type Migration = {
   name: string;
   up: MigrationFn;
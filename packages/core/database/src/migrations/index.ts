@@ -14,6 +14,7 @@ export const createMigrationsProvider = (db: Database): MigrationProvider => {
   return {
     providers: {
       internal: internalProvider,
+      user: userProvider,
     },
     async shouldRun() {
       const shouldRunResponses = await Promise.all(
@@ -67,7 +67,7 @@ export const renameIdentifiersLongerThanMaxLength: Migration = {
   },
 };
 
-const renameIndex = async (knex: Knex, db: Database, diff: IndexDiff) => {
+export const renameIndex = async (knex: Knex, db: Database, diff: IndexDiff) => {
   const client = db.config.connection.client;
   const short = diff.short;
   const full = diff.full;
@@ -104,6 +104,13 @@ const renameIndex = async (knex: Knex, db: Database, diff: IndexDiff) => {
         await knex
           .raw('ALTER INDEX ?? RENAME TO ??', [full.indexName, short.indexName])
           .transacting(trx);
+      } else if (client === 'mssql') {
+        await knex
+          .raw(`EXEC sp_rename ?, ?, 'INDEX'`, [
+            `${full.tableName}.${full.indexName}`,
+            short.indexName,
+          ])
+          .transacting(trx);
       } else if (['sqlite', 'sqlite3', 'better-sqlite3'].includes(client as any)) {
         // SQLite doesn't support renaming, so rather than trying to drop/recreate we'll let db sync handle it
         debug(`SQLite does not support index renaming, not renaming index ${full.indexName}`);
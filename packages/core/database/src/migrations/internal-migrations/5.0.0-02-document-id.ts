@@ -57,6 +57,18 @@ const QUERIES = {
 
     return res;
   },
+  async mssql(knex: Knex, params: Params) {
+    return knex.raw(
+      `
+    SELECT TOP 1 :tableName:.id as id, STRING_AGG(CAST(:inverseJoinColumn: AS NVARCHAR(MAX)), ',') as other_ids
+    FROM :tableName:
+    LEFT JOIN :joinTableName: ON :tableName:.id = :joinTableName:.:joinColumn:
+    WHERE :tableName:.document_id IS NULL
+    GROUP BY :tableName:.id, :joinTableName:.:joinColumn:;
+    `,
+      params
+    );
+  },
   async sqlite(knex: Knex, params: Params) {
     return knex.raw(
       `
@@ -72,7 +84,7 @@ const QUERIES = {
   },
 };
 
-const getNextIdsToCreateDocumentId = async (
+export const getNextIdsToCreateDocumentId = async (
   db: Database,
   knex: Knex,
   {
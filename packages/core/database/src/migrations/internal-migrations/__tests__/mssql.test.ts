@@ -0,0 +1,62 @@
+import createKnex from 'knex';
+import type { Knex } from 'knex';
+
+import { renameIndex } from '../5.0.0-01-convert-identifiers-long-than-max-length';
+import { getNextIdsToCreateDocumentId } from '../5.0.0-02-document-id';
+import type { Database } from '../../..';
+
+const knex = createKnex({ client: 'mssql' });
+
+const db = {
+  config: { connection: { client: 'mssql' } },
+  dialect: { client: 'mssql' },
+} as unknown as Database;
+
+describe('internal migrations on mssql', () => {
+  test('Renames the indexes with sp_rename', async () => {
+    const trx = {} as Knex.Transaction;
+    const transacting = jest.fn();
+    const raw = jest.fn((sql: string, bindings: Knex.RawBinding[]) => {
+      return { sql: knex.raw(sql, bindings).toQuery(), transacting };
+    });
+    const connection = {
+      raw,
+      transaction: jest.fn((cb: (trx: Knex.Transaction) => Promise<void>) => cb(trx)),
+    } as unknown as Knex;
+
+    await renameIndex(connection, db, {
+      full: { index: 0, key: 'idx', tableName: 'articles', indexName: 'articles_long_name_index' },
+      short: { index: 0, key: 'idx', tableName: 'articles', indexName: 'articles_long_4f1c3_idx' },
+    });
+
+    expect(raw.mock.results[0].value.sql).toBe(
+      "EXEC sp_rename 'articles.articles_long_name_index', 'articles_long_4f1c3_idx', 'INDEX'"
+    );
+    expect(transacting).toHaveBeenCalledWith(trx);
+  });
+
+  test('Aggregates the localization ids with STRING_AGG', async () => {
+    const queries: string[] = [];
+    const connection = {
+      raw: jest.fn(async (sql: string, bindings: Knex.RawBinding) => {
+        queries.push(knex.raw(sql, bindings).toQuery());
+        return [{ id: 1, other_ids: '2,3' }];
+      }),
+    } as unknown as Knex;
+
+    const ids = await getNextIdsToCreateDocumentId(db, connection, {
+      joinColumn: 'category_id',
+      inverseJoinColumn: 'inv_category_id',
+      tableName: 'categories',
+      joinTableName: 'categories_localizations_links',
+    });
+
+    expect(ids).toEqual([1, 2, 3]);
+    expect(queries[0]).toContain(
+      "SELECT TOP 1 [categories].id as id, STRING_AGG(CAST([inv_category_id] AS NVARCHAR(MAX)), ',') as other_ids"
+    );
+    expect(queries[0]).toContain(
+      'LEFT JOIN [categories_localizations_links] ON [categories].id = [categories_localizations_links].[category_id]'
+    );
+  });
+});
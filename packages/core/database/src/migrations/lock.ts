@@ -0,0 +1,89 @@
+import type { Database } from '..';
+
+export interface Options {
+  db: Database;
+  tableName: string;
+  // how long to wait for another instance to release the lock, in milliseconds
+  timeout?: number;
+}
+
+// The lock is a single row, which can only be inserted by one instance at a time
+const LOCK_ID = 1;
+const RETRY_INTERVAL = 1000;
+const DEFAULT_TIMEOUT = 5 * 60 * 1000;
+
+const wait = (ms: number) => {
+  return new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
+};
+
+export const createLock = (opts: Options) => {
+  const { db, tableName, timeout = DEFAULT_TIMEOUT } = opts;
+
+  const ensureLockTable = async () => {
+    if (await db.getSchemaConnection().hasTable(tableName)) {
+      return;
+    }
+
+    try {
+      await db.getSchemaConnection().createTable(tableName, (table) => {
+        table.integer('id').primary();
+        table.datetime('time', { useTz: false });
+      });
+    } catch (error) {
+      // another instance may have created it in the meantime
+      if (!(await db.getSchemaConnection().hasTable(tableName))) {
+        throw error;
+      }
+    }
+  };
+
+  const getLock = async (): Promise<{ time: Date | string } | undefined> => {
+    return db.getConnection(tableName).select('time').where({ id: LOCK_ID }).first();
+  };
+
+  const tryAcquire = async () => {
+    try {
+      await db.getConnection().insert({ id: LOCK_ID, time: new Date() }).into(tableName);
+      return true;
+    } catch (error) {
+      // the insert fails on the primary key when the lock is already held
+      if (await getLock()) {
+        return false;
+      }
+
+      throw error;
+    }
+  };
+
+  return {
+    async isLocked() {
+      await ensureLockTable();
+      return !!(await getLock());
+    },
+
+    async acquire() {
+      await ensureLockTable();
+
+      const start = Date.now();
+
+      while (!(await tryAcquire())) {
+        if (Date.now() - start >= timeout) {
+          const lock = await getLock();
+          throw new Error(
+            `Migrations are locked by another instance since ${new Date(lock?.time ?? Date.now()).toISOString()}. ` +
+              'If no migration is running, release the lock with `strapi migration:unlock`.'
+          );
+        }
+
+        await wait(RETRY_INTERVAL);
+      }
+    },
+
+    async release() {
+      await ensureLockTable();
+      await db.getConnection(tableName).del().where({ id: LOCK_ID });
+    },
+  };
+};
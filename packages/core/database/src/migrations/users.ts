@@ -2,12 +2,28 @@ import fse from 'fs-extra';
 import { Umzug } from 'umzug';
 
 import { createStorage } from './storage';
+import { createLock } from './lock';
 import { wrapTransaction } from './common';
 import { transformLogMessage } from './logger';
 
-import type { MigrationResolver, UserMigrationProvider } from './common';
+import type { Context, MigrationResolver, UserMigrationFn, UserMigrationProvider } from './common';
 import type { Database } from '..';
 
+const wrapUserMigration = (
+  name: string,
+  direction: 'up' | 'down',
+  context: Context,
+  fn?: UserMigrationFn
+) => {
+  if (typeof fn !== 'function') {
+    return async () => {
+      throw new Error(`Migration ${name} has no ${direction} function`);
+    };
+  }
+
+  return wrapTransaction(context.db)((knex, db) => fn(knex, db, context));
+};
+
 // TODO: check multiple commands in one sql statement
 const migrationResolver: MigrationResolver = ({ name, path, context }) => {
   const { db } = context;
@@ -31,11 +47,14 @@ const migrationResolver: MigrationResolver = ({ name, path, context }) => {
 
   // NOTE: we can add some ts register if we want to handle ts migration files at some point
   // eslint-disable-next-line @typescript-eslint/no-var-requires
-  const migration = require(path);
+  const exported = require(path);
+  // compiled typescript migrations use a default export
+  const migration = exported.default ?? exported;
+
   return {
     name,
-    up: wrapTransaction(db)(migration.up),
-    down: wrapTransaction(db)(migration.down),
+    up: wrapUserMigration(name, 'up', context, migration.up),
+    down: wrapUserMigration(name, 'down', context, migration.down),
   };
 };
 
@@ -44,7 +63,14 @@ export const createUserMigrationProvider = (db: Database): UserMigrationProvider
 
   fse.ensureDirSync(dir);
 
-  const context = { db };
+  // evaluated for each command, so that the context can rely on services loaded after the database
+  const context = (): Context => ({ ...db.config.settings.migrations.context?.(), db });
+
+  const lock = createLock({
+    db,
+    tableName: 'strapi_migrations_lock',
+    timeout: db.config.settings.migrations.lockTimeout,
+  });
 
   const umzugProvider = new Umzug({
     storage: createStorage({ db, tableName: 'strapi_migrations' }),
@@ -70,16 +96,66 @@ export const createUserMigrationProvider = (db: Database): UserMigrationProvider
     },
   });
 
+  // only one instance at a time can run or revert migrations
+  umzugProvider.on('beforeCommand', async ({ command }) => {
+    if (command === 'up' || command === 'down') {
+      await lock.acquire();
+    }
+  });
+
+  umzugProvider.on('afterCommand', async ({ command }) => {
+    if (command === 'up' || command === 'down') {
+      await lock.release();
+    }
+  });
+
+  const getNames = (migrations: { name: string }[]) => migrations.map(({ name }) => name);
+
   return {
     async shouldRun() {
       const pendingMigrations = await umzugProvider.pending();
       return pendingMigrations.length > 0 && db.config?.settings?.runMigrations === true;
     },
-    async up() {
-      await umzugProvider.up();
+    async status() {
+      const executed = await umzugProvider.executed();
+      const pending = await umzugProvider.pending();
+
+      return [
+        ...executed.map(({ name }) => ({ name, executed: true })),
+        ...pending.map(({ name }) => ({ name, executed: false })),
+      ];
+    },
+    async isLocked() {
+      return lock.isLocked();
+    },
+    async unlock() {
+      await lock.release();
+    },
+    async up(options = {}) {
+      return getNames(await umzugProvider.up(options));
     },
-    async down() {
-      await umzugProvider.down();
+    async down(options = {}) {
+      return getNames(await umzugProvider.down(options));
+    },
+    async to(name) {
+      const migrations = await this.status();
+      const index = migrations.findIndex((migration) => migration.name === name);
+
+      if (index === -1) {
+        throw new Error(`Migration ${name} not found`);
+      }
+
+      if (!migrations[index].executed) {
+        return this.up({ to: name });
+      }
+
+      // revert the executed migrations which follow the target one
+      const next = migrations[index + 1];
+      if (!next?.executed) {
+        return [];
+      }
+
+      return this.down({ to: next.name });
     },
   };
 };
@@ -0,0 +1,48 @@
+import createKnex from 'knex';
+
+import { applySearch } from '../search';
+import type { Ctx } from '../../types';
+
+const knex = createKnex({ client: 'mssql' });
+
+const createCtx = (client: string) =>
+  ({
+    uid: 'api::article.article',
+    qb: { aliasColumn: (columnName: string) => `t0.${columnName}` },
+    db: {
+      dialect: { client },
+      metadata: {
+        get: () => ({
+          attributes: {
+            id: { type: 'increments', columnName: 'id' },
+            title: { type: 'string', columnName: 'title' },
+            views: { type: 'integer', columnName: 'views' },
+            secret: { type: 'string', columnName: 'secret', searchable: false },
+          },
+        }),
+      },
+    },
+  }) as unknown as Ctx;
+
+describe('applySearch', () => {
+  test('Casts the columns and escapes the wildcards on mssql', () => {
+    const qb = knex('articles');
+
+    applySearch(qb, '50%_[off]', createCtx('mssql'));
+
+    const { sql, bindings } = qb.toSQL();
+
+    expect(sql).toBe(
+      "select * from [articles] where CAST([t0].[id] AS NVARCHAR(MAX)) LIKE ? ESCAPE '\\' or CAST([t0].[title] AS NVARCHAR(MAX)) LIKE ? ESCAPE '\\'"
+    );
+    expect(bindings).toEqual(['%50\\%_\\[off]%', '%50\\%_\\[off]%']);
+  });
+
+  test('Searches the number columns when the query is a number', () => {
+    const qb = knex('articles');
+
+    applySearch(qb, '12', createCtx('mssql'));
+
+    expect(qb.toSQL().sql).toContain('CAST([t0].[views] AS NVARCHAR(MAX)) LIKE ?');
+  });
+});
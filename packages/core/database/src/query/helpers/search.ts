@@ -59,6 +59,16 @@ export const applySearch = (knex: Knex.QueryBuilder, query: string, ctx: Ctx) =>
       });
       break;
     }
+    case 'mssql': {
+      searchColumns.forEach((attr) => {
+        const columnName = toColumnName(meta, attr);
+        return knex.orWhereRaw(`CAST(?? AS NVARCHAR(MAX)) LIKE ? ESCAPE '\\'`, [
+          qb.aliasColumn(columnName),
+          `%${escapeQuery(query, '*%[\\')}%`,
+        ]);
+      });
+      break;
+    }
     case 'mysql': {
       searchColumns.forEach((attr) => {
         const columnName = toColumnName(meta, attr);
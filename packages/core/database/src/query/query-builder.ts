@@ -115,6 +115,7 @@ export interface QueryBuilder {
 
   processSelect(): void;
 
+  shouldUseReplica(): boolean;
   getKnexQuery(): Knex.QueryBuilder;
 
   execute<T>(options?: { mapResults?: boolean }): Promise<T>;
@@ -503,6 +504,12 @@ const createQueryBuilder = (
       }
     },
 
+    shouldUseReplica() {
+      return (
+        ['select', 'count', 'max'].includes(state.type) && !state.transaction && !state.forUpdate
+      );
+    },
+
     getKnexQuery() {
       if (!state.type) {
         this.select('*');
@@ -510,7 +517,9 @@ const createQueryBuilder = (
 
       const aliasedTableName = this.mustUseAlias() ? `${tableName} as ${this.alias}` : tableName;
 
-      const qb = db.getConnection(aliasedTableName);
+      const qb = this.shouldUseReplica()
+        ? db.getReadConnection(aliasedTableName)
+        : db.getConnection(aliasedTableName);
 
       // The state should always be processed before calling shouldUseSubQuery as it
       // relies on the presence or absence of joins to determine the need of a subquery
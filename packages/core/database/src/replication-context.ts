@@ -0,0 +1,34 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+import type { Callback } from './transaction-context';
+
+export interface Store {
+  usePrimary: boolean;
+}
+
+const storage = new AsyncLocalStorage<Store>();
+
+/**
+ * Scopes (eg a content API request) in which the read queries can be sent to the replicas.
+ * Outside of a scope, every query is sent to the primary.
+ */
+const replicationCtx = {
+  async run<TCallback extends Callback>(cb: TCallback) {
+    return storage.run<ReturnType<TCallback>, void[]>({ usePrimary: false }, cb);
+  },
+
+  // Send the remaining reads of the scope to the primary, eg to read its own writes
+  usePrimary() {
+    const store = storage.getStore();
+    if (store) {
+      store.usePrimary = true;
+    }
+  },
+
+  canUseReplicas() {
+    const store = storage.getStore();
+    return !!store && !store.usePrimary;
+  },
+};
+
+export { replicationCtx };
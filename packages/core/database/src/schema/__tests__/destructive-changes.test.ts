@@ -0,0 +1,128 @@
+import knex from 'knex';
+
+import createSchemaBuilder from '../builder';
+import { describeDestructiveChange, getDestructiveChanges } from '../destructive-changes';
+import type { Schema, SchemaDiff, Table } from '..';
+
+const articles: Table = {
+  name: 'articles',
+  columns: [
+    { name: 'id', type: 'increments', args: [{ primary: true, primaryKey: true }] },
+    { name: 'title', type: 'string', args: [255] },
+    { name: 'views', type: 'bigInteger' },
+    { name: 'summary', type: 'string' },
+  ],
+  indexes: [],
+  foreignKeys: [],
+};
+
+const legacyTable: Table = { name: 'legacy', columns: [], indexes: [], foreignKeys: [] };
+
+const diff: SchemaDiff['diff'] = {
+  tables: {
+    added: [],
+    removed: [legacyTable],
+    unchanged: [],
+    updated: [
+      {
+        name: 'articles',
+        indexes: { added: [], updated: [], unchanged: [], removed: [] },
+        foreignKeys: { added: [], updated: [], unchanged: [], removed: [] },
+        columns: {
+          added: [],
+          removed: [{ name: 'title', type: 'string' }],
+          unchanged: [],
+          updated: [
+            { name: 'views', object: { name: 'views', type: 'integer' } },
+            { name: 'summary', object: { name: 'summary', type: 'text' } },
+          ],
+        },
+      },
+    ],
+  },
+};
+
+const databaseSchema: Schema = { tables: [articles, legacyTable] };
+
+const createDatabase = ({ forceMigration = true, client = 'postgres' } = {}) => {
+  return {
+    connection: knex({ client, useNullAsDefault: true }),
+    config: { connection: { client }, settings: { forceMigration } },
+    getSchemaConnection: (trx: any) => trx.schema,
+    getSchemaName: () => undefined,
+    dialect: {
+      getSqlType: (type: string) => type,
+      canAlterConstraints: () => true,
+      canAddIncrements: () => true,
+      schemaInspector: {
+        getIndexes: async () => [],
+        getForeignKeys: async () => [],
+      },
+    },
+  } as any;
+};
+
+describe('Destructive changes', () => {
+  test('Lists the dropped tables and columns, and the narrowed columns', () => {
+    const changes = getDestructiveChanges(createDatabase(), diff, databaseSchema);
+
+    expect(changes).toEqual([
+      { type: 'DROP_TABLE', table: 'legacy' },
+      { type: 'DROP_COLUMN', table: 'articles', column: 'title' },
+      {
+        type: 'NARROW_COLUMN',
+        table: 'articles',
+        column: 'views',
+        from: 'bigInteger',
+        to: 'integer',
+      },
+    ]);
+    expect(changes.map(describeDestructiveChange)).toEqual([
+      'drop table legacy',
+      'drop column articles.title',
+      'narrow column articles.views from bigInteger to integer',
+    ]);
+  });
+
+  test('Ignores the drops when migrations are not forced', () => {
+    const changes = getDestructiveChanges(
+      createDatabase({ forceMigration: false }),
+      diff,
+      databaseSchema
+    );
+
+    expect(changes.map(({ type }) => type)).toEqual(['NARROW_COLUMN']);
+  });
+});
+
+describe('Schema update dry run', () => {
+  test('Returns the SQL statements of a schema diff without running them', async () => {
+    const db = createDatabase();
+    const builder = createSchemaBuilder(db);
+
+    const statements = await builder.getUpdateSchemaSQL(diff);
+
+    expect(statements).toEqual([
+      'drop table if exists "legacy"',
+      'alter table "articles" alter column "views" drop default',
+      'alter table "articles" alter column "views" drop not null',
+      'alter table "articles" alter column "views" type integer using ("views"::integer)',
+      'alter table "articles" alter column "summary" drop default',
+      'alter table "articles" alter column "summary" drop not null',
+      'alter table "articles" alter column "summary" type text using ("summary"::text)',
+      'alter table "articles" drop column "title"',
+    ]);
+  });
+
+  test('Reports the tables rebuilt by sqlite instead of their statements', async () => {
+    const db = createDatabase({ client: 'better-sqlite3' });
+    const builder = createSchemaBuilder(db);
+
+    const statements = await builder.getUpdateSchemaSQL(diff);
+
+    expect(statements).toEqual([
+      'drop table if exists `legacy`',
+      '-- table articles will be rebuilt (column drop/alter)',
+    ]);
+  });
+});
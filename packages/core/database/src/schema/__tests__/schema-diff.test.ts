@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-namespace */
 import createSchemaDiff from '../diff';
+import MssqlDialect from '../../dialects/mssql';
 import type { Index, Schema, Table } from '..';
 
 describe('diffSchemas', () => {
@@ -1211,4 +1212,59 @@ describe('diffSchemas', () => {
       },
     });
   });
+
+  describe('MSSQL dialect', () => {
+    const dialect = new MssqlDialect({} as any);
+
+    beforeEach(() => {
+      diffSchemas = createSchemaDiff({ dialect } as any).diff;
+    });
+
+    const foreignKey = (name: string, referencedTable: string, onDelete: string) => ({
+      name,
+      columns: [`${name}_id`],
+      referencedColumns: ['id'],
+      referencedTable,
+      onDelete,
+    });
+
+    const userTable: Table = {
+      name: 'articles',
+      columns: [{ name: 'metadata', type: 'jsonb', notNullable: false }],
+      indexes: [],
+      foreignKeys: [
+        foreignKey('created_by', 'admin_users', 'SET NULL'),
+        foreignKey('updated_by', 'admin_users', 'SET NULL'),
+        foreignKey('parent', 'articles', 'CASCADE'),
+        foreignKey('category', 'categories', 'SET NULL'),
+      ],
+    };
+
+    test('Removes the actions of the foreign keys with multiple cascade paths', () => {
+      const { tables } = dialect.transformSchema({ tables: [userTable] });
+
+      expect(tables[0].foreignKeys.map((fk) => [fk.name, fk.onDelete])).toEqual([
+        ['created_by', 'NO ACTION'],
+        ['updated_by', 'NO ACTION'],
+        ['parent', 'NO ACTION'],
+        ['category', 'SET NULL'],
+      ]);
+    });
+
+    test('Considers the JSON columns stored as text and the foreign keys without actions unchanged', async () => {
+      const userSchema = dialect.transformSchema({ tables: [userTable] });
+      const databaseSchema: Schema = {
+        tables: [
+          {
+            ...userSchema.tables[0],
+            columns: [{ name: 'metadata', type: 'text', notNullable: false }],
+          },
+        ],
+      };
+
+      expect(
+        await diffSchemas({ databaseSchema, userSchema, previousSchema: userSchema })
+      ).toMatchObject({ status: 'UNCHANGED' });
+    });
+  });
 });
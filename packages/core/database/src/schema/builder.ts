@@ -64,60 +64,165 @@ export default (db: Database) => {
       });
     },
 
+    /**
+     * Fetches the indexes and foreign keys of the tables updated by a schema diff
+     */
+    async getExistingMetadata(schemaDiff: SchemaDiff['diff']) {
+      const existingMetadata: ExistingMetadata = {};
+      for (const table of schemaDiff.tables.updated) {
+        existingMetadata[table.name] = {
+          indexes: await db.dialect.schemaInspector.getIndexes(table.name),
+          foreignKeys: await db.dialect.schemaInspector.getForeignKeys(table.name),
+        };
+      }
+
+      return existingMetadata;
+    },
+
     /**
      * Applies a schema diff update in the DB
      * @param {*} schemaDiff
      */
     // TODO: implement force option to disable removal in DB
     async updateSchema(schemaDiff: SchemaDiff['diff']) {
-      const forceMigration = db.config.settings?.forceMigration;
-
       await db.dialect.startSchemaUpdate();
 
       // Pre-fetch metadata for all updated tables
-      const existingMetadata: Record<string, { indexes: Index[]; foreignKeys: ForeignKey[] }> = {};
-      for (const table of schemaDiff.tables.updated) {
-        existingMetadata[table.name] = {
-          indexes: await db.dialect.schemaInspector.getIndexes(table.name),
-          foreignKeys: await db.dialect.schemaInspector.getForeignKeys(table.name),
-        };
-      }
+      const existingMetadata = await this.getExistingMetadata(schemaDiff);
 
       await db.connection.transaction(async (trx) => {
-        await this.createTables(schemaDiff.tables.added, trx);
+        await this.applySchemaDiff(schemaDiff, existingMetadata, trx);
+      });
 
-        if (forceMigration) {
-          // drop all delete table foreign keys then delete the tables
-          for (const table of schemaDiff.tables.removed) {
-            debug(`Removing table foreign keys: ${table.name}`);
+      await db.dialect.endSchemaUpdate();
+    },
 
-            const schemaBuilder = this.getSchemaBuilder(trx);
-            await helpers.dropTableForeignKeys(schemaBuilder, table);
-          }
+    /**
+     * Returns the SQL statements updateSchema would run for a schema diff, without running them.
+     * The tables sqlite rebuilds to drop or alter columns are reported as SQL comments
+     */
+    async getUpdateSchemaSQL(schemaDiff: SchemaDiff['diff']): Promise<string[]> {
+      const existingMetadata = await this.getExistingMetadata(schemaDiff);
+      const recorder = createSchemaRecorder(db);
 
-          for (const table of schemaDiff.tables.removed) {
-            debug(`Removing table: ${table.name}`);
+      await this.applySchemaDiff(schemaDiff, existingMetadata, recorder.transaction);
 
-            const schemaBuilder = this.getSchemaBuilder(trx);
-            await helpers.dropTable(schemaBuilder, table);
-          }
-        }
+      return recorder.statements;
+    },
+
+    /**
+     * Applies the changes of a schema diff with the schema builders of a transaction
+     */
+    async applySchemaDiff(
+      schemaDiff: SchemaDiff['diff'],
+      existingMetadata: ExistingMetadata,
+      trx: Knex.Transaction
+    ) {
+      const forceMigration = db.config.settings?.forceMigration;
+
+      await this.createTables(schemaDiff.tables.added, trx);
+
+      if (forceMigration) {
+        // drop all delete table foreign keys then delete the tables
+        for (const table of schemaDiff.tables.removed) {
+          debug(`Removing table foreign keys: ${table.name}`);
 
-        for (const table of schemaDiff.tables.updated) {
-          debug(`Updating table: ${table.name}`);
-          // alter table
           const schemaBuilder = this.getSchemaBuilder(trx);
+          await helpers.dropTableForeignKeys(schemaBuilder, table);
+        }
+
+        for (const table of schemaDiff.tables.removed) {
+          debug(`Removing table: ${table.name}`);
 
-          const { indexes, foreignKeys } = existingMetadata[table.name];
-          await helpers.alterTable(schemaBuilder, table, { indexes, foreignKeys });
+          const schemaBuilder = this.getSchemaBuilder(trx);
+          await helpers.dropTable(schemaBuilder, table);
         }
-      });
+      }
 
-      await db.dialect.endSchemaUpdate();
+      for (const table of schemaDiff.tables.updated) {
+        debug(`Updating table: ${table.name}`);
+        // alter table
+        const schemaBuilder = this.getSchemaBuilder(trx);
+
+        const { indexes, foreignKeys } = existingMetadata[table.name];
+        await helpers.alterTable(schemaBuilder, table, { indexes, foreignKeys });
+      }
     },
   };
 };
 
+type ExistingMetadata = Record<string, { indexes: Index[]; foreignKeys: ForeignKey[] }>;
+
+interface RecordedQuery {
+  sql?: string;
+  bindings?: readonly Knex.RawBinding[];
+  statementsProducer?: unknown;
+  output?: unknown;
+}
+
+// The schema builder methods which run a statement
+const STATEMENT_METHODS = ['createTable', 'alterTable', 'table', 'dropTable', 'dropTableIfExists'];
+
+/**
+ * Creates a transaction whose schema builders record the SQL of the statements instead of running them
+ */
+const createSchemaRecorder = (db: Database) => {
+  const statements: string[] = [];
+
+  const record = (tableName: unknown, builder: Knex.SchemaBuilder) => {
+    let rebuilt = false;
+
+    builder.toSQL().forEach((query: RecordedQuery) => {
+      const { sql, bindings, statementsProducer, output } = query;
+
+      // sqlite rebuilds the table to drop or alter its columns, the statements are computed
+      // from its current columns when running them so they are reported as a comment
+      if (statementsProducer || output) {
+        if (!rebuilt) {
+          statements.push(`-- table ${tableName} will be rebuilt (column drop/alter)`);
+          rebuilt = true;
+        }
+
+        return;
+      }
+
+      if (typeof sql !== 'string' || sql.length === 0) {
+        return;
+      }
+
+      statements.push(bindings?.length ? db.connection.raw(sql, bindings).toQuery() : sql);
+    });
+  };
+
+  const wrap = (builder: Knex.SchemaBuilder): Knex.SchemaBuilder => {
+    return new Proxy(builder, {
+      get(target, property, receiver) {
+        const value = Reflect.get(target, property, receiver);
+
+        if (property === 'withSchema') {
+          return (...args: unknown[]) => wrap(value.apply(target, args));
+        }
+
+        if (typeof property !== 'string' || !STATEMENT_METHODS.includes(property)) {
+          return value;
+        }
+
+        return async (...args: unknown[]) => {
+          record(args[0], value.apply(target, args));
+        };
+      },
+    });
+  };
+
+  const transaction = {
+    get schema() {
+      return wrap(db.connection.schema);
+    },
+  } as unknown as Knex.Transaction;
+
+  return { statements, transaction };
+};
+
 const createHelpers = (db: Database) => {
   /**
    *  Creates a foreign key on a table
@@ -0,0 +1,97 @@
+import type { Database } from '..';
+import type { DestructiveChange, Schema, SchemaDiff } from './types';
+
+// The column types which can hold every value of a given type
+const WIDER_TYPES: Record<string, string[]> = {
+  boolean: ['integer', 'bigInteger', 'decimal', 'double', 'string', 'text'],
+  integer: ['bigInteger', 'decimal', 'double', 'string', 'text'],
+  bigInteger: ['string', 'text'],
+  decimal: ['string', 'text'],
+  double: ['string', 'text'],
+  string: ['text'],
+  date: ['datetime', 'timestamp', 'string', 'text'],
+  time: ['string', 'text'],
+  datetime: ['timestamp', 'string', 'text'],
+  timestamp: ['datetime', 'string', 'text'],
+  json: ['jsonb', 'text'],
+  jsonb: ['json', 'text'],
+};
+
+const isNarrowing = (from: string, to: string) => {
+  return from !== to && !WIDER_TYPES[from]?.includes(to);
+};
+
+/**
+ * Identifies a change in the approved destructive changes, eg `articles` or `articles.title`
+ */
+export const getDestructiveChangeId = (change: DestructiveChange) => {
+  return change.column ? `${change.table}.${change.column}` : change.table;
+};
+
+export const describeDestructiveChange = (change: DestructiveChange) => {
+  const id = getDestructiveChangeId(change);
+
+  switch (change.type) {
+    case 'DROP_TABLE': {
+      return `drop table ${id}`;
+    }
+    case 'DROP_COLUMN': {
+      return `drop column ${id}`;
+    }
+    default: {
+      return `narrow column ${id} from ${change.from} to ${change.to}`;
+    }
+  }
+};
+
+/**
+ * Lists the changes of a schema diff which lose data: the dropped tables and columns, and the
+ * columns converted to a narrower type
+ */
+export const getDestructiveChanges = (
+  db: Database,
+  diff: SchemaDiff['diff'],
+  databaseSchema: Schema
+): DestructiveChange[] => {
+  const changes: DestructiveChange[] = [];
+
+  // tables and columns are only dropped when migrations are forced
+  const forceMigration = db.config.settings?.forceMigration;
+
+  if (forceMigration) {
+    diff.tables.removed.forEach((table) => {
+      changes.push({ type: 'DROP_TABLE', table: table.name });
+    });
+  }
+
+  diff.tables.updated.forEach((table) => {
+    if (forceMigration) {
+      table.columns.removed.forEach((column) => {
+        changes.push({ type: 'DROP_COLUMN', table: table.name, column: column.name });
+      });
+    }
+
+    const databaseTable = databaseSchema.tables.find(({ name }) => name === table.name);
+
+    table.columns.updated.forEach(({ name, object }) => {
+      const databaseColumn = databaseTable?.columns.find((column) => column.name === name);
+      const type = db.dialect.getSqlType(object.type) as string;
+
+      if (!databaseColumn || object.type === 'increments') {
+        return;
+      }
+
+      if (isNarrowing(databaseColumn.type, type)) {
+        changes.push({
+          type: 'NARROW_COLUMN',
+          table: table.name,
+          column: name,
+          from: databaseColumn.type,
+          to: type,
+        });
+      }
+    });
+  });
+
+  return changes;
+};
@@ -4,8 +4,14 @@ import createSchemaBuilder from './builder';
 import createSchemaDiff from './diff';
 import createSchemaStorage from './storage';
 import { metadataToSchema } from './schema';
-
-import type { Schema, SchemaDiff } from './types';
+import {
+  describeDestructiveChange,
+  getDestructiveChangeId,
+  getDestructiveChanges,
+} from './destructive-changes';
+import { DatabaseError } from '../errors';
+
+import type { DestructiveChange, Schema, SchemaDiff } from './types';
 import type { Database } from '..';
 
 export type * from './types';
@@ -18,6 +24,8 @@ export interface SchemaProvider {
   schemaStorage: ReturnType<typeof createSchemaStorage>;
   sync(): Promise<SchemaDiff['status']>;
   syncSchema(): Promise<SchemaDiff['status']>;
+  diff(): Promise<SchemaDiff & { databaseSchema: Schema }>;
+  dryRun(): Promise<DryRunResult>;
   reset(): Promise<void>;
   create(): Promise<void>;
   drop(): Promise<void>;
@@ -28,14 +36,50 @@ interface State {
   schema?: Schema;
 }
 
+export interface DryRunResult {
+  status: SchemaDiff['status'];
+  diff: SchemaDiff['diff'];
+  statements: string[];
+  destructiveChanges: DestructiveChange[];
+}
+
 export const createSchemaProvider = (db: Database): SchemaProvider => {
   const state: State = {};
 
+  /**
+   * Refuses the destructive changes which haven't been approved, when they are prevented
+   */
+  const assertNoDestructiveChanges = (changes: DestructiveChange[]) => {
+    const { preventDestructiveChanges, approvedDestructiveChanges = [] } = db.config.settings;
+
+    if (!preventDestructiveChanges) {
+      return;
+    }
+
+    const refusedChanges = changes.filter(
+      (change) => !approvedDestructiveChanges.includes(getDestructiveChangeId(change))
+    );
+
+    if (refusedChanges.length === 0) {
+      return;
+    }
+
+    throw new DatabaseError(
+      [
+        'Refusing to apply destructive schema changes:',
+        ...refusedChanges.map((change) => `  - ${describeDestructiveChange(change)}`),
+        'Review them with `strapi db:diff` and approve them with the `database.settings.approvedDestructiveChanges` setting,',
+        `eg ${JSON.stringify(refusedChanges.map(getDestructiveChangeId))}`,
+      ].join('\n'),
+      { changes: refusedChanges }
+    );
+  };
+
   return {
     get schema() {
       if (!state.schema) {
         debug('Converting metadata to database schema');
-        state.schema = metadataToSchema(db.metadata);
+        state.schema = db.dialect.transformSchema(metadataToSchema(db.metadata));
       }
 
       return state.schema;
@@ -74,6 +118,41 @@ export const createSchemaProvider = (db: Database): SchemaProvider => {
     async syncSchema(): Promise<SchemaDiff['status']> {
       debug('Synchronizing database schema');
 
+      const { status, diff, databaseSchema } = await this.diff();
+
+      if (status === 'CHANGED') {
+        assertNoDestructiveChanges(getDestructiveChanges(db, diff, databaseSchema));
+
+        await this.builder.updateSchema(diff);
+      }
+
+      await this.schemaStorage.add(this.schema);
+
+      return status;
+    },
+
+    /**
+     * Computes the changes syncSchema would apply and their SQL statements, without applying them
+     */
+    async dryRun(): Promise<DryRunResult> {
+      const { status, diff, databaseSchema } = await this.diff();
+
+      if (status === 'UNCHANGED') {
+        return { status, diff, statements: [], destructiveChanges: [] };
+      }
+
+      return {
+        status,
+        diff,
+        statements: await this.builder.getUpdateSchemaSQL(diff),
+        destructiveChanges: getDestructiveChanges(db, diff, databaseSchema),
+      };
+    },
+
+    /**
+     * Diffs the database schema with the schema of the models
+     */
+    async diff() {
       const databaseSchema = await db.dialect.schemaInspector.getSchema();
       const storedSchema = await this.schemaStorage.read();
 
@@ -93,13 +172,7 @@ export const createSchemaProvider = (db: Database): SchemaProvider => {
         userSchema: this.schema,
       });
 
-      if (status === 'CHANGED') {
-        await this.builder.updateSchema(diff);
-      }
-
-      await this.schemaStorage.add(this.schema);
-
-      return status;
+      return { status, diff, databaseSchema };
     },
 
     // TODO: support options to migrate softly or forcefully
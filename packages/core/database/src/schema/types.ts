@@ -114,3 +114,12 @@ export interface SchemaDiff {
     tables: TablesDiff;
   };
 }
+
+export interface DestructiveChange {
+  type: 'DROP_TABLE' | 'DROP_COLUMN' | 'NARROW_COLUMN';
+  table: string;
+  column?: string;
+  // column types, for the narrowings
+  from?: string;
+  to?: string;
+}
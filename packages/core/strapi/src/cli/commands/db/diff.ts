@@ -0,0 +1,51 @@
+import { createCommand } from 'commander';
+import chalk from 'chalk';
+import { describeDestructiveChange } from '@strapi/database';
+import { createStrapi, compileStrapi } from '@strapi/core';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+
+/**
+ * Prints the SQL statements the schema sync would run on the next start, without running them
+ */
+const action = async () => {
+  const appContext = await compileStrapi();
+  const app = await createStrapi(appContext).register();
+
+  await app.initDatabase();
+
+  const { status, statements, destructiveChanges } = await app.db.schema.dryRun();
+
+  if (status === 'UNCHANGED') {
+    console.log(chalk.green('The database schema is up to date'));
+  } else {
+    // the tables sqlite rebuilds are reported as SQL comments
+    statements.forEach((statement) => {
+      console.log(statement.startsWith('--') ? statement : `${statement};`);
+    });
+
+    if (destructiveChanges.length > 0) {
+      console.log();
+      console.log(chalk.yellow('Destructive changes:'));
+      destructiveChanges.forEach((change) => {
+        console.log(chalk.yellow(`  - ${describeDestructiveChange(change)}`));
+      });
+    }
+  }
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi db:diff`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('db:diff')
+    .description(
+      'Print the SQL statements the database schema sync would run, without running them'
+    )
+    .action(runAction('db:diff', action));
+};
+
+export { action, command };
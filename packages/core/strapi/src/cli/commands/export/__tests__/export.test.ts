@@ -1,4 +1,8 @@
-import { file as fileDataTransfer } from '@strapi/data-transfer';
+import {
+  engine as engineDataTransfer,
+  file as fileDataTransfer,
+  strapi as strapiDataTransfer,
+} from '@strapi/data-transfer';
 
 import exportAction from '../action';
 import * as mockUtils from '../../../utils/data-transfer';
@@ -22,6 +26,9 @@ jest.mock('../../../utils/data-transfer', () => {
         send: jest.fn(),
       },
       destroy: jest.fn(),
+      contentTypes: {
+        'api::article.article': {},
+      },
     }),
     getDefaultExportName: jest.fn(() => defaultFileName),
     buildTransferTable: jest.fn(() => {
@@ -54,12 +61,20 @@ jest.mock('@strapi/data-transfer', () => {
           type: 'destination',
           getMetadata: jest.fn(),
         }),
+        createLocalDirectoryDestinationProvider: jest.fn().mockReturnValue({
+          name: 'testDirectoryDestination',
+          type: 'destination',
+          getMetadata: jest.fn(),
+        }),
       },
     },
     strapi: {
       ...actual.strapi,
       providers: {
         ...actual.strapi.providers,
+        createLocalStrapiSourceProvider: jest
+          .fn()
+          .mockReturnValue({ name: 'testStrapiSource', type: 'source', getMetadata: jest.fn() }),
         createLocalStrapiDestinationProvider: jest
           .fn()
           .mockReturnValue({ name: 'testStrapiDest', type: 'destination', getMetadata: jest.fn() }),
@@ -172,6 +187,20 @@ describe('Export', () => {
     );
   });
 
+  it('encrypts the output file for the given recipients and signs it', async () => {
+    const recipients = ['public-key-1', 'public-key-2'];
+    await expectExit(0, async () => {
+      await exportAction({ encrypt: true, recipients, signKey: 'private-key' });
+    });
+
+    expect(fileDataTransfer.providers.createLocalFileDestinationProvider).toHaveBeenCalledWith(
+      expect.objectContaining({
+        encryption: { enabled: true, recipients },
+        signature: { privateKey: 'private-key' },
+      })
+    );
+  });
+
   it('uses compress option', async () => {
     await expectExit(0, async () => {
       await exportAction({ compress: false });
@@ -191,4 +220,66 @@ describe('Export', () => {
       })
     );
   });
+
+  it('exports to a directory with the jsonl and csv formats', async () => {
+    await expectExit(0, async () => {
+      await exportAction({ file: 'test', format: 'csv' });
+    });
+
+    expect(fileDataTransfer.providers.createLocalDirectoryDestinationProvider).toHaveBeenCalledWith(
+      { directory: { path: 'test' }, format: 'csv' }
+    );
+    expect(fileDataTransfer.providers.createLocalFileDestinationProvider).not.toHaveBeenCalled();
+  });
+
+  it('exports every entity when no selection is provided', async () => {
+    await expectExit(0, async () => {
+      await exportAction({});
+    });
+
+    expect(strapiDataTransfer.providers.createLocalStrapiSourceProvider).toHaveBeenCalledWith(
+      expect.objectContaining({ selection: undefined })
+    );
+  });
+
+  it('exports the selected entities', async () => {
+    const filters = { title: { $contains: 'news' } };
+
+    await expectExit(0, async () => {
+      await exportAction({ contentTypes: ['api::article.article'], locales: ['en'], filters });
+    });
+
+    expect(strapiDataTransfer.providers.createLocalStrapiSourceProvider).toHaveBeenCalledWith(
+      expect.objectContaining({
+        selection: { contentTypes: ['api::article.article'], locales: ['en'], filters },
+      })
+    );
+  });
+
+  it('anonymizes the exported entities with the given rules', async () => {
+    const anonymize = {
+      rules: {
+        'plugin::users-permissions.user': { email: 'fake' as const, password: 'null' as const },
+      },
+    };
+
+    await expectExit(0, async () => {
+      await exportAction({ anonymize });
+    });
+
+    expect(engineDataTransfer.createTransferEngine).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.anything(),
+      expect.objectContaining({ anonymize })
+    );
+  });
+
+  it('exits with error when a selected content type does not exist', async () => {
+    await expectExit(1, async () => {
+      await exportAction({ contentTypes: ['api::unknown.unknown'] });
+    });
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/unknown content types/i));
+    expect(strapiDataTransfer.providers.createLocalStrapiSourceProvider).not.toHaveBeenCalled();
+  });
 });
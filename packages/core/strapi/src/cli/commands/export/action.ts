@@ -24,7 +24,7 @@ import {
 import { exitWith } from '../../utils/helpers';
 
 const {
-  providers: { createLocalFileDestinationProvider },
+  providers: { createLocalFileDestinationProvider, createLocalDirectoryDestinationProvider },
 } = fileDataTransfer;
 const {
   providers: { createLocalStrapiSourceProvider },
@@ -34,16 +34,46 @@ const BYTES_IN_MB = 1024 * 1024;
 
 interface CmdOptions {
   file?: string;
+  format?: 'tar' | 'jsonl' | 'csv';
   encrypt?: boolean;
   verbose?: boolean;
   key?: string;
+  recipients?: string[];
+  signKey?: string;
   compress?: boolean;
   only?: (keyof engineDataTransfer.TransferGroupFilter)[];
   exclude?: (keyof engineDataTransfer.TransferGroupFilter)[];
   throttle?: number;
+  anonymize?: engineDataTransfer.IAnonymizationOptions;
   maxSizeJsonl?: number;
+  contentTypes?: string[];
+  locales?: string[];
+  filters?: Record<string, unknown>;
 }
 
+const isDirectoryFormat = (format: CmdOptions['format']): format is 'jsonl' | 'csv' => {
+  return format === 'jsonl' || format === 'csv';
+};
+
+/**
+ * Get the path of the archive (or directory) created by the destination provider
+ */
+const getOutputPath = (
+  results?:
+    | fileDataTransfer.providers.ILocalFileDestinationProviderTransferResults
+    | fileDataTransfer.providers.ILocalDirectoryDestinationProviderTransferResults
+) => {
+  if (results && 'file' in results) {
+    return results.file?.path ?? '';
+  }
+
+  if (results && 'directory' in results) {
+    return results.directory?.path ?? '';
+  }
+
+  return '';
+};
+
 /**
  * Export command.
  *
@@ -59,7 +89,13 @@ export default async (opts: CmdOptions) => {
 
   const strapi = await createStrapiInstance();
 
-  const source = createSourceProvider(strapi);
+  const unknownContentTypes = opts.contentTypes?.filter((uid) => !(uid in strapi.contentTypes));
+
+  if (unknownContentTypes?.length) {
+    exitWith(1, `Unknown content types: ${unknownContentTypes.join(',')}`);
+  }
+
+  const source = createSourceProvider(strapi, opts);
   const destination = createDestinationProvider(opts);
 
   const engine = engineDataTransfer.createTransferEngine(source, destination, {
@@ -68,6 +104,7 @@ export default async (opts: CmdOptions) => {
     exclude: opts.exclude,
     only: opts.only,
     throttle: opts.throttle,
+    anonymize: opts.anonymize,
     transforms: {
       links: [
         {
@@ -120,7 +157,7 @@ export default async (opts: CmdOptions) => {
     setSignalHandler(() => abortTransfer({ engine, strapi }));
 
     results = await engine.transfer();
-    outFile = results.destination?.file?.path ?? '';
+    outFile = getOutputPath(results.destination);
     const outFileExists = await fs.pathExists(outFile);
     if (!outFileExists) {
       throw new engineDataTransfer.errors.TransferEngineTransferError(
@@ -138,7 +175,9 @@ export default async (opts: CmdOptions) => {
       console.error('There was an error displaying the results of the transfer.');
     }
 
-    console.log(`Export archive is in ${chalk.green(outFile)}`);
+    console.log(
+      `Export ${isDirectoryFormat(opts.format) ? 'directory' : 'archive'} is in ${chalk.green(outFile)}`
+    );
     exitWith(0, exitMessageText('export'));
   } catch {
     await strapi.telemetry.send('didDEITSProcessFail', getTransferTelemetryPayload(engine));
@@ -147,24 +186,32 @@ export default async (opts: CmdOptions) => {
 };
 
 /**
- * It creates a local strapi destination provider
+ * It creates a local strapi source provider, restricted to the selected entries if any
  */
-const createSourceProvider = (strapi: Core.Strapi) => {
+const createSourceProvider = (strapi: Core.Strapi, opts: CmdOptions) => {
+  const { contentTypes, locales, filters } = opts;
+  const isPartial = Boolean(contentTypes || locales || filters);
+
   return createLocalStrapiSourceProvider({
     async getStrapi() {
       return strapi;
     },
+    selection: isPartial ? { contentTypes, locales, filters } : undefined,
   });
 };
 
 /**
- * It creates a local file destination provider based on the given options
+ * It creates a local file (or directory) destination provider based on the given options
  */
 const createDestinationProvider = (opts: CmdOptions) => {
-  const { file, compress, encrypt, key, maxSizeJsonl } = opts;
+  const { file, format, compress, encrypt, key, recipients, signKey, maxSizeJsonl } = opts;
 
   const filepath = isString(file) && file.length > 0 ? file : getDefaultExportName();
 
+  if (isDirectoryFormat(format)) {
+    return createLocalDirectoryDestinationProvider({ directory: { path: filepath }, format });
+  }
+
   const maxSizeJsonlInMb = isFinite(toNumber(maxSizeJsonl))
     ? toNumber(maxSizeJsonl) * BYTES_IN_MB
     : undefined;
@@ -177,7 +224,9 @@ const createDestinationProvider = (opts: CmdOptions) => {
     encryption: {
       enabled: encrypt ?? false,
       key: encrypt ? key : undefined,
+      recipients: encrypt ? recipients : undefined,
     },
+    signature: signKey ? { privateKey: signKey } : undefined,
     compression: {
       enabled: compress ?? false,
     },
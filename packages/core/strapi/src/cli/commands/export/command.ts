@@ -4,9 +4,17 @@ import {
   excludeOption,
   onlyOption,
   throttleOption,
+  anonymizeOption,
   validateExcludeOnly,
 } from '../../utils/data-transfer';
-import { promptEncryptionKey } from '../../utils/commander';
+import {
+  parseJSONObject,
+  parseKeyFile,
+  parseKeyFileList,
+  parseList,
+  promptEncryptionKey,
+} from '../../utils/commander';
+import { exitWith } from '../../utils/helpers';
 import action from './action';
 
 /**
@@ -31,14 +39,94 @@ const command = () => {
         'Provide encryption key in command instead of using the prompt'
       )
     )
+    .addOption(
+      new Option(
+        '--recipients <comma-separated public key files>',
+        'Encrypt the output file for the owners of these RSA or X25519 public keys (PEM) instead of using an encryption key'
+      ).argParser(parseKeyFileList)
+    )
+    .addOption(
+      new Option(
+        '--sign-key <private key file>',
+        'Sign the output file with this private key (PEM), the signature is written next to it in a .sig file'
+      ).argParser(parseKeyFile)
+    )
     .addOption(
       new Option('-f, --file <file>', 'name to use for exported file (without extensions)')
     )
+    .addOption(
+      new Option(
+        '--format <format>',
+        'Format of the export: a "tar" archive, or a directory of "jsonl" files ("csv" writes the content types without nested values as CSV files)'
+      )
+        .choices(['tar', 'jsonl', 'csv'])
+        .default('tar')
+    )
     .addOption(excludeOption)
     .addOption(onlyOption)
     .addOption(throttleOption)
+    .addOption(anonymizeOption)
+    .addOption(
+      new Option(
+        '--content-types <comma-separated uids>',
+        'Export only the entries of these content types, along with the entries and files they depend on'
+      ).argParser(parseList)
+    )
+    .addOption(
+      new Option(
+        '--locales <comma-separated locales>',
+        'Export only the entries of localized content types in these locales'
+      ).argParser(parseList)
+    )
+    .addOption(
+      new Option(
+        '--filters <json>',
+        'Export only the entries of the selected content types matching these filters'
+      ).argParser(parseJSONObject)
+    )
     .hook('preAction', validateExcludeOnly)
-    .hook('preAction', promptEncryptionKey)
+    .hook('preAction', (thisCommand) => {
+      const { filters, contentTypes } = thisCommand.opts();
+
+      if (filters && !contentTypes) {
+        exitWith(1, 'The filters option requires the content-types option');
+      }
+    })
+    .hook('preAction', (thisCommand) => {
+      const opts = thisCommand.opts();
+
+      if (opts.format === 'tar') {
+        return;
+      }
+
+      if (opts.key) {
+        exitWith(1, 'Key may not be present unless the tar format is used');
+      }
+
+      if (opts.recipients || opts.signKey) {
+        exitWith(1, 'Recipients and sign key may not be present unless the tar format is used');
+      }
+
+      // Directories are neither encrypted nor compressed
+      opts.encrypt = false;
+      opts.compress = false;
+    })
+    .hook('preAction', async (thisCommand) => {
+      const opts = thisCommand.opts();
+
+      if (!opts.recipients) {
+        await promptEncryptionKey(thisCommand);
+        return;
+      }
+
+      if (!opts.encrypt) {
+        exitWith(1, 'Recipients may not be present unless encryption is used');
+      }
+
+      if (opts.key) {
+        exitWith(1, 'Key may not be present when encrypting for recipients');
+      }
+    })
     .action(action);
 };
 
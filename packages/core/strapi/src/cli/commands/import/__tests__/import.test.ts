@@ -44,6 +44,9 @@ jest.mock('@strapi/data-transfer', () => {
         createLocalFileSourceProvider: jest
           .fn()
           .mockReturnValue({ name: 'testFileSource', type: 'source', getMetadata: jest.fn() }),
+        createLocalDirectorySourceProvider: jest
+          .fn()
+          .mockReturnValue({ name: 'testDirectorySource', type: 'source', getMetadata: jest.fn() }),
       },
     },
     strapi: {
@@ -139,4 +142,58 @@ describe('Import', () => {
       })
     );
   });
+
+  it('decrypts the file with a private key and verifies its signature', async () => {
+    const options = {
+      file: 'test.tar.gz.enc',
+      decrypt: true,
+      decompress: true,
+      privateKey: 'private-key',
+      trustedKeys: ['public-key'],
+    };
+
+    await expectExit(0, async () => {
+      await importAction(options);
+    });
+
+    expect(fileDataTransfer.providers.createLocalFileSourceProvider).toHaveBeenCalledWith(
+      expect.objectContaining({
+        encryption: { enabled: true, privateKey: 'private-key' },
+        signature: { trustedKeys: ['public-key'] },
+      })
+    );
+  });
+
+  it('imports from a directory', async () => {
+    await expectExit(0, async () => {
+      await importAction({ file: 'export', directory: true, exclude: [], only: [] });
+    });
+
+    expect(fileDataTransfer.providers.createLocalDirectorySourceProvider).toHaveBeenCalledWith({
+      directory: { path: 'export' },
+    });
+    expect(fileDataTransfer.providers.createLocalFileSourceProvider).not.toHaveBeenCalled();
+  });
+
+  it('passes the merge options to the destination provider', async () => {
+    const options = {
+      file: 'test.tar.gz',
+      exclude: [],
+      only: [],
+      conflictStrategy: 'merge' as const,
+      matchBy: { 'api::article.article': 'slug' },
+      dryRun: true,
+    };
+
+    await expectExit(0, async () => {
+      await importAction(options);
+    });
+
+    expect(strapiDataTransfer.providers.createLocalStrapiDestinationProvider).toHaveBeenCalledWith(
+      expect.objectContaining({
+        strategy: 'merge',
+        merge: { matchBy: { 'api::article.article': 'slug' }, dryRun: true },
+      })
+    );
+  });
 });
@@ -10,6 +10,7 @@ import {
 
 import {
   buildTransferTable,
+  buildMergeTable,
   DEFAULT_IGNORED_CONTENT_TYPES,
   createStrapiInstance,
   formatDiagnostic,
@@ -24,7 +25,7 @@ import {
 import { exitWith } from '../../utils/helpers';
 
 const {
-  providers: { createLocalFileSourceProvider },
+  providers: { createLocalFileSourceProvider, createLocalDirectorySourceProvider },
 } = fileDataTransfer;
 
 const {
@@ -36,15 +37,21 @@ const { createTransferEngine, DEFAULT_VERSION_STRATEGY, DEFAULT_SCHEMA_STRATEGY
 
 interface CmdOptions {
   file?: string;
+  directory?: boolean;
   decompress?: boolean;
   decrypt?: boolean;
   verbose?: boolean;
   key?: string;
-  conflictStrategy?: 'restore';
+  privateKey?: string;
+  trustedKeys?: string[];
+  conflictStrategy?: 'restore' | 'merge';
+  matchBy?: Record<string, string>;
+  dryRun?: boolean;
   force?: boolean;
   only?: (keyof engineDataTransfer.TransferGroupFilter)[];
   exclude?: (keyof engineDataTransfer.TransferGroupFilter)[];
   throttle?: number;
+  anonymize?: engineDataTransfer.IAnonymizationOptions;
 }
 
 type EngineOptions = Parameters<typeof createTransferEngine>[2];
@@ -61,11 +68,11 @@ export default async (opts: CmdOptions) => {
   }
 
   /**
-   * From strapi backup file
+   * From strapi backup file (or directory)
    */
-  const sourceOptions = getLocalFileSourceOptions(opts);
-
-  const source = createLocalFileSourceProvider(sourceOptions);
+  const source = opts.directory
+    ? createLocalDirectorySourceProvider({ directory: { path: opts.file ?? '' } })
+    : createLocalFileSourceProvider(getLocalFileSourceOptions(opts));
 
   /**
    * To local Strapi instance
@@ -81,6 +88,7 @@ export default async (opts: CmdOptions) => {
     exclude: opts.exclude,
     only: opts.only,
     throttle: opts.throttle,
+    anonymize: opts.anonymize,
     transforms: {
       links: [
         {
@@ -107,6 +115,7 @@ export default async (opts: CmdOptions) => {
     autoDestroy: false,
     strategy: opts.conflictStrategy || DEFAULT_CONFLICT_STRATEGY,
     restore: parseRestoreFromOptions(engineOptions),
+    merge: { matchBy: opts.matchBy, dryRun: opts.dryRun },
   };
 
   const destination = createLocalStrapiDestinationProvider(destinationOptions);
@@ -156,6 +165,14 @@ export default async (opts: CmdOptions) => {
       console.error('There was an error displaying the results of the transfer.');
     }
 
+    if (results.destination?.merge) {
+      console.log(buildMergeTable(results.destination.merge).toString());
+    }
+
+    if (opts.dryRun) {
+      console.log(chalk.yellow('Dry run, nothing has been imported.'));
+    }
+
     // Note: we need to await telemetry or else the process ends before it is sent
     await strapiInstance.telemetry.send(
       'didDEITSProcessFinish',
@@ -178,11 +195,14 @@ const getLocalFileSourceOptions = (opts: {
   decompress?: boolean;
   decrypt?: boolean;
   key?: string;
+  privateKey?: string;
+  trustedKeys?: string[];
 }) => {
   const options: fileDataTransfer.providers.ILocalFileSourceProviderOptions = {
     file: { path: opts.file ?? '' },
     compression: { enabled: !!opts.decompress },
-    encryption: { enabled: !!opts.decrypt, key: opts.key },
+    encryption: { enabled: !!opts.decrypt, key: opts.key, privateKey: opts.privateKey },
+    signature: opts.trustedKeys ? { trustedKeys: opts.trustedKeys } : undefined,
   };
 
   return options;
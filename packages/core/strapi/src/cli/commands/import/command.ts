@@ -1,16 +1,49 @@
 import path from 'path';
-import { createCommand, Option } from 'commander';
+import fs from 'fs-extra';
+import { createCommand, InvalidOptionArgumentError, Option } from 'commander';
 import inquirer from 'inquirer';
 import {
   excludeOption,
   onlyOption,
   throttleOption,
+  anonymizeOption,
   validateExcludeOnly,
 } from '../../utils/data-transfer';
-import { getCommanderConfirmMessage, forceOption } from '../../utils/commander';
+import {
+  getCommanderConfirmMessage,
+  forceOption,
+  parseKeyFile,
+  parseKeyFileList,
+  parseList,
+} from '../../utils/commander';
 import { exitWith } from '../../utils/helpers';
 import action from './action';
 
+/**
+ * argParser: Parse a comma-separated list of uid:attribute pairs as an object
+ */
+const parseMatchBy = (value: string) => {
+  return parseList(value).reduce<Record<string, string>>((matchBy, item) => {
+    const separatorIndex = item.lastIndexOf(':');
+    const uid = item.slice(0, separatorIndex);
+    const attribute = item.slice(separatorIndex + 1);
+
+    if (separatorIndex === -1 || !uid || !attribute) {
+      throw new InvalidOptionArgumentError(`Expected uid:attribute, received ${item}`);
+    }
+
+    return { ...matchBy, [uid]: attribute };
+  }, {});
+};
+
+const isDirectory = async (file: string) => {
+  try {
+    return (await fs.stat(file)).isDirectory();
+  } catch {
+    return false;
+  }
+};
+
 /**
  * `$ strapi import`
  */
@@ -21,7 +54,7 @@ const command = () => {
       .allowExcessArguments(false)
       .requiredOption(
         '-f, --file <file>',
-        'path and filename for the Strapi export file you want to import'
+        'path and filename for the Strapi export file (or directory) you want to import'
       )
       .addOption(
         new Option(
@@ -29,19 +62,61 @@ const command = () => {
           'Provide encryption key in command instead of using the prompt'
         )
       )
+      .addOption(
+        new Option(
+          '--private-key <private key file>',
+          'Decrypt a file encrypted for recipients with this private key (PEM) instead of using a decryption key'
+        ).argParser(parseKeyFile)
+      )
+      .addOption(
+        new Option(
+          '--trusted-keys <comma-separated public key files>',
+          'Only import the file if it has been signed by one of these public keys (PEM)'
+        ).argParser(parseKeyFileList)
+      )
       .addOption(new Option('--verbose', 'Enable verbose logs'))
       .addOption(forceOption)
       .addOption(excludeOption)
       .addOption(onlyOption)
       .addOption(throttleOption)
+      .addOption(anonymizeOption)
+      .addOption(
+        new Option(
+          '--conflict-strategy <strategy>',
+          'How to handle the existing data: "restore" deletes it, "merge" updates the entries matching the imported ones and keeps the others'
+        ).choices(['restore', 'merge'])
+      )
+      .addOption(
+        new Option(
+          '--match-by <comma-separated uid:attribute>',
+          'Unique attribute used to match the existing entries of a content type when merging, the document ID is used by default'
+        ).argParser(parseMatchBy)
+      )
+      .addOption(
+        new Option(
+          '--dry-run',
+          'Report what would be created, updated or skipped when merging without importing anything'
+        )
+      )
       .hook('preAction', validateExcludeOnly)
+      .hook('preAction', (thisCommand) => {
+        const { conflictStrategy, matchBy, dryRun } = thisCommand.opts();
+
+        if ((matchBy || dryRun) && conflictStrategy !== 'merge') {
+          exitWith(1, 'The match-by and dry-run options require the merge conflict strategy');
+        }
+      })
       .hook('preAction', async (thisCommand) => {
         const opts = thisCommand.opts();
         const ext = path.extname(String(opts.file));
 
+        if (opts.key && opts.privateKey) {
+          exitWith(1, 'Key may not be present when a private key is used');
+        }
+
         // check extension to guess if we should prompt for key
         if (ext === '.enc') {
-          if (!opts.key) {
+          if (!opts.key && !opts.privateKey) {
             const answers = await inquirer.prompt([
               {
                 type: 'password',
@@ -57,11 +132,23 @@ const command = () => {
         }
       })
       // set decrypt and decompress options based on filename
-      .hook('preAction', (thisCommand) => {
+      .hook('preAction', async (thisCommand) => {
         const opts = thisCommand.opts();
 
         const { extname, parse } = path;
 
+        // Strapi data directories are neither encrypted nor compressed
+        if (await isDirectory(opts.file)) {
+          if (opts.privateKey || opts.trustedKeys) {
+            exitWith(1, 'Private and trusted keys may not be present when importing a directory');
+          }
+
+          thisCommand.opts().directory = true;
+          thisCommand.opts().decrypt = false;
+          thisCommand.opts().decompress = false;
+          return;
+        }
+
         let file = opts.file;
 
         if (extname(file) === '.enc') {
@@ -81,17 +168,25 @@ const command = () => {
         if (extname(file) !== '.tar') {
           exitWith(
             1,
-            `The file '${opts.file}' does not appear to be a valid Strapi data file. It must have an extension ending in .tar[.gz][.enc]`
+            `The file '${opts.file}' does not appear to be a valid Strapi data file. It must be a directory or have an extension ending in .tar[.gz][.enc]`
           );
         }
       })
-      .hook(
-        'preAction',
-        getCommanderConfirmMessage(
-          'The import will delete your existing data! Are you sure you want to proceed?',
+      .hook('preAction', async (thisCommand) => {
+        const { conflictStrategy, dryRun } = thisCommand.opts();
+
+        // Nothing is persisted during a dry run
+        if (dryRun) {
+          return;
+        }
+
+        await getCommanderConfirmMessage(
+          conflictStrategy === 'merge'
+            ? 'The import will overwrite the existing entries matching the imported ones. Are you sure you want to proceed?'
+            : 'The import will delete your existing data! Are you sure you want to proceed?',
           { failMessage: 'Import process aborted' }
-        )
-      )
+        )(thisCommand);
+      })
       .action(action)
   );
 };
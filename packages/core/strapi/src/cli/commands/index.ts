@@ -7,8 +7,15 @@ import { command as configurationDump } from './configuration/dump';
 import { command as configurationRestore } from './configuration/restore';
 import { command as listContentTypes } from './content-types/list';
 import { command as listControllers } from './controllers/list';
+import { command as dbDiff } from './db/diff';
 import { command as listHooks } from './hooks/list';
 import { command as listMiddlewares } from './middlewares/list';
+import { command as migrationDown } from './migration/down';
+import { command as migrationGenerate } from './migration/generate';
+import { command as migrationStatus } from './migration/status';
+import { command as migrationTo } from './migration/to';
+import { command as migrationUnlock } from './migration/unlock';
+import { command as migrationUp } from './migration/up';
 import { command as listPolicies } from './policies/list';
 import { command as listRoutes } from './routes/list';
 import { command as listServices } from './services/list';
@@ -16,6 +23,7 @@ import { command as disableTelemetry } from './telemetry/disable';
 import { command as enableTelemetry } from './telemetry/enable';
 import { command as generateTemplates } from './templates/generate';
 import { command as generateTsTypes } from './ts/generate-types';
+import { command as uploadRegenerateFormats } from './upload/regenerate-formats';
 import { command as buildCommand } from './build';
 import { command as consoleCommand } from './console';
 import { command as developCommand } from './develop';
@@ -38,9 +46,16 @@ export const commands: StrapiCommand[] = [
   consoleCommand,
   listContentTypes,
   listControllers,
+  dbDiff,
   generateCommand,
   listHooks,
   listMiddlewares,
+  migrationDown,
+  migrationGenerate,
+  migrationStatus,
+  migrationTo,
+  migrationUnlock,
+  migrationUp,
   listPolicies,
   reportCommand,
   listRoutes,
@@ -50,6 +65,7 @@ export const commands: StrapiCommand[] = [
   enableTelemetry,
   generateTemplates,
   generateTsTypes,
+  uploadRegenerateFormats,
   versionCommand,
   buildCommand,
   developCommand,
@@ -0,0 +1,71 @@
+import { action as upAction } from '../up';
+import { action as downAction } from '../down';
+import { action as toAction } from '../to';
+
+const userMigrations = {
+  up: jest.fn(async () => ['20240101000000-add-categories.js']),
+  down: jest.fn(async () => []),
+  to: jest.fn(async () => ['20240101000000-add-categories.js']),
+  status: jest.fn(async () => [{ name: '20240101000000-add-categories.js', executed: false }]),
+};
+
+const load = jest.fn(() => mock) as any;
+
+const mock = {
+  load,
+  destroy: jest.fn(),
+  config: { set: jest.fn() },
+  db: { migrations: { providers: { user: userMigrations } } },
+};
+
+jest.mock('@strapi/core', () => {
+  const createStrapi = jest.fn(() => mock);
+
+  const compileStrapi = jest.fn();
+
+  return { createStrapi, compileStrapi };
+});
+
+describe('migration commands', () => {
+  let consoleLog: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLog.mockRestore();
+  });
+
+  test('Loads the application without running the pending migrations', async () => {
+    await upAction();
+
+    expect(mock.config.set).toHaveBeenCalledWith('database.settings.runMigrations', false);
+    expect(mock.config.set.mock.invocationCallOrder[0]).toBeLessThan(
+      load.mock.invocationCallOrder[0]
+    );
+    expect(mock.destroy).toHaveBeenCalled();
+  });
+
+  test('migration:up runs the pending migrations up to the given one', async () => {
+    await upAction({ to: '20240101000000-add-categories.js' });
+
+    expect(userMigrations.up).toHaveBeenCalledWith({ to: '20240101000000-add-categories.js' });
+    expect(consoleLog).toHaveBeenCalledWith('1 migration(s) executed');
+  });
+
+  test('migration:down reverts the last migration', async () => {
+    await downAction();
+
+    expect(userMigrations.down).toHaveBeenCalledWith({ to: undefined });
+    expect(consoleLog).toHaveBeenCalledWith('No migration reverted');
+  });
+
+  test('migration:to migrates to the given migration', async () => {
+    await toAction('20240101000000-add-categories.js');
+
+    expect(userMigrations.to).toHaveBeenCalledWith('20240101000000-add-categories.js');
+    expect(consoleLog).toHaveBeenCalledWith('1 migration(s) executed');
+  });
+});
@@ -0,0 +1,30 @@
+import { createCommand } from 'commander';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+import { getMigrationProvider, loadApp, logMigrations } from './utils';
+
+interface CmdOptions {
+  to?: string;
+}
+
+const action = async ({ to }: CmdOptions = {}) => {
+  const app = await loadApp();
+
+  const names = await getMigrationProvider(app).down({ to });
+  logMigrations(names, 'reverted');
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi migration:down`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('migration:down')
+    .description('Revert the last executed migration')
+    .option('--to <name>', 'Revert the executed migrations down to and including this one')
+    .action(runAction('migration:down', action));
+};
+
+export { action, command };
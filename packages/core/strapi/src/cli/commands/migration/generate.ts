@@ -0,0 +1,69 @@
+import path from 'path';
+import fse from 'fs-extra';
+import { createCommand } from 'commander';
+import chalk from 'chalk';
+import { kebabCase } from 'lodash/fp';
+import tsUtils from '@strapi/typescript-utils';
+import { createStrapi, compileStrapi } from '@strapi/core';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+
+const JS_TEMPLATE = `'use strict';
+
+/**
+ * @param {import('@strapi/strapi').Modules.Migrations.Transaction} knex
+ * @param {import('@strapi/strapi').Core.Strapi['db']} db
+ * @param {import('@strapi/strapi').Modules.Migrations.Context} context
+ */
+async function up(knex, db, { documents }) {}
+
+/**
+ * @param {import('@strapi/strapi').Modules.Migrations.Transaction} knex
+ * @param {import('@strapi/strapi').Core.Strapi['db']} db
+ * @param {import('@strapi/strapi').Modules.Migrations.Context} context
+ */
+async function down(knex, db, { documents }) {}
+
+module.exports = { up, down };
+`;
+
+const TS_TEMPLATE = `import type { Modules } from '@strapi/strapi';
+
+export const up: Modules.Migrations.MigrationFunction = async (knex, db, { documents }) => {};
+
+export const down: Modules.Migrations.MigrationFunction = async (knex, db, { documents }) => {};
+`;
+
+// eg 2024-01-02T03:04:05.678Z -> 20240102030405
+const getTimestamp = () => new Date().toISOString().replace(/\D/g, '').slice(0, 14);
+
+const action = async (name: string) => {
+  const appContext = await compileStrapi();
+  const app = createStrapi(appContext);
+
+  const appDir = app.dirs.app.root;
+  const useTypescript =
+    app.config.get('database.settings.useTypescriptMigrations') === true &&
+    (await tsUtils.isUsingTypeScript(appDir));
+
+  const fileName = `${getTimestamp()}-${kebabCase(name)}.${useTypescript ? 'ts' : 'js'}`;
+  const filePath = path.join(appDir, 'database/migrations', fileName);
+
+  await fse.outputFile(filePath, useTypescript ? TS_TEMPLATE : JS_TEMPLATE);
+
+  console.log(`${chalk.green('Created')} ${path.relative(process.cwd(), filePath)}`);
+  process.exit(0);
+};
+
+/**
+ * `$ strapi migration:generate <name>`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('migration:generate')
+    .description('Generate a new migration file in database/migrations')
+    .argument('<name>', 'Name of the migration, eg add-default-category')
+    .action(runAction('migration:generate', action));
+};
+
+export { action, command };
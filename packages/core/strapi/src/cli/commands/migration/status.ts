@@ -0,0 +1,39 @@
+import { createCommand } from 'commander';
+import CLITable from 'cli-table3';
+import chalk from 'chalk';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+import { getMigrationProvider, loadApp } from './utils';
+
+const action = async () => {
+  const app = await loadApp();
+  const migrations = getMigrationProvider(app);
+
+  const infoTable = new CLITable({
+    head: [chalk.blue('Migration'), chalk.blue('Status')],
+  });
+
+  (await migrations.status()).forEach(({ name, executed }) => {
+    infoTable.push([name, executed ? chalk.green('executed') : chalk.yellow('pending')]);
+  });
+
+  console.log(infoTable.toString());
+
+  if (await migrations.isLocked()) {
+    console.log(chalk.yellow('Migrations are locked by a running instance'));
+  }
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi migration:status`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('migration:status')
+    .description('List the executed and pending migrations of the application')
+    .action(runAction('migration:status', action));
+};
+
+export { action, command };
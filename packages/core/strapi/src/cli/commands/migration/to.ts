@@ -0,0 +1,31 @@
+import { createCommand } from 'commander';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+import { getMigrationProvider, loadApp, logMigrations } from './utils';
+
+const action = async (name: string) => {
+  const app = await loadApp();
+  const migrations = getMigrationProvider(app);
+
+  const isExecuted = (await migrations.status()).some(
+    (migration) => migration.name === name && migration.executed
+  );
+
+  const names = await migrations.to(name);
+  logMigrations(names, isExecuted ? 'reverted' : 'executed');
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi migration:to <name>`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('migration:to')
+    .description('Run or revert the migrations so that the given one is the last executed')
+    .argument('<name>', 'Name of the migration file')
+    .action(runAction('migration:to', action));
+};
+
+export { action, command };
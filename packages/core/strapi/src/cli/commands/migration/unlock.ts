@@ -0,0 +1,26 @@
+import { createCommand } from 'commander';
+import chalk from 'chalk';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+import { getMigrationProvider, loadApp } from './utils';
+
+const action = async () => {
+  const app = await loadApp();
+
+  await getMigrationProvider(app).unlock();
+  console.log(chalk.green('Successfully released the migrations lock'));
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi migration:unlock`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('migration:unlock')
+    .description('Release the migrations lock left by an interrupted instance')
+    .action(runAction('migration:unlock', action));
+};
+
+export { action, command };
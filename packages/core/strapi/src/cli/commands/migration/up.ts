@@ -0,0 +1,30 @@
+import { createCommand } from 'commander';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+import { getMigrationProvider, loadApp, logMigrations } from './utils';
+
+interface CmdOptions {
+  to?: string;
+}
+
+const action = async ({ to }: CmdOptions = {}) => {
+  const app = await loadApp();
+
+  const names = await getMigrationProvider(app).up({ to });
+  logMigrations(names, 'executed');
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi migration:up`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('migration:up')
+    .description('Run the pending migrations')
+    .option('--to <name>', 'Run the pending migrations up to and including this one')
+    .action(runAction('migration:up', action));
+};
+
+export { action, command };
@@ -0,0 +1,27 @@
+import chalk from 'chalk';
+import { createStrapi, compileStrapi } from '@strapi/core';
+import type { Core } from '@strapi/types';
+
+/**
+ * Load the application without running the pending migrations, the commands run them instead
+ */
+export const loadApp = async () => {
+  const appContext = await compileStrapi();
+  const app = createStrapi(appContext);
+
+  app.config.set('database.settings.runMigrations', false);
+
+  return app.load();
+};
+
+export const getMigrationProvider = (app: Core.Strapi) => app.db.migrations.providers.user;
+
+export const logMigrations = (names: string[], action: string) => {
+  if (names.length === 0) {
+    console.log(`No migration ${action}`);
+    return;
+  }
+
+  names.forEach((name) => console.log(`${chalk.green('✔')} ${name}`));
+  console.log(`${names.length} migration(s) ${action}`);
+};
@@ -3,6 +3,11 @@ import * as mockDataTransfer from '@strapi/data-transfer';
 import transferAction from '../action';
 import { expectExit } from '../../__tests__/commands.test.utils';
 
+const mockStore = {
+  get: jest.fn(),
+  set: jest.fn(),
+};
+
 jest.mock('../../../utils/data-transfer', () => {
   return {
     ...jest.requireActual('../../../utils/data-transfer'),
@@ -14,6 +19,7 @@ jest.mock('../../../utils/data-transfer', () => {
         telemetry: {
           send: jest.fn(),
         },
+        store: mockStore,
       };
     },
     getDefaultExportName: jest.fn(() => 'default'),
@@ -191,4 +197,78 @@ describe('Transfer', () => {
       })
     );
   });
+
+  describe('incremental', () => {
+    it('transfers the data changed since the given date', async () => {
+      const since = new Date('2024-01-01T00:00:00.000Z');
+
+      await expectExit(0, async () => {
+        await transferAction({
+          from: undefined,
+          to: destinationUrl,
+          toToken: destinationToken,
+          since,
+        } as any);
+      });
+
+      expect(
+        mockDataTransfer.strapi.providers.createLocalStrapiSourceProvider
+      ).toHaveBeenCalledWith(expect.objectContaining({ since }));
+      expect(
+        mockDataTransfer.strapi.providers.createRemoteStrapiDestinationProvider
+      ).toHaveBeenCalledWith(expect.objectContaining({ incremental: true }));
+    });
+
+    it('transfers the data changed since the last transfer with the same remote', async () => {
+      mockStore.get.mockResolvedValueOnce('2024-01-01T00:00:00.000Z');
+
+      await expectExit(0, async () => {
+        await transferAction({
+          from: undefined,
+          to: destinationUrl,
+          toToken: destinationToken,
+          incremental: true,
+        } as any);
+      });
+
+      expect(mockStore.get).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'last_transfer_to_one.localhost/admin' })
+      );
+      expect(
+        mockDataTransfer.strapi.providers.createLocalStrapiSourceProvider
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({ since: new Date('2024-01-01T00:00:00.000Z') })
+      );
+    });
+
+    it('exits with error when there is no previous transfer with the remote', async () => {
+      await expectExit(1, async () => {
+        await transferAction({
+          from: undefined,
+          to: destinationUrl,
+          toToken: destinationToken,
+          incremental: true,
+        } as any);
+      });
+
+      expect(console.error).toHaveBeenCalledWith(expect.stringMatching(/no previous transfer/i));
+    });
+
+    it('saves the date of the last successful transfer', async () => {
+      await expectExit(0, async () => {
+        await transferAction({
+          from: undefined,
+          to: destinationUrl,
+          toToken: destinationToken,
+        } as any);
+      });
+
+      expect(mockStore.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'last_transfer_to_one.localhost/admin',
+          value: expect.any(String),
+        })
+      );
+    });
+  });
 });
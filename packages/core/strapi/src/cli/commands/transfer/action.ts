@@ -14,6 +14,8 @@ import {
   getDiffHandler,
   getAssetsBackupHandler,
   parseRestoreFromOptions,
+  getLastTransferDate,
+  setLastTransferDate,
 } from '../../utils/data-transfer';
 import { exitWith } from '../../utils/helpers';
 
@@ -36,7 +38,10 @@ interface CmdOptions {
   only?: (keyof engineDataTransfer.TransferGroupFilter)[];
   exclude?: (keyof engineDataTransfer.TransferGroupFilter)[];
   throttle?: number;
+  anonymize?: engineDataTransfer.IAnonymizationOptions;
   force?: boolean;
+  since?: Date;
+  incremental?: boolean;
 }
 /**
  * Transfer command.
@@ -57,10 +62,30 @@ export default async (opts: CmdOptions) => {
   let source;
   let destination;
 
+  const direction = opts.from ? 'from' : 'to';
+  const remoteUrl = (opts.from ?? opts.to) as URL;
+
+  let { since } = opts;
+
+  // resume from the last successful transfer with the same remote Strapi instance
+  if (opts.incremental) {
+    since = await getLastTransferDate(strapi, direction, remoteUrl);
+
+    if (!since) {
+      exitWith(
+        1,
+        `No previous transfer ${direction} ${remoteUrl} was found, run a full transfer or use the since option instead`
+      );
+    }
+  }
+
+  const incremental = since !== undefined;
+
   // if no URL provided, use local Strapi
   if (!opts.from) {
     source = createLocalStrapiSourceProvider({
       getStrapi: () => strapi,
+      since,
     });
   }
   // if URL provided, set up a remote source provider
@@ -76,6 +101,7 @@ export default async (opts: CmdOptions) => {
         type: 'token',
         token: opts.fromToken,
       },
+      since,
     });
   }
 
@@ -85,6 +111,7 @@ export default async (opts: CmdOptions) => {
       getStrapi: () => strapi,
       strategy: 'restore',
       restore: parseRestoreFromOptions(opts),
+      incremental,
     });
   }
   // if URL provided, set up a remote destination provider
@@ -101,6 +128,7 @@ export default async (opts: CmdOptions) => {
       },
       strategy: 'restore',
       restore: parseRestoreFromOptions(opts),
+      incremental,
     });
   }
 
@@ -114,6 +142,7 @@ export default async (opts: CmdOptions) => {
     exclude: opts.exclude,
     only: opts.only,
     throttle: opts.throttle,
+    anonymize: opts.anonymize,
     transforms: {
       links: [
         {
@@ -175,8 +204,15 @@ export default async (opts: CmdOptions) => {
     // Abort transfer if user interrupts process
     setSignalHandler(() => abortTransfer({ engine, strapi }));
 
+    const startDate = new Date();
+
     results = await engine.transfer();
 
+    // Partial transfers can't be used as a starting point for the next incremental transfer
+    if (!opts.only && !opts.exclude) {
+      await setLastTransferDate(strapi, direction, remoteUrl, startDate);
+    }
+
     // Note: we need to await telemetry or else the process ends before it is sent
     await strapi.telemetry.send('didDEITSProcessFinish', getTransferTelemetryPayload(engine));
 
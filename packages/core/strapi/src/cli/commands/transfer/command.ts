@@ -1,8 +1,14 @@
 import inquirer from 'inquirer';
 import { createCommand, Option } from 'commander';
-import { getCommanderConfirmMessage, forceOption, parseURL } from '../../utils/commander';
+import {
+  getCommanderConfirmMessage,
+  forceOption,
+  parseDate,
+  parseURL,
+} from '../../utils/commander';
 import { exitWith, assertUrlHasProtocol, ifOptions } from '../../utils/helpers';
 import {
+  anonymizeOption,
   excludeOption,
   onlyOption,
   throttleOption,
@@ -41,6 +47,28 @@ const command = () => {
       .addOption(excludeOption)
       .addOption(onlyOption)
       .addOption(throttleOption)
+      .addOption(anonymizeOption)
+      .addOption(
+        new Option(
+          '--since <date>',
+          'Only transfer the data changed since the given date (ISO 8601), deletions are not transferred'
+        ).argParser(parseDate)
+      )
+      .addOption(
+        new Option(
+          '--incremental',
+          'Only transfer the data changed since the last successful transfer with the remote Strapi instance, deletions are not transferred'
+        )
+      )
+      .addHelpText(
+        'after',
+        `
+Incremental transfers (--since, --incremental):
+  Only the entries, relations and assets created or updated since the date are transferred,
+  the data changed up to 5 minutes before the date is transferred again.
+  Deleted and unpublished entries and deleted assets are kept on the destination,
+  run a full transfer to remove them.`
+      )
       .hook('preAction', validateExcludeOnly)
       .hook(
         'preAction',
@@ -51,6 +79,13 @@ const command = () => {
             exitWith(1, 'Only one remote source (from) or destination (to) option may be provided')
         )
       )
+      .hook(
+        'preAction',
+        ifOptions(
+          (opts) => opts.since && opts.incremental,
+          async () => exitWith(1, 'The since and incremental options may not be used together')
+        )
+      )
       .hook('preAction', async (thisCommand) => {
         const opts = thisCommand.opts();
         const hasEnvUrl = process.env.STRAPI_TRANSFER_URL;
@@ -202,8 +237,12 @@ const command = () => {
               thisCommand.opts().fromToken = answers.fromToken;
             }
 
+            const { since, incremental } = thisCommand.opts();
+
             await getCommanderConfirmMessage(
-              'The transfer will delete all the local Strapi assets and its database. Are you sure you want to proceed?',
+              since || incremental
+                ? 'The transfer will overwrite the local Strapi data changed on the remote Strapi. Are you sure you want to proceed?'
+                : 'The transfer will delete all the local Strapi assets and its database. Are you sure you want to proceed?',
               { failMessage: 'Transfer process aborted' }
             )(thisCommand);
           }
@@ -230,8 +269,12 @@ const command = () => {
               thisCommand.opts().toToken = answers.toToken;
             }
 
+            const { since, incremental } = thisCommand.opts();
+
             await getCommanderConfirmMessage(
-              'The transfer will delete existing data from the remote Strapi! Are you sure you want to proceed?',
+              since || incremental
+                ? 'The transfer will overwrite the remote Strapi data changed locally. Are you sure you want to proceed?'
+                : 'The transfer will delete existing data from the remote Strapi! Are you sure you want to proceed?',
               { failMessage: 'Transfer process aborted' }
             )(thisCommand);
           }
@@ -0,0 +1,61 @@
+import { action } from '../regenerate-formats';
+
+const progress = { status: 'done', total: 2, processed: 2, updated: 1, failed: 0 };
+
+const formatsService = {
+  getProgress: jest.fn(async () => ({ status: 'idle' })),
+  regenerateAll: jest.fn(async () => progress),
+};
+
+const load = jest.fn(() => mock) as any;
+
+const mock = {
+  load,
+  destroy: jest.fn(),
+  plugin: jest.fn(() => ({ service: () => formatsService })),
+};
+
+jest.mock('@strapi/core', () => {
+  const createStrapi = jest.fn(() => mock);
+
+  const compileStrapi = jest.fn();
+
+  return { createStrapi, compileStrapi };
+});
+
+describe('upload:regenerate-formats', () => {
+  let consoleLog: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    consoleLog = jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    consoleLog.mockRestore();
+  });
+
+  test('Regenerates the formats with the given options', async () => {
+    await action({ batchSize: 10, restart: true, prune: false });
+
+    expect(mock.plugin).toHaveBeenCalledWith('upload');
+    expect(formatsService.regenerateAll).toHaveBeenCalledWith({
+      batchSize: 10,
+      restart: true,
+      prune: false,
+      onProgress: expect.any(Function),
+    });
+    expect(consoleLog).toHaveBeenCalledWith(expect.stringContaining('2/2 images processed'));
+    expect(mock.destroy).toHaveBeenCalled();
+  });
+
+  test('Resumes an interrupted regeneration', async () => {
+    formatsService.getProgress.mockResolvedValueOnce({ status: 'interrupted' });
+
+    await action();
+
+    expect(consoleLog).toHaveBeenCalledWith(
+      expect.stringContaining('Resuming the previous regeneration')
+    );
+  });
+});
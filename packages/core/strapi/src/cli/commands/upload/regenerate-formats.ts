@@ -0,0 +1,74 @@
+import { createCommand, Option } from 'commander';
+import chalk from 'chalk';
+import { createStrapi, compileStrapi } from '@strapi/core';
+
+import type { StrapiCommand } from '../../types';
+import { runAction } from '../../utils/helpers';
+import { parseInteger } from '../../utils/commander';
+
+interface CmdOptions {
+  batchSize?: number;
+  restart?: boolean;
+  prune?: boolean;
+}
+
+interface Progress {
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+}
+
+const logProgress = ({ total, processed, updated, failed }: Progress) => {
+  console.log(
+    `${processed}/${total} images processed, ${updated} updated, ${chalk[failed > 0 ? 'red' : 'green'](`${failed} failed`)}`
+  );
+};
+
+/**
+ * Regenerates the formats of the uploaded images to match the current upload configuration
+ */
+const action = async ({ batchSize, restart, prune }: CmdOptions = {}) => {
+  const appContext = await compileStrapi();
+  const app = await createStrapi(appContext).load();
+
+  const formatsService = app.plugin('upload').service('formats');
+
+  const { status } = await formatsService.getProgress();
+
+  if (!restart && ['interrupted', 'failed'].includes(status)) {
+    console.log(chalk.yellow('Resuming the previous regeneration'));
+  }
+
+  const progress = await formatsService.regenerateAll({
+    batchSize,
+    restart,
+    prune,
+    onProgress: logProgress,
+  });
+
+  console.log(chalk.green('The formats have been regenerated'));
+  logProgress(progress);
+
+  await app.destroy();
+};
+
+/**
+ * `$ strapi upload:regenerate-formats`
+ */
+const command: StrapiCommand = () => {
+  return createCommand('upload:regenerate-formats')
+    .description(
+      'Generate the missing or outdated formats of the uploaded images, resuming an interrupted run'
+    )
+    .addOption(
+      new Option('--batch-size <size>', 'Number of files loaded per batch')
+        .argParser(parseInteger)
+        .default(50)
+    )
+    .option('--restart', 'Start over instead of resuming an interrupted run', false)
+    .option('--prune', 'Remove the formats that are no longer configured', false)
+    .action(runAction('upload:regenerate-formats', action));
+};
+
+export { action, command };
@@ -2,10 +2,11 @@
  * This file includes hooks to use for commander.hook and argParsers for commander.argParser
  */
 
+import fs from 'fs';
 import inquirer from 'inquirer';
 import { Command, InvalidOptionArgumentError, Option } from 'commander';
 import chalk from 'chalk';
-import { isNaN } from 'lodash/fp';
+import { isNaN, isPlainObject } from 'lodash/fp';
 import { exitWith } from './helpers';
 
 /**
@@ -67,6 +68,54 @@ const parseURL = (value: string) => {
   }
 };
 
+/**
+ * argParser: Parse a string as a JSON object
+ */
+const parseJSONObject = (value: string) => {
+  try {
+    const parsedValue = JSON.parse(value);
+
+    if (isPlainObject(parsedValue)) {
+      return parsedValue;
+    }
+  } catch (e) {
+    // handled below
+  }
+
+  throw new InvalidOptionArgumentError(`Not a JSON object: ${value}`);
+};
+
+/**
+ * argParser: Read the content of a key file (PEM)
+ */
+const parseKeyFile = (value: string) => {
+  try {
+    return fs.readFileSync(value, 'utf8');
+  } catch (e) {
+    throw new InvalidOptionArgumentError(`Could not read key file ${value}`);
+  }
+};
+
+/**
+ * argParser: Read the content of a comma-delimited list of key files (PEM)
+ */
+const parseKeyFileList = (value: string) => {
+  return parseList(value).map(parseKeyFile);
+};
+
+/**
+ * argParser: Parse a string as a Date object
+ */
+const parseDate = (value: string) => {
+  const date = new Date(value);
+
+  if (Number.isNaN(date.getTime())) {
+    throw new InvalidOptionArgumentError(`Could not parse date ${value}`);
+  }
+
+  return date;
+};
+
 /**
  * hook: if encrypt==true and key not provided, prompt for it
  */
@@ -147,6 +196,10 @@ export {
   parseList,
   parseURL,
   parseInteger,
+  parseDate,
+  parseJSONObject,
+  parseKeyFile,
+  parseKeyFileList,
   promptEncryptionKey,
   getCommanderConfirmMessage,
   confirmMessage,
@@ -1,6 +1,7 @@
+import fs from 'fs';
 import chalk from 'chalk';
 import Table from 'cli-table3';
-import { Command, Option } from 'commander';
+import { Command, InvalidOptionArgumentError, Option } from 'commander';
 import { configs, createLogger, type winston, formats } from '@strapi/logger';
 import { createStrapi, compileStrapi } from '@strapi/core';
 import ora from 'ora';
@@ -107,6 +108,29 @@ const buildTransferTable = (resultData: ResultData) => {
   return table;
 };
 
+type MergeReport = strapiDataTransfer.providers.ILocalStrapiDestinationProviderResults['merge'];
+
+const buildMergeTable = (report: NonNullable<MergeReport>) => {
+  const table = new Table({
+    head: ['Type', 'Created', 'Updated', 'Skipped'].map((text) => chalk.bold.blue(text)),
+  });
+
+  Object.keys(report)
+    .sort()
+    .forEach((uid) => {
+      const { created, updated, skipped } = report[uid];
+
+      table.push([
+        { hAlign: 'left', content: chalk.bold(uid) },
+        { hAlign: 'right', content: created },
+        { hAlign: 'right', content: updated },
+        { hAlign: 'right', content: skipped },
+      ]);
+    });
+
+  return table;
+};
+
 const DEFAULT_IGNORED_CONTENT_TYPES = [
   'admin::permission',
   'admin::user',
@@ -174,6 +198,32 @@ const throttleOption = new Option(
   .argParser(parseInteger)
   .hideHelp(); // This option is not publicly documented
 
+/**
+ * argParser: Read and validate the anonymization rules of a JSON config file
+ */
+const parseAnonymizationConfig = (value: string) => {
+  let config: engineDataTransfer.IAnonymizationOptions;
+
+  try {
+    config = JSON.parse(fs.readFileSync(value, 'utf8'));
+  } catch (e) {
+    throw new InvalidOptionArgumentError(`Could not read anonymization config file ${value}`);
+  }
+
+  try {
+    engineDataTransfer.anonymization.validateAnonymizationOptions(config);
+  } catch (e) {
+    throw new InvalidOptionArgumentError((e as Error).message);
+  }
+
+  return config;
+};
+
+const anonymizeOption = new Option(
+  '--anonymize <config file>',
+  'Anonymize the transferred entities using the rules (fake, hash, null, keep) of a JSON config file'
+).argParser(parseAnonymizationConfig);
+
 const excludeOption = new Option(
   '--exclude <comma-separated data types>',
   `Exclude data using comma-separated types. Available types: ${transferDataTypes.join(',')}`
@@ -461,6 +511,41 @@ const shouldSkipStage = (
   return false;
 };
 
+/**
+ * Get the core store key in which the date of the last successful transfer with a remote Strapi instance is saved
+ */
+const getLastTransferStoreParams = (direction: 'from' | 'to', url: URL) => {
+  return {
+    type: 'core',
+    name: 'data_transfer',
+    key: `last_transfer_${direction}_${url.host}${url.pathname}`,
+  };
+};
+
+/**
+ * Get the date of the last successful transfer with a remote Strapi instance, if any
+ */
+const getLastTransferDate = async (strapi: Core.Strapi, direction: 'from' | 'to', url: URL) => {
+  const value = await strapi.store.get(getLastTransferStoreParams(direction, url));
+
+  return typeof value === 'string' ? new Date(value) : undefined;
+};
+
+/**
+ * Save the date of the last successful transfer with a remote Strapi instance
+ */
+const setLastTransferDate = async (
+  strapi: Core.Strapi,
+  direction: 'from' | 'to',
+  url: URL,
+  date: Date
+) => {
+  await strapi.store.set({
+    ...getLastTransferStoreParams(direction, url),
+    value: date.toISOString(),
+  });
+};
+
 type RestoreConfig = NonNullable<
   strapiDataTransfer.providers.ILocalStrapiDestinationProviderOptions['restore']
 >;
@@ -491,8 +576,10 @@ const parseRestoreFromOptions = (opts: Partial<engineDataTransfer.ITransferEngin
 };
 
 export {
+  anonymizeOption,
   loadersFactory,
   buildTransferTable,
+  buildMergeTable,
   getDefaultExportName,
   getTransferTelemetryPayload,
   DEFAULT_IGNORED_CONTENT_TYPES,
@@ -509,4 +596,6 @@ export {
   getAssetsBackupHandler,
   shouldSkipStage,
   parseRestoreFromOptions,
+  getLastTransferDate,
+  setLastTransferDate,
 };
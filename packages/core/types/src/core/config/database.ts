@@ -1,6 +1,6 @@
 import type { If, StrictEqual } from '../../utils';
 
-type ClientKind = 'mysql' | 'postgres' | 'sqlite';
+type ClientKind = 'mysql' | 'postgres' | 'sqlite' | 'mssql';
 
 type IfClientIs<TClient extends ClientKind, TClientKind extends ClientKind, TOnTrue, TOnFalse> = If<
   StrictEqual<TClient, TClientKind>,
@@ -56,11 +56,20 @@ export interface Database<TClient extends ClientKind> {
       TClient,
       'sqlite',
       { useNullAsDefault?: boolean },
-      unknown
+      // Read replicas, their settings are merged over the primary connection ones
+      { replicas?: Partial<Connection<TClient>>[] }
     >;
   settings?: {
     forceMigration?: boolean | undefined;
     runMigrations?: boolean | undefined;
     useTypescriptMigrations?: boolean | undefined;
+    // refuse to drop tables and columns or narrow column types when syncing the schema
+    preventDestructiveChanges?: boolean | undefined;
+    // destructive changes applied anyway, eg ['articles', 'articles.title']
+    approvedDestructiveChanges?: string[] | undefined;
+    migrations?: {
+      // milliseconds to wait for another instance to finish migrating
+      lockTimeout?: number;
+    };
   };
 }
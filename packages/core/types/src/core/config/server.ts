@@ -23,6 +23,7 @@ export interface LoggerProp {
 export interface TransferProp {
   remote?: {
     enabled?: boolean;
+    resumeGracePeriod?: number;
   };
 }
 
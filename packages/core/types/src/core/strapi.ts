@@ -17,6 +17,7 @@ export interface Strapi extends Container {
   eventHub: Modules.EventHub.EventHub;
   startupLogger: StartupLogger;
   cron: Modules.Cron.CronService;
+  jobs: Modules.Jobs.JobsService;
   store: Modules.CoreStore.CoreStore;
   /**
    * @deprecated will be removed in the next major
@@ -91,6 +92,7 @@ export interface Strapi extends Container {
   stop(exitCode?: number): never;
   register(): Promise<Strapi>;
   bootstrap(): Promise<Strapi>;
+  initDatabase(): Promise<void>;
   runPluginsLifecycles(lifecycleName: 'register' | 'bootstrap' | 'destroy'): Promise<void>;
   runUserLifecycles(lifecycleName: 'register' | 'bootstrap' | 'destroy'): Promise<void>;
   getModel<TSchemaUID extends UID.Schema>(
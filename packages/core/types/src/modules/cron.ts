@@ -6,6 +6,14 @@ interface JobSpec {
   job: Job;
   options: Spec;
   name: string | null;
+  /**
+   * Whether a single instance of the cluster runs the task on every tick
+   */
+  lock: boolean;
+  /**
+   * Whether the runs of the task are recorded
+   */
+  history: boolean;
 }
 
 type TaskFn = ({ strapi }: { strapi: Strapi }, ...args: unknown[]) => Promise<unknown>;
@@ -15,12 +23,67 @@ type Task =
   | {
       task: TaskFn;
       options: Spec;
+      lock?: boolean;
+      history?: boolean;
     };
 
 interface Tasks {
   [key: string]: Task;
 }
 
+export type CronRunStatus = 'running' | 'success' | 'failed';
+
+export interface CronRun {
+  id: string;
+  name: string;
+  /**
+   * Date at which the task was scheduled to run, shared by all the instances for a given tick
+   */
+  scheduledAt: Date;
+  startedAt: Date;
+  finishedAt: Date | null;
+  /**
+   * Duration of the run in milliseconds
+   */
+  duration: number | null;
+  status: CronRunStatus;
+  error: string | null;
+}
+
+export interface FindCronRunsParams {
+  name?: string;
+  status?: CronRunStatus;
+  page?: number;
+  pageSize?: number;
+}
+
+export interface CronRunsPagination {
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  total: number;
+}
+
+export interface CronRunStore {
+  /**
+   * Records the start of a run. When a lock key is provided, only the first instance to record the
+   * run for that key gets it back, the others get null and must skip the run.
+   */
+  createRun(data: {
+    name: string;
+    scheduledAt: Date;
+    lockKey?: string | null;
+  }): Promise<CronRun | null>;
+  finishRun(
+    run: CronRun,
+    data: { status: Exclude<CronRunStatus, 'running'>; error?: string | null }
+  ): Promise<CronRun | null>;
+  findRuns(
+    params?: FindCronRunsParams
+  ): Promise<{ results: CronRun[]; pagination: CronRunsPagination }>;
+  purgeRuns(olderThan: Date): Promise<void>;
+}
+
 export interface CronService {
   add(tasks: Tasks): CronService;
   remove(name: string): CronService;
@@ -88,3 +88,25 @@ export type DiscardDraft<TContentTypeUID extends UID.ContentType> = Pick<
 > & {
   documentId: ID;
 };
+
+export type Schedule<TContentTypeUID extends UID.ContentType> = Pick<
+  TContentTypeUID,
+  'locale:string'
+> & {
+  documentId: ID;
+  /**
+   * Date at which the draft is published, `null` removes the scheduled publication
+   */
+  publishAt?: Date | string | null;
+  /**
+   * Date at which the document is unpublished, `null` removes the scheduled unpublication
+   */
+  unpublishAt?: Date | string | null;
+};
+
+export type GetSchedule<TContentTypeUID extends UID.ContentType> = Pick<
+  TContentTypeUID,
+  'locale:string'
+> & {
+  documentId: ID;
+};
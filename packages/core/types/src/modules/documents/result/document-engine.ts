@@ -72,3 +72,14 @@ export type DiscardDraft<
   documentId: ID;
   entries: Result<TContentTypeUID, TParams>[];
 }>;
+
+export type ScheduleResult = {
+  documentId: ID;
+  locale: string | null;
+  publishAt: Date | null;
+  unpublishAt: Date | null;
+};
+
+export type Schedule = Promise<ScheduleResult>;
+
+export type GetSchedule = Promise<ScheduleResult>;
@@ -76,6 +76,20 @@ export interface DraftAndPublishExtension<
   discardDraft<const TParams extends Params.DiscardDraft<TContentTypeUID>>(
     params: TParams
   ): Result.DiscardDraft<TContentTypeUID, TParams>;
+
+  /**
+   * Schedules the publication and/or unpublication of a document locale at a given date.
+   */
+  schedule<const TParams extends Params.Schedule<TContentTypeUID>>(
+    params: TParams
+  ): Result.Schedule;
+
+  /**
+   * Returns the scheduled publication and unpublication dates of a document locale.
+   */
+  getSchedule<const TParams extends Params.GetSchedule<TContentTypeUID>>(
+    params: TParams
+  ): Result.GetSchedule;
 }
 
 /**
@@ -142,4 +156,10 @@ export type ServiceParams<TContentTypeUID extends UID.ContentType = UID.ContentT
 
   /** Parameters for discarding a draft of a document */
   discardDraft: Params.DiscardDraft<TContentTypeUID>;
+
+  /** Parameters for scheduling the publication of a document */
+  schedule: Params.Schedule<TContentTypeUID>;
+
+  /** Parameters for getting the scheduled publication of a document */
+  getSchedule: Params.GetSchedule<TContentTypeUID>;
 };
@@ -12,11 +12,14 @@ export type * as EntityValidator from './entity-validator';
 export type * as EventHub from './event-hub';
 export type * as Features from './features';
 export type * as Fetch from './fetch';
+export type * as Jobs from './jobs';
 export type * as Metrics from './metrics';
+export type * as Migrations from './migrations';
 export type * as RequestContext from './request-context';
 export type * as Sanitizers from './sanitizers';
 export type * as Server from './server';
 export type * as Validators from './validators';
+export type * as WebhookDeliveryStore from './webhook-delivery-store';
 export type * as WebhookRunner from './webhook-runner';
 export type * as WebhookStore from './webhook-store';
 export type * as Permissions from './permissions';
@@ -0,0 +1,113 @@
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job<TPayload = unknown> {
+  id: string;
+  name: string;
+  payload: TPayload;
+  status: JobStatus;
+  /**
+   * Jobs with a higher priority run first
+   */
+  priority: number;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  /**
+   * Date until which the worker running the job holds it. The lock is extended while the job runs,
+   * so a running job whose lock expired was interrupted (e.g. by a restart) and is picked up again.
+   */
+  lockedUntil: Date | null;
+  lastError: string | null;
+  result: unknown;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface RetryPolicy {
+  maxAttempts?: number;
+  backoff?: {
+    type?: 'fixed' | 'exponential';
+    /**
+     * Delay in milliseconds before the first retry
+     */
+    delay?: number;
+    maxDelay?: number;
+  };
+}
+
+export interface EnqueueOptions {
+  /**
+   * Delay in milliseconds before the job can run
+   */
+  delay?: number;
+  runAt?: Date;
+  priority?: number;
+  maxAttempts?: number;
+}
+
+export type JobHandler<TPayload = any> = (
+  payload: TPayload,
+  job: Job<TPayload>
+) => Promise<unknown> | unknown;
+
+export interface JobDefinition<TPayload = any> extends RetryPolicy {
+  handler: JobHandler<TPayload>;
+  /**
+   * Maximum number of jobs of this type running at the same time in this process
+   */
+  concurrency?: number;
+}
+
+export interface FindJobsParams {
+  name?: string;
+  status?: JobStatus | JobStatus[];
+  page?: number;
+  pageSize?: number;
+}
+
+export interface JobsPagination {
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  total: number;
+}
+
+export interface JobStore {
+  createJob<TPayload = unknown>(
+    data: Pick<Job<TPayload>, 'name' | 'payload' | 'priority' | 'maxAttempts' | 'runAt'>
+  ): Promise<Job<TPayload>>;
+  findJob(id: string): Promise<Job | null>;
+  findJobs(params?: FindJobsParams): Promise<{ results: Job[]; pagination: JobsPagination }>;
+  findDueJobs(names: string[], limit: number): Promise<Job[]>;
+  claimJob(job: Job, lockDuration: number): Promise<Job | null>;
+  extendLock(job: Job, lockDuration: number): Promise<void>;
+  completeJob(job: Job, result: unknown): Promise<Job | null>;
+  failJob(job: Job, error: string, retryAt: Date | null): Promise<Job | null>;
+  updateJob(
+    id: string,
+    data: Partial<Pick<Job, 'status' | 'runAt' | 'attempts'>>
+  ): Promise<Job | null>;
+  purgeJobs(olderThan: Date): Promise<void>;
+}
+
+export interface JobsService {
+  register<TPayload = any>(
+    name: string,
+    definition: JobHandler<TPayload> | JobDefinition<TPayload>
+  ): JobsService;
+  unregister(name: string): JobsService;
+  has(name: string): boolean;
+  enqueue<TPayload = any>(
+    name: string,
+    payload?: TPayload,
+    options?: EnqueueOptions
+  ): Promise<Job<TPayload | null>>;
+  findJob(id: string): Promise<Job | null>;
+  findJobs(params?: FindJobsParams): Promise<{ results: Job[]; pagination: JobsPagination }>;
+  cancel(id: string): Promise<Job | null>;
+  retry(id: string): Promise<Job | null>;
+  processDueJobs(): Promise<void>;
+  start(): JobsService;
+  stop(): Promise<void>;
+}
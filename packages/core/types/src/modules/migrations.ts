@@ -0,0 +1,28 @@
+import type { Database, MigrationContext, UserMigrationFn } from '@strapi/database';
+
+import type { Strapi } from '../core';
+import type { Service as DocumentService } from './documents';
+
+/**
+ * The transaction the migration runs in
+ */
+export type Transaction = Parameters<UserMigrationFn>[0];
+
+export interface Context extends MigrationContext {
+  strapi: Strapi;
+  documents: DocumentService;
+}
+
+export type MigrationFunction = (
+  knex: Transaction,
+  db: Database,
+  context: Context
+) => Promise<void>;
+
+/**
+ * A migration of the `database/migrations` directory
+ */
+export interface Migration {
+  up: MigrationFunction;
+  down?: MigrationFunction;
+}
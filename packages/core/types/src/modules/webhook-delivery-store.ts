@@ -0,0 +1,58 @@
+export type WebhookDeliveryStatus = 'pending' | 'success' | 'failed';
+
+export interface WebhookDeliveryAttempt {
+  id: string;
+  deliveryId: string;
+  attempt: number;
+  statusCode: number;
+  duration: number;
+  response: string | null;
+  createdAt: Date | string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attemptCount: number;
+  lastStatusCode: number | null;
+  nextAttemptAt: Date | string | null;
+  createdAt: Date | string;
+  updatedAt: Date | string;
+  attempts?: WebhookDeliveryAttempt[];
+}
+
+export interface WebhookDeliveryAttemptResult {
+  statusCode: number;
+  duration: number;
+  response: string | null;
+}
+
+export interface WebhookDeliveryPagination {
+  page: number;
+  pageSize: number;
+  pageCount: number;
+  total: number;
+}
+
+export interface WebhookDeliveryStore {
+  createDelivery(
+    data: Pick<WebhookDelivery, 'webhookId' | 'event' | 'payload'>
+  ): Promise<WebhookDelivery>;
+  findDelivery(id: string): Promise<WebhookDelivery | null>;
+  findDeliveries(
+    webhookId: string,
+    params?: { page?: number; pageSize?: number }
+  ): Promise<{ results: WebhookDelivery[]; pagination: WebhookDeliveryPagination }>;
+  findDueDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  claimDelivery(delivery: WebhookDelivery, leaseDuration: number): Promise<WebhookDelivery | null>;
+  recordAttempt(
+    delivery: WebhookDelivery,
+    result: WebhookDeliveryAttemptResult,
+    next: Pick<WebhookDelivery, 'status' | 'nextAttemptAt'>
+  ): Promise<WebhookDelivery | null>;
+  deleteWebhookDeliveries(webhookId: string): Promise<void>;
+  purgeDeliveries(olderThan: Date): Promise<void>;
+}
@@ -1,4 +1,5 @@
 import type { Webhook } from './webhook-store';
+import type { WebhookDelivery } from './webhook-delivery-store';
 
 interface Event {
   event: string;
@@ -13,7 +14,12 @@ export interface WebhookRunner {
     event: string,
     info?: Record<string, unknown>
   ): Promise<{ statusCode: number; message?: string }>;
+  deliver(delivery: WebhookDelivery): Promise<WebhookDelivery | null>;
+  redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  processDueDeliveries(): Promise<void>;
   add(webhook: Webhook): void;
   update(webhook: Webhook): void;
   remove(webhook: Webhook): void;
+  start(): void;
+  stop(): void;
 }
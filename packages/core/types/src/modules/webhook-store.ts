@@ -1,3 +1,27 @@
+export interface WebhookSecret {
+  secret: string;
+  createdAt: string;
+  /**
+   * Date after which a rotated secret stops being used to sign requests
+   */
+  expiresAt: string | null;
+}
+
+export interface WebhookFilters {
+  /**
+   * Content type uids an event must relate to
+   */
+  uids?: string[];
+  /**
+   * Locales the entry of an event must be in
+   */
+  locales?: string[];
+  /**
+   * JSON Logic rule evaluated against the event payload
+   */
+  condition?: Record<string, unknown> | null;
+}
+
 export interface Webhook {
   id: string;
   name: string;
@@ -5,6 +29,16 @@ export interface Webhook {
   headers: Record<string, string>;
   events: string[];
   isEnabled: boolean;
+  /**
+   * Signing secrets, the first one being the current secret
+   */
+  secrets?: WebhookSecret[];
+  filters?: WebhookFilters | null;
+  /**
+   * JSON template used to build the request body, `{{path}}` placeholders are replaced with
+   * values from the event payload
+   */
+  template?: Record<string, unknown> | null;
 }
 
 export interface WebhookStore {
@@ -18,4 +52,5 @@ export interface WebhookStore {
   createWebhook(data: Webhook): Promise<Webhook>;
   updateWebhook(id: string, data: Webhook): Promise<Webhook | null>;
   deleteWebhook(id: string): Promise<Webhook | null>;
+  regenerateSecret(id: string, options?: { gracePeriod?: number }): Promise<Webhook | null>;
 }
@@ -0,0 +1,186 @@
+import * as React from 'react';
+
+import { ConfirmDialog } from '@strapi/admin/strapi-admin';
+import { Box, Button, Dialog, Flex, Loader, Modal, Radio, Typography } from '@strapi/design-system';
+import { useIntl } from 'react-intl';
+
+import { useDuplicates } from '../../hooks/useDuplicates';
+import { useHashMissingFiles } from '../../hooks/useHashMissingFiles';
+import { useMergeDuplicates } from '../../hooks/useMergeDuplicates';
+import { formatBytes, getTrad } from '../../utils';
+
+import type { Duplicates } from '../../../../shared/contracts/files';
+
+interface DuplicatesGroupProps {
+  duplicates: Duplicates;
+  canUpdate: boolean;
+}
+
+const DuplicatesGroup = ({ duplicates, canUpdate }: DuplicatesGroupProps) => {
+  const { formatMessage, formatDate } = useIntl();
+  const { merge } = useMergeDuplicates();
+  // the oldest file is kept by default
+  const [fileId, setFileId] = React.useState(String(duplicates.files[0].id));
+  const [showConfirmDialog, setShowConfirmDialog] = React.useState(false);
+
+  const handleConfirm = async () => {
+    await merge({
+      fileId: Number(fileId),
+      duplicateIds: duplicates.files
+        .filter((file) => String(file.id) !== fileId)
+        .map((file) => file.id),
+    });
+
+    setShowConfirmDialog(false);
+  };
+
+  return (
+    <Box padding={4} hasRadius borderColor="neutral200">
+      <Flex alignItems="flex-start" justifyContent="space-between" gap={4}>
+        <Radio.Group
+          name={`duplicates-${duplicates.contentHash}`}
+          aria-label={formatMessage({
+            id: getTrad('duplicates.keep.label'),
+            defaultMessage: 'File to keep',
+          })}
+          value={fileId}
+          onValueChange={setFileId}
+          disabled={!canUpdate}
+        >
+          {duplicates.files.map((file) => (
+            <Radio.Item key={file.id} value={String(file.id)}>
+              <Typography fontWeight="semiBold">{file.name}</Typography>{' '}
+              <Typography variant="pi" textColor="neutral600">
+                {[
+                  file.folderPath,
+                  formatBytes(file.size ?? 0, 1),
+                  file.createdAt && formatDate(new Date(file.createdAt)),
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Typography>
+            </Radio.Item>
+          ))}
+        </Radio.Group>
+        {canUpdate && (
+          <Button variant="secondary" size="S" onClick={() => setShowConfirmDialog(true)}>
+            {formatMessage({ id: getTrad('duplicates.merge'), defaultMessage: 'Merge' })}
+          </Button>
+        )}
+      </Flex>
+      <Dialog.Root open={showConfirmDialog} onOpenChange={() => setShowConfirmDialog(false)}>
+        <ConfirmDialog onConfirm={handleConfirm}>
+          {formatMessage({
+            id: getTrad('duplicates.merge.confirm'),
+            defaultMessage:
+              'The usages of the other files will use the selected file instead, then the other files will be deleted.',
+          })}
+        </ConfirmDialog>
+      </Dialog.Root>
+    </Box>
+  );
+};
+
+interface DuplicatesDialogProps {
+  open: boolean;
+  onClose: () => void;
+  canUpdate?: boolean;
+}
+
+export const DuplicatesDialog = ({ open, onClose, canUpdate = false }: DuplicatesDialogProps) => {
+  const { formatMessage } = useIntl();
+  const [page, setPage] = React.useState(1);
+  const { data, isLoading } = useDuplicates({ page });
+  const { hashMissingFiles, isLoading: isHashing, remaining } = useHashMissingFiles();
+
+  const pageCount = data?.pagination.pageCount ?? 1;
+
+  return (
+    <Modal.Root open={open} onOpenChange={onClose}>
+      <Modal.Content>
+        <Modal.Header>
+          <Modal.Title>
+            {formatMessage({ id: getTrad('duplicates.title'), defaultMessage: 'Duplicates' })}
+          </Modal.Title>
+        </Modal.Header>
+        <Modal.Body>
+          <Flex direction="column" alignItems="stretch" gap={4}>
+            <Flex justifyContent="space-between" gap={4}>
+              <Typography variant="pi" textColor="neutral600">
+                {formatMessage({
+                  id: getTrad('duplicates.description'),
+                  defaultMessage:
+                    'These assets have the same content. Merging them keeps a single asset everywhere they are used.',
+                })}
+              </Typography>
+              {canUpdate && (
+                <Button variant="tertiary" size="S" loading={isHashing} onClick={hashMissingFiles}>
+                  {isHashing && remaining !== null
+                    ? formatMessage(
+                        {
+                          id: getTrad('duplicates.scan.remaining'),
+                          defaultMessage: '{count, plural, one {# file} other {# files}} left',
+                        },
+                        { count: remaining }
+                      )
+                    : formatMessage({
+                        id: getTrad('duplicates.scan'),
+                        defaultMessage: 'Scan older assets',
+                      })}
+                </Button>
+              )}
+            </Flex>
+            {isLoading && (
+              <Flex justifyContent="center" paddingTop={4} paddingBottom={4}>
+                <Loader>
+                  {formatMessage({
+                    id: getTrad('duplicates.loading'),
+                    defaultMessage: 'Loading the duplicates',
+                  })}
+                </Loader>
+              </Flex>
+            )}
+            {!isLoading && data?.results.length === 0 && (
+              <Typography textColor="neutral600">
+                {formatMessage({
+                  id: getTrad('duplicates.empty'),
+                  defaultMessage: 'No duplicates found',
+                })}
+              </Typography>
+            )}
+            {data?.results.map((duplicates) => (
+              <DuplicatesGroup
+                key={duplicates.contentHash}
+                duplicates={duplicates}
+                canUpdate={canUpdate}
+              />
+            ))}
+          </Flex>
+        </Modal.Body>
+        <Modal.Footer>
+          <Button onClick={onClose} variant="tertiary">
+            {formatMessage({ id: 'app.components.Button.cancel', defaultMessage: 'Cancel' })}
+          </Button>
+          {pageCount > 1 && (
+            <Flex gap={2}>
+              <Button
+                variant="secondary"
+                disabled={page <= 1}
+                onClick={() => setPage((prev) => prev - 1)}
+              >
+                {formatMessage({ id: getTrad('duplicates.previous'), defaultMessage: 'Previous' })}
+              </Button>
+              <Button
+                variant="secondary"
+                disabled={page >= pageCount}
+                onClick={() => setPage((prev) => prev + 1)}
+              >
+                {formatMessage({ id: getTrad('duplicates.next'), defaultMessage: 'Next' })}
+              </Button>
+            </Flex>
+          )}
+        </Modal.Footer>
+      </Modal.Content>
+    </Modal.Root>
+  );
+};
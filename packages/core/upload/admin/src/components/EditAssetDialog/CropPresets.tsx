@@ -0,0 +1,226 @@
+import * as React from 'react';
+
+import { Box, Button, Field, Flex, IconButton, Typography } from '@strapi/design-system';
+import { ArrowClockwise, Pencil } from '@strapi/icons';
+import Cropper from 'cropperjs';
+import { useIntl } from 'react-intl';
+import { styled } from 'styled-components';
+
+import { getTrad } from '../../utils';
+
+import type { CropPreset } from '../../../../shared/contracts/configuration';
+import type { Crop } from '../../../../shared/contracts/files';
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+interface PresetCropperProps {
+  url: string;
+  preset: CropPreset;
+  crop?: Crop;
+  onCancel: () => void;
+  onApply: (crop: Crop) => void;
+}
+
+const PresetCropper = ({ url, preset, crop, onCancel, onApply }: PresetCropperProps) => {
+  const { formatMessage } = useIntl();
+  const imageRef = React.useRef<HTMLImageElement>(null);
+  const cropperRef = React.useRef<Cropper>();
+
+  const handleLoad = () => {
+    cropperRef.current = new Cropper(imageRef.current!, {
+      aspectRatio: preset.width / preset.height,
+      viewMode: 1,
+      autoCropArea: 1,
+      zoomable: false,
+      background: false,
+      checkCrossOrigin: false,
+      ready() {
+        if (!crop) {
+          return;
+        }
+
+        const { naturalWidth, naturalHeight } = cropperRef.current!.getImageData();
+
+        cropperRef.current!.setData({
+          x: crop.x * naturalWidth,
+          y: crop.y * naturalHeight,
+          width: crop.width * naturalWidth,
+          height: crop.height * naturalHeight,
+        });
+      },
+    });
+  };
+
+  React.useEffect(() => {
+    return () => {
+      cropperRef.current?.destroy();
+    };
+  }, []);
+
+  const handleApply = () => {
+    const { naturalWidth, naturalHeight } = cropperRef.current!.getImageData();
+    const data = cropperRef.current!.getData(true);
+
+    const x = round(data.x / naturalWidth);
+    const y = round(data.y / naturalHeight);
+
+    // the crop must stay within the image once rounded
+    onApply({
+      x,
+      y,
+      width: Math.min(round(data.width / naturalWidth), round(1 - x)),
+      height: Math.min(round(data.height / naturalHeight), round(1 - y)),
+    });
+  };
+
+  return (
+    <Flex direction="column" alignItems="stretch" gap={2}>
+      <CropperWrapper background="neutral150" hasRadius>
+        <img ref={imageRef} src={url} alt="" onLoad={handleLoad} />
+      </CropperWrapper>
+      <Flex justifyContent="flex-end" gap={2}>
+        <Button variant="tertiary" size="S" onClick={onCancel}>
+          {formatMessage({ id: 'global.cancel', defaultMessage: 'Cancel' })}
+        </Button>
+        <Button size="S" onClick={handleApply}>
+          {formatMessage({ id: getTrad('control-card.apply-crop'), defaultMessage: 'Apply' })}
+        </Button>
+      </Flex>
+    </Flex>
+  );
+};
+
+interface CropPresetsProps {
+  url: string;
+  presets: Record<string, CropPreset>;
+  value?: Record<string, Crop> | null;
+  onChange: (value: Record<string, Crop> | null) => void;
+  onEditStart?: () => void;
+  onEditEnd?: () => void;
+  disabled?: boolean;
+}
+
+export const CropPresets = ({
+  url,
+  presets,
+  value,
+  onChange,
+  onEditStart,
+  onEditEnd,
+  disabled = false,
+}: CropPresetsProps) => {
+  const { formatMessage } = useIntl();
+  const [editedPreset, setEditedPreset] = React.useState<string | null>(null);
+
+  const handleEdit = (key: string) => {
+    setEditedPreset(key);
+    onEditStart?.();
+  };
+
+  const handleEditEnd = () => {
+    setEditedPreset(null);
+    onEditEnd?.();
+  };
+
+  const handleApply = (crop: Crop) => {
+    onChange({ ...value, [editedPreset!]: crop });
+    handleEditEnd();
+  };
+
+  const handleReset = (key: string) => {
+    const { [key]: _removed, ...crops } = value ?? {};
+
+    onChange(Object.keys(crops).length > 0 ? crops : null);
+  };
+
+  return (
+    <Field.Root
+      name="crops"
+      hint={formatMessage({
+        id: getTrad('form.input.description.crop-presets'),
+        defaultMessage:
+          'Without a custom crop, the images of a preset are cropped around the focal point.',
+      })}
+    >
+      <Field.Label>
+        {formatMessage({
+          id: getTrad('form.input.label.crop-presets'),
+          defaultMessage: 'Crop presets',
+        })}
+      </Field.Label>
+      <Flex direction="column" alignItems="stretch" gap={2}>
+        {Object.entries(presets).map(([key, preset]) => (
+          <Flex key={key} direction="column" alignItems="stretch" gap={2}>
+            <Flex justifyContent="space-between">
+              <Flex direction="column" alignItems="flex-start">
+                <Typography variant="omega" fontWeight="semiBold">
+                  {key}
+                </Typography>
+                <Typography variant="pi" textColor="neutral600">
+                  {`${preset.width}✕${preset.height} · `}
+                  {value?.[key]
+                    ? formatMessage({
+                        id: getTrad('form.input.crop-preset.custom'),
+                        defaultMessage: 'Custom crop',
+                      })
+                    : formatMessage({
+                        id: getTrad('form.input.crop-preset.focal-point'),
+                        defaultMessage: 'Around the focal point',
+                      })}
+                </Typography>
+              </Flex>
+              <Flex gap={1}>
+                {value?.[key] && (
+                  <IconButton
+                    label={formatMessage(
+                      {
+                        id: getTrad('control-card.reset-crop-preset'),
+                        defaultMessage: 'Reset the crop of {preset}',
+                      },
+                      { preset: key }
+                    )}
+                    onClick={() => handleReset(key)}
+                    disabled={disabled || editedPreset !== null}
+                  >
+                    <ArrowClockwise />
+                  </IconButton>
+                )}
+                <IconButton
+                  label={formatMessage(
+                    {
+                      id: getTrad('control-card.edit-crop-preset'),
+                      defaultMessage: 'Edit the crop of {preset}',
+                    },
+                    { preset: key }
+                  )}
+                  onClick={() => handleEdit(key)}
+                  disabled={disabled || editedPreset !== null}
+                >
+                  <Pencil />
+                </IconButton>
+              </Flex>
+            </Flex>
+            {editedPreset === key && (
+              <PresetCropper
+                url={url}
+                preset={preset}
+                crop={value?.[key]}
+                onCancel={handleEditEnd}
+                onApply={handleApply}
+              />
+            )}
+          </Flex>
+        ))}
+      </Flex>
+      <Field.Hint />
+    </Field.Root>
+  );
+};
+
+const CropperWrapper = styled(Box)`
+  img {
+    display: block;
+    max-height: 26.4rem;
+    max-width: 100%;
+  }
+`;
@@ -22,17 +22,33 @@ import { useIntl } from 'react-intl';
 import { styled } from 'styled-components';
 import * as yup from 'yup';
 
+import { AssetType } from '../../constants';
+import { useCropPresets } from '../../hooks/useCropPresets';
 import { useEditAsset } from '../../hooks/useEditAsset';
 import { useFolderStructure } from '../../hooks/useFolderStructure';
-import { findRecursiveFolderByValue, getTrad, getFileExtension, formatBytes } from '../../utils';
+import {
+  createAssetUrl,
+  findRecursiveFolderByValue,
+  getTrad,
+  getFileExtension,
+  formatBytes,
+} from '../../utils';
 import { ContextInfo } from '../ContextInfo/ContextInfo';
 import { SelectTree } from '../SelectTree/SelectTree';
 
+import { CropPresets } from './CropPresets';
 import { DialogHeader } from './DialogHeader';
+import { FocalPointPicker } from './FocalPointPicker';
 import { PreviewBox } from './PreviewBox/PreviewBox';
 import { ReplaceMediaButton } from './ReplaceMediaButton';
+import { UsedIn } from './UsedIn';
 
-import type { File as FileDefinition, RawFile } from '../../../../shared/contracts/files';
+import type {
+  Crop,
+  File as FileDefinition,
+  FocalPoint,
+  RawFile,
+} from '../../../../shared/contracts/files';
 
 const LoadingBody = styled(Flex)`
   /* 80px are coming from the Tabs component that is not included in the ModalBody */
@@ -65,6 +81,8 @@ interface FormInitialData {
   name?: string;
   alternativeText?: string;
   caption?: string;
+  focalPoint?: FocalPoint | null;
+  crops?: Record<string, Crop> | null;
   parent?: {
     value?: number;
     label: string;
@@ -83,6 +101,7 @@ export const EditAssetContent = ({
   const { trackUsage } = useTracking();
   const submitButtonRef = React.useRef<HTMLButtonElement>(null);
   const [isCropping, setIsCropping] = React.useState(false);
+  const [isEditingCropPreset, setIsEditingCropPreset] = React.useState(false);
   const [replacementFile, setReplacementFile] = React.useState<File | undefined>();
   const { editAsset, isLoading } = useEditAsset();
 
@@ -90,6 +109,9 @@ export const EditAssetContent = ({
     enabled: true,
   });
 
+  const isImage = !!asset?.mime?.includes(AssetType.Image);
+  const { data: cropPresets = {} } = useCropPresets({ enabled: isImage });
+
   const handleSubmit = async (values: FormInitialData) => {
     const nextAsset = { ...asset, ...values, folder: values.parent?.value } as Asset;
 
@@ -128,7 +150,7 @@ export const EditAssetContent = ({
     onClose();
   };
 
-  const formDisabled = !canUpdate || isCropping;
+  const formDisabled = !canUpdate || isCropping || isEditingCropPreset;
 
   const handleConfirmClose = () => {
     // eslint-disable-next-line no-alert
@@ -149,6 +171,8 @@ export const EditAssetContent = ({
     name: asset?.name,
     alternativeText: asset?.alternativeText ?? undefined,
     caption: asset?.caption ?? undefined,
+    focalPoint: asset?.focalPoint ?? null,
+    crops: asset?.crops ?? null,
     parent: {
       value: activeFolderId ?? undefined,
       label:
@@ -311,6 +335,28 @@ export const EditAssetContent = ({
                       />
                     </Field.Root>
 
+                    {isImage && (
+                      <FocalPointPicker
+                        url={createAssetUrl(asset as FileDefinition, false)!}
+                        name={asset!.name}
+                        value={values.focalPoint}
+                        onChange={(value) => setFieldValue('focalPoint', value)}
+                        disabled={formDisabled}
+                      />
+                    )}
+
+                    {isImage && Object.keys(cropPresets).length > 0 && (
+                      <CropPresets
+                        url={createAssetUrl(asset as FileDefinition, false)!}
+                        presets={cropPresets}
+                        value={values.crops}
+                        onChange={(value) => setFieldValue('crops', value)}
+                        onEditStart={() => setIsEditingCropPreset(true)}
+                        onEditEnd={() => setIsEditingCropPreset(false)}
+                        disabled={!canUpdate || isCropping}
+                      />
+                    )}
+
                     <Flex direction="column" alignItems="stretch" gap={1}>
                       <Field.Root name="parent" id="asset-folder">
                         <Field.Label>
@@ -335,6 +381,8 @@ export const EditAssetContent = ({
                         />
                       </Field.Root>
                     </Flex>
+
+                    {!asset?.isLocal && asset?.id && <UsedIn fileId={asset.id} />}
                   </Flex>
 
                   <VisuallyHidden>
@@ -0,0 +1,134 @@
+import * as React from 'react';
+
+import { Box, Field, Flex, TextButton } from '@strapi/design-system';
+import { ArrowClockwise } from '@strapi/icons';
+import { useIntl } from 'react-intl';
+import { styled } from 'styled-components';
+
+import { getTrad } from '../../utils';
+
+import type { FocalPoint } from '../../../../shared/contracts/files';
+
+const KEYBOARD_STEP = 0.05;
+
+const round = (value: number) => Math.round(Math.min(Math.max(value, 0), 1) * 1000) / 1000;
+
+interface FocalPointPickerProps {
+  url: string;
+  name: string;
+  value?: FocalPoint | null;
+  onChange: (value: FocalPoint | null) => void;
+  disabled?: boolean;
+}
+
+export const FocalPointPicker = ({
+  url,
+  name,
+  value,
+  onChange,
+  disabled = false,
+}: FocalPointPickerProps) => {
+  const { formatMessage } = useIntl();
+  const { x, y } = value ?? { x: 0.5, y: 0.5 };
+
+  const handleClick = (event: React.MouseEvent<HTMLDivElement>) => {
+    if (disabled) {
+      return;
+    }
+
+    const { left, top, width, height } = event.currentTarget.getBoundingClientRect();
+
+    onChange({
+      x: round((event.clientX - left) / width),
+      y: round((event.clientY - top) / height),
+    });
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const moves: Record<string, [number, number]> = {
+      ArrowLeft: [-KEYBOARD_STEP, 0],
+      ArrowRight: [KEYBOARD_STEP, 0],
+      ArrowUp: [0, -KEYBOARD_STEP],
+      ArrowDown: [0, KEYBOARD_STEP],
+    };
+
+    if (disabled || !moves[event.key]) {
+      return;
+    }
+
+    event.preventDefault();
+
+    const [moveX, moveY] = moves[event.key];
+    onChange({ x: round(x + moveX), y: round(y + moveY) });
+  };
+
+  return (
+    <Field.Root
+      name="focalPoint"
+      hint={formatMessage({
+        id: getTrad('form.input.description.focal-point'),
+        defaultMessage:
+          'Click the important region of the image. It is kept when the image is cropped.',
+      })}
+    >
+      <Flex justifyContent="space-between">
+        <Field.Label>
+          {formatMessage({
+            id: getTrad('form.input.label.focal-point'),
+            defaultMessage: 'Focal point',
+          })}
+        </Field.Label>
+        {value && !disabled && (
+          <TextButton startIcon={<ArrowClockwise />} onClick={() => onChange(null)}>
+            {formatMessage({
+              id: getTrad('control-card.reset-focal-point'),
+              defaultMessage: 'Reset',
+            })}
+          </TextButton>
+        )}
+      </Flex>
+      <Box background="neutral150" hasRadius>
+        <Flex justifyContent="center">
+          <ImageWrapper
+            role="slider"
+            tabIndex={disabled ? -1 : 0}
+            aria-valuetext={`${Math.round(x * 100)}%, ${Math.round(y * 100)}%`}
+            aria-disabled={disabled}
+            onClick={handleClick}
+            onKeyDown={handleKeyDown}
+          >
+            <img src={url} alt={name} draggable={false} />
+            <Marker style={{ left: `${x * 100}%`, top: `${y * 100}%` }} />
+          </ImageWrapper>
+        </Flex>
+      </Box>
+      <Field.Hint />
+    </Field.Root>
+  );
+};
+
+const ImageWrapper = styled.div`
+  position: relative;
+  cursor: crosshair;
+
+  &[aria-disabled='true'] {
+    cursor: default;
+  }
+
+  img {
+    display: block;
+    max-height: 16rem;
+    max-width: 100%;
+  }
+`;
+
+const Marker = styled.span`
+  position: absolute;
+  width: 1.6rem;
+  height: 1.6rem;
+  transform: translate(-50%, -50%);
+  border: 2px solid ${({ theme }) => theme.colors.neutral0};
+  border-radius: 50%;
+  box-shadow: 0 0 0 2px ${({ theme }) => theme.colors.primary600};
+  pointer-events: none;
+`;
@@ -1,7 +1,10 @@
 import { ConfirmDialog } from '@strapi/admin/strapi-admin';
 import { Dialog } from '@strapi/design-system';
+import { useIntl } from 'react-intl';
 
+import { useFileUsages } from '../../hooks/useFileUsages';
 import { useRemoveAsset } from '../../hooks/useRemoveAsset';
+import { getTrad } from '../../utils';
 
 import type { File } from '../../../../shared/contracts/files';
 
@@ -12,6 +15,9 @@ interface RemoveAssetDialogProps {
 }
 
 export const RemoveAssetDialog = ({ open, onClose, asset }: RemoveAssetDialogProps) => {
+  const { formatMessage } = useIntl();
+  const { data: usages } = useFileUsages(asset.id, { enabled: open });
+
   // `null` means asset is deleted
   const { removeAsset } = useRemoveAsset(() => {
     onClose(null);
@@ -24,7 +30,18 @@ export const RemoveAssetDialog = ({ open, onClose, asset }: RemoveAssetDialogPro
 
   return (
     <Dialog.Root open={open} onOpenChange={onClose}>
-      <ConfirmDialog onConfirm={handleConfirm} />
+      <ConfirmDialog onConfirm={handleConfirm}>
+        {usages && usages.meta.total > 0
+          ? formatMessage(
+              {
+                id: getTrad('modal.remove.used-asset'),
+                defaultMessage:
+                  'This asset is used in {count, plural, one {# entry} other {# entries}}, it will be removed from {count, plural, one {it} other {them}}. Are you sure?',
+              },
+              { count: usages.meta.total }
+            )
+          : undefined}
+      </ConfirmDialog>
     </Dialog.Root>
   );
 };
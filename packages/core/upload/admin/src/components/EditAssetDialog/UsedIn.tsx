@@ -0,0 +1,89 @@
+import { Field, Flex, Link, Loader, Typography } from '@strapi/design-system';
+import { stringify } from 'qs';
+import { useIntl } from 'react-intl';
+import { NavLink } from 'react-router-dom';
+
+import { useFileUsages } from '../../hooks/useFileUsages';
+import { getTrad } from '../../utils';
+
+import type { FileUsage } from '../../../../shared/contracts/files';
+
+const getEditViewUrl = ({ uid, kind, documentId, locale }: FileUsage) => {
+  const pathname =
+    kind === 'singleType'
+      ? `/content-manager/single-types/${uid}`
+      : `/content-manager/collection-types/${uid}/${documentId}`;
+
+  return locale
+    ? `${pathname}?${stringify({ plugins: { i18n: { locale } } }, { encode: false })}`
+    : pathname;
+};
+
+interface UsedInProps {
+  fileId: number;
+}
+
+export const UsedIn = ({ fileId }: UsedInProps) => {
+  const { formatMessage } = useIntl();
+  const { data, isLoading } = useFileUsages(fileId);
+
+  const usages = data?.data ?? [];
+  const hiddenCount = (data?.meta.total ?? 0) - usages.length;
+
+  return (
+    <Field.Root name="usages">
+      <Field.Label>
+        {formatMessage({
+          id: getTrad('form.input.label.file-usages'),
+          defaultMessage: 'Used in',
+        })}
+      </Field.Label>
+      {isLoading && (
+        <Loader small>
+          {formatMessage({
+            id: getTrad('form.input.file-usages.loading'),
+            defaultMessage: 'Loading the entries using the asset',
+          })}
+        </Loader>
+      )}
+      {!isLoading && data?.meta.total === 0 && (
+        <Typography variant="pi" textColor="neutral600">
+          {formatMessage({
+            id: getTrad('form.input.file-usages.empty'),
+            defaultMessage: 'This asset is not used in any entry',
+          })}
+        </Typography>
+      )}
+      <Flex direction="column" alignItems="stretch" gap={2}>
+        {usages.map((usage) => (
+          <Flex
+            key={[usage.uid, usage.documentId, usage.locale].join(':')}
+            direction="column"
+            alignItems="flex-start"
+          >
+            <Link tag={NavLink} to={getEditViewUrl(usage)}>
+              {usage.label || usage.displayName}
+            </Link>
+            <Typography variant="pi" textColor="neutral600">
+              {[usage.displayName, usage.fields.join(', '), usage.locale]
+                .filter(Boolean)
+                .join(' · ')}
+            </Typography>
+          </Flex>
+        ))}
+        {hiddenCount > 0 && (
+          <Typography variant="pi" textColor="neutral600">
+            {formatMessage(
+              {
+                id: getTrad('form.input.file-usages.hidden'),
+                defaultMessage:
+                  '{count, plural, one {# other entry} other {# other entries}} you cannot access',
+              },
+              { count: hiddenCount }
+            )}
+          </Typography>
+        )}
+      </Flex>
+    </Field.Root>
+  );
+};
@@ -92,6 +92,10 @@ export const FilterList = ({ appliedFilters, filtersSchema, onRemoveFilter }: Fi
 
     let displayedOperator = operator;
 
+    if (attribute?.name === 'usage') {
+      displayedOperator = operator === '$contains' ? '$eq' : '$ne';
+    }
+
     if (attribute?.name === 'mime') {
       displayedOperator = operator === '$contains' ? '$eq' : '$ne';
 
@@ -1,10 +1,19 @@
 import * as React from 'react';
 
 import { useTracking } from '@strapi/admin/strapi-admin';
-import { Button, Flex, Grid, KeyboardNavigable, Modal, Typography } from '@strapi/design-system';
+import {
+  Button,
+  Flex,
+  Grid,
+  KeyboardNavigable,
+  Modal,
+  TextButton,
+  Typography,
+} from '@strapi/design-system';
 import { useIntl } from 'react-intl';
 
 import { AssetType } from '../../../constants';
+import { useDuplicateAssets } from '../../../hooks/useDuplicateAssets';
 import { getTrad } from '../../../utils';
 import { AssetCard } from '../../AssetCard/AssetCard';
 import { UploadingAssetCard } from '../../AssetCard/UploadingAssetCard';
@@ -33,6 +42,7 @@ interface PendingAssetStepProps {
   onClickAddAsset: () => void;
   onCancelUpload: (rawFile: RawFile) => void;
   onUploadSucceed: (file: RawFile) => void;
+  onReuseAsset?: (rawFile: RawFile, file: File) => void;
   trackedLocation?: string;
   initialAssetsToAdd?: File[];
 }
@@ -47,12 +57,14 @@ export const PendingAssetStep = ({
   onClickAddAsset,
   onCancelUpload,
   onUploadSucceed,
+  onReuseAsset,
   trackedLocation,
 }: PendingAssetStepProps) => {
   const assetCountRef = React.useRef(0);
   const { formatMessage } = useIntl();
   const { trackUsage } = useTracking();
   const [uploadStatus, setUploadStatus] = React.useState(Status.Idle);
+  const { getDuplicates } = useDuplicateAssets(assets);
 
   const handleSubmit = async (e: React.MouseEvent<HTMLButtonElement>) => {
     e.preventDefault();
@@ -164,6 +176,8 @@ export const PendingAssetStep = ({
                   );
                 }
 
+                const [duplicate] = getDuplicates(asset.rawFile);
+
                 return (
                   <Grid.Item col={4} key={assetKey} direction="column" alignItems="stretch">
                     <AssetCard
@@ -175,6 +189,27 @@ export const PendingAssetStep = ({
                       onEdit={onEditAsset}
                       onRemove={onRemoveAsset}
                     />
+                    {duplicate && (
+                      <Flex direction="column" alignItems="flex-start" gap={1} paddingTop={2}>
+                        <Typography variant="pi" textColor="warning600">
+                          {formatMessage(
+                            {
+                              id: getTrad('list.assets.duplicate'),
+                              defaultMessage: 'Already in the library as {name}',
+                            },
+                            { name: duplicate.name }
+                          )}
+                        </Typography>
+                        {onReuseAsset && (
+                          <TextButton onClick={() => onReuseAsset(asset.rawFile!, duplicate)}>
+                            {formatMessage({
+                              id: getTrad('list.assets.duplicate.reuse'),
+                              defaultMessage: 'Use the existing asset',
+                            })}
+                          </TextButton>
+                        )}
+                      </Flex>
+                    )}
                   </Grid.Item>
                 );
               })}
@@ -87,6 +87,11 @@ export const UploadAssetDialog = ({
     }
   };
 
+  const handleReuseAsset = (rawFile: RawFile, file: File) => {
+    addUploadedFiles?.([file]);
+    handleUploadSuccess(rawFile);
+  };
+
   const handleAssetEditValidation = (nextAsset?: Asset | boolean | null) => {
     if (nextAsset && typeof nextAsset !== 'boolean') {
       const nextAssets = assets.map((asset) => (asset === assetToEdit ? nextAsset : asset));
@@ -143,6 +148,7 @@ export const UploadAssetDialog = ({
             onClickAddAsset={moveToAddAsset}
             onCancelUpload={handleCancelUpload}
             onUploadSucceed={handleUploadSuccess}
+            onReuseAsset={handleReuseAsset}
             initialAssetsToAdd={initialAssetsToAdd}
             addUploadedFiles={addUploadedFiles}
             folderId={folderId}
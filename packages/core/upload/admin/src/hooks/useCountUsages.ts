@@ -0,0 +1,39 @@
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { useIntl } from 'react-intl';
+import { useQuery } from 'react-query';
+
+import { CountUsages } from '../../../shared/contracts/files';
+import { pluginId } from '../pluginId';
+
+/**
+ * Counts the entries using each of the files, with the files of the folders
+ */
+export const useCountUsages = (
+  { fileIds = [], folderIds = [] }: CountUsages.Request['body'],
+  { enabled = true } = {}
+) => {
+  const { formatMessage } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { post } = useFetchClient();
+
+  return useQuery(
+    [pluginId, 'usages', 'count', { fileIds, folderIds }],
+    async () => {
+      const res: CountUsages.Response = await post(`/${pluginId}/actions/count-usages`, {
+        fileIds,
+        folderIds,
+      });
+
+      return res.data.data;
+    },
+    {
+      enabled: enabled && fileIds.length + folderIds.length > 0,
+      onError() {
+        return toggleNotification({
+          type: 'danger',
+          message: formatMessage({ id: 'notification.error' }),
+        });
+      },
+    }
+  );
+};
@@ -0,0 +1,31 @@
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { useIntl } from 'react-intl';
+import { useQuery } from 'react-query';
+
+import { GetCropPresets } from '../../../shared/contracts/configuration';
+import { pluginId } from '../pluginId';
+
+export const useCropPresets = ({ enabled = true } = {}) => {
+  const { formatMessage } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { get } = useFetchClient();
+
+  return useQuery(
+    [pluginId, 'crop-presets'],
+    async () => {
+      const res: GetCropPresets.Response = await get(`/${pluginId}/crop-presets`);
+
+      return res.data.data;
+    },
+    {
+      enabled,
+      onError() {
+        return toggleNotification({
+          type: 'danger',
+          message: formatMessage({ id: 'notification.error' }),
+        });
+      },
+      select: (data) => data || {},
+    }
+  );
+};
@@ -0,0 +1,63 @@
+import * as React from 'react';
+
+import { useFetchClient } from '@strapi/admin/strapi-admin';
+import { useQuery } from 'react-query';
+
+import { CheckDuplicates, File, RawFile } from '../../../shared/contracts/files';
+import { pluginId } from '../pluginId';
+import { getContentHash } from '../utils';
+
+/**
+ * Returns the files of the library with the same content as the local assets
+ */
+export const useDuplicateAssets = (assets: Array<{ rawFile?: RawFile }>) => {
+  const { post } = useFetchClient();
+  const [contentHashes, setContentHashes] = React.useState(new Map<RawFile, string>());
+
+  const rawFiles = assets.flatMap(({ rawFile }) => (rawFile ? [rawFile] : []));
+
+  React.useEffect(() => {
+    const missingRawFiles = rawFiles.filter((rawFile) => !contentHashes.has(rawFile));
+
+    if (missingRawFiles.length === 0) {
+      return;
+    }
+
+    Promise.all(
+      missingRawFiles.map(async (rawFile) => [rawFile, await getContentHash(rawFile)] as const)
+    )
+      .then((entries) => {
+        setContentHashes((prev) => new Map([...prev, ...entries]));
+      })
+      // the hashes can't be computed outside of a secure context, the duplicates aren't checked
+      .catch(() => {});
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [assets]);
+
+  const hashes = [
+    ...new Set(rawFiles.flatMap((rawFile) => contentHashes.get(rawFile) ?? [])),
+  ].sort();
+
+  const { data: duplicates = [] } = useQuery<File[]>(
+    [pluginId, 'duplicates', 'check', hashes],
+    async () => {
+      const { data } = await post<CheckDuplicates.Response['data']>(
+        '/upload/duplicates/actions/check',
+        { hashes }
+      );
+
+      return data.data;
+    },
+    {
+      enabled: hashes.length > 0,
+    }
+  );
+
+  const getDuplicates = (rawFile?: RawFile): File[] => {
+    const contentHash = rawFile && contentHashes.get(rawFile);
+
+    return contentHash ? duplicates.filter((file) => file.contentHash === contentHash) : [];
+  };
+
+  return { getDuplicates };
+};
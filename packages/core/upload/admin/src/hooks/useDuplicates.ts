@@ -0,0 +1,29 @@
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { useIntl } from 'react-intl';
+import { useQuery } from 'react-query';
+
+import { GetDuplicates } from '../../../shared/contracts/files';
+import { pluginId } from '../pluginId';
+
+export const useDuplicates = ({ page = 1, pageSize = 10 } = {}) => {
+  const { formatMessage } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { get } = useFetchClient();
+
+  return useQuery<GetDuplicates.Response['data'], GetDuplicates.Response['error']>(
+    [pluginId, 'duplicates', { page, pageSize }],
+    async () => {
+      const { data } = await get('/upload/duplicates', { params: { page, pageSize } });
+
+      return data;
+    },
+    {
+      onError() {
+        toggleNotification({
+          type: 'danger',
+          message: formatMessage({ id: 'notification.error' }),
+        });
+      },
+    }
+  );
+};
@@ -40,6 +40,8 @@ const editAssetRequest = (
       caption: asset.caption,
       folder: asset.folder,
       name: asset.name,
+      focalPoint: asset.focalPoint,
+      crops: asset.crops,
     })
   );
 
@@ -0,0 +1,30 @@
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { useIntl } from 'react-intl';
+import { useQuery } from 'react-query';
+
+import { GetFileUsages } from '../../../shared/contracts/files';
+import { pluginId } from '../pluginId';
+
+export const useFileUsages = (id?: number, { enabled = true } = {}) => {
+  const { formatMessage } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { get } = useFetchClient();
+
+  return useQuery(
+    [pluginId, 'usages', id],
+    async () => {
+      const res: GetFileUsages.Response = await get(`/${pluginId}/files/${id}/usages`);
+
+      return res.data;
+    },
+    {
+      enabled: enabled && !!id,
+      onError() {
+        return toggleNotification({
+          type: 'danger',
+          message: formatMessage({ id: 'notification.error' }),
+        });
+      },
+    }
+  );
+};
@@ -0,0 +1,52 @@
+import * as React from 'react';
+
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { useIntl } from 'react-intl';
+import { useQueryClient } from 'react-query';
+
+import { HashMissingFiles } from '../../../shared/contracts/files';
+import { pluginId } from '../pluginId';
+
+/**
+ * Computes the content hash of the files uploaded before the duplicates detection, batch by batch
+ */
+export const useHashMissingFiles = () => {
+  const { toggleNotification } = useNotification();
+  const { formatMessage } = useIntl();
+  const queryClient = useQueryClient();
+  const { post } = useFetchClient();
+  const [isLoading, setIsLoading] = React.useState(false);
+  const [remaining, setRemaining] = React.useState<number | null>(null);
+
+  const hashMissingFiles = async () => {
+    setIsLoading(true);
+
+    try {
+      let lastId = 0;
+      let data: HashMissingFiles.Response['data']['data'];
+
+      do {
+        ({
+          data: { data },
+        } = await post<HashMissingFiles.Response['data']>(
+          '/upload/duplicates/actions/hash-missing-files',
+          { lastId }
+        ));
+
+        lastId = data.lastId;
+        setRemaining(data.remaining);
+      } while (data.remaining > 0);
+
+      queryClient.refetchQueries([pluginId, 'duplicates'], { active: true });
+    } catch (error) {
+      toggleNotification({
+        type: 'danger',
+        message: formatMessage({ id: 'notification.error' }),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return { hashMissingFiles, isLoading, remaining };
+};
@@ -0,0 +1,48 @@
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { useIntl } from 'react-intl';
+import { useMutation, useQueryClient } from 'react-query';
+
+import { MergeDuplicates } from '../../../shared/contracts/files';
+import { pluginId } from '../pluginId';
+import { getTrad } from '../utils';
+
+export const useMergeDuplicates = () => {
+  const { toggleNotification } = useNotification();
+  const { formatMessage } = useIntl();
+  const queryClient = useQueryClient();
+  const { post } = useFetchClient();
+
+  const mutation = useMutation<
+    MergeDuplicates.Response['data'],
+    MergeDuplicates.Response['error'],
+    MergeDuplicates.Request['body']
+  >(
+    async (body) => {
+      const { data } = await post('/upload/duplicates/actions/merge', body);
+
+      return data;
+    },
+    {
+      onSuccess() {
+        queryClient.refetchQueries([pluginId, 'duplicates'], { active: true });
+        queryClient.refetchQueries([pluginId, 'assets'], { active: true });
+        queryClient.refetchQueries([pluginId, 'asset-count'], { active: true });
+
+        toggleNotification({
+          type: 'success',
+          message: formatMessage({
+            id: getTrad('duplicates.merge.success'),
+            defaultMessage: 'The duplicates have been merged',
+          }),
+        });
+      },
+      onError(error) {
+        toggleNotification({ type: 'danger', message: error?.message });
+      },
+    }
+  );
+
+  const merge = (...args: Parameters<typeof mutation.mutateAsync>) => mutation.mutateAsync(...args);
+
+  return { ...mutation, merge };
+};
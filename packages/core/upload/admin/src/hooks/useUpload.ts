@@ -21,7 +21,7 @@ const uploadAsset = (
   onProgress: (progress: number) => void,
   post: FetchClient['post']
 ) => {
-  const { rawFile, caption, name, alternativeText } = asset;
+  const { rawFile, caption, name, alternativeText, focalPoint, crops } = asset;
   const formData = new FormData();
 
   formData.append('files', rawFile!);
@@ -32,6 +32,8 @@ const uploadAsset = (
       name,
       caption,
       alternativeText,
+      focalPoint,
+      crops,
       folder: folderId,
     })
   );
@@ -19,13 +19,14 @@ import {
   VisuallyHidden,
   Grid,
 } from '@strapi/design-system';
-import { Cog, GridFour as GridIcon, List, Pencil } from '@strapi/icons';
+import { Cog, Duplicate, GridFour as GridIcon, List, Pencil } from '@strapi/icons';
 import { stringify } from 'qs';
 import { useIntl } from 'react-intl';
 import { Link as ReactRouterLink, useNavigate, useLocation } from 'react-router-dom';
 import { styled } from 'styled-components';
 
 import { AssetGridList } from '../../../components/AssetGridList/AssetGridList';
+import { DuplicatesDialog } from '../../../components/DuplicatesDialog/DuplicatesDialog';
 import { EditAssetDialog } from '../../../components/EditAssetDialog/EditAssetContent';
 import { EditFolderDialog } from '../../../components/EditFolderDialog/EditFolderDialog';
 import { FolderCard } from '../../../components/FolderCard/FolderCard/FolderCard';
@@ -147,6 +148,7 @@ export const MediaLibrary = () => {
   const isLoading = isCurrentFolderLoading || foldersLoading || permissionsLoading || assetsLoading;
   const [showUploadAssetDialog, setShowUploadAssetDialog] = React.useState(false);
   const [showEditFolderDialog, setShowEditFolderDialog] = React.useState(false);
+  const [showDuplicatesDialog, setShowDuplicatesDialog] = React.useState(false);
   const [assetToEdit, setAssetToEdit] = React.useState<Asset | undefined>(undefined);
   const [folderToEdit, setFolderToEdit] = React.useState<FolderRow | undefined | null>(undefined);
   const [selected, { selectOne, selectAll }] = useSelectionState<FolderRow | FileRow>(
@@ -284,6 +286,19 @@ export const MediaLibrary = () => {
           }
           endActions={
             <>
+              {canRead && (
+                <ActionContainer paddingTop={1} paddingBottom={1}>
+                  <IconButton
+                    label={formatMessage({
+                      id: getTrad('duplicates.title'),
+                      defaultMessage: 'Duplicates',
+                    })}
+                    onClick={() => setShowDuplicatesDialog(true)}
+                  >
+                    <Duplicate />
+                  </IconButton>
+                </ActionContainer>
+              )}
               {canConfigureView ? (
                 <ActionContainer paddingTop={1} paddingBottom={1}>
                   <IconButton
@@ -527,6 +542,13 @@ export const MediaLibrary = () => {
           folderId={query?.folder as string | number | null | undefined}
         />
       )}
+      {showDuplicatesDialog && (
+        <DuplicatesDialog
+          open={showDuplicatesDialog}
+          onClose={() => setShowDuplicatesDialog(false)}
+          canUpdate={canUpdate}
+        />
+      )}
       {showEditFolderDialog && (
         <EditFolderDialog
           open={showEditFolderDialog}
@@ -1,9 +1,13 @@
+import * as React from 'react';
+
 import { ConfirmDialog } from '@strapi/admin/strapi-admin';
 import { Button, Dialog } from '@strapi/design-system';
 import { Trash } from '@strapi/icons';
 import { useIntl } from 'react-intl';
 
 import { useBulkRemove } from '../../../../hooks/useBulkRemove';
+import { useCountUsages } from '../../../../hooks/useCountUsages';
+import { getTrad } from '../../../../utils';
 
 import type { FolderDefinition } from '../../../../../../shared/contracts/folders';
 import type { FileWithType } from '../../../../hooks/useBulkRemove';
@@ -15,21 +19,43 @@ export interface BulkDeleteButtonProps {
 
 export const BulkDeleteButton = ({ selected, onSuccess }: BulkDeleteButtonProps) => {
   const { formatMessage } = useIntl();
+  const [isOpen, setIsOpen] = React.useState(false);
   const { remove } = useBulkRemove();
 
+  const { data: usages = {} } = useCountUsages(
+    {
+      fileIds: selected.filter(({ type }) => type === 'asset').map(({ id }) => id),
+      folderIds: selected.filter(({ type }) => type !== 'asset').map(({ id }) => id),
+    },
+    { enabled: isOpen }
+  );
+
+  const usedCount = Object.keys(usages).length;
+
   const handleConfirmRemove = async () => {
     await remove(selected);
     onSuccess();
   };
 
   return (
-    <Dialog.Root>
+    <Dialog.Root open={isOpen} onOpenChange={setIsOpen}>
       <Dialog.Trigger>
         <Button variant="danger-light" size="S" startIcon={<Trash />}>
           {formatMessage({ id: 'global.delete', defaultMessage: 'Delete' })}
         </Button>
       </Dialog.Trigger>
-      <ConfirmDialog onConfirm={handleConfirmRemove} />
+      <ConfirmDialog onConfirm={handleConfirmRemove}>
+        {usedCount > 0
+          ? formatMessage(
+              {
+                id: getTrad('modal.remove.used-assets'),
+                defaultMessage:
+                  '{count, plural, one {# asset is} other {# assets are}} used in entries and will be removed from them. Are you sure?',
+              },
+              { count: usedCount }
+            )
+          : undefined}
+      </ConfirmDialog>
     </Dialog.Root>
   );
 };
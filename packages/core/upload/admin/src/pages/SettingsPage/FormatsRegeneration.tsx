@@ -0,0 +1,155 @@
+import * as React from 'react';
+
+import { useNotification, useFetchClient } from '@strapi/admin/strapi-admin';
+import { Box, Button, Flex, ProgressBar, Typography } from '@strapi/design-system';
+import { ArrowClockwise } from '@strapi/icons';
+import { useIntl } from 'react-intl';
+import { useMutation, useQuery } from 'react-query';
+
+import {
+  FormatsRegeneration as FormatsRegenerationProgress,
+  GetFormatsRegeneration,
+  RegenerateFormats,
+} from '../../../../shared/contracts/settings';
+import { getTrad } from '../../utils';
+
+const POLLING_INTERVAL = 2000;
+
+const STATUS_MESSAGES = {
+  running: { id: getTrad('settings.formats.status.running'), defaultMessage: 'In progress' },
+  done: { id: getTrad('settings.formats.status.done'), defaultMessage: 'Done' },
+  interrupted: {
+    id: getTrad('settings.formats.status.interrupted'),
+    defaultMessage: 'Interrupted',
+  },
+  failed: { id: getTrad('settings.formats.status.failed'), defaultMessage: 'Failed' },
+};
+
+export const FormatsRegeneration = () => {
+  const { formatMessage } = useIntl();
+  const { toggleNotification } = useNotification();
+  const { get, post } = useFetchClient();
+
+  const { data: progress, refetch } = useQuery({
+    queryKey: ['upload', 'settings', 'regenerate-formats'],
+    async queryFn() {
+      const {
+        data: { data },
+      } = await get<GetFormatsRegeneration.Response>('/upload/settings/regenerate-formats');
+
+      return data;
+    },
+    refetchInterval: (data?: FormatsRegenerationProgress) =>
+      data?.status === 'running' ? POLLING_INTERVAL : false,
+  });
+
+  const { mutate, isLoading } = useMutation<
+    RegenerateFormats.Response['data'],
+    RegenerateFormats.Response['error'],
+    RegenerateFormats.Request['body']
+  >(
+    async (body) => {
+      const { data } = await post('/upload/settings/regenerate-formats', body);
+
+      return data;
+    },
+    {
+      onSuccess() {
+        refetch();
+      },
+      onError() {
+        toggleNotification({
+          type: 'danger',
+          message: formatMessage({ id: 'notification.error' }),
+        });
+      },
+    }
+  );
+
+  const isRunning = progress?.status === 'running';
+  const canResume = progress?.status === 'interrupted' || progress?.status === 'failed';
+
+  return (
+    <Box background="neutral0" padding={6} shadow="filterShadow" hasRadius>
+      <Flex direction="column" alignItems="stretch" gap={4}>
+        <Flex justifyContent="space-between">
+          <Flex direction="column" alignItems="flex-start" gap={1}>
+            <Typography variant="delta" tag="h2">
+              {formatMessage({
+                id: getTrad('settings.formats.title'),
+                defaultMessage: 'Image formats',
+              })}
+            </Typography>
+            <Typography variant="pi" textColor="neutral600">
+              {formatMessage({
+                id: getTrad('settings.formats.description'),
+                defaultMessage:
+                  'Generate the missing or outdated formats of the existing images after a change of the breakpoints or of the crop presets.',
+              })}
+            </Typography>
+          </Flex>
+          <Flex gap={2}>
+            {canResume && (
+              <Button
+                type="button"
+                variant="secondary"
+                size="S"
+                disabled={isLoading}
+                onClick={() => mutate({ restart: true })}
+              >
+                {formatMessage({
+                  id: getTrad('settings.formats.restart'),
+                  defaultMessage: 'Start over',
+                })}
+              </Button>
+            )}
+            <Button
+              type="button"
+              variant="secondary"
+              size="S"
+              startIcon={<ArrowClockwise />}
+              loading={isLoading || isRunning}
+              onClick={() => mutate({})}
+            >
+              {canResume
+                ? formatMessage({
+                    id: getTrad('settings.formats.resume'),
+                    defaultMessage: 'Resume',
+                  })
+                : formatMessage({
+                    id: getTrad('settings.formats.regenerate'),
+                    defaultMessage: 'Regenerate formats',
+                  })}
+            </Button>
+          </Flex>
+        </Flex>
+        {progress && progress.status !== 'idle' && (
+          <Flex direction="column" alignItems="stretch" gap={2}>
+            {progress.total > 0 && (
+              <ProgressBar
+                value={Math.round((progress.processed / progress.total) * 100)}
+                size="S"
+              />
+            )}
+            <Typography variant="pi" textColor="neutral600">
+              {`${formatMessage(STATUS_MESSAGES[progress.status])} · `}
+              {formatMessage(
+                {
+                  id: getTrad('settings.formats.progress'),
+                  defaultMessage:
+                    '{processed}/{total} images processed, {updated} updated, {failed} failed',
+                },
+                {
+                  processed: progress.processed,
+                  total: progress.total,
+                  updated: progress.updated,
+                  failed: progress.failed,
+                }
+              )}
+            </Typography>
+          </Flex>
+        )}
+      </Flex>
+    </Box>
+  );
+};
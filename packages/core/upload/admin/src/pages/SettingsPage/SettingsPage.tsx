@@ -12,6 +12,7 @@ import { UpdateSettings } from '../../../../shared/contracts/settings';
 import { PERMISSIONS } from '../../constants';
 import { getTrad } from '../../utils';
 
+import { FormatsRegeneration } from './FormatsRegeneration';
 import { init } from './init';
 import { initialState, reducer } from './reducer';
 
@@ -249,6 +250,7 @@ export const SettingsPage = () => {
                   </Grid.Root>
                 </Flex>
               </Box>
+              <FormatsRegeneration />
             </Flex>
           </Layouts.Root>
         </Layouts.Content>
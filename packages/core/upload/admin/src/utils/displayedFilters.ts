@@ -26,4 +26,16 @@ export const displayedFilters = [
     },
     metadatas: { label: 'type' },
   },
+  {
+    // not an attribute, the server filters the files by their usage in the entries
+    name: 'usage',
+    fieldSchema: {
+      type: 'enumeration',
+      options: [
+        { label: 'used', value: 'used' },
+        { label: 'unused', value: 'unused' },
+      ],
+    },
+    metadatas: { label: 'usage' },
+  },
 ];
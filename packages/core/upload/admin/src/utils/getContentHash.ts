@@ -0,0 +1,10 @@
+/**
+ * Computes the SHA-256 hash of the content of a file, as the server does on upload
+ */
+export const getContentHash = async (file: Blob) => {
+  const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -11,6 +11,7 @@ export * from './getAllowedFiles';
 export * from './getAPIInnerErrors';
 export * from './getBreadcrumbDataCM';
 export * from './getBreadcrumbDataML';
+export * from './getContentHash';
 export * from './getFileExtension';
 export * from './getFolderParents';
 export * from './getFolderURL';
@@ -26,6 +26,13 @@ const handlers = [
   rest.put('/upload/configuration', async (req, res, ctx) => {
     return res(ctx.status(200));
   }),
+  rest.get('/upload/crop-presets', async (req, res, ctx) => {
+    return res(
+      ctx.json({
+        data: {},
+      })
+    );
+  }),
   rest.get('/upload/folders/:id', async (req, res, ctx) => {
     return res(
       ctx.json({
@@ -163,7 +170,38 @@ const handlers = [
       })
     );
   }),
+  rest.get('/upload/settings/regenerate-formats', async (req, res, ctx) => {
+    return res(
+      ctx.json({
+        data: {
+          status: 'idle',
+          lastId: 0,
+          total: 0,
+          processed: 0,
+          updated: 0,
+          failed: 0,
+        },
+      })
+    );
+  }),
 
+  rest.get('/upload/files/:id/usages', async (req, res, ctx) => {
+    return res(ctx.json({ data: [], meta: { total: 0 } }));
+  }),
+  rest.post('/upload/actions/count-usages', async (req, res, ctx) => {
+    return res(ctx.json({ data: {} }));
+  }),
+  rest.get('/upload/duplicates', async (req, res, ctx) => {
+    return res(
+      ctx.json({
+        results: [],
+        pagination: { page: 1, pageSize: 10, pageCount: 0, total: 0 },
+      })
+    );
+  }),
+  rest.post('/upload/duplicates/actions/check', async (req, res, ctx) => {
+    return res(ctx.json({ data: [] }));
+  }),
   rest.get('/upload/folder-structure', (req, res, ctx) => {
     return res(
       ctx.json({
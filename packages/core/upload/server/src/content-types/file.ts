@@ -46,11 +46,23 @@ export default {
         type: 'json',
         configurable: false,
       },
+      focalPoint: {
+        type: 'json',
+        configurable: false,
+      },
+      crops: {
+        type: 'json',
+        configurable: false,
+      },
       hash: {
         type: 'string',
         configurable: false,
         required: true,
       },
+      contentHash: {
+        type: 'string',
+        configurable: false,
+      },
       ext: {
         type: 'string',
         configurable: false,
@@ -135,6 +147,11 @@ export default {
         columns: ['ext'],
         type: null,
       },
+      {
+        name: `upload_files_content_hash_index`,
+        columns: ['content_hash'],
+        type: null,
+      },
     ],
   } satisfies Partial<Struct.CollectionTypeSchema>,
 };
@@ -0,0 +1,115 @@
+import { async } from '@strapi/utils';
+
+import type { Context } from 'koa';
+import type duplicatesService from '../services/duplicates';
+
+import { getService } from '../utils';
+import { ACTIONS, FILE_MODEL_UID } from '../constants';
+import { findEntityAndCheckPermissions } from './utils/find-entity-and-check-permissions';
+import {
+  validateCheckDuplicates,
+  validateFindDuplicates,
+  validateHashMissingFiles,
+  validateMergeDuplicates,
+} from './validation/admin/duplicates';
+
+type DuplicatesGroup = Awaited<
+  ReturnType<ReturnType<typeof duplicatesService>['findDuplicates']>
+>['results'][number];
+
+const createReadPermissionsManager = (ctx: Context) =>
+  strapi.service('admin::permission').createPermissionsManager({
+    ability: ctx.state.userAbility,
+    action: ACTIONS.read,
+    model: FILE_MODEL_UID,
+  });
+
+export default {
+  /**
+   * Returns the groups of files with the same content
+   */
+  async find(ctx: Context) {
+    const pm = createReadPermissionsManager(ctx);
+
+    if (!pm.isAllowed) {
+      return ctx.forbidden();
+    }
+
+    const { page, pageSize } = await validateFindDuplicates(ctx.query);
+
+    const { results, pagination } = await getService('duplicates').findDuplicates(
+      { page, pageSize },
+      pm.addPermissionsQueryTo({ populate: { folder: true } })
+    );
+
+    ctx.body = {
+      results: await async.map(results, async ({ contentHash, files }: DuplicatesGroup) => ({
+        contentHash,
+        files: await pm.sanitizeOutput(await async.map(files, getService('file').signFileUrls)),
+      })),
+      pagination,
+    };
+  },
+
+  /**
+   * Returns the files with the given content hashes, to warn before uploading a duplicate
+   */
+  async check(ctx: Context) {
+    const pm = createReadPermissionsManager(ctx);
+
+    if (!pm.isAllowed) {
+      return ctx.forbidden();
+    }
+
+    const { hashes } = await validateCheckDuplicates(ctx.request.body);
+
+    const files = await getService('upload').findMany(
+      pm.addPermissionsQueryTo({
+        filters: { contentHash: { $in: hashes } },
+        populate: { folder: true },
+      })
+    );
+
+    const signedFiles = await async.map(files, getService('file').signFileUrls);
+
+    ctx.body = { data: await pm.sanitizeOutput(signedFiles) };
+  },
+
+  /**
+   * Computes the content hash of a batch of the files uploaded before it existed
+   */
+  async hashMissingFiles(ctx: Context) {
+    const { lastId } = await validateHashMissingFiles(ctx.request.body ?? {});
+
+    ctx.body = { data: await getService('duplicates').hashMissingFiles({ lastId }) };
+  },
+
+  /**
+   * Repoints the relations of the duplicates to a file and deletes them
+   */
+  async merge(ctx: Context) {
+    const { userAbility } = ctx.state;
+
+    const { fileId, duplicateIds } = await validateMergeDuplicates(ctx.request.body);
+
+    const { pm } = await findEntityAndCheckPermissions(
+      userAbility,
+      ACTIONS.update,
+      FILE_MODEL_UID,
+      fileId
+    );
+
+    for (const id of duplicateIds) {
+      await findEntityAndCheckPermissions(userAbility, ACTIONS.update, FILE_MODEL_UID, id);
+    }
+
+    const { file, removed } = await getService('duplicates').merge(fileId, duplicateIds);
+
+    ctx.body = {
+      data: {
+        file: await pm.sanitizeOutput(file, { action: ACTIONS.read }),
+        removed: await pm.sanitizeOutput(removed, { action: ACTIONS.read }),
+      },
+    };
+  },
+};
@@ -6,6 +6,7 @@ import type { Context } from 'koa';
 import { getService } from '../utils';
 import { ACTIONS, FILE_MODEL_UID } from '../constants';
 import { findEntityAndCheckPermissions } from './utils/find-entity-and-check-permissions';
+import { addUsageFilters, extractUsageFilters } from './utils/usage-filters';
 
 export default {
   async find(ctx: Context) {
@@ -25,17 +26,21 @@ export default {
       return ctx.forbidden();
     }
 
+    const { query: userQuery, usageFilters } = extractUsageFilters(ctx.query);
+
     // validate the incoming user query params
-    await pm.validateQuery(ctx.query);
+    await pm.validateQuery(userQuery);
 
     const query = await async.pipe(
       // Start by sanitizing the incoming query
       (q) => pm.sanitizeQuery(q),
+      // Add the filters on the usage of the files, removed before the validation
+      (q) => addUsageFilters(q, usageFilters),
       // Add the default query which should not be validated or sanitized
       (q) => merge(defaultQuery, q),
       // Add the dynamic filters based on permissions' conditions
       (q) => pm.addPermissionsQueryTo(q)
-    )(ctx.query);
+    )(userQuery);
 
     const { results: files, pagination } = await getService('upload').findPage(query);
 
@@ -64,6 +69,25 @@ export default {
     ctx.body = await pm.sanitizeOutput(signedFile);
   },
 
+  async findUsages(ctx: Context) {
+    const {
+      state: { userAbility },
+      params: { id },
+    } = ctx;
+
+    await findEntityAndCheckPermissions(userAbility, ACTIONS.read, FILE_MODEL_UID, id);
+
+    const usages = await getService('file').getUsages(id);
+
+    // the entries the user cannot read are only counted
+    ctx.body = {
+      data: usages.filter(({ uid }) =>
+        userAbility.can('plugin::content-manager.explorer.read', uid)
+      ),
+      meta: { total: usages.length },
+    };
+  },
+
   async destroy(ctx: Context) {
     const { id } = ctx.params;
     const { userAbility } = ctx.state;
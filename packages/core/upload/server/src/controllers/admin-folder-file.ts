@@ -5,6 +5,7 @@ import type { Context } from 'koa';
 import { getService } from '../utils';
 import { ACTIONS, FOLDER_MODEL_UID, FILE_MODEL_UID } from '../constants';
 import {
+  validateCountUsages,
   validateDeleteManyFoldersFiles,
   validateMoveManyFoldersFiles,
 } from './validation/admin/folder-file';
@@ -59,6 +60,34 @@ export default {
       },
     };
   },
+  async countUsages(ctx: Context) {
+    const { body } = ctx.request;
+
+    await validateCountUsages(body);
+    const { folderIds = [], fileIds = [] } = body;
+
+    const folders: Folder[] = await strapi.db
+      .query(FOLDER_MODEL_UID)
+      .findMany({ select: ['path'], where: { id: { $in: folderIds } } });
+
+    // the files of the folders and of their subfolders
+    const files: File[] = await strapi.db.query(FILE_MODEL_UID).findMany({
+      select: ['id'],
+      where: {
+        $or: [
+          { id: { $in: fileIds } },
+          ...folders.flatMap(({ path }) => [
+            { folderPath: { $eq: path } },
+            { folderPath: { $startsWith: `${path}/` } },
+          ]),
+        ],
+      },
+    });
+
+    ctx.body = {
+      data: await getService('file').countUsages(files.map(({ id }) => id)),
+    };
+  },
   async moveMany(ctx: Context) {
     const { body } = ctx.request;
     const {
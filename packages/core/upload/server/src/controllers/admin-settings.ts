@@ -1,8 +1,12 @@
 import type { Context } from 'koa';
+import { errors } from '@strapi/utils';
 
 import { getService } from '../utils';
 import { ACTIONS, FILE_MODEL_UID } from '../constants';
 import validateSettings from './validation/admin/settings';
+import validateRegenerateFormats from './validation/admin/regenerate-formats';
+
+const { ApplicationError } = errors;
 
 export default {
   async updateSettings(ctx: Context) {
@@ -35,4 +39,42 @@ export default {
 
     ctx.body = { data };
   },
+
+  async regenerateFormats(ctx: Context) {
+    const {
+      request: { body },
+      state: { userAbility },
+    } = ctx;
+
+    if (userAbility.cannot(ACTIONS.readSettings, FILE_MODEL_UID)) {
+      return ctx.forbidden();
+    }
+
+    const { restart, prune } = await validateRegenerateFormats(body ?? {});
+
+    const formatsService = getService('formats');
+
+    if (await formatsService.isRunning()) {
+      throw new ApplicationError('The formats are already being regenerated');
+    }
+
+    // the regeneration can take a while, its progress is polled with getFormatsRegeneration
+    formatsService.regenerateAll({ restart, prune }).catch((error) => {
+      strapi.log.error(`Could not regenerate the formats: ${error.message}`);
+    });
+
+    ctx.body = { data: await formatsService.getProgress() };
+  },
+
+  async getFormatsRegeneration(ctx: Context) {
+    const {
+      state: { userAbility },
+    } = ctx;
+
+    if (userAbility.cannot(ACTIONS.readSettings, FILE_MODEL_UID)) {
+      return ctx.forbidden();
+    }
+
+    ctx.body = { data: await getService('formats').getProgress() };
+  },
 };
@@ -1,3 +1,4 @@
+import fs from 'fs';
 import _ from 'lodash';
 import utils from '@strapi/utils';
 
@@ -9,7 +10,7 @@ import { FILE_MODEL_UID } from '../constants';
 import { validateUploadBody } from './validation/content-api/upload';
 import { FileInfo } from '../types';
 
-const { ValidationError } = utils.errors;
+const { ValidationError, ForbiddenError } = utils.errors;
 
 export default ({ strapi }: { strapi: Core.Strapi }) => {
   const sanitizeOutput = async (data: unknown | unknown[], ctx: Context) => {
@@ -76,6 +77,38 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
       ctx.body = await sanitizeOutput(file, ctx);
     },
 
+    async transform(ctx: Context) {
+      const {
+        params: { hash },
+        query: { s: signature, ...query },
+      } = ctx;
+
+      const transformService = getService('image-transform');
+      const { enabled, maxAge } = transformService.getConfig();
+
+      if (!enabled) {
+        return ctx.notFound();
+      }
+
+      const params = transformService.parseQuery(query);
+
+      if (!transformService.verify(hash, params, signature)) {
+        throw new ForbiddenError('Invalid signature');
+      }
+
+      const file = await strapi.db.query(FILE_MODEL_UID).findOne({ where: { hash } });
+
+      if (!file) {
+        return ctx.notFound('file.notFound');
+      }
+
+      const { filepath, mime } = await transformService.transform(file, params);
+
+      ctx.type = mime;
+      ctx.set('Cache-Control', `public, max-age=${maxAge}`);
+      ctx.body = fs.createReadStream(filepath);
+    },
+
     async updateFileInfo(ctx: Context) {
       const {
         query: { id },
@@ -1,3 +1,4 @@
+import adminDuplicates from './admin-duplicates';
 import adminFile from './admin-file';
 import adminFolder from './admin-folder';
 import adminFolderFile from './admin-folder-file';
@@ -7,6 +8,7 @@ import contentApi from './content-api';
 import viewConfiguration from './view-configuration';
 
 export const controllers = {
+  'admin-duplicates': adminDuplicates,
   'admin-file': adminFile,
   'admin-folder': adminFolder,
   'admin-folder-file': adminFolderFile,
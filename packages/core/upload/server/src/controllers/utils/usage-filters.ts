@@ -0,0 +1,67 @@
+import { errors } from '@strapi/utils';
+import { getService } from '../../utils';
+
+const USAGE_FILTER = 'usage';
+
+const POSITIVE_OPERATORS = ['$eq', '$contains'];
+const NEGATIVE_OPERATORS = ['$ne', '$notContains'];
+
+type Filter = Record<string, any>;
+
+/**
+ * The usage of a file is not an attribute, its filters are removed from the query
+ * to be replaced by filters on a subquery selecting the used or the unused files once the query is validated.
+ * The admin sends `{ usage: { $contains: 'unused' } }` like for the other enumerations.
+ */
+const extractUsageFilters = (query: Record<string, any>) => {
+  const filters: Filter[] = Object.values(query.filters?.$and ?? {});
+  const usageFilters = filters.filter((filter) => USAGE_FILTER in filter);
+
+  if (usageFilters.length === 0) {
+    return { query, usageFilters };
+  }
+
+  return {
+    query: {
+      ...query,
+      filters: {
+        ...query.filters,
+        $and: filters.filter((filter) => !(USAGE_FILTER in filter)),
+      },
+    },
+    usageFilters,
+  };
+};
+
+const isUsedFilter = (filter: Filter) => {
+  const [operator, value] = Object.entries<string>(filter[USAGE_FILTER] ?? {})[0] ?? [];
+
+  if (
+    ![...POSITIVE_OPERATORS, ...NEGATIVE_OPERATORS].includes(operator) ||
+    !['used', 'unused'].includes(value)
+  ) {
+    throw new errors.ValidationError(`Invalid ${USAGE_FILTER} filter`);
+  }
+
+  return (value === 'used') === POSITIVE_OPERATORS.includes(operator);
+};
+
+const addUsageFilters = (query: Record<string, any>, usageFilters: Filter[]) => {
+  if (usageFilters.length === 0) {
+    return query;
+  }
+
+  const isUsed = usageFilters.map(isUsedFilter);
+
+  return {
+    ...query,
+    filters: {
+      $and: [
+        ...(query.filters ? [query.filters] : []),
+        ...isUsed.map((used) => ({ id: { $in: getService('file').createUsageQuery(used) } })),
+      ],
+    },
+  };
+};
+
+export { extractUsageFilters, addUsageFilters };
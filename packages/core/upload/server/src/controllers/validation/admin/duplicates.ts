@@ -0,0 +1,44 @@
+import { yup, validateYupSchema } from '@strapi/utils';
+
+const findDuplicatesSchema = yup
+  .object({
+    page: yup.number().integer().min(1),
+    pageSize: yup.number().integer().min(1).max(100),
+  })
+  .noUnknown();
+
+const checkDuplicatesSchema = yup
+  .object({
+    hashes: yup
+      .array()
+      .of(
+        yup
+          .string()
+          .matches(/^[a-f0-9]{64}$/)
+          .required()
+      )
+      .max(1000)
+      .required(),
+  })
+  .noUnknown()
+  .required();
+
+const hashMissingFilesSchema = yup
+  .object({
+    lastId: yup.number().integer().min(0),
+  })
+  .noUnknown();
+
+const mergeDuplicatesSchema = yup
+  .object({
+    fileId: yup.strapiID().required(),
+    duplicateIds: yup.array().of(yup.strapiID().required()).min(1).required(),
+  })
+  .noUnknown()
+  .required();
+
+// the query parameters are strings
+export const validateFindDuplicates = validateYupSchema(findDuplicatesSchema, { strict: false });
+export const validateCheckDuplicates = validateYupSchema(checkDuplicatesSchema);
+export const validateHashMissingFiles = validateYupSchema(hashMissingFilesSchema);
+export const validateMergeDuplicates = validateYupSchema(mergeDuplicatesSchema);
@@ -94,6 +94,9 @@ export const validateDeleteManyFoldersFiles = validateYupSchema(
   validateDeleteManyFoldersFilesSchema
 );
 
+// the usages are counted before a bulk delete, for the same selection
+export const validateCountUsages = validateYupSchema(validateDeleteManyFoldersFilesSchema);
+
 export async function validateMoveManyFoldersFiles(body: unknown) {
   await validateYupSchema(validateStructureMoveManyFoldersFilesSchema)(body);
   await validateYupSchema(validateDuplicatesMoveManyFoldersFilesSchema)(body);
@@ -0,0 +1,10 @@
+import { yup, validateYupSchema } from '@strapi/utils';
+
+const regenerateFormatsSchema = yup.object({
+  restart: yup.boolean(),
+  prune: yup.boolean(),
+});
+
+export default validateYupSchema(regenerateFormatsSchema);
+
+export type RegenerateFormats = yup.InferType<typeof regenerateFormatsSchema>;
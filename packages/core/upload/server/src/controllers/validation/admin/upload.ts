@@ -1,6 +1,7 @@
 import { yup, validateYupSchema } from '@strapi/utils';
 import { isNil } from 'lodash/fp';
 import { getService } from '../../../utils';
+import { cropsSchema, focalPointSchema } from '../crops';
 
 const fileInfoSchema = yup.object({
   name: yup.string().nullable(),
@@ -18,6 +19,8 @@ const fileInfoSchema = yup.object({
 
       return exists;
     }),
+  focalPoint: focalPointSchema,
+  crops: cropsSchema,
 });
 
 const uploadSchema = yup.object({
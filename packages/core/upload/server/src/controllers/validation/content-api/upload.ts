@@ -1,10 +1,13 @@
 import { yup, validateYupSchema } from '@strapi/utils';
+import { cropsSchema, focalPointSchema } from '../crops';
 
 const fileInfoSchema = yup
   .object({
     name: yup.string().nullable(),
     alternativeText: yup.string().nullable(),
     caption: yup.string().nullable(),
+    focalPoint: focalPointSchema,
+    crops: cropsSchema,
   })
   .noUnknown();
 
@@ -0,0 +1,40 @@
+import { yup } from '@strapi/utils';
+import { mapValues } from 'lodash/fp';
+import { getService } from '../../utils';
+
+const fraction = () => yup.number().min(0).max(1).required();
+
+const focalPointSchema = yup
+  .object({
+    x: fraction(),
+    y: fraction(),
+  })
+  .nullable()
+  .default(undefined);
+
+const cropSchema = yup
+  .object({
+    x: fraction(),
+    y: fraction(),
+    width: yup.number().moreThan(0).max(1).required(),
+    height: yup.number().moreThan(0).max(1).required(),
+  })
+  .test(
+    'crop-in-image',
+    'the crop must be within the image',
+    ({ x = 0, y = 0, width = 0, height = 0 }) => x + width <= 1 && y + height <= 1
+  );
+
+const cropsSchema = yup.lazy((crops) =>
+  yup
+    .object(mapValues(() => cropSchema, crops ?? {}))
+    .nullable()
+    .default(undefined)
+    .test('crop-presets-exist', 'the crop preset does not exist', (value) => {
+      const presets = getService('image-manipulation').getCropPresets();
+
+      return Object.keys(value ?? {}).every((key) => key in presets);
+    })
+);
+
+export { focalPointSchema, cropsSchema };
@@ -27,4 +27,10 @@ export default {
 
     ctx.body = { data };
   },
+
+  async findCropPresets(ctx: Context) {
+    const data = getService('image-manipulation').getCropPresets();
+
+    ctx.body = { data };
+  },
 };
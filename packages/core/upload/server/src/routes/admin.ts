@@ -33,6 +33,38 @@ export const routes = {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/settings/regenerate-formats',
+      handler: 'admin-settings.getFormatsRegeneration',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.settings.read'],
+            },
+          },
+        ],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/settings/regenerate-formats',
+      handler: 'admin-settings.regenerateFormats',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.settings.read'],
+            },
+          },
+        ],
+      },
+    },
     {
       method: 'POST',
       path: '/',
@@ -73,6 +105,22 @@ export const routes = {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/files/:id/usages',
+      handler: 'admin-file.findUsages',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.read'],
+            },
+          },
+        ],
+      },
+    },
     {
       method: 'DELETE',
       path: '/files/:id',
@@ -89,6 +137,70 @@ export const routes = {
         ],
       },
     },
+    {
+      method: 'GET',
+      path: '/duplicates',
+      handler: 'admin-duplicates.find',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.read'],
+            },
+          },
+        ],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/duplicates/actions/check',
+      handler: 'admin-duplicates.check',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.read'],
+            },
+          },
+        ],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/duplicates/actions/hash-missing-files',
+      handler: 'admin-duplicates.hashMissingFiles',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.assets.update'],
+            },
+          },
+        ],
+      },
+    },
+    {
+      method: 'POST',
+      path: '/duplicates/actions/merge',
+      handler: 'admin-duplicates.merge',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.assets.update'],
+            },
+          },
+        ],
+      },
+    },
     {
       method: 'GET',
       path: '/folders/:id',
@@ -185,6 +297,22 @@ export const routes = {
         ],
       },
     },
+    {
+      method: 'POST',
+      path: '/actions/count-usages',
+      handler: 'admin-folder-file.countUsages',
+      config: {
+        policies: [
+          'admin::isAuthenticatedAdmin',
+          {
+            name: 'admin::hasPermissions',
+            config: {
+              actions: ['plugin::upload.read'],
+            },
+          },
+        ],
+      },
+    },
     {
       method: 'POST',
       path: '/actions/bulk-move',
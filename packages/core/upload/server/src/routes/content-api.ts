@@ -21,5 +21,13 @@ export const routes = {
       path: '/files/:id',
       handler: 'content-api.destroy',
     },
+    {
+      method: 'GET',
+      path: '/transform/:hash',
+      handler: 'content-api.transform',
+      config: {
+        auth: false,
+      },
+    },
   ],
 };
@@ -3,6 +3,14 @@ import { ACTIONS } from '../constants';
 export const routes = {
   type: 'admin',
   routes: [
+    {
+      method: 'GET',
+      path: '/crop-presets',
+      handler: 'view-configuration.findCropPresets',
+      config: {
+        policies: ['admin::isAuthenticatedAdmin'],
+      },
+    },
     {
       method: 'GET',
       path: '/configuration',
@@ -0,0 +1,172 @@
+import path from 'path';
+
+import createDuplicatesService from '../duplicates';
+import fileService from '../file';
+
+const CONTENT_HASH = 'a'.repeat(64);
+
+const joinTable = {
+  name: 'files_related_mph',
+  joinColumn: { name: 'file_id' },
+  morphColumn: { idColumn: { name: 'related_id' }, typeColumn: { name: 'related_type' } },
+};
+
+const createQueryBuilder = (rows: any[]) => {
+  const calls: { method: string; args: any[] }[] = [];
+
+  const queryBuilder = () => {
+    const builder: any = {};
+
+    ['select', 'where', 'delete', 'update', 'transacting'].forEach((method) => {
+      builder[method] = (...args: any[]) => {
+        calls.push({ method, args });
+        return builder;
+      };
+    });
+
+    builder.execute = async () => rows;
+
+    return builder;
+  };
+
+  return { queryBuilder, calls };
+};
+
+const createStrapi = ({ files = [], rows = [] }: { files?: any[]; rows?: any[] } = {}) => {
+  const { queryBuilder, calls } = createQueryBuilder(rows);
+  const trx = { get: jest.fn(), commit: jest.fn(), rollback: jest.fn() };
+
+  const upload = {
+    findOne: jest.fn(async (id) => files.find((file) => file.id === Number(id))),
+    findMany: jest.fn(async ({ filters }) =>
+      files.filter((file) => filters.id.$in.map(Number).includes(file.id))
+    ),
+    remove: jest.fn(),
+  };
+
+  const query = {
+    findMany: jest.fn(async ({ where, limit }) =>
+      files.filter((file) => !file.contentHash && file.id > where.id.$gt).slice(0, limit)
+    ),
+    update: jest.fn(async ({ where, data }) => {
+      Object.assign(
+        files.find((file) => file.id === where.id),
+        data
+      );
+    }),
+    count: jest.fn(
+      async ({ where }) =>
+        files.filter((file) => !file.contentHash && file.id > where.id.$gt).length
+    ),
+  };
+
+  return {
+    calls,
+    trx,
+    strapi: {
+      plugins: { upload: { services: { upload, file: fileService } } },
+      dirs: { static: { public: path.join(__dirname, './upload') } },
+      db: {
+        query: () => query,
+        queryBuilder,
+        transaction: async () => trx,
+        metadata: { get: () => ({ attributes: { related: { joinTable } } }) },
+      },
+      log: { error: jest.fn() },
+    } as any,
+  };
+};
+
+describe('Duplicates service', () => {
+  describe('merge', () => {
+    const files = [
+      { id: 1, hash: 'image_1', contentHash: CONTENT_HASH },
+      { id: 2, hash: 'image_2', contentHash: CONTENT_HASH },
+      { id: 3, hash: 'image_3', contentHash: CONTENT_HASH },
+      { id: 4, hash: 'other', contentHash: 'b'.repeat(64) },
+    ];
+
+    test('Repoints the relations of the duplicates and deletes them', async () => {
+      const link = (id: number, fileId: number, relatedId: number, field = 'cover') => ({
+        id,
+        file_id: fileId,
+        related_id: relatedId,
+        related_type: 'api::article.article',
+        field,
+      });
+
+      const { strapi, calls, trx } = createStrapi({
+        files,
+        rows: [
+          link(1, 1, 10),
+          // already linked to the target
+          link(2, 2, 10),
+          link(3, 2, 11),
+          // linked to two of the duplicates
+          link(4, 2, 12),
+          link(5, 3, 12),
+          link(6, 3, 12, 'gallery'),
+        ],
+      });
+      global.strapi = strapi;
+      const service = createDuplicatesService({ strapi });
+
+      const { file, removed } = await service.merge(1, [2, 3]);
+
+      expect(file.id).toBe(1);
+      expect(removed.map(({ id }: any) => id)).toEqual([2, 3]);
+
+      const deleted = calls.findIndex(({ method }) => method === 'delete');
+      expect(calls[deleted + 1].args).toEqual([{ id: { $in: [2, 5] } }]);
+
+      const updated = calls.findIndex(({ method }) => method === 'update');
+      expect(calls[updated].args).toEqual([{ file_id: 1 }]);
+      expect(calls[updated + 1].args).toEqual([{ id: { $in: [3, 4, 6] } }]);
+
+      expect(trx.commit).toHaveBeenCalled();
+      expect(strapi.plugins.upload.services.upload.remove).toHaveBeenCalledTimes(2);
+    });
+
+    test('Only merges files with the same content', async () => {
+      const { strapi } = createStrapi({ files });
+      global.strapi = strapi;
+      const service = createDuplicatesService({ strapi });
+
+      await expect(service.merge(1, [4])).rejects.toThrow(
+        'Only files with the same content can be merged'
+      );
+      await expect(service.merge(1, [1])).rejects.toThrow('No duplicate to merge');
+      expect(strapi.plugins.upload.services.upload.remove).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('hashMissingFiles', () => {
+    test('Computes the content hash of the files without one', async () => {
+      const files = [
+        { id: 1, url: '/image.png', provider: 'local', contentHash: null },
+        { id: 2, url: '/missing.png', provider: 'local', contentHash: null },
+        { id: 3, url: '/image.png', provider: 'local', contentHash: null },
+      ];
+
+      const { strapi } = createStrapi({ files });
+      global.strapi = strapi;
+      const service = createDuplicatesService({ strapi });
+
+      const result = await service.hashMissingFiles({ batchSize: 2 });
+
+      expect(result).toEqual({ lastId: 2, hashed: 1, failed: 1, remaining: 1 });
+      expect(files[0].contentHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(strapi.log.error).toHaveBeenCalledWith(
+        expect.stringContaining('Could not compute the content hash of the file 2')
+      );
+
+      expect(await service.hashMissingFiles({ lastId: result.lastId })).toEqual({
+        lastId: 3,
+        hashed: 1,
+        failed: 0,
+        remaining: 0,
+      });
+      expect(files[2].contentHash).toBe(files[0].contentHash);
+    });
+  });
+});
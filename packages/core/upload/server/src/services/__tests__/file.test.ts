@@ -1,3 +1,5 @@
+import { Readable } from 'stream';
+
 import fileService from '../file';
 
 const folderPath = '/1';
@@ -55,6 +57,14 @@ describe('file', () => {
     });
   });
 
+  describe('getContentHash', () => {
+    test('Computes the SHA-256 hash of the content', async () => {
+      const contentHash = await fileService.getContentHash(Readable.from(['hello ', 'world']));
+
+      expect(contentHash).toBe('b94d27b9934d3e08a52e52d7da7dabfac484efe37a5380ee9088f7ace2efcde9');
+    });
+  });
+
   describe('signFileUrls', () => {
     let provider: any;
     const file = {
@@ -109,4 +119,210 @@ describe('file', () => {
       expect(provider.getSignedUrl).not.toHaveBeenCalled();
     });
   });
+
+  describe('usages', () => {
+    const tables: Record<string, Record<string, any>[]> = {
+      files_related_mph: [
+        // the draft and the published versions of an article
+        { file_id: 1, related_id: 1, related_type: 'api::article.article', field: 'cover' },
+        { file_id: 1, related_id: 2, related_type: 'api::article.article', field: 'cover' },
+        // a component of a dynamic zone of the draft
+        { file_id: 1, related_id: 10, related_type: 'shared.hero', field: 'image' },
+        // a component nested in a component of the home page
+        { file_id: 1, related_id: 20, related_type: 'shared.meta', field: 'image' },
+        // a model that has been deleted
+        { file_id: 1, related_id: 1, related_type: 'api::deleted.deleted', field: 'image' },
+        { file_id: 2, related_id: 3, related_type: 'api::article.article', field: 'cover' },
+      ],
+      articles_cmps: [
+        { entity_id: 1, cmp_id: 10, component_type: 'shared.hero', field: 'blocks' },
+        { entity_id: 1, cmp_id: 10, component_type: 'shared.text', field: 'blocks' },
+      ],
+      homes_cmps: [{ entity_id: 5, cmp_id: 30, field: 'seo' }],
+      components_shared_seos_cmps: [{ entity_id: 30, cmp_id: 20, field: 'share' }],
+    };
+
+    const entries: Record<string, Record<string, any>[]> = {
+      'api::article.article': [
+        { id: 1, documentId: 'article', locale: 'en', title: 'Hello' },
+        { id: 2, documentId: 'article', locale: 'en', title: 'Hello' },
+        { id: 3, documentId: 'other', locale: 'fr', title: 'Bonjour' },
+      ],
+      'api::home.home': [{ id: 5, documentId: 'home' }],
+    };
+
+    const matches = (row: Record<string, any>, where: Record<string, any>) =>
+      Object.entries(where).every(([key, value]) =>
+        value?.$in ? value.$in.includes(row[key]) : row[key] === value
+      );
+
+    const dzJoinTable = (name: string) => ({
+      name,
+      joinColumn: { name: 'entity_id' },
+      morphColumn: { idColumn: { name: 'cmp_id' }, typeColumn: { name: 'component_type' } },
+    });
+
+    const componentJoinTable = (name: string) => ({
+      name,
+      joinColumn: { name: 'entity_id' },
+      inverseJoinColumn: { name: 'cmp_id' },
+    });
+
+    const metadata: Record<string, any> = {
+      'plugin::upload.file': {
+        tableName: 'files',
+        attributes: {
+          related: {
+            joinTable: {
+              name: 'files_related_mph',
+              joinColumn: { name: 'file_id' },
+              morphColumn: {
+                idColumn: { name: 'related_id' },
+                typeColumn: { name: 'related_type' },
+              },
+            },
+          },
+        },
+      },
+      'api::article.article': {
+        attributes: {
+          id: {},
+          documentId: {},
+          locale: {},
+          title: {},
+          blocks: { joinTable: dzJoinTable('articles_cmps') },
+        },
+      },
+      'api::home.home': {
+        attributes: {
+          id: {},
+          documentId: {},
+          seo: { joinTable: componentJoinTable('homes_cmps') },
+        },
+      },
+      'shared.seo': {
+        attributes: { share: { joinTable: componentJoinTable('components_shared_seos_cmps') } },
+      },
+    };
+
+    beforeAll(() => {
+      global.strapi = {
+        contentTypes: {
+          'api::article.article': {
+            uid: 'api::article.article',
+            kind: 'collectionType',
+            info: { displayName: 'Article' },
+            attributes: {
+              title: { type: 'string' },
+              cover: { type: 'media' },
+              blocks: { type: 'dynamiczone', components: ['shared.hero', 'shared.text'] },
+            },
+          },
+          'api::home.home': {
+            uid: 'api::home.home',
+            kind: 'singleType',
+            info: { displayName: 'Home' },
+            attributes: { seo: { type: 'component', component: 'shared.seo' } },
+          },
+        },
+        components: {
+          'shared.hero': { uid: 'shared.hero', attributes: { image: { type: 'media' } } },
+          'shared.text': { uid: 'shared.text', attributes: { body: { type: 'text' } } },
+          'shared.seo': {
+            uid: 'shared.seo',
+            attributes: { share: { type: 'component', component: 'shared.meta' } },
+          },
+          'shared.meta': { uid: 'shared.meta', attributes: { image: { type: 'media' } } },
+        },
+        db: {
+          metadata: { get: (uid: string) => metadata[uid] },
+          queryBuilder(name: string) {
+            let where = {};
+
+            const builder = {
+              select: () => builder,
+              where(value: Record<string, any>) {
+                where = value;
+                return builder;
+              },
+              execute: async () => tables[name].filter((row) => matches(row, where)),
+            };
+
+            return builder;
+          },
+          query: (uid: string) => ({
+            findMany: async ({ where }: any) => entries[uid].filter((row) => matches(row, where)),
+          }),
+          connection: {
+            raw: (sql: string) => ({ raw: sql }),
+            ref: (column: string) => ({ ref: column }),
+          },
+          getConnection(name: string) {
+            const builder: Record<string, any> = { table: name, calls: [] };
+
+            ['select', 'where', 'whereExists', 'whereNotExists'].forEach((method) => {
+              builder[method] = (...args: unknown[]) => {
+                builder.calls.push([method, ...args]);
+                return builder;
+              };
+            });
+
+            return builder;
+          },
+        },
+      } as any;
+    });
+
+    test('Returns the entries using a file through their fields, components and dynamic zones', async () => {
+      expect(await fileService.getUsages(1)).toEqual([
+        {
+          uid: 'api::article.article',
+          kind: 'collectionType',
+          displayName: 'Article',
+          documentId: 'article',
+          locale: 'en',
+          label: 'Hello',
+          fields: ['cover', 'blocks.image'],
+        },
+        {
+          uid: 'api::home.home',
+          kind: 'singleType',
+          displayName: 'Home',
+          documentId: 'home',
+          locale: null,
+          label: null,
+          fields: ['seo.share.image'],
+        },
+      ]);
+    });
+
+    test('Counts the entries using each file', async () => {
+      expect(await fileService.countUsages([1, 2, 3])).toEqual({ 1: 2, 2: 1 });
+    });
+
+    test('Selects the used and the unused files with a subquery on the related files', () => {
+      const links = {
+        table: 'files_related_mph',
+        calls: [
+          ['select', { raw: '1' }],
+          ['where', 'files_related_mph.file_id', { ref: 'files.id' }],
+        ],
+      };
+
+      expect(fileService.createUsageQuery(true)).toMatchObject({
+        table: 'files',
+        calls: [
+          ['select', 'files.id'],
+          ['whereExists', links],
+        ],
+      });
+      expect(fileService.createUsageQuery(false)).toMatchObject({
+        table: 'files',
+        calls: [
+          ['select', 'files.id'],
+          ['whereNotExists', links],
+        ],
+      });
+    });
+  });
 });
@@ -0,0 +1,338 @@
+import path from 'path';
+import _ from 'lodash';
+
+import { FILE_MODEL_UID } from '../../constants';
+import createFormatsService from '../formats';
+import imageManipulation from '../image-manipulation';
+import fileService from '../file';
+
+const image = {
+  id: 1,
+  name: 'image.png',
+  hash: 'image_123',
+  ext: '.png',
+  mime: 'image/png',
+  url: '/image.png',
+  provider: 'local',
+  width: 1417,
+  height: 1063,
+};
+
+const lockOf = (owner: string, lockedUntil: number) => ({
+  id: 1,
+  key: 'plugin_upload_formats_regeneration_lock',
+  value: JSON.stringify({ owner, lockedUntil: new Date(lockedUntil) }),
+});
+
+const createStrapi = ({
+  files = [],
+  store = {},
+  locks = [],
+  config = {},
+}: {
+  files?: any[];
+  store?: Record<string, unknown>;
+  locks?: { id: number; key: string; value: string }[];
+  config?: Record<string, unknown>;
+} = {}) => {
+  const pluginConfig = { 'plugin::upload': { provider: 'local', ...config } };
+
+  const matches = (where: Record<string, unknown>) => (row: Record<string, unknown>) =>
+    Object.entries(where).every(([key, value]) => row[key] === value);
+
+  // the core store rows of the regeneration lock
+  const coreStoreQuery = {
+    findMany: jest.fn(async ({ where }) => locks.filter(matches(where))),
+    create: jest.fn(async ({ data }) => {
+      const row = { id: Math.max(0, ...locks.map(({ id }) => id)) + 1, ...data };
+      locks.push(row);
+      return row;
+    }),
+    updateMany: jest.fn(async ({ where, data }) => {
+      const rows = locks.filter(matches(where));
+      rows.forEach((row) => Object.assign(row, data));
+      return { count: rows.length };
+    }),
+    delete: jest.fn(async ({ where }) => {
+      _.remove(locks, matches(where));
+    }),
+    deleteMany: jest.fn(async ({ where }) => ({ count: _.remove(locks, matches(where)).length })),
+  };
+
+  const query = {
+    count: jest.fn(async () => files.length),
+    findMany: jest.fn(async ({ where, limit }) =>
+      files.filter((file) => file.id > where.id.$gt).slice(0, limit)
+    ),
+    update: jest.fn(async ({ data }) => data),
+  };
+
+  return {
+    plugins: {
+      upload: {
+        provider: { delete: jest.fn() },
+        services: {
+          'image-manipulation': imageManipulation,
+          file: fileService,
+          upload: { getSettings: jest.fn(async () => ({ responsiveDimensions: true })) },
+          provider: { upload: jest.fn() },
+        },
+      },
+    },
+    config: {
+      get: (key: string, defaultValue?: unknown) => _.get(pluginConfig, key, defaultValue),
+    },
+    dirs: {
+      static: { public: path.join(__dirname, './upload') },
+    },
+    db: { query: (uid: string) => (uid === 'strapi::core-store' ? coreStoreQuery : query) },
+    store: () => ({
+      get: async () => store.value,
+      async set({ value }: { value: unknown }) {
+        store.value = _.cloneDeep(value);
+      },
+    }),
+    log: { error: jest.fn() },
+  } as any;
+};
+
+describe('Formats service', () => {
+  describe('getFormatChanges', () => {
+    test('Returns the missing and outdated formats', async () => {
+      global.strapi = createStrapi();
+      const service = createFormatsService({ strapi: global.strapi });
+
+      const file = {
+        ...image,
+        formats: {
+          thumbnail: { width: 208, height: 156 },
+          large: { width: 1000, height: 750 },
+          medium: { width: 700, height: 525 },
+          xlarge: { width: 1200, height: 900 },
+        },
+      };
+
+      expect(await service.getFormatChanges(file)).toEqual({
+        generate: ['medium', 'small'],
+        remove: [],
+      });
+      expect(await service.getFormatChanges(file, { prune: true })).toEqual({
+        generate: ['medium', 'small'],
+        remove: ['xlarge'],
+      });
+    });
+
+    test('Uses the configured breakpoints and crop presets', async () => {
+      global.strapi = createStrapi({
+        config: {
+          breakpoints: { large: 1200 },
+          cropPresets: { square: { width: 500, height: 500 } },
+        },
+      });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      const file = {
+        ...image,
+        formats: {
+          thumbnail: { width: 208, height: 156 },
+          large: { width: 1000, height: 750 },
+          small: { width: 500, height: 375 },
+        },
+      };
+
+      expect(await service.getFormatChanges(file, { prune: true })).toEqual({
+        generate: ['large', 'square'],
+        remove: ['small'],
+      });
+    });
+
+    test('Ignores the files that are not resizable or stored with another provider', async () => {
+      global.strapi = createStrapi();
+      const service = createFormatsService({ strapi: global.strapi });
+
+      const noChanges = { generate: [], remove: [] };
+
+      expect(await service.getFormatChanges({ ...image, mime: 'image/svg+xml' })).toEqual(
+        noChanges
+      );
+      expect(await service.getFormatChanges({ ...image, provider: 'aws-s3' })).toEqual(noChanges);
+    });
+  });
+
+  describe('regenerateFormats', () => {
+    test('Generates the missing formats and deletes the obsolete ones', async () => {
+      global.strapi = createStrapi();
+      const service = createFormatsService({ strapi: global.strapi });
+      const { provider, services } = global.strapi.plugins.upload;
+
+      const xlarge = { width: 1200, height: 900 };
+      const medium = { width: 700, height: 525 };
+
+      const { formats, generated, removed } = await service.regenerateFormats(
+        {
+          ...image,
+          formats: {
+            thumbnail: { width: 208, height: 156 },
+            large: { width: 1000, height: 750 },
+            medium,
+            xlarge,
+          },
+        },
+        { prune: true }
+      );
+
+      expect(generated).toEqual(['medium', 'small']);
+      expect(removed).toEqual(['xlarge']);
+      expect(provider.delete).toHaveBeenCalledWith(xlarge);
+      expect(provider.delete).toHaveBeenCalledWith(medium);
+      expect(services.provider.upload).toHaveBeenCalledTimes(2);
+
+      expect(Object.keys(formats).sort()).toEqual(['large', 'medium', 'small', 'thumbnail']);
+      expect(formats.medium).toMatchObject({ hash: 'medium_image_123', width: 750, height: 563 });
+      expect(formats.small).toMatchObject({ hash: 'small_image_123', width: 500, height: 375 });
+    });
+
+    test('Generates the given formats', async () => {
+      global.strapi = createStrapi({
+        config: { cropPresets: { square: { width: 500, height: 500 } } },
+      });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      const { formats, generated } = await service.regenerateFormats(image, {
+        keys: ['square'],
+      });
+
+      expect(generated).toEqual(['square']);
+      expect(formats.square).toMatchObject({ width: 500, height: 500 });
+    });
+  });
+
+  describe('regenerateAll', () => {
+    const files = [
+      { ...image, id: 1, formats: null },
+      { ...image, id: 2, mime: 'image/svg+xml', formats: null },
+      { ...image, id: 3, url: '/missing.png', formats: null },
+    ];
+
+    test('Regenerates the formats of all the images in batches', async () => {
+      global.strapi = createStrapi({ files });
+      const service = createFormatsService({ strapi: global.strapi });
+      const onProgress = jest.fn();
+
+      const progress = await service.regenerateAll({ batchSize: 2, onProgress });
+
+      expect(progress).toMatchObject({
+        status: 'done',
+        lastId: 3,
+        total: 3,
+        processed: 3,
+        updated: 1,
+        failed: 1,
+      });
+      expect(onProgress).toHaveBeenCalledTimes(2);
+      expect(onProgress).toHaveBeenNthCalledWith(1, expect.objectContaining({ processed: 2 }));
+
+      const query = global.strapi.db.query(FILE_MODEL_UID);
+      expect(query.update).toHaveBeenCalledTimes(1);
+      expect(query.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          formats: expect.objectContaining({
+            thumbnail: expect.any(Object),
+            large: expect.any(Object),
+            medium: expect.any(Object),
+            small: expect.any(Object),
+          }),
+        },
+      });
+
+      expect(global.strapi.log.error).toHaveBeenCalledWith(
+        expect.stringContaining('Could not regenerate the formats of the file 3')
+      );
+      expect(await service.getProgress()).toMatchObject({ status: 'done', processed: 3 });
+    });
+
+    test('Resumes an interrupted regeneration', async () => {
+      const store = {
+        value: { status: 'running', lastId: 2, total: 3, processed: 2, updated: 1, failed: 0 },
+      };
+      global.strapi = createStrapi({ files, store });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      expect(await service.getProgress()).toMatchObject({ status: 'interrupted' });
+
+      const progress = await service.regenerateAll();
+
+      expect(progress).toMatchObject({ status: 'done', lastId: 3, processed: 3, failed: 1 });
+      expect(global.strapi.db.query(FILE_MODEL_UID).findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { mime: { $startsWith: 'image/' }, id: { $gt: 2 } },
+        })
+      );
+    });
+
+    test('Starts over when restart is set', async () => {
+      const store = {
+        value: { status: 'failed', lastId: 2, total: 3, processed: 2, updated: 1, failed: 0 },
+      };
+      global.strapi = createStrapi({ files, store });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      const progress = await service.regenerateAll({ restart: true });
+
+      expect(progress).toMatchObject({ status: 'done', processed: 3, updated: 1, failed: 1 });
+    });
+
+    test('Cannot run twice at the same time', async () => {
+      global.strapi = createStrapi({ files });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      const run = service.regenerateAll();
+
+      await expect(service.regenerateAll()).rejects.toThrow(
+        'The formats are already being regenerated'
+      );
+      expect(await service.isRunning()).toBe(true);
+
+      await run;
+      expect(await service.isRunning()).toBe(false);
+    });
+
+    test('Refuses to run while another process holds the lock', async () => {
+      const store = {
+        value: { status: 'running', lastId: 2, total: 3, processed: 2, updated: 1, failed: 0 },
+      };
+      const locks = [lockOf('other', Date.now() + 60 * 1000)];
+      global.strapi = createStrapi({ files, store, locks });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      expect(await service.isRunning()).toBe(true);
+      expect(await service.getProgress()).toMatchObject({ status: 'running' });
+      await expect(service.regenerateAll()).rejects.toThrow(
+        'The formats are already being regenerated'
+      );
+      expect(global.strapi.db.query(FILE_MODEL_UID).findMany).not.toHaveBeenCalled();
+      expect(locks).toEqual([
+        expect.objectContaining({ value: expect.stringContaining('"owner":"other"') }),
+      ]);
+    });
+
+    test('Takes over the lock of a process which stopped', async () => {
+      const locks = [lockOf('other', Date.now() - 1000)];
+      global.strapi = createStrapi({ files, locks });
+      const service = createFormatsService({ strapi: global.strapi });
+
+      expect(await service.isRunning()).toBe(false);
+
+      const progress = await service.regenerateAll();
+
+      expect(progress).toMatchObject({ status: 'done', processed: 3 });
+      expect(global.strapi.db.query('strapi::core-store').updateMany).toHaveBeenCalledWith({
+        where: { id: 1, value: expect.stringContaining('"owner":"other"') },
+        data: { value: expect.any(String) },
+      });
+      // the lock is released once the formats are regenerated
+      expect(locks).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import os from 'os';
+import path from 'path';
+import fse from 'fs-extra';
+import sharp from 'sharp';
+import _ from 'lodash';
+
+import createImageTransformService from '../image-transform';
+import fileService from '../file';
+
+const imageFilePath = path.join(__dirname, './upload/image.png');
+
+const createStrapi = ({ root, transformations = {} }: { root: string; transformations?: any }) => {
+  const config = {
+    'plugin::upload': { transformations: { enabled: true, secret: 'secret', ...transformations } },
+  };
+
+  return {
+    plugins: { upload: { services: { file: fileService } } },
+    config: {
+      get: (key: string, defaultValue?: unknown) => _.get(config, key, defaultValue),
+    },
+    dirs: {
+      app: { root },
+      static: { public: path.join(__dirname, './upload') },
+    },
+  } as any;
+};
+
+const file = {
+  id: 1,
+  name: 'image.png',
+  hash: 'image_123',
+  ext: '.png',
+  mime: 'image/png',
+  url: '/image.png',
+  provider: 'local',
+};
+
+describe('Image transform service', () => {
+  let root: string;
+  let service: ReturnType<typeof createImageTransformService>;
+
+  beforeEach(async () => {
+    root = await fse.mkdtemp(path.join(os.tmpdir(), 'upload-transform-'));
+    global.strapi = createStrapi({ root });
+    service = createImageTransformService({ strapi: global.strapi });
+  });
+
+  afterEach(async () => {
+    await fse.remove(root);
+  });
+
+  describe('parseQuery', () => {
+    test('Parses the allowed parameters', () => {
+      expect(
+        service.parseQuery({
+          w: '640',
+          h: '320',
+          fit: 'cover',
+          format: 'webp',
+          q: '75',
+          fp: '0.2,1',
+        })
+      ).toEqual({ w: 640, h: 320, fit: 'cover', format: 'webp', q: 75, fp: [0.2, 1] });
+    });
+
+    test.each([
+      [{ w: '650' }, 'Width 650 is not allowed'],
+      [{ h: '-1' }, 'Invalid parameter h'],
+      [{ fit: 'fill' }, 'Fit fill is not allowed'],
+      [{ format: 'tiff' }, 'Format tiff is not allowed'],
+      [{ q: '100' }, 'Quality 100 is not allowed'],
+      [{ fp: '0.5' }, 'Invalid parameter fp'],
+      [{ fp: '0.5,2' }, 'The focal point coordinates must be between 0 and 1'],
+      [{ blur: '10' }, 'Unknown parameter blur'],
+    ])('Rejects %o', (query, message) => {
+      expect(() => service.parseQuery(query)).toThrow(message);
+    });
+
+    test('Uses the configured allow-lists', () => {
+      service = createImageTransformService({
+        strapi: createStrapi({ root, transformations: { widths: [650] } }),
+      });
+
+      expect(service.parseQuery({ w: '650' })).toEqual({ w: 650 });
+    });
+  });
+
+  describe('Signatures', () => {
+    test('Signed urls are verified', () => {
+      const url = new URL(service.getUrl(file, { w: 640, format: 'webp' }), 'http://localhost');
+      const { s, ...query } = Object.fromEntries(url.searchParams);
+
+      expect(url.pathname).toBe('/api/upload/transform/image_123');
+      expect(service.verify('image_123', service.parseQuery(query), s)).toBe(true);
+    });
+
+    test('Signatures are bound to the file and the parameters', () => {
+      const signature = service.sign('image_123', { w: 640 });
+
+      expect(service.verify('image_123', { w: 640 }, signature)).toBe(true);
+      expect(service.verify('image_456', { w: 640 }, signature)).toBe(false);
+      expect(service.verify('image_123', { w: 1280 }, signature)).toBe(false);
+      expect(service.verify('image_123', { w: 640 }, undefined)).toBe(false);
+    });
+
+    test('getUrl rejects the parameters out of the allow-lists', () => {
+      expect(() => service.getUrl(file, { w: 650 })).toThrow('Width 650 is not allowed');
+    });
+  });
+
+  describe('transform', () => {
+    test('Resizes and converts the image, and caches the result', async () => {
+      const result = await service.transform(file, { w: 320, format: 'webp' });
+
+      expect(result.mime).toBe('image/webp');
+
+      const metadata = await sharp(result.filepath).metadata();
+      expect(metadata).toMatchObject({ format: 'webp', width: 320 });
+
+      const { mtimeMs } = await fse.stat(result.filepath);
+      expect(await service.transform(file, { w: 320, format: 'webp' })).toEqual(result);
+      expect((await fse.stat(result.filepath)).mtimeMs).toBe(mtimeMs);
+    });
+
+    test('Crops around the focal point', async () => {
+      const { width, height } = await sharp(imageFilePath).metadata();
+      const { filepath } = await service.transform(file, { w: 320, h: 320, fp: [1, 0] });
+
+      expect(await sharp(filepath).metadata()).toMatchObject({ width: 320, height: 320 });
+
+      // the right edge of the image is kept
+      const expected = await sharp(imageFilePath)
+        .resize(Math.round((width! * 320) / height!), 320)
+        .extract({
+          left: Math.round((width! * 320) / height!) - 320,
+          top: 0,
+          width: 320,
+          height: 320,
+        })
+        .raw()
+        .toBuffer();
+
+      expect(await sharp(filepath).raw().toBuffer()).toEqual(expected);
+    });
+
+    test('Uses the focal point of the file by default', async () => {
+      const { filepath } = await service.transform(file, { w: 320, h: 320, fp: [1, 0] });
+      const result = await service.transform(
+        { ...file, focalPoint: { x: 1, y: 0 } },
+        { w: 320, h: 320 }
+      );
+
+      expect(result.filepath).toBe(filepath);
+    });
+
+    test('Rejects the files that are not transformable images', async () => {
+      await expect(service.transform({ ...file, mime: 'application/pdf' }, {})).rejects.toThrow(
+        "image.png can't be transformed"
+      );
+    });
+
+    test('clearCache removes the cached transformations of a file', async () => {
+      const { filepath } = await service.transform(file, { w: 320 });
+
+      await service.clearCache(file);
+
+      expect(await fse.pathExists(filepath)).toBe(false);
+    });
+  });
+});
@@ -2,6 +2,7 @@ import path from 'path';
 import fs from 'fs';
 import fse from 'fs-extra';
 import _ from 'lodash';
+import sharp from 'sharp';
 import createUploadService from '../../upload';
 import imageManipulation from '../../image-manipulation';
 
@@ -12,7 +13,7 @@ const imageFilePath = path.join(__dirname, './image.png');
 const tmpWorkingDirectory = path.join(__dirname, './tmp');
 
 function mockUploadProvider(uploadFunc: any, props?: any) {
-  const { responsiveDimensions = false } = props || {};
+  const { responsiveDimensions = false, cropPresets } = props || {};
 
   const defaultConfig = {
     'plugin::upload': {
@@ -20,6 +21,7 @@ function mockUploadProvider(uploadFunc: any, props?: any) {
         large: 1000,
         medium: 750,
       },
+      cropPresets,
     },
   };
 
@@ -88,4 +90,40 @@ describe('Upload image', () => {
     // 1 for the original image, 1 for thumbnail, 2 for the responsive formats
     expect(upload).toHaveBeenCalledTimes(4);
   });
+
+  test('Upload with crop presets', async () => {
+    const fileData: any = {
+      ...getFileData(imageFilePath),
+      focalPoint: { x: 0, y: 0.5 },
+      crops: { banner: { x: 0.5, y: 0.5, width: 0.5, height: 0.25 } },
+    };
+    const upload = jest.fn();
+    mockUploadProvider(upload, {
+      cropPresets: { square: { width: 200, height: 200 }, banner: { width: 400, height: 100 } },
+    });
+
+    await uploadService._uploadImage(fileData);
+    // 1 for the original image, 1 for thumbnail, 2 for the crop presets
+    expect(upload).toHaveBeenCalledTimes(4);
+    expect(fileData.formats.square).toMatchObject({ width: 200, height: 200 });
+    expect(fileData.formats.banner).toMatchObject({ width: 400, height: 100 });
+  });
+
+  test('Crop presets keep the area around the focal point', async () => {
+    const { width, height } = await sharp(imageFilePath).metadata();
+    const fileData: any = { ...getFileData(imageFilePath), focalPoint: { x: 0, y: 0.5 } };
+    mockUploadProvider(jest.fn(), { cropPresets: { square: { width: 200, height: 200 } } });
+
+    const [{ file }] = await imageManipulation.generateCropFormats(fileData);
+
+    // the image is landscape, so the whole height is kept from the left edge
+    const size = Math.min(width!, height!);
+    const expected = await sharp(imageFilePath)
+      .extract({ left: 0, top: 0, width: size, height: size })
+      .resize(200, 200)
+      .raw()
+      .toBuffer();
+
+    expect(await sharp(file.filepath).raw().toBuffer()).toEqual(expected);
+  });
 });
@@ -0,0 +1,218 @@
+import { Readable } from 'stream';
+import { errors } from '@strapi/utils';
+
+import type { Core } from '@strapi/types';
+import type { queryParams } from '@strapi/utils';
+
+import { FILE_MODEL_UID } from '../constants';
+import { getService } from '../utils';
+
+import type { File } from '../types';
+
+const { ApplicationError, NotFoundError } = errors;
+
+type ID = string | number;
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const getContentHashColumn = (): string =>
+    // @ts-expect-error - no dynamic typings for the models
+    strapi.db.metadata.get(FILE_MODEL_UID).attributes.contentHash.columnName;
+
+  /**
+   * Returns the content hashes shared by several files
+   */
+  async function findDuplicatedHashes(): Promise<string[]> {
+    const fileTable = strapi.getModel(FILE_MODEL_UID).collectionName!;
+    const contentHashColumn = getContentHashColumn();
+
+    const rows = await strapi.db
+      .getConnection(fileTable)
+      .select(contentHashColumn)
+      .whereNotNull(contentHashColumn)
+      .groupBy(contentHashColumn)
+      .havingRaw('COUNT(*) > 1')
+      .orderBy(contentHashColumn);
+
+    return rows.map((row: Record<string, string>) => row[contentHashColumn]);
+  }
+
+  /**
+   * Returns a page of the groups of files with the same content, the oldest file first
+   */
+  async function findDuplicates(
+    { page = 1, pageSize = 10 }: { page?: number; pageSize?: number } = {},
+    query: queryParams.Params = {}
+  ) {
+    const hashes = await findDuplicatedHashes();
+    const pageHashes = hashes.slice((page - 1) * pageSize, page * pageSize);
+
+    const files = await getService('upload').findMany({
+      ...query,
+      filters: { $and: [query.filters ?? {}, { contentHash: { $in: pageHashes } }] },
+      sort: { createdAt: 'asc' },
+    });
+
+    const results = pageHashes
+      .map((contentHash) => ({
+        contentHash,
+        files: files.filter((file) => file.contentHash === contentHash),
+      }))
+      // the files the user cannot read are not listed
+      .filter((group) => group.files.length > 1);
+
+    return {
+      results,
+      pagination: {
+        page,
+        pageSize,
+        pageCount: Math.ceil(hashes.length / pageSize),
+        total: hashes.length,
+      },
+    };
+  }
+
+  /**
+   * Computes the content hash of the files uploaded before it existed, in batches ordered by id.
+   * Returns the id of the last processed file to resume from.
+   */
+  async function hashMissingFiles({
+    lastId = 0,
+    batchSize = 20,
+  }: { lastId?: number; batchSize?: number } = {}) {
+    const where = { contentHash: { $null: true }, id: { $gt: lastId } };
+
+    const files: File[] = await strapi.db.query(FILE_MODEL_UID).findMany({
+      where,
+      orderBy: { id: 'asc' },
+      limit: batchSize,
+    });
+
+    let failed = 0;
+
+    for (const file of files) {
+      try {
+        const contentHash = await getService('file').getContentHash(
+          Readable.from([await getService('file').readFile(file)])
+        );
+
+        await strapi.db
+          .query(FILE_MODEL_UID)
+          .update({ where: { id: file.id }, data: { contentHash } });
+      } catch (error) {
+        failed += 1;
+        strapi.log.error(
+          `Could not compute the content hash of the file ${file.id}: ${
+            error instanceof Error ? error.message : error
+          }`
+        );
+      }
+    }
+
+    const nextLastId = files.length > 0 ? files[files.length - 1].id : lastId;
+
+    return {
+      lastId: nextLastId,
+      hashed: files.length - failed,
+      failed,
+      remaining: await strapi.db
+        .query(FILE_MODEL_UID)
+        .count({ where: { ...where, id: { $gt: nextLastId } } }),
+    };
+  }
+
+  /**
+   * Repoints all the relations of the duplicates to the target file, then deletes the duplicates
+   */
+  async function merge(targetId: ID, duplicateIds: ID[]) {
+    const upload = getService('upload');
+
+    const target = await upload.findOne(targetId);
+
+    if (!target) {
+      throw new NotFoundError('File not found');
+    }
+
+    const duplicates = await upload.findMany({
+      filters: { id: { $in: duplicateIds.filter((id) => String(id) !== String(target.id)) } },
+    });
+
+    if (duplicates.length === 0) {
+      throw new ApplicationError('No duplicate to merge');
+    }
+
+    if (!target.contentHash || duplicates.some((file) => file.contentHash !== target.contentHash)) {
+      throw new ApplicationError('Only files with the same content can be merged');
+    }
+
+    // @ts-expect-error - no dynamic typings for the models
+    const { joinTable } = strapi.db.metadata.get(FILE_MODEL_UID).attributes.related;
+    const fileColumn = joinTable.joinColumn.name;
+    const idColumn = joinTable.morphColumn.idColumn.name;
+    const typeColumn = joinTable.morphColumn.typeColumn.name;
+
+    const trx = await strapi.db.transaction();
+    try {
+      const rows = await strapi.db
+        .queryBuilder(joinTable.name)
+        .select('*')
+        .where({ [fileColumn]: { $in: [target.id, ...duplicates.map((file) => file.id)] } })
+        .transacting(trx.get())
+        .execute<Record<string, any>[]>();
+
+      const getKey = (row: Record<string, any>) =>
+        [row[typeColumn], row[idColumn], row.field].join(':');
+
+      const linked = new Set(
+        rows.filter((row) => row[fileColumn] === target.id).map((row) => getKey(row))
+      );
+
+      const rowsToDelete: ID[] = [];
+      const rowsToUpdate: ID[] = [];
+
+      // an entity linked to several of the files keeps a single link
+      rows
+        .filter((row) => row[fileColumn] !== target.id)
+        .forEach((row) => {
+          if (linked.has(getKey(row))) {
+            rowsToDelete.push(row.id);
+          } else {
+            linked.add(getKey(row));
+            rowsToUpdate.push(row.id);
+          }
+        });
+
+      if (rowsToDelete.length > 0) {
+        await strapi.db
+          .queryBuilder(joinTable.name)
+          .delete()
+          .where({ id: { $in: rowsToDelete } })
+          .transacting(trx.get())
+          .execute();
+      }
+
+      if (rowsToUpdate.length > 0) {
+        await strapi.db
+          .queryBuilder(joinTable.name)
+          .update({ [fileColumn]: target.id })
+          .where({ id: { $in: rowsToUpdate } })
+          .transacting(trx.get())
+          .execute();
+      }
+
+      await trx.commit();
+    } catch (e) {
+      await trx.rollback();
+      throw e;
+    }
+
+    await Promise.all(duplicates.map((file) => upload.remove(file)));
+
+    return { file: target, removed: duplicates };
+  }
+
+  return {
+    findDuplicates,
+    hashMissingFiles,
+    merge,
+  };
+};
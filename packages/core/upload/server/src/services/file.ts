@@ -1,10 +1,18 @@
+import crypto from 'crypto';
+import path from 'path';
+import fse from 'fs-extra';
+import _ from 'lodash';
 import { cloneDeep } from 'lodash/fp';
 import { async } from '@strapi/utils';
 
+import type { Schema, UID } from '@strapi/types';
+
 import { FOLDER_MODEL_UID, FILE_MODEL_UID } from '../constants';
 import { getService } from '../utils';
 
-import { Config, type File } from '../types';
+import { Config, type File, type FileUsage } from '../types';
+
+type ID = string | number;
 
 const getFolderPath = async (folderId?: number | null) => {
   if (!folderId) return '/';
@@ -52,4 +60,231 @@ const signFileUrls = async (file: File) => {
   return signedFile;
 };
 
-export default { getFolderPath, deleteByIds, signFileUrls };
+/**
+ * Computes the SHA-256 hash of the content of a file, used to find the duplicates
+ */
+const getContentHash = (stream: NodeJS.ReadableStream) =>
+  new Promise<string>((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+
+    stream
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+
+/**
+ * Reads the content of a file, from the public folder with the local provider or from its url otherwise
+ */
+const readFile = async (file: File) => {
+  if (file.provider === 'local') {
+    return fse.readFile(path.join(strapi.dirs.static.public, file.url!));
+  }
+
+  const { url } = await signFileUrls(file);
+  const res = await fetch(url!);
+
+  if (!res.ok) {
+    throw new Error(`Could not fetch ${file.hash}${file.ext}: ${res.status} ${res.statusText}`);
+  }
+
+  return Buffer.from(await res.arrayBuffer());
+};
+
+const getRelatedJoinTable = () =>
+  // @ts-expect-error - no dynamic typings for the models
+  strapi.db.metadata.get(FILE_MODEL_UID).attributes.related.joinTable;
+
+/**
+ * Returns the component and dynamic zone fields of the content types and components that can store a component
+ */
+const getComponentFields = (componentUid: string) =>
+  [...Object.values(strapi.contentTypes), ...Object.values(strapi.components)].flatMap((model) =>
+    Object.entries<Schema.Attribute.AnyAttribute>(model.attributes)
+      .filter(
+        ([, attribute]) =>
+          (attribute.type === 'component' && attribute.component === componentUid) ||
+          (attribute.type === 'dynamiczone' &&
+            (attribute.components as string[]).includes(componentUid))
+      )
+      .map(([name]) => ({ uid: model.uid as string, name }))
+  );
+
+interface Owner {
+  uid: string;
+  id: number;
+  path: string[];
+}
+
+/**
+ * Follows a component up to the entries storing it, through the components it is nested in
+ */
+const findOwners = async ({ uid, id, path }: Owner): Promise<Owner[]> => {
+  if (strapi.contentTypes[uid as UID.ContentType]) {
+    return [{ uid, id, path }];
+  }
+
+  // the relation of a deleted model
+  if (!strapi.components[uid as UID.Component]) {
+    return [];
+  }
+
+  const parents = await Promise.all(
+    getComponentFields(uid).map(async ({ uid: parentUid, name }) => {
+      // @ts-expect-error - no dynamic typings for the models
+      const { joinTable } = strapi.db.metadata.get(parentUid).attributes[name];
+
+      const where = joinTable.morphColumn
+        ? {
+            [joinTable.morphColumn.idColumn.name]: id,
+            [joinTable.morphColumn.typeColumn.name]: uid,
+          }
+        : { [joinTable.inverseJoinColumn.name]: id };
+
+      const rows = await strapi.db
+        .queryBuilder(joinTable.name)
+        .select(joinTable.joinColumn.name)
+        .where({ ...where, field: name })
+        .execute<Record<string, number>[]>();
+
+      return Promise.all(
+        rows.map((row) =>
+          findOwners({ uid: parentUid, id: row[joinTable.joinColumn.name], path: [name, ...path] })
+        )
+      );
+    })
+  );
+
+  return parents.flat(2);
+};
+
+/**
+ * Returns the entries using the files, with the fields using each of them
+ */
+const findUsages = async (fileIds: ID[]) => {
+  const joinTable = getRelatedJoinTable();
+  const fileColumn = joinTable.joinColumn.name;
+  const idColumn = joinTable.morphColumn.idColumn.name;
+  const typeColumn = joinTable.morphColumn.typeColumn.name;
+
+  const rows = await strapi.db
+    .queryBuilder(joinTable.name)
+    .select([fileColumn, idColumn, typeColumn, 'field'])
+    .where({ [fileColumn]: { $in: fileIds } })
+    .execute<Record<string, any>[]>();
+
+  const owners = await Promise.all(
+    rows.map(async (row) => {
+      const rowOwners = await findOwners({
+        uid: row[typeColumn],
+        id: row[idColumn],
+        path: [row.field],
+      });
+
+      return rowOwners.map((owner) => ({ ...owner, fileId: row[fileColumn] as number }));
+    })
+  );
+
+  const ownersByUid = _.groupBy(owners.flat(), 'uid');
+
+  const usages = await Promise.all(
+    Object.entries(ownersByUid).map(async ([uid, uidOwners]) => {
+      const contentType = strapi.contentTypes[uid as UID.ContentType];
+      const { attributes } = strapi.db.metadata.get(uid);
+      const mainField = Object.keys(contentType.attributes).find(
+        (name) => contentType.attributes[name].type === 'string'
+      );
+
+      const entries = await strapi.db.query(uid as UID.ContentType).findMany({
+        select: _.uniq(['id', 'documentId', 'locale', mainField]).filter(
+          (name): name is string => !!name && name in attributes
+        ),
+        where: { id: { $in: _.uniq(uidOwners.map((owner) => owner.id)) } },
+      });
+
+      // the draft and the published versions of an entry are a single usage
+      return Object.values(
+        _.groupBy(uidOwners, (owner) => {
+          const entry = entries.find(({ id }) => id === owner.id);
+
+          return entry && [owner.fileId, entry.documentId, entry.locale].join(':');
+        })
+      ).flatMap((entryOwners) => {
+        const entry = entries.find(({ id }) => id === entryOwners[0].id);
+
+        if (!entry) {
+          return [];
+        }
+
+        return {
+          fileId: entryOwners[0].fileId as number,
+          usage: {
+            uid,
+            kind: contentType.kind,
+            displayName: contentType.info.displayName,
+            documentId: entry.documentId,
+            locale: entry.locale ?? null,
+            label: mainField ? (entry[mainField] ?? null) : null,
+            fields: _.uniq(entryOwners.map((owner) => owner.path.join('.'))),
+          } satisfies FileUsage,
+        };
+      });
+    })
+  );
+
+  return usages.flat();
+};
+
+/**
+ * Returns the entries using a file, directly or through their components and dynamic zones
+ */
+const getUsages = async (fileId: ID): Promise<FileUsage[]> => {
+  const usages = await findUsages([fileId]);
+
+  return usages.map(({ usage }) => usage);
+};
+
+/**
+ * Returns the number of entries using each of the files, the unused files are omitted
+ */
+const countUsages = async (fileIds: ID[]): Promise<Record<number, number>> => {
+  const usages = await findUsages(fileIds);
+
+  return _.mapValues(
+    _.groupBy(usages, 'fileId'),
+    (fileUsages) =>
+      _.uniqBy(fileUsages, ({ usage }) => [usage.uid, usage.documentId].join(':')).length
+  );
+};
+
+/**
+ * Returns a subquery selecting the ids of the files linked (or not) to an entry or a component,
+ * to filter the files on their usage in the database instead of loading the ids of the used files
+ */
+const createUsageQuery = (used: boolean) => {
+  const { tableName } = strapi.db.metadata.get(FILE_MODEL_UID);
+  const joinTable = getRelatedJoinTable();
+
+  const links = strapi.db
+    .getConnection(joinTable.name)
+    .select(strapi.db.connection.raw('1'))
+    .where(
+      `${joinTable.name}.${joinTable.joinColumn.name}`,
+      strapi.db.connection.ref(`${tableName}.id`)
+    );
+
+  const files = strapi.db.getConnection(tableName).select(`${tableName}.id`);
+
+  return used ? files.whereExists(links) : files.whereNotExists(links);
+};
+
+export default {
+  getFolderPath,
+  deleteByIds,
+  signFileUrls,
+  getContentHash,
+  readFile,
+  getUsages,
+  countUsages,
+  createUsageQuery,
+};
@@ -0,0 +1,369 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs';
+import crypto from 'crypto';
+import fse from 'fs-extra';
+import { errors } from '@strapi/utils';
+
+import type { Core } from '@strapi/types';
+
+import { FILE_MODEL_UID } from '../constants';
+import { getService } from '../utils';
+
+import type { Config, File, UploadableFile } from '../types';
+
+const { ApplicationError } = errors;
+
+const RESIZABLE_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/tiff', 'image/gif'];
+
+// formats can be a pixel off, depending on how the image was resized
+const DIMENSIONS_TOLERANCE = 1;
+
+type Format = { width?: number; height?: number };
+
+type FormatChanges = {
+  generate: string[];
+  remove: string[];
+};
+
+type RegenerationProgress = {
+  status: 'idle' | 'running' | 'interrupted' | 'failed' | 'done';
+  lastId: number;
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+  startedAt?: string;
+  finishedAt?: string;
+};
+
+type RegenerateAllOptions = {
+  batchSize?: number;
+  restart?: boolean;
+  prune?: boolean;
+  onProgress?: (progress: RegenerationProgress) => void;
+};
+
+const IDLE_PROGRESS: RegenerationProgress = {
+  status: 'idle',
+  lastId: 0,
+  total: 0,
+  processed: 0,
+  updated: 0,
+  failed: 0,
+};
+
+const IMAGES_FILTER = { mime: { $startsWith: 'image/' } };
+
+// The regeneration lock is a row of the core store held by a single process. Its lease is renewed
+// while the formats are regenerated so that the lock of a process which stopped expires.
+const LOCK_KEY = 'plugin_upload_formats_regeneration_lock';
+const LOCK_DURATION = 10 * 60 * 1000;
+
+type Lock = { id: number; value: string; lockedUntil: number };
+
+const getStore = () =>
+  strapi.store({ type: 'plugin', name: 'upload', key: 'formats_regeneration' });
+
+const isSameSize = (format: Format, expected: { width: number; height: number }) =>
+  Math.abs((format.width ?? 0) - expected.width) <= DIMENSIONS_TOLERANCE &&
+  Math.abs((format.height ?? 0) - expected.height) <= DIMENSIONS_TOLERANCE;
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  // progress of the regeneration running in this process, if any
+  let current: RegenerationProgress | null = null;
+
+  const saveProgress = (progress: RegenerationProgress) => getStore().set({ value: progress });
+
+  const lockQuery = () => strapi.db.query('strapi::core-store');
+
+  const findLocks = (): Promise<{ id: number; value: string }[]> =>
+    lockQuery().findMany({ where: { key: LOCK_KEY }, orderBy: { id: 'asc' } });
+
+  const isExpired = ({ value }: { value: string }) =>
+    new Date(JSON.parse(value).lockedUntil).getTime() <= Date.now();
+
+  const createLockValue = (owner: string) => {
+    const lockedUntil = Date.now() + LOCK_DURATION;
+    return { lockedUntil, value: JSON.stringify({ owner, lockedUntil: new Date(lockedUntil) }) };
+  };
+
+  /**
+   * Takes the regeneration lock, unless another process holds it and its lease hasn't expired
+   */
+  async function acquireLock(): Promise<Lock | null> {
+    const { value, lockedUntil } = createLockValue(crypto.randomUUID());
+    const [lock] = await findLocks();
+
+    if (!lock) {
+      const created = await lockQuery().create({ data: { key: LOCK_KEY, value, type: 'object' } });
+
+      // another process may have created its lock at the same time, the oldest one is kept
+      const [first] = await findLocks();
+      if (first.id !== created.id) {
+        await lockQuery().delete({ where: { id: created.id } });
+        return null;
+      }
+
+      return { id: created.id, value, lockedUntil };
+    }
+
+    if (!isExpired(lock)) {
+      return null;
+    }
+
+    // an expired lock is only taken over if no other process took it over in the meantime
+    const { count } = await lockQuery().updateMany({
+      where: { id: lock.id, value: lock.value },
+      data: { value },
+    });
+
+    return count > 0 ? { id: lock.id, value, lockedUntil } : null;
+  }
+
+  async function extendLock(lock: Lock) {
+    const { owner } = JSON.parse(lock.value);
+    const { value, lockedUntil } = createLockValue(owner);
+
+    const { count } = await lockQuery().updateMany({
+      where: { id: lock.id, value: lock.value },
+      data: { value },
+    });
+
+    if (count === 0) {
+      throw new ApplicationError('The formats regeneration lock expired');
+    }
+
+    Object.assign(lock, { value, lockedUntil });
+  }
+
+  async function releaseLock(lock: Lock) {
+    await lockQuery().deleteMany({ where: { id: lock.id, value: lock.value } });
+  }
+
+  async function isLocked() {
+    const [lock] = await findLocks();
+    return !!lock && !isExpired(lock);
+  }
+
+  /**
+   * Returns the formats of an uploaded image to generate and to remove to match the current
+   * configuration (thumbnail, breakpoints and crop presets).
+   * Only the images stored with the active provider are handled.
+   */
+  async function getFormatChanges(
+    file: File,
+    { prune = false }: { prune?: boolean } = {}
+  ): Promise<FormatChanges> {
+    const config = strapi.config.get<Config>('plugin::upload');
+
+    if (!RESIZABLE_MIME_TYPES.includes(file.mime ?? '') || file.provider !== config.provider) {
+      return { generate: [], remove: [] };
+    }
+
+    const formats = (file.formats ?? {}) as Record<string, Format>;
+    const expected = await getService('image-manipulation').getExpectedFormats(file);
+
+    return {
+      generate: Object.keys(expected).filter(
+        (key) => !formats[key] || !isSameSize(formats[key], expected[key])
+      ),
+      remove: prune ? Object.keys(formats).filter((key) => !expected[key]) : [],
+    };
+  }
+
+  /**
+   * Generates the missing or obsolete formats of an uploaded image from its original, and removes
+   * the ones that are no longer configured when `prune` is set.
+   * The formats are uploaded with the provider but the file entity is not updated.
+   */
+  async function regenerateFormats(
+    file: File,
+    { keys, prune = false }: { keys?: string[]; prune?: boolean } = {}
+  ) {
+    const config = strapi.config.get<Config>('plugin::upload');
+    const { generateFormats, isResizableImage } = getService('image-manipulation');
+
+    const { generate, remove } = keys
+      ? { generate: keys, remove: [] }
+      : await getFormatChanges(file, { prune });
+
+    const formats: Record<string, unknown> = { ...file.formats };
+
+    const deleteFormat = async (key: string) => {
+      if (formats[key] && file.provider === config.provider) {
+        await strapi.plugin('upload').provider.delete(formats[key]);
+      }
+
+      delete formats[key];
+    };
+
+    await Promise.all(remove.map(deleteFormat));
+
+    if (generate.length === 0) {
+      return { formats, generated: [], removed: remove };
+    }
+
+    const tmpWorkingDirectory = await fse.mkdtemp(path.join(os.tmpdir(), 'strapi-upload-'));
+
+    try {
+      const filepath = path.join(tmpWorkingDirectory, `${file.hash}${file.ext}`);
+      await fse.writeFile(filepath, await getService('file').readFile(file));
+
+      const fileData: UploadableFile = {
+        ...file,
+        filepath,
+        tmpWorkingDirectory,
+        getStream: () => fs.createReadStream(filepath),
+      };
+
+      if (!(await isResizableImage(fileData))) {
+        return { formats, generated: [], removed: remove };
+      }
+
+      const newFormats = await generateFormats(fileData, generate);
+
+      await Promise.all(
+        newFormats.map(async ({ key, file: formatFile }) => {
+          await deleteFormat(key);
+          await getService('provider').upload(formatFile);
+          formats[key] = formatFile;
+        })
+      );
+
+      return { formats, generated: newFormats.map(({ key }) => key), removed: remove };
+    } finally {
+      // delete temporary folder
+      await fse.remove(tmpWorkingDirectory);
+    }
+  }
+
+  async function getStoredProgress(): Promise<RegenerationProgress> {
+    const progress = (await getStore().get({})) as RegenerationProgress | null;
+
+    if (!progress) {
+      return { ...IDLE_PROGRESS };
+    }
+
+    // the process stopped while the formats were being regenerated
+    if (progress.status === 'running' && !(await isLocked())) {
+      return { ...progress, status: 'interrupted' };
+    }
+
+    return progress;
+  }
+
+  async function getProgress() {
+    return current ? { ...current } : getStoredProgress();
+  }
+
+  /**
+   * Whether the formats are being regenerated, by this process or by another one
+   */
+  async function isRunning() {
+    return current !== null || isLocked();
+  }
+
+  /**
+   * Regenerates the formats of all the uploaded images, in batches ordered by id.
+   * The progress is saved after each batch so an interrupted regeneration resumes where it
+   * stopped, unless `restart` is set.
+   * Only one process can regenerate the formats at a time, the others are refused.
+   */
+  async function regenerateAll({
+    batchSize = 50,
+    restart = false,
+    prune = false,
+    onProgress,
+  }: RegenerateAllOptions = {}) {
+    const lock = current ? null : await acquireLock();
+
+    if (!lock) {
+      throw new ApplicationError('The formats are already being regenerated');
+    }
+
+    const progress: RegenerationProgress = {
+      ...IDLE_PROGRESS,
+      status: 'running',
+      startedAt: new Date().toISOString(),
+    };
+    current = progress;
+
+    try {
+      const previous = await getStoredProgress();
+
+      // the previous regeneration is still running when it stopped without releasing the lock
+      if (!restart && ['running', 'interrupted', 'failed'].includes(previous.status)) {
+        const { lastId, total, processed, updated, failed, startedAt } = previous;
+        Object.assign(progress, { lastId, total, processed, updated, failed, startedAt });
+      } else {
+        progress.total = await strapi.db.query(FILE_MODEL_UID).count({ where: IMAGES_FILTER });
+      }
+
+      await saveProgress(progress);
+
+      let files: File[];
+      do {
+        files = await strapi.db.query(FILE_MODEL_UID).findMany({
+          where: { ...IMAGES_FILTER, id: { $gt: progress.lastId } },
+          orderBy: { id: 'asc' },
+          limit: batchSize,
+        });
+
+        for (const file of files) {
+          if (Date.now() > lock.lockedUntil - LOCK_DURATION / 2) {
+            await extendLock(lock);
+          }
+
+          try {
+            const { formats, generated, removed } = await regenerateFormats(file, { prune });
+
+            if (generated.length > 0 || removed.length > 0) {
+              await strapi.db.query(FILE_MODEL_UID).update({
+                where: { id: file.id },
+                data: { formats },
+              });
+
+              progress.updated += 1;
+            }
+          } catch (error) {
+            progress.failed += 1;
+            strapi.log.error(
+              `Could not regenerate the formats of the file ${file.id}: ${
+                error instanceof Error ? error.message : error
+              }`
+            );
+          }
+
+          progress.processed += 1;
+          progress.lastId = file.id as number;
+        }
+
+        await saveProgress(progress);
+        onProgress?.({ ...progress });
+      } while (files.length === batchSize);
+
+      progress.status = 'done';
+      progress.finishedAt = new Date().toISOString();
+      await saveProgress(progress);
+
+      return { ...progress };
+    } catch (error) {
+      progress.status = 'failed';
+      await saveProgress(progress);
+
+      throw error;
+    } finally {
+      current = null;
+      await releaseLock(lock);
+    }
+  }
+
+  return {
+    getFormatChanges,
+    regenerateFormats,
+    regenerateAll,
+    getProgress,
+    isRunning,
+  };
+};
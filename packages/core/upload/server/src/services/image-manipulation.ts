@@ -6,7 +6,7 @@ import { strings, file as fileUtils } from '@strapi/utils';
 
 import { getService } from '../utils';
 
-import type { UploadableFile } from '../types';
+import type { CropPreset, File, UploadableFile } from '../types';
 
 type Dimensions = {
   width: number | null;
@@ -64,24 +64,37 @@ const resizeFileTo = async (
   {
     name,
     hash,
+    extract,
   }: {
     name: string;
     hash: string;
+    // area of the image to keep before resizing it
+    extract?: sharp.Region;
   }
 ) => {
   const filePath = file.tmpWorkingDirectory ? join(file.tmpWorkingDirectory, hash) : hash;
 
   let newInfo;
   if (!file.filepath) {
-    const transform = sharp()
-      .resize(options)
-      .on('info', (info) => {
-        newInfo = info;
-      });
+    const transform = sharp();
+
+    if (extract) {
+      transform.extract(extract);
+    }
+
+    transform.resize(options).on('info', (info) => {
+      newInfo = info;
+    });
 
     await writeStreamToFile(file.getStream().pipe(transform), filePath);
   } else {
-    newInfo = await sharp(file.filepath).resize(options).toFile(filePath);
+    const transform = sharp(file.filepath);
+
+    if (extract) {
+      transform.extract(extract);
+    }
+
+    newInfo = await transform.resize(options).toFile(filePath);
   }
 
   const { width, height, size } = newInfo ?? {};
@@ -192,15 +205,20 @@ const DEFAULT_BREAKPOINTS = {
 const getBreakpoints = () =>
   strapi.config.get<Record<string, number>>('plugin::upload.breakpoints', DEFAULT_BREAKPOINTS);
 
+const getCropPresets = () =>
+  strapi.config.get<Record<string, CropPreset>>('plugin::upload.cropPresets', {});
+
 const generateResponsiveFormats = async (file: UploadableFile) => {
   const { responsiveDimensions = false } = (await getService('upload').getSettings()) ?? {};
 
-  if (!responsiveDimensions) return [];
+  const cropFormats = await generateCropFormats(file);
+
+  if (!responsiveDimensions) return cropFormats;
 
   const originalDimensions = await getDimensions(file);
 
   const breakpoints = getBreakpoints();
-  return Promise.all(
+  const breakpointFormats = await Promise.all(
     Object.keys(breakpoints).map((key) => {
       const breakpoint = breakpoints[key];
 
@@ -211,6 +229,8 @@ const generateResponsiveFormats = async (file: UploadableFile) => {
       return undefined;
     })
   );
+
+  return [...breakpointFormats, ...cropFormats];
 };
 
 const generateBreakpoint = async (
@@ -235,6 +255,188 @@ const generateBreakpoint = async (
   };
 };
 
+/**
+ * Returns the area of the image kept for a crop preset: the crop chosen by the editors, or else
+ * the largest area with the aspect ratio of the preset, centered as much as possible on the focal point
+ */
+const getCropArea = (
+  file: UploadableFile,
+  key: string,
+  preset: CropPreset,
+  { width, height }: { width: number; height: number }
+): sharp.Region => {
+  const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), max);
+
+  const crop = file.crops?.[key];
+
+  if (crop) {
+    const left = clamp(crop.x * width, width - 1);
+    const top = clamp(crop.y * height, height - 1);
+
+    return {
+      left,
+      top,
+      width: clamp(crop.width * width, width - left) || 1,
+      height: clamp(crop.height * height, height - top) || 1,
+    };
+  }
+
+  const { x, y } = file.focalPoint ?? { x: 0.5, y: 0.5 };
+  const ratio = preset.width / preset.height;
+  const areaWidth = Math.min(width, Math.round(height * ratio));
+  const areaHeight = Math.min(height, Math.round(width / ratio));
+
+  return {
+    left: clamp(x * width - areaWidth / 2, width - areaWidth),
+    top: clamp(y * height - areaHeight / 2, height - areaHeight),
+    width: areaWidth,
+    height: areaHeight,
+  };
+};
+
+const generateCropFormat = async (
+  key: string,
+  {
+    file,
+    preset,
+    dimensions,
+  }: { file: UploadableFile; preset: CropPreset; dimensions: { width: number; height: number } }
+) => {
+  const newFile = await resizeFileTo(
+    file,
+    {
+      width: preset.width,
+      height: preset.height,
+      fit: 'cover',
+      withoutEnlargement: true,
+    },
+    {
+      name: `${key}_${file.name}`,
+      hash: `${key}_${file.hash}`,
+      extract: getCropArea(file, key, preset, dimensions),
+    }
+  );
+
+  return {
+    key,
+    file: newFile,
+  };
+};
+
+/**
+ * Generates a format for each of the configured crop presets
+ */
+const generateCropFormats = async (file: UploadableFile) => {
+  const presets = getCropPresets();
+
+  if (Object.keys(presets).length === 0) return [];
+
+  const { width, height } = await getDimensions(file);
+
+  if (!width || !height) return [];
+
+  return Promise.all(
+    Object.keys(presets).map((key) =>
+      generateCropFormat(key, { file, preset: presets[key], dimensions: { width, height } })
+    )
+  );
+};
+
+/**
+ * Generates some of the formats of an image, by name
+ */
+const generateFormats = async (file: UploadableFile, keys: string[]) => {
+  const breakpoints = getBreakpoints();
+  const presets = getCropPresets();
+  const { width, height } = await getDimensions(file);
+
+  const formats = await Promise.all(
+    keys.map(async (key) => {
+      if (key === 'thumbnail') {
+        const thumbnail = await generateThumbnail({
+          ...file,
+          width: width ?? 0,
+          height: height ?? 0,
+        });
+        return thumbnail ? { key, file: thumbnail } : undefined;
+      }
+
+      if (key in presets && width && height) {
+        return generateCropFormat(key, {
+          file,
+          preset: presets[key],
+          dimensions: { width, height },
+        });
+      }
+
+      if (key in breakpoints) {
+        return generateBreakpoint(key, { file, breakpoint: breakpoints[key] });
+      }
+
+      return undefined;
+    })
+  );
+
+  return formats.filter((format): format is NonNullable<typeof format> => format !== undefined);
+};
+
+const fitInside = (
+  { width, height }: { width: number; height: number },
+  box: { width: number; height: number }
+) => {
+  const scale = Math.min(box.width / width, box.height / height);
+
+  return { width: Math.round(width * scale), height: Math.round(height * scale) };
+};
+
+/**
+ * Returns the formats an uploaded image should have with the current configuration, by name,
+ * with their expected dimensions
+ */
+const getExpectedFormats = async (
+  file: Pick<File, 'width' | 'height' | 'focalPoint' | 'crops'>
+) => {
+  const { width, height } = file;
+  const formats: Record<string, { width: number; height: number }> = {};
+
+  if (!width || !height) return formats;
+
+  const dimensions = { width, height };
+
+  if (width > THUMBNAIL_RESIZE_OPTIONS.width || height > THUMBNAIL_RESIZE_OPTIONS.height) {
+    formats.thumbnail = fitInside(dimensions, THUMBNAIL_RESIZE_OPTIONS);
+  }
+
+  const { responsiveDimensions = false } = (await getService('upload').getSettings()) ?? {};
+
+  if (responsiveDimensions) {
+    const breakpoints = getBreakpoints();
+
+    Object.keys(breakpoints).forEach((key) => {
+      const breakpoint = breakpoints[key];
+
+      if (breakpointSmallerThan(breakpoint, dimensions)) {
+        formats[key] = fitInside(dimensions, { width: breakpoint, height: breakpoint });
+      }
+    });
+  }
+
+  const presets = getCropPresets();
+
+  Object.keys(presets).forEach((key) => {
+    const preset = presets[key];
+    const area = getCropArea(file as UploadableFile, key, preset, dimensions);
+
+    // the crops are not enlarged
+    formats[key] = {
+      width: Math.min(area.width, preset.width),
+      height: Math.min(area.height, preset.height),
+    };
+  });
+
+  return formats;
+};
+
 const breakpointSmallerThan = (breakpoint: number, { width, height }: Dimensions) => {
   return breakpoint < (width ?? 0) || breakpoint < (height ?? 0);
 };
@@ -309,6 +511,10 @@ export default {
   isImage,
   getDimensions,
   generateResponsiveFormats,
+  generateCropFormats,
+  generateFormats,
+  getCropPresets,
+  getExpectedFormats,
   generateThumbnail,
   optimize,
   generateFileName,
@@ -0,0 +1,302 @@
+import path from 'path';
+import crypto from 'crypto';
+import fse from 'fs-extra';
+import sharp from 'sharp';
+import { errors } from '@strapi/utils';
+import type { Core } from '@strapi/types';
+
+import { getService } from '../utils';
+
+import type { File } from '../types';
+
+const { ValidationError } = errors;
+
+type Fit = keyof sharp.FitEnum;
+type Format = 'webp' | 'avif' | 'jpeg' | 'png';
+
+export interface TransformParams {
+  w?: number;
+  h?: number;
+  fit?: Fit;
+  format?: Format;
+  q?: number;
+  /**
+   * focal point, as fractions of the width and height of the image
+   */
+  fp?: [number, number];
+}
+
+export interface TransformConfig {
+  enabled: boolean;
+  /**
+   * defaults to the first of the server app keys
+   */
+  secret?: string;
+  widths: number[];
+  heights: number[];
+  fits: Fit[];
+  formats: Format[];
+  qualities: number[];
+  /**
+   * relative to the root of the application
+   */
+  cacheDir: string;
+  /**
+   * Cache-Control max-age of the responses, in seconds
+   */
+  maxAge: number;
+}
+
+const DEFAULT_CONFIG: TransformConfig = {
+  enabled: false,
+  widths: [320, 640, 768, 1024, 1280, 1920],
+  heights: [320, 640, 768, 1024, 1280, 1920],
+  fits: ['cover', 'contain', 'inside'],
+  formats: ['webp', 'avif', 'jpeg', 'png'],
+  qualities: [50, 75, 90],
+  cacheDir: '.tmp/upload-transform',
+  maxAge: 24 * 60 * 60,
+};
+
+// the order of the parameters in the signed query
+const PARAMS = ['w', 'h', 'fit', 'format', 'q', 'fp'] as const;
+
+const FORMATS_TO_TRANSFORM = ['jpeg', 'png', 'webp', 'tiff', 'gif', 'avif'];
+
+const isIntegerString = (value: string) => /^\d+$/.test(value);
+
+const serializeParams = (params: TransformParams) => {
+  return PARAMS.filter((key) => params[key] !== undefined)
+    .map((key) => {
+      const value = params[key]!;
+      return `${key}=${encodeURIComponent(Array.isArray(value) ? value.join(',') : value)}`;
+    })
+    .join('&');
+};
+
+/**
+ * Computes the area to keep around the focal point, once the image is resized to cover the requested dimensions
+ */
+const getFocalCrop = (
+  { width, height }: { width: number; height: number },
+  { w, h, fp: [x, y] }: { w: number; h: number; fp: [number, number] }
+) => {
+  const scale = Math.max(w / width, h / height);
+  const resizedWidth = Math.max(Math.round(width * scale), w);
+  const resizedHeight = Math.max(Math.round(height * scale), h);
+
+  const clamp = (value: number, max: number) => Math.min(Math.max(Math.round(value), 0), max);
+
+  return {
+    resize: { width: resizedWidth, height: resizedHeight },
+    extract: {
+      left: clamp(x * resizedWidth - w / 2, resizedWidth - w),
+      top: clamp(y * resizedHeight - h / 2, resizedHeight - h),
+      width: w,
+      height: h,
+    },
+  };
+};
+
+export default ({ strapi }: { strapi: Core.Strapi }) => {
+  const getConfig = (): TransformConfig => ({
+    ...DEFAULT_CONFIG,
+    ...strapi.config.get<Partial<TransformConfig>>('plugin::upload.transformations', {}),
+  });
+
+  const getSecret = () => {
+    const secret =
+      getConfig().secret ?? strapi.config.get<string[] | undefined>('server.app.keys')?.[0];
+
+    if (!secret) {
+      throw new Error(
+        'A secret is required to sign image transformations. Set plugin::upload.transformations.secret or server.app.keys'
+      );
+    }
+
+    return secret;
+  };
+
+  const getCacheDir = () => path.resolve(strapi.dirs.app.root, getConfig().cacheDir);
+
+  const sign = (hash: string, params: TransformParams) => {
+    return crypto
+      .createHmac('sha256', getSecret())
+      .update(`${hash}?${serializeParams(params)}`)
+      .digest('base64url');
+  };
+
+  const verify = (hash: string, params: TransformParams, signature: unknown) => {
+    if (typeof signature !== 'string') {
+      return false;
+    }
+
+    const expected = Buffer.from(sign(hash, params));
+    const actual = Buffer.from(signature);
+
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  };
+
+  const validateParams = (params: TransformParams) => {
+    const { widths, heights, fits, formats, qualities } = getConfig();
+
+    if (params.w !== undefined && !widths.includes(params.w)) {
+      throw new ValidationError(`Width ${params.w} is not allowed`);
+    }
+
+    if (params.h !== undefined && !heights.includes(params.h)) {
+      throw new ValidationError(`Height ${params.h} is not allowed`);
+    }
+
+    if (params.fit !== undefined && !fits.includes(params.fit)) {
+      throw new ValidationError(`Fit ${params.fit} is not allowed`);
+    }
+
+    if (params.format !== undefined && !formats.includes(params.format)) {
+      throw new ValidationError(`Format ${params.format} is not allowed`);
+    }
+
+    if (params.q !== undefined && !qualities.includes(params.q)) {
+      throw new ValidationError(`Quality ${params.q} is not allowed`);
+    }
+
+    if (params.fp !== undefined && params.fp.some((value) => !(value >= 0 && value <= 1))) {
+      throw new ValidationError('The focal point coordinates must be between 0 and 1');
+    }
+
+    return params;
+  };
+
+  /**
+   * Parses and validates the transformation parameters of a request query
+   */
+  const parseQuery = (query: Record<string, unknown>): TransformParams => {
+    const params: TransformParams = {};
+
+    for (const [key, value] of Object.entries(query)) {
+      if (typeof value !== 'string') {
+        throw new ValidationError(`Invalid parameter ${key}`);
+      }
+
+      switch (key) {
+        case 'w':
+        case 'h':
+        case 'q': {
+          if (!isIntegerString(value)) {
+            throw new ValidationError(`Invalid parameter ${key}`);
+          }
+
+          params[key] = Number(value);
+          break;
+        }
+        case 'fit': {
+          params.fit = value as Fit;
+          break;
+        }
+        case 'format': {
+          params.format = value as Format;
+          break;
+        }
+        case 'fp': {
+          const coordinates = value.split(',');
+
+          if (coordinates.length !== 2) {
+            throw new ValidationError(`Invalid parameter ${key}`);
+          }
+
+          params.fp = coordinates.map(Number) as [number, number];
+          break;
+        }
+        default: {
+          throw new ValidationError(`Unknown parameter ${key}`);
+        }
+      }
+    }
+
+    return validateParams(params);
+  };
+
+  /**
+   * Returns the signed url of a transformation of a file
+   */
+  const getUrl = (file: Pick<File, 'hash'>, params: TransformParams) => {
+    validateParams(params);
+
+    const prefix = strapi.config.get<string>('api.rest.prefix', '/api');
+    const query = serializeParams(params);
+    const signature = sign(file.hash, params);
+
+    return `${prefix}/upload/transform/${file.hash}?${query ? `${query}&` : ''}s=${signature}`;
+  };
+
+  /**
+   * Transforms an image, or returns the cached result of a previous identical transformation
+   */
+  const transform = async (file: File, params: TransformParams) => {
+    const originalFormat = file.mime?.split('/')[1];
+
+    if (!originalFormat || !FORMATS_TO_TRANSFORM.includes(originalFormat)) {
+      throw new ValidationError(`${file.name} can't be transformed`);
+    }
+
+    const { w, h, fit = 'cover', q } = params;
+
+    // the focal point chosen by the editors applies, unless another one is requested
+    const fp: TransformParams['fp'] =
+      params.fp ?? (file.focalPoint ? [file.focalPoint.x, file.focalPoint.y] : undefined);
+
+    const format = params.format ?? originalFormat;
+    const mime = `image/${format}`;
+    const key = crypto
+      .createHash('sha1')
+      .update(serializeParams({ ...params, fp }))
+      .digest('hex');
+    const filepath = path.join(getCacheDir(), file.hash, `${key}.${format}`);
+
+    if (await fse.pathExists(filepath)) {
+      return { filepath, mime };
+    }
+
+    const image = sharp(await getService('file').readFile(file));
+
+    if (fp && w && h && fit === 'cover') {
+      const { width, height } = await image.metadata();
+      const { resize, extract } = getFocalCrop(
+        { width: width ?? w, height: height ?? h },
+        { w, h, fp }
+      );
+
+      image.resize(resize).extract(extract);
+    } else if (w || h) {
+      image.resize({ width: w, height: h, fit, withoutEnlargement: true });
+    }
+
+    image.toFormat(format as keyof sharp.FormatEnum, { quality: q });
+
+    await fse.ensureDir(path.dirname(filepath));
+
+    // write to a temporary file first, so that concurrent requests never read a partial result
+    const tmpPath = `${filepath}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await image.toFile(tmpPath);
+    await fse.move(tmpPath, filepath, { overwrite: true });
+
+    return { filepath, mime };
+  };
+
+  /**
+   * Removes the cached transformations of a file
+   */
+  const clearCache = async (file: Pick<File, 'hash'>) => {
+    await fse.remove(path.join(getCacheDir(), file.hash));
+  };
+
+  return {
+    getConfig,
+    sign,
+    verify,
+    parseQuery,
+    getUrl,
+    transform,
+    clearCache,
+  };
+};
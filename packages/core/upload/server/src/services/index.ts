@@ -1,8 +1,11 @@
 import provider from './provider';
 import upload from './upload';
 import imageManipulation from './image-manipulation';
+import imageTransform from './image-transform';
 import folder from './folder';
 import file from './file';
+import duplicates from './duplicates';
+import formats from './formats';
 import weeklyMetrics from './weekly-metrics';
 import metrics from './metrics';
 import apiUploadFolder from './api-upload-folder';
@@ -13,9 +16,12 @@ export const services = {
   upload,
   folder,
   file,
+  duplicates,
+  formats,
   weeklyMetrics,
   metrics,
   'image-manipulation': imageManipulation,
+  'image-transform': imageTransform,
   'api-upload-folder': apiUploadFolder,
   extensions,
 };
@@ -145,6 +145,8 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
       name: usedName,
       alternativeText: fileInfo.alternativeText,
       caption: fileInfo.caption,
+      focalPoint: fileInfo.focalPoint,
+      crops: fileInfo.crops,
       folder: fileInfo.folder,
       folderPath: await fileService.getFolderPath(fileInfo.folder),
       hash: imageManipulationService.generateFileName(basename),
@@ -198,6 +200,9 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
     currentFile.filepath = file.filepath;
     currentFile.getStream = () => fs.createReadStream(file.filepath);
 
+    // hash of the uploaded content, before any optimization, to find the duplicates
+    currentFile.contentHash = await getService('file').getContentHash(currentFile.getStream());
+
     const { optimize, isImage, isFaultyImage, isOptimizableImage } = strapi
       .plugin('upload')
       .service('image-manipulation');
@@ -334,9 +339,27 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
     return add(fileData, { user });
   }
 
+  /**
+   * Generates the crop formats of an uploaded image again, when its focal point or its crops changed.
+   * Returns the updated formats.
+   */
+  async function updateCropFormats(file: File) {
+    const { getCropPresets } = getService('image-manipulation');
+
+    if (!file.mime?.startsWith('image/') || _.isEmpty(getCropPresets())) {
+      return file.formats;
+    }
+
+    const { formats } = await getService('formats').regenerateFormats(file, {
+      keys: Object.keys(getCropPresets()),
+    });
+
+    return formats;
+  }
+
   async function updateFileInfo(
     id: ID,
-    { name, alternativeText, caption, folder }: FileInfo,
+    { name, alternativeText, caption, folder, focalPoint, crops }: FileInfo,
     opts?: CommonOptions
   ) {
     const { user } = opts ?? {};
@@ -350,14 +373,24 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
     const fileService = getService('file');
 
     const newName = _.isNil(name) ? dbFile.name : name;
-    const newInfos = {
+    const newInfos: Partial<File> = {
       name: newName,
       alternativeText: _.isNil(alternativeText) ? dbFile.alternativeText : alternativeText,
       caption: _.isNil(caption) ? dbFile.caption : caption,
       folder: _.isUndefined(folder) ? dbFile.folder : folder,
       folderPath: _.isUndefined(folder) ? dbFile.path : await fileService.getFolderPath(folder),
+      focalPoint: _.isUndefined(focalPoint) ? dbFile.focalPoint : focalPoint,
+      crops: _.isUndefined(crops) ? dbFile.crops : crops,
     };
 
+    if (
+      !_.isEqual(newInfos.focalPoint, dbFile.focalPoint) ||
+      !_.isEqual(newInfos.crops, dbFile.crops)
+    ) {
+      await getService('image-transform').clearCache(dbFile);
+      newInfos.formats = await updateCropFormats({ ...dbFile, ...newInfos });
+    }
+
     return update(id, newInfos, { user });
   }
 
@@ -392,6 +425,12 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
         ext: dbFile.ext,
       });
 
+      // keep the focal point and the crops, unless new ones are given
+      _.defaults(fileData, {
+        focalPoint: dbFile.focalPoint,
+        crops: dbFile.crops,
+      });
+
       // execute delete function of the provider
       if (dbFile.provider === config.provider) {
         await strapi.plugin('upload').provider.delete(dbFile);
@@ -407,6 +446,7 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
 
       // clear old formats
       _.set(fileData, 'formats', {});
+      await getService('image-transform').clearCache(dbFile);
 
       if (await isImage(fileData)) {
         await uploadImage(fileData);
@@ -488,6 +528,8 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
   async function remove(file: File) {
     const config = strapi.config.get<Config>('plugin::upload');
 
+    await getService('image-transform').clearCache(file);
+
     // execute delete function of the provider
     if (file.provider === config.provider) {
       await strapi.plugin('upload').provider.delete(file);
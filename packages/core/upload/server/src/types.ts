@@ -5,6 +5,29 @@ export type InputFile = FormidableFile & {
   tmpWorkingDirectory?: string;
 };
 
+/**
+ * Position of the important region of an image, as fractions of its width and height
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Area of an image kept for a crop preset, as fractions of its width and height
+ */
+export interface Crop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface CropPreset {
+  width: number;
+  height: number;
+}
+
 export interface File {
   id: number;
   name: string;
@@ -13,7 +36,10 @@ export interface File {
   width?: number;
   height?: number;
   formats?: Record<string, unknown>;
+  focalPoint?: FocalPoint | null;
+  crops?: Record<string, Crop> | null;
   hash: string;
+  contentHash?: string | null;
   ext?: string;
   mime?: string;
   size?: number;
@@ -37,6 +63,25 @@ export interface File {
   updatedBy?: number;
 }
 
+/**
+ * An entry using a file, directly or through its components and dynamic zones
+ */
+export interface FileUsage {
+  uid: string;
+  kind: 'collectionType' | 'singleType';
+  displayName: string;
+  documentId: string;
+  locale: string | null;
+  /**
+   * value of the first string attribute, the default main field of the content manager
+   */
+  label: string | null;
+  /**
+   * paths of the fields using the file, e.g. `blocks.image` for a field of a dynamic zone
+   */
+  fields: string[];
+}
+
 export interface Folder {
   id: number;
   name: string;
@@ -73,4 +118,6 @@ export type FileInfo = {
   alternativeText?: string | null;
   caption?: string | null;
   folder?: number;
+  focalPoint?: FocalPoint | null;
+  crops?: Record<string, Crop> | null;
 };
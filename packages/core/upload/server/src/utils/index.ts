@@ -1,9 +1,12 @@
 import type upload from '../services/upload';
 import type imageManipulation from '../services/image-manipulation';
+import type imageTransform from '../services/image-transform';
 import type apiUploadFolder from '../services/api-upload-folder';
 import type provider from '../services/provider';
 import type folder from '../services/folder';
 import type file from '../services/file';
+import type duplicates from '../services/duplicates';
+import type formats from '../services/formats';
 import type weeklyMetrics from '../services/weekly-metrics';
 import type metrics from '../services/metrics';
 import type extensions from '../services/extensions';
@@ -11,9 +14,12 @@ import type extensions from '../services/extensions';
 type Services = {
   upload: ReturnType<typeof upload>;
   'image-manipulation': typeof imageManipulation;
+  'image-transform': ReturnType<typeof imageTransform>;
   provider: ReturnType<typeof provider>;
   folder: typeof folder;
   file: typeof file;
+  duplicates: ReturnType<typeof duplicates>;
+  formats: ReturnType<typeof formats>;
   weeklyMetrics: ReturnType<typeof weeklyMetrics>;
   metrics: ReturnType<typeof metrics>;
   'api-upload-folder': typeof apiUploadFolder;
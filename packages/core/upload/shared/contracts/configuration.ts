@@ -33,6 +33,29 @@ export declare namespace GetConfiguration {
   }
 }
 
+export interface CropPreset {
+  width: number;
+  height: number;
+}
+
+/**
+ * GET /upload/crop-presets
+ *
+ * Return the crop presets configured for the images, by name.
+ */
+export declare namespace GetCropPresets {
+  export interface Request {
+    query?: {};
+  }
+
+  export interface Response {
+    data: {
+      data: Record<string, CropPreset>;
+    };
+    error?: errors.ApplicationError;
+  }
+}
+
 /**
  * PUT /upload/configuration
  *
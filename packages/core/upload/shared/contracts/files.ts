@@ -56,6 +56,24 @@ type FileFormat = {
   url: string;
 };
 
+/**
+ * Position of the important region of an image, as fractions of its width and height
+ */
+export interface FocalPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Area of an image kept for a crop preset, as fractions of its width and height
+ */
+export interface Crop {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
 export interface File {
   id: number;
   name: string;
@@ -63,6 +81,8 @@ export interface File {
   caption?: string | null;
   width?: number | null;
   height?: number | null;
+  focalPoint?: FocalPoint | null;
+  crops?: Record<string, Crop> | null;
   formats?:
     | Record<string, FileFormat>
     | {
@@ -72,6 +92,7 @@ export interface File {
       }
     | null;
   hash: string;
+  contentHash?: string | null;
   ext?: string;
   mime?: string;
   size?: number;
@@ -234,3 +255,144 @@ export declare namespace UpdateFile {
     error?: errors.ApplicationError | errors.ValidationError;
   }
 }
+
+/**
+ * An entry using a file, directly or through its components and dynamic zones
+ */
+export interface FileUsage {
+  uid: string;
+  kind: 'collectionType' | 'singleType';
+  displayName: string;
+  documentId: string;
+  locale: string | null;
+  label: string | null;
+  fields: string[];
+}
+
+/**
+ * GET /upload/files/:id/usages - Get the entries using a file
+ */
+export declare namespace GetFileUsages {
+  export interface Request {
+    params: { id: number };
+    query: {};
+  }
+
+  export interface Response {
+    data: {
+      data: FileUsage[];
+      /**
+       * the entries the user cannot read are counted in the total but not listed
+       */
+      meta: { total: number };
+    };
+    error?: errors.ApplicationError | errors.NotFoundError;
+  }
+}
+
+/**
+ * POST /upload/actions/count-usages - Count the entries using each file, with the files of the folders
+ */
+export declare namespace CountUsages {
+  export interface Request {
+    body: {
+      fileIds?: number[];
+      folderIds?: number[];
+    };
+  }
+
+  export interface Response {
+    data: {
+      data: Record<number, number>;
+    };
+    error?: errors.ApplicationError | errors.ValidationError;
+  }
+}
+
+export interface Duplicates {
+  contentHash: string;
+  files: File[];
+}
+
+/**
+ * GET /upload/duplicates - Get the groups of files with the same content
+ */
+export declare namespace GetDuplicates {
+  export interface Request {
+    query: {
+      page?: number;
+      pageSize?: number;
+    };
+  }
+
+  export interface Response {
+    data: {
+      results: Duplicates[];
+      pagination: Pagination;
+    };
+    error?: errors.ApplicationError | errors.ValidationError;
+  }
+}
+
+/**
+ * POST /upload/duplicates/actions/check - Get the files with the given content hashes
+ */
+export declare namespace CheckDuplicates {
+  export interface Request {
+    body: {
+      hashes: string[];
+    };
+  }
+
+  export interface Response {
+    data: {
+      data: File[];
+    };
+    error?: errors.ApplicationError | errors.ValidationError;
+  }
+}
+
+/**
+ * POST /upload/duplicates/actions/hash-missing-files - Compute the content hash of a batch of files
+ */
+export declare namespace HashMissingFiles {
+  export interface Request {
+    body: {
+      lastId?: number;
+    };
+  }
+
+  export interface Response {
+    data: {
+      data: {
+        lastId: number;
+        hashed: number;
+        failed: number;
+        remaining: number;
+      };
+    };
+    error?: errors.ApplicationError | errors.ValidationError;
+  }
+}
+
+/**
+ * POST /upload/duplicates/actions/merge - Repoint the relations of the duplicates to a file and delete them
+ */
+export declare namespace MergeDuplicates {
+  export interface Request {
+    body: {
+      fileId: number;
+      duplicateIds: number[];
+    };
+  }
+
+  export interface Response {
+    data: {
+      data: {
+        file: File;
+        removed: File[];
+      };
+    };
+    error?: errors.ApplicationError | errors.ValidationError | errors.NotFoundError;
+  }
+}
@@ -45,3 +45,49 @@ export declare namespace UpdateSettings {
     { error?: errors.ApplicationError | errors.ValidationError }
   >;
 }
+
+export interface FormatsRegeneration {
+  status: 'idle' | 'running' | 'interrupted' | 'failed' | 'done';
+  lastId: number;
+  total: number;
+  processed: number;
+  updated: number;
+  failed: number;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+/**
+ * GET /upload/settings/regenerate-formats
+ *
+ * Return the progress of the regeneration of the formats
+ */
+export declare namespace GetFormatsRegeneration {
+  export interface Request {
+    query?: {};
+  }
+
+  export interface Response {
+    data: FormatsRegeneration;
+  }
+}
+
+/**
+ * POST /upload/settings/regenerate-formats
+ *
+ * Regenerate the formats of the uploaded images in the background.
+ * An interrupted regeneration resumes where it stopped, unless `restart` is set.
+ */
+export declare namespace RegenerateFormats {
+  export interface Request {
+    body: {
+      restart?: boolean;
+      prune?: boolean;
+    };
+  }
+
+  export type Response = Utils.OneOf<
+    { data: FormatsRegeneration },
+    { error?: errors.ApplicationError | errors.ValidationError }
+  >;
+}
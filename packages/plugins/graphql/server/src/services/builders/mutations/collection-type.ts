@@ -9,6 +9,8 @@ export default ({ strapi }: Context) => {
   const { naming } = getService('utils');
   const { args } = getService('internals');
 
+  const getBuildersUtils = () => getService('builders').utils;
+
   const {
     getCreateMutationTypeName,
     getUpdateMutationTypeName,
@@ -39,19 +41,35 @@ export default ({ strapi }: Context) => {
         // Create payload
         status: args.PublicationStatusArg,
         data: nonNull(getContentTypeInputName(contentType)),
+        ...getBuildersUtils().getScheduleArgs(contentType),
       },
 
       async resolve(parent, args, context) {
         const { auth } = context.state;
 
+        const { publishAt, unpublishAt, ...params } = args;
+
         // Sanitize input data
-        const sanitizedInputData = await strapi.contentAPI.sanitize.input(args.data, contentType, {
-          auth,
-        });
+        const sanitizedInputData = await strapi.contentAPI.sanitize.input(
+          params.data,
+          contentType,
+          {
+            auth,
+          }
+        );
+
+        return strapi.db!.transaction(async () => {
+          const document = await strapi.documents!(uid).create({
+            ...params,
+            data: sanitizedInputData,
+          });
+
+          await getBuildersUtils().scheduleDocument(contentType, document, {
+            publishAt,
+            unpublishAt,
+          });
 
-        return strapi.documents!(uid).create({
-          ...args,
-          data: sanitizedInputData,
+          return document;
         });
       },
     });
@@ -79,21 +97,31 @@ export default ({ strapi }: Context) => {
         documentId: nonNull(idArg()),
         status: args.PublicationStatusArg,
         data: nonNull(getContentTypeInputName(contentType)),
+        ...getBuildersUtils().getScheduleArgs(contentType),
       },
 
       async resolve(parent, args, context) {
         const { auth } = context.state;
 
-        const { data, ...restParams } = args;
+        const { data, publishAt, unpublishAt, ...restParams } = args;
 
         // Sanitize input data
         const sanitizedInputData = await strapi.contentAPI.sanitize.input(data, contentType, {
           auth,
         });
 
-        return strapi.documents!(uid).update({
-          ...restParams,
-          data: sanitizedInputData,
+        return strapi.db!.transaction(async () => {
+          const document = await strapi.documents!(uid).update({
+            ...restParams,
+            data: sanitizedInputData,
+          });
+
+          await getBuildersUtils().scheduleDocument(contentType, document, {
+            publishAt,
+            unpublishAt,
+          });
+
+          return document;
         });
       },
     });
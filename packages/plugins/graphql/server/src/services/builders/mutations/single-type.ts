@@ -12,6 +12,8 @@ export default ({ strapi }: Context) => {
   const { naming } = getService('utils');
   const { args } = getService('internals');
 
+  const getBuildersUtils = () => getService('builders').utils;
+
   const {
     getUpdateMutationTypeName,
     getTypeName,
@@ -41,29 +43,43 @@ export default ({ strapi }: Context) => {
         // Update payload
         status: args.PublicationStatusArg,
         data: nonNull(getContentTypeInputName(contentType)),
+        ...getBuildersUtils().getScheduleArgs(contentType),
       },
 
       async resolve(parent, args, context) {
         const { auth } = context.state;
 
-        // Sanitize input data
-        const sanitizedInputData = await strapi.contentAPI.sanitize.input(args.data, contentType, {
-          auth,
-        });
-
-        const document = await strapi.db?.query(uid).findOne();
+        const { publishAt, unpublishAt, ...params } = args;
 
-        if (document) {
-          return strapi.documents!(uid).update({
-            ...args,
-            documentId: document.documentId,
-            data: sanitizedInputData,
+        // Sanitize input data
+        const sanitizedInputData = await strapi.contentAPI.sanitize.input(
+          params.data,
+          contentType,
+          {
+            auth,
+          }
+        );
+
+        return strapi.db!.transaction(async () => {
+          const existingDocument = await strapi.db?.query(uid).findOne();
+
+          const document = existingDocument
+            ? await strapi.documents!(uid).update({
+                ...params,
+                documentId: existingDocument.documentId,
+                data: sanitizedInputData,
+              })
+            : await strapi.documents!(uid).create({
+                ...params,
+                data: sanitizedInputData,
+              });
+
+          await getBuildersUtils().scheduleDocument(contentType, document, {
+            publishAt,
+            unpublishAt,
           });
-        }
 
-        return strapi.documents!(uid).create({
-          ...args,
-          data: sanitizedInputData,
+          return document;
         });
       },
     });
@@ -1,6 +1,6 @@
 import { entries, mapValues, omit } from 'lodash/fp';
 import { idArg, nonNull } from 'nexus';
-import { pagination } from '@strapi/utils';
+import { contentTypes, pagination } from '@strapi/utils';
 import type { Core, Struct } from '@strapi/types';
 
 const { withDefaultPagination } = pagination;
@@ -70,6 +70,43 @@ export default ({ strapi }: { strapi: Core.Strapi }) => {
       }
     },
 
+    /**
+     * Args scheduling the publication and unpublication of a document from its mutations,
+     * available for the content types with draft and publish only
+     */
+    getScheduleArgs(contentType: Struct.ContentTypeSchema) {
+      const { args } = getService('internals');
+
+      if (!contentTypes.hasDraftAndPublish(contentType)) {
+        return {};
+      }
+
+      return {
+        publishAt: args.ScheduleDateArg,
+        unpublishAt: args.ScheduleDateArg,
+      };
+    },
+
+    /**
+     * Apply the schedule args of a mutation to the document it saved
+     */
+    async scheduleDocument(
+      contentType: Struct.ContentTypeSchema,
+      document: { documentId: string; locale?: string | null } | null,
+      { publishAt, unpublishAt }: { publishAt?: Date | null; unpublishAt?: Date | null }
+    ) {
+      if (!document || (publishAt === undefined && unpublishAt === undefined)) {
+        return;
+      }
+
+      await strapi.documents(contentType.uid).schedule({
+        documentId: document.documentId,
+        locale: document.locale ?? undefined,
+        publishAt,
+        unpublishAt,
+      });
+    },
+
     /**
      * Filter an object entries and keep only those whose value is a unique scalar attribute
      */
@@ -1,10 +1,12 @@
 import SortArg from './sort';
 import publicationStatus from './publication-status';
 import PaginationArg from './pagination';
+import ScheduleDateArg from './schedule-date';
 import type { Context } from '../../types';
 
 export default (context: Context) => ({
   SortArg,
   PaginationArg,
+  ScheduleDateArg,
   PublicationStatusArg: publicationStatus(context),
 });
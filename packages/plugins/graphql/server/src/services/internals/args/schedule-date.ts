@@ -0,0 +1,7 @@
+import { arg } from 'nexus';
+
+const ScheduleDateArg = arg({
+  type: 'DateTime',
+});
+
+export default ScheduleDateArg;
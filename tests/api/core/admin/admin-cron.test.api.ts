@@ -0,0 +1,59 @@
+import type { Core } from '@strapi/types';
+
+import { createStrapiInstance } from 'api-tests/strapi';
+import { createAuthRequest } from 'api-tests/request';
+
+let rq;
+let strapi: Core.Strapi;
+
+describe('Admin API Cron', () => {
+  beforeAll(async () => {
+    strapi = await createStrapiInstance();
+    rq = await createAuthRequest({ strapi });
+
+    strapi.cron.add({
+      testTask: {
+        task: async () => {},
+        options: '0 0 1 1 *',
+        lock: true,
+      },
+    });
+  });
+
+  afterAll(async () => {
+    strapi.cron.remove('testTask');
+    await strapi.destroy();
+  });
+
+  test('Lists the named cron tasks', async () => {
+    const res = await rq({ url: '/admin/cron/tasks', method: 'GET' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({
+          name: 'testTask',
+          options: '0 0 1 1 *',
+          lock: true,
+          history: true,
+        }),
+      ])
+    );
+  });
+
+  test('Lists the runs of a cron task', async () => {
+    await strapi.cron.jobs.find(({ name }) => name === 'testTask')!.job.invoke(new Date());
+
+    const res = await rq({ url: '/admin/cron/runs?name=testTask', method: 'GET' });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body.data).toMatchObject([{ name: 'testTask', status: 'success' }]);
+    expect(res.body.meta.pagination).toMatchObject({ page: 1, total: 1 });
+  });
+
+  test('Validates the runs query', async () => {
+    const res = await rq({ url: '/admin/cron/runs?status=unknown', method: 'GET' });
+
+    expect(res.statusCode).toBe(400);
+  });
+});
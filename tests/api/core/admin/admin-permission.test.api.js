@@ -385,6 +385,12 @@ describe('Role CRUD End to End', () => {
                 "displayName": "Read",
                 "subCategory": "options",
               },
+              {
+                "action": "admin::cron.read",
+                "category": "cron",
+                "displayName": "Read",
+                "subCategory": "general",
+              },
               {
                 "action": "admin::marketplace.read",
                 "category": "plugins and marketplace",
@@ -965,6 +971,12 @@ describe('Role CRUD End to End', () => {
                 "displayName": "Update",
                 "subCategory": "general",
               },
+              {
+                "action": "admin::cron.read",
+                "category": "cron",
+                "displayName": "Read",
+                "subCategory": "general",
+              },
               {
                 "action": "admin::marketplace.read",
                 "category": "plugins and marketplace",
@@ -135,4 +135,36 @@ describe('Admin API Webhooks', () => {
       ...defaultWebhook,
     });
   });
+
+  test('Can list the deliveries of a webhook', async () => {
+    const { webhook: createdWebhook } = await createWebhook({
+      url: 'https://example.com',
+    });
+
+    const res = await rq({
+      url: `/admin/webhooks/${createdWebhook.id}/deliveries`,
+      method: 'GET',
+    });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({
+      data: [],
+      meta: {
+        pagination: { page: 1, pageSize: 10, total: 0 },
+      },
+    });
+  });
+
+  test('Can not redeliver an unknown delivery', async () => {
+    const { webhook: createdWebhook } = await createWebhook({
+      url: 'https://example.com',
+    });
+
+    const res = await rq({
+      url: `/admin/webhooks/${createdWebhook.id}/deliveries/999999/redeliver`,
+      method: 'POST',
+    });
+
+    expect(res.statusCode).toBe(404);
+  });
 });